@@ -1,28 +1,84 @@
 
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import type { Item, Transaction } from './types';
+import type { Customer, InventorySettings, Item, Location, ProductionRecord, PurchaseOrder, StockTake, Transaction, UserAccount } from './types';
 import AddItemModal from './components/AddItemModal';
 import ItemDetailModal from './components/ItemDetailModal';
+import UserManagementModal from './components/UserManagementModal';
+import AuditLogModal from './components/AuditLogModal';
+import TrashModal from './components/TrashModal';
+import PurchaseOrderModal from './components/PurchaseOrderModal';
+import ValuationReportModal from './components/ValuationReportModal';
+import StockReportModal from './components/StockReportModal';
+import ShortageDashboardModal from './components/ShortageDashboardModal';
+import SerialLookupModal from './components/SerialLookupModal';
+import LocationModal from './components/LocationModal';
+import StockTakeModal from './components/StockTakeModal';
+import CustomerModal from './components/CustomerModal';
+import WarrantyReportModal from './components/WarrantyReportModal';
+import ImportModal from './components/ImportModal';
+import LabelPrintModal from './components/LabelPrintModal';
+import ScanModeModal from './components/ScanModeModal';
+import OfflineQueueModal from './components/OfflineQueueModal';
+import RestoreBackupModal from './components/RestoreBackupModal';
+import {
+  apiFetch, clearSession, loadSession, login, logout, setUnauthorizedHandler, verifyPassword,
+  ApiRequestError, OfflineError, sendQueuedRequest, setHoldChanges,
+  createItemRemote, updateItemRemote, deleteItemRemote, addTransactionsRemote, updateTransactionRemote, deleteTransactionRemote,
+  restoreFromTrash, purgeFromTrash, updateSettingsRemote, createLocationRemote, updateLocationRemote, deleteLocationRemote,
+  createPurchaseOrderRemote, updatePurchaseOrderRemote, deletePurchaseOrderRemote, receivePurchaseOrderRemote, createProductionRemote,
+  createStockTakeRemote, updateStockTakeRemote, approveStockTakeRemote,
+  createCustomerRemote, updateCustomerRemote, deleteCustomerRemote, mergeCustomersRemote, importRemote, restoreBackupRemote
+} from './services/api';
+import type { CustomerMerge, PurchaseOrderReceipt } from './services/api';
+import { enqueueOperation, listOperations, removeOperation, updateOperation } from './services/offlineQueue';
+import type { OperationGuard, QueuedOperation } from './services/offlineQueue';
+import type { BulkImport } from './utils/bulkImport';
+import { itemsSheet, transactionsSheet } from './utils/exportWorkbook';
+import { activeTransactions, generateId, calculateStock, collectSerials, sortItemsByCode, visibleItems, stockBalance, DEFAULT_SETTINGS } from './utils/inventory';
+import { locationLabel, sortLocations } from './utils/locations';
+import { onOrderByItem, receivedByLine } from './utils/purchaseOrders';
+import { checkOperation, fieldsBefore } from './utils/offlineSync';
+import { shortageList } from './utils/reorder';
+import { downloadXlsx } from './utils/spreadsheet';
+import { applyCount } from './utils/stockTakes';
+import type { StockTakeCount } from './utils/stockTakes';
+import { formatAmount, valuateItem } from './utils/valuation';
 import { PlusIcon, BoxIcon, SearchIcon, TrashIcon, DownloadIcon, CloudIcon, ServerIcon, SyncIcon } from './components/icons';
 
 const STORAGE_KEY = 'inventory_system_data_v2';
-const ADMIN_PASSWORD = '5200';
-const PRODUCT_ONLY_PASSWORD = '2611';
-
-const generateId = (prefix: string) => `${prefix}-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
-
-const calculateStock = (item: Item): number => {
-  return item.transactions.reduce((acc, t) => {
-    return t.type === 'purchase' ? acc + t.quantity : acc - t.quantity;
-  }, 0);
-};
 
 const App: React.FC = () => {
-  const [authRole, setAuthRole] = useState<'admin' | 'product_only' | null>(null);
+  const [currentUser, setCurrentUser] = useState<UserAccount | null>(() => loadSession()?.user ?? null);
+  const [loginUsername, setLoginUsername] = useState('');
   const [loginPassword, setLoginPassword] = useState('');
-  const [activeTab, setActiveTab] = useState<'part' | 'product'>('part');
+  const [isLoggingIn, setIsLoggingIn] = useState(false);
+  const [showUserManagement, setShowUserManagement] = useState(false);
+  const [showAuditLog, setShowAuditLog] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [showPurchaseOrders, setShowPurchaseOrders] = useState(false);
+  const [showValuation, setShowValuation] = useState(false);
+  const [showStockReport, setShowStockReport] = useState(false);
+  const [showShortages, setShowShortages] = useState(false);
+  const [serialLookup, setSerialLookup] = useState<string | null>(null);
+  const [showLocations, setShowLocations] = useState(false);
+  const [showStockTakes, setShowStockTakes] = useState(false);
+  const [showCustomers, setShowCustomers] = useState(false);
+  const [showWarranties, setShowWarranties] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showLabels, setShowLabels] = useState(false);
+  const [showScanMode, setShowScanMode] = useState(false);
+  const authRole = currentUser?.role ?? null;
+  const [activeTab, setActiveTab] = useState<'part' | 'product'>(() => loadSession()?.user.role === 'product_only' ? 'product' : 'part');
   
+  // Raw document items, including records in the trash (see `activeItems`)
   const [items, setItems] = useState<Item[]>([]);
+  const [settings, setSettings] = useState<InventorySettings>(DEFAULT_SETTINGS);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [locationFilter, setLocationFilter] = useState<string | null>(null);
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [productionRecords, setProductionRecords] = useState<ProductionRecord[]>([]);
+  const [stockTakes, setStockTakes] = useState<StockTake[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
   const [showAddItemModal, setShowAddItemModal] = useState(false);
   const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
@@ -33,6 +89,13 @@ const App: React.FC = () => {
   const [syncStatus, setSyncStatus] = useState<'idle' | 'loading' | 'success' | 'error' | 'offline'>('loading');
   const [lastSyncedAt, setLastSyncedAt] = useState<Date | null>(null);
   const [dataSource, setDataSource] = useState<'cloud' | 'local'>('local');
+  // Changes made while the server was unreachable, waiting in IndexedDB to be replayed
+  const [offlineQueue, setOfflineQueue] = useState<QueuedOperation[]>([]);
+  const [showOfflineQueue, setShowOfflineQueue] = useState(false);
+  const [backupToRestore, setBackupToRestore] = useState<{ items: Item[]; exportDate?: string } | null>(null);
+  const isReplaying = useRef(false);
+  // Server revision that the current `items` state is based on
+  const revisionRef = useRef(0);
   const isInitialLoad = useRef(true);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -40,12 +103,19 @@ const App: React.FC = () => {
   const fetchFromCloud = async () => {
     setSyncStatus('loading');
     try {
-      const response = await fetch('/api/inventory');
+      const response = await apiFetch('/api/inventory');
       if (!response.ok) throw new Error('Server unreachable');
       
       const data = await response.json();
       if (data && Array.isArray(data.items)) {
         setItems(data.items);
+        setSettings({ ...DEFAULT_SETTINGS, ...data.settings });
+        setLocations(data.locations || []);
+        setPurchaseOrders(data.purchaseOrders || []);
+        setProductionRecords(data.productionRecords || []);
+        setStockTakes(data.stockTakes || []);
+        setCustomers(data.customers || []);
+        revisionRef.current = data.revision || 0;
         setDataSource('cloud');
         setSyncStatus('success');
         setLastSyncedAt(new Date());
@@ -64,66 +134,191 @@ const App: React.FC = () => {
     }
   };
 
-  // Cloud DB Save
-  const saveToCloud = async (data: Item[]) => {
+  // Expired or revoked sessions send the user back to the login screen
+  useEffect(() => {
+    setUnauthorizedHandler(() => {
+      clearSession();
+      setCurrentUser(null);
+    });
+    return () => setUnauthorizedHandler(null);
+  }, []);
+
+  const refreshQueue = async (): Promise<QueuedOperation[]> => {
+    const operations = currentUser ? await listOperations(currentUser.username).catch(() => []) : [];
+    setOfflineQueue(operations);
+    setHoldChanges(operations.length > 0);
+    return operations;
+  };
+
+  // Replays queued offline changes one by one, oldest first, against the current server copy.
+  // A change that conflicts or that the server rejects stops the replay until it is reviewed,
+  // so nothing recorded after it is sent out of order.
+  const replayQueue = async () => {
+    if (!currentUser || isReplaying.current) return;
+    isReplaying.current = true;
     setSyncStatus('loading');
     try {
-      const response = await fetch('/api/inventory', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          items: data,
-          lastUpdated: new Date().toISOString()
-        })
-      });
-
-      if (response.ok) {
-        setSyncStatus('success');
-        setLastSyncedAt(new Date());
-        setDataSource('cloud');
-      } else {
-        throw new Error('Save failed');
+      let serverItems: Item[] | null = null;
+      for (;;) {
+        const [operation] = await listOperations(currentUser.username);
+        if (!operation || operation.conflict) break;
+        if (!serverItems || operation.guard) {
+          const response = await apiFetch('/api/inventory');
+          if (!response.ok) throw new Error('Server unreachable');
+          serverItems = ((await response.json()).items || []) as Item[];
+        }
+        const check = checkOperation(operation, serverItems);
+        if (check.conflict) {
+          await updateOperation({ ...operation, conflict: check.conflict });
+          break;
+        }
+        if (!check.applied) {
+          try {
+            await sendQueuedRequest(operation.request);
+          } catch (err) {
+            if (!(err instanceof ApiRequestError)) throw err;
+            await updateOperation({ ...operation, conflict: err.message });
+            break;
+          }
+        }
+        await removeOperation(operation.seq!);
       }
     } catch (err) {
-      console.error('Cloud Save Error:', err);
-      setSyncStatus('error');
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+      console.warn('Offline replay stopped:', err);
+    } finally {
+      isReplaying.current = false;
     }
+    const remaining = await refreshQueue();
+    await fetchFromCloud();
+    if (remaining.some(op => op.conflict)) setShowOfflineQueue(true);
+  };
+
+  // Loads the server copy and, when it is reachable, sends any offline changes still queued
+  const syncNow = async () => {
+    const online = await fetchFromCloud();
+    const [next] = await refreshQueue();
+    if (online && next && !next.conflict) await replayQueue();
   };
 
-  // Initial Data Load
+  // Initial Data Load (after login)
   useEffect(() => {
-    fetchFromCloud().finally(() => {
+    if (!currentUser) return;
+    isInitialLoad.current = true;
+    syncNow().finally(() => {
       isInitialLoad.current = false;
     });
-  }, []);
+  }, [currentUser?.id]);
+
+  // Coming back online replays what was queued in the meantime
+  useEffect(() => {
+    if (!currentUser) return;
+    const handleOnline = () => { syncNow(); };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [currentUser?.id]);
 
-  // Auto-Save Effect (Debounced)
+  // Local cache of the latest known state (the server is updated per action below)
   useEffect(() => {
     if (isInitialLoad.current) return;
     localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
-    const timer = setTimeout(() => {
-      saveToCloud(items);
-    }, 1500);
-    return () => clearTimeout(timer);
   }, [items]);
 
+  // Sends one change to the server. Local state is updated optimistically by the caller;
+  // on failure the server copy is reloaded so the screen never shows unsaved data as saved.
+  // A change that cannot reach the server is queued for replay instead (see `replayQueue`);
+  // `guard` holds the values an edit expects, so a conflicting edit is caught before replay.
+  const pushChange = async (request: () => Promise<{ revision: number }>, guard?: OperationGuard) => {
+    setSyncStatus('loading');
+    try {
+      const { revision } = await request();
+      // Only advance when nobody else wrote in between; otherwise our state is behind the server
+      if (revision === revisionRef.current + 1) revisionRef.current = revision;
+      setSyncStatus('success');
+      setLastSyncedAt(new Date());
+      setDataSource('cloud');
+    } catch (err: any) {
+      if (err instanceof OfflineError && currentUser) {
+        const queuedBehind = offlineQueue.length > 0 && !offlineQueue.some(op => op.conflict);
+        try {
+          await enqueueOperation({ user: currentUser.username, createdAt: new Date().toISOString(), request: err.request, guard });
+          await refreshQueue();
+          setSyncStatus('offline');
+          setDataSource('local');
+          // Held only because older changes were still queued: try to send them all now
+          if (queuedBehind && navigator.onLine) replayQueue();
+          return;
+        } catch (queueError) {
+          console.error('Offline queue unavailable:', queueError);
+        }
+      }
+      console.error('Cloud Save Error:', err);
+      setSyncStatus('error');
+      alert(`서버 저장 실패: ${err.message}\n서버 데이터를 다시 불러옵니다.`);
+      fetchFromCloud();
+    }
+  };
+
+  // Offline queue review: try a held change again (its conflict check runs again too)
+  const handleRetryOperation = async (operation: QueuedOperation) => {
+    await updateOperation({ ...operation, conflict: undefined });
+    await syncNow();
+  };
+
+  // Offline queue review: send the change as recorded, overriding what someone else changed
+  const handleForceOperation = async (operation: QueuedOperation) => {
+    try {
+      await sendQueuedRequest(operation.request);
+      await removeOperation(operation.seq!);
+    } catch (err: any) {
+      if (err instanceof ApiRequestError) await updateOperation({ ...operation, conflict: err.message });
+      alert(`서버 저장 실패: ${err.message}`);
+      await refreshQueue();
+      return;
+    }
+    await syncNow();
+  };
+
+  const handleDiscardOperation = async (operation: QueuedOperation) => {
+    if (!confirm('이 변경을 버리시겠습니까? 서버에 저장되지 않습니다.')) return;
+    await removeOperation(operation.seq!);
+    await syncNow();
+  };
+
+  const replaceItem = (updated: Item) => {
+    setItems(prev => prev.map(item => item.id === updated.id ? updated : item));
+  };
+
+  const activeItems = useMemo(() => visibleItems(items), [items]);
+
   const stats = useMemo(() => {
     return {
-      partCount: items.filter(i => i.type === 'part').length,
-      productCount: items.filter(i => i.type === 'product').length,
+      partCount: activeItems.filter(i => i.type === 'part').length,
+      productCount: activeItems.filter(i => i.type === 'product').length,
     };
-  }, [items]);
+  }, [activeItems]);
 
-  const allUsedSerials = useMemo(() => {
-    const serials: string[] = [];
-    items.forEach(item => {
-      item.transactions.forEach(t => {
-        if (t.serialNumber) serials.push(t.serialNumber.toUpperCase());
-      });
-    });
-    return Array.from(new Set(serials));
-  }, [items]);
+  const allUsedSerials = useMemo(() => collectSerials(items), [items]);
+
+  const balances = useMemo(() => new Map(activeItems.map(item => [item.id, stockBalance(item)])), [activeItems]);
+  const sortedLocations = useMemo(() => sortLocations(locations), [locations]);
+
+  // Stock shown in the main table: the selected location's, or the total
+  const displayedStock = (item: Item) => {
+    const balance = balances.get(item.id);
+    if (!balance) return 0;
+    return locationFilter === null ? balance.total : balance.byLocation.get(locationFilter) || 0;
+  };
+
+  const locationBreakdown = (item: Item) =>
+    Array.from(balances.get(item.id)?.byLocation.entries() || [])
+      .filter(([, quantity]) => quantity !== 0)
+      .map(([locationId, quantity]) => ({ locationId, label: locationLabel(locations, locationId), quantity }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+
+  const stockValues = useMemo(
+    () => new Map(activeItems.map(item => [item.id, valuateItem(item, settings.valuationMethod).value])),
+    [activeItems, settings.valuationMethod]
+  );
 
   // Local Import / Export Logic
   const handleLocalExport = () => {
@@ -144,11 +339,15 @@ const App: React.FC = () => {
     reader.onload = (event) => {
       try {
         const json = JSON.parse(event.target?.result as string);
-        if (json.items && Array.isArray(json.items)) {
-          if (confirm('백업 파일을 불러오시겠습니까? 현재 클라우드와 로컬 데이터가 이 파일로 덮어씌워집니다.')) {
-            setItems(json.items);
-            alert('데이터 복구 완료. 클라우드 동기화가 진행됩니다.');
+        const isItem = (item: any) => item && typeof item.id === 'string' && typeof item.code === 'string' && Array.isArray(item.transactions);
+        if (json.items && Array.isArray(json.items) && json.items.every(isItem)) {
+          // Restoring replaces the whole document, so changes still waiting to be sent would be lost
+          if (offlineQueue.length > 0) {
+            alert(`전송 대기 중인 변경 ${offlineQueue.length}건을 먼저 처리한 뒤 복원하세요.`);
+            setShowOfflineQueue(true);
+            return;
           }
+          setBackupToRestore({ items: json.items, exportDate: json.exportDate });
         } else {
           alert('올바른 백업 파일 형식이 아닙니다.');
         }
@@ -160,119 +359,392 @@ const App: React.FC = () => {
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
-  const handleLogin = (e: React.FormEvent) => {
-  e.preventDefault();
-  
-  if (loginPassword === ADMIN_PASSWORD) {
-    setAuthRole('admin');
-    setActiveTab('part'); // 관리자는 부품 재고부터 시작
-  } else if (loginPassword === PRODUCT_ONLY_PASSWORD) {
-    setAuthRole('product_only');
-    setActiveTab('product'); // 2611 사용자는 제품 재고로 강제 이동
-  } else {
-    alert('비밀번호가 틀렸습니다.');
-  }
-  
-  setLoginPassword('');
-};
+  // Nothing is written until the restore wizard hands back the items to keep; the server applies them through
+  // the regular item and entry checks, and local state follows the saved copy only once it succeeded
+  const handleRestoreBackup = async (restored: Item[]) => {
+    setSyncStatus('loading');
+    try {
+      const result = await restoreBackupRemote(restored);
+      setBackupToRestore(null);
+      await fetchFromCloud();
+      alert(`데이터 복구 완료: 추가 ${result.created}개, 변경 ${result.updated}개, 휴지통 이동 ${result.removed}개`);
+    } catch (err: any) {
+      setSyncStatus(err instanceof OfflineError ? 'offline' : 'error');
+      alert(err instanceof OfflineError ? '서버에 연결할 수 없어 복구하지 못했습니다.' : `복구 실패: ${err.message}`);
+    }
+  };
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!loginUsername.trim() || !loginPassword) return;
+
+    setIsLoggingIn(true);
+    try {
+      const session = await login(loginUsername, loginPassword);
+      // 관리자는 부품 재고부터, 제품 전용 계정은 제품 재고로 강제 이동
+      setActiveTab(session.user.role === 'admin' ? 'part' : 'product');
+      setCurrentUser(session.user);
+      setLoginUsername('');
+    } catch (err) {
+      alert('아이디 또는 비밀번호가 틀렸습니다.');
+    } finally {
+      setIsLoggingIn(false);
+      setLoginPassword('');
+    }
+  };
 
-  const handleLogout = () => {
-    setAuthRole(null);
+  const handleLogout = async () => {
+    isInitialLoad.current = true;
+    await logout().catch(() => undefined);
+    setHoldChanges(false);
+    setOfflineQueue([]);
+    setCurrentUser(null);
     setSearchTerm('');
   };
 
-  const handleAddItem = (itemData: Omit<Item, 'id' | 'transactions'>, initialQuantity: number) => {
-    const newItem: Item = { ...itemData, id: generateId('item'), transactions: [] };
+  const handleAddItem = (itemData: Omit<Item, 'id' | 'transactions'>, initialQuantity: number, initialLotNumber?: string) => {
+    const newItem: Item = { ...itemData, id: generateId('item'), transactions: [], createdBy: currentUser?.username };
     if (initialQuantity > 0) {
       newItem.transactions.push({
         id: generateId('t'), type: 'purchase', quantity: initialQuantity,
-        date: new Date().toISOString(), remarks: '초기 수량 등록',
+        date: new Date().toISOString(), remarks: '초기 수량 등록', lotNumber: initialLotNumber, createdBy: currentUser?.username,
       });
     }
-    setItems(prev => {
-      const newItems = [...prev, newItem];
-      // Alphanumeric sorting by code
-      return newItems.sort((a, b) => a.code.localeCompare(b.code, undefined, { numeric: true, sensitivity: 'base' }));
+    // Alphanumeric sorting by code
+    setItems(prev => sortItemsByCode([...prev, newItem]));
+    pushChange(async () => {
+      const result = await createItemRemote(newItem);
+      replaceItem(result.item);
+      return result;
     });
   };
 
-  const handleDeleteItemConfirm = () => {
-    const currentPass = authRole === 'admin' ? ADMIN_PASSWORD : PRODUCT_ONLY_PASSWORD;
-    if (deletePassword !== currentPass) {
+  const handleDeleteItemConfirm = async () => {
+    if (!(await verifyPassword(deletePassword))) {
       alert('비밀번호가 틀렸습니다.');
       return;
     }
     if (itemToDelete) {
-      setItems(prev => prev.filter(i => i.id !== itemToDelete.id));
+      const itemId = itemToDelete.id;
+      const deletedAt = new Date().toISOString();
+      setItems(prev => prev.map(i => i.id === itemId ? { ...i, deletedAt, deletedBy: currentUser?.username } : i));
       setItemToDelete(null);
       setDeletePassword('');
+      pushChange(() => deleteItemRemote(itemId));
     }
   };
 
   const handleUpdateItem = (itemId: string, updatedData: Partial<Item>) => {
-    setItems(prev => prev.map(item => item.id === itemId ? { ...item, ...updatedData } : item));
+    const previous = items.find(item => item.id === itemId);
+    setItems(prev => prev.map(item => item.id === itemId ? { ...item, ...updatedData, updatedBy: currentUser?.username } : item));
+    pushChange(async () => {
+      const result = await updateItemRemote(itemId, updatedData);
+      replaceItem(result.item);
+      return result;
+    }, previous && { itemId, before: fieldsBefore(previous, updatedData) });
   };
 
-  const handleAddTransaction = (itemId: string, transaction: Omit<Transaction, 'id'>) => {
-    const newTransaction: Transaction = { ...transaction, id: generateId('t') };
+  // A serial range arrives as several transactions and is saved in one request, together with a customer entered for the first time
+  const handleAddTransactions = (itemId: string, transactions: Omit<Transaction, 'id'>[], newCustomer?: Customer) => {
+    const newTransactions: Transaction[] = transactions.map(t => ({ ...t, id: generateId('t'), createdBy: currentUser?.username }));
     setItems(prev => prev.map(item => {
       if (item.id === itemId) {
-        return { ...item, transactions: [...item.transactions, newTransaction] };
+        return { ...item, transactions: [...item.transactions, ...newTransactions] };
       }
       return item;
     }));
+    if (newCustomer) setCustomers(prev => [...prev, newCustomer]);
+    pushChange(async () => {
+      const result = await addTransactionsRemote(itemId, newTransactions, newCustomer);
+      if (result.customer) replaceCustomer(result.customer);
+      return result;
+    });
   };
 
   const handleUpdateTransaction = (itemId: string, transactionId: string, updatedData: Partial<Transaction>) => {
+    const previous = items.find(item => item.id === itemId)?.transactions.find(t => t.id === transactionId);
     setItems(prev => prev.map(item => {
       if (item.id === itemId) {
-        return { ...item, transactions: item.transactions.map(t => t.id === transactionId ? { ...t, ...updatedData } : t) };
+        return { ...item, transactions: item.transactions.map(t => t.id === transactionId ? { ...t, ...updatedData, updatedBy: currentUser?.username } : t) };
       }
       return item;
     }));
+    pushChange(() => updateTransactionRemote(itemId, transactionId, updatedData), previous && { itemId, transactionId, before: fieldsBefore(previous, updatedData) });
   };
 
   const handleDeleteTransaction = (itemId: string, transactionId: string) => {
     setItems(prev => prev.map(item => {
       if (item.id === itemId) {
-        return { ...item, transactions: item.transactions.filter(t => t.id !== transactionId) };
+        const deletedAt = new Date().toISOString();
+        return { ...item, transactions: item.transactions.map(t => t.id === transactionId ? { ...t, deletedAt, deletedBy: currentUser?.username } : t) };
       }
       return item;
     }));
+    pushChange(() => deleteTransactionRemote(itemId, transactionId));
+  };
+
+  // Trash bin (admin)
+  const handleRestore = (itemId: string, transactionId?: string) => {
+    pushChange(async () => {
+      const result = await restoreFromTrash(itemId, transactionId);
+      setItems(prev => prev.map(item => {
+        if (item.id !== itemId) return item;
+        if (!transactionId) return result.restored as Item;
+        return { ...item, transactions: item.transactions.map(t => t.id === transactionId ? result.restored as Transaction : t) };
+      }));
+      return result;
+    });
+  };
+
+  const handlePurge = (itemId: string, transactionId?: string) => {
+    setItems(prev => transactionId
+      ? prev.map(item => item.id === itemId ? { ...item, transactions: item.transactions.filter(t => t.id !== transactionId) } : item)
+      : prev.filter(item => item.id !== itemId));
+    pushChange(() => purgeFromTrash(itemId, transactionId));
+  };
+
+  const handleUpdateSettings = (updated: Partial<InventorySettings>) => {
+    setSettings(prev => ({ ...prev, ...updated }));
+    pushChange(async () => {
+      const result = await updateSettingsRemote(updated);
+      setSettings(result.settings);
+      return result;
+    });
+  };
+
+  // Adds the transactions the server created for one request (order receipts, production)
+  const appendTransactions = (added: { itemId: string; transaction: Transaction }[]) => {
+    setItems(prev => prev.map(item => {
+      const mine = added.filter(r => r.itemId === item.id).map(r => r.transaction);
+      return mine.length > 0 ? { ...item, transactions: [...item.transactions, ...mine] } : item;
+    }));
+  };
+
+  // Transactions the server changed in place (e.g. relinked by a customer merge)
+  const replaceTransactions = (changed: { itemId: string; transaction: Transaction }[]) => {
+    setItems(prev => prev.map(item => {
+      const mine = new Map(changed.filter(r => r.itemId === item.id).map(r => [r.transaction.id, r.transaction]));
+      return mine.size > 0 ? { ...item, transactions: item.transactions.map(t => mine.get(t.id) || t) } : item;
+    }));
+  };
+
+  // Bulk import (admin): the server creates everything in one write, so local state follows its response
+  const handleBulkImport = (data: BulkImport) => {
+    pushChange(async () => {
+      const result = await importRemote(data);
+      setItems(prev => sortItemsByCode([...prev, ...result.items]));
+      appendTransactions(result.transactions);
+      alert(`일괄 등록 완료: 품목 ${result.items.length}건, 입출고 ${result.transactions.length}건`);
+      return result;
+    });
+  };
+
+  // Customers (deleting and merging: admin)
+  const replaceCustomer = (updated: Customer) => {
+    setCustomers(prev => prev.map(customer => customer.id === updated.id ? updated : customer));
+  };
+
+  const handleCreateCustomer = (data: Pick<Customer, 'name' | 'phoneNumber' | 'address' | 'remarks'>) => {
+    const newCustomer: Customer = { ...data, id: generateId('cust'), createdBy: currentUser?.username };
+    setCustomers(prev => [...prev, newCustomer]);
+    pushChange(async () => {
+      const result = await createCustomerRemote(newCustomer);
+      replaceCustomer(result.customer);
+      return result;
+    });
+  };
+
+  const handleUpdateCustomer = (customerId: string, updatedData: Partial<Customer>) => {
+    setCustomers(prev => prev.map(customer => customer.id === customerId ? { ...customer, ...updatedData, updatedBy: currentUser?.username } : customer));
+    pushChange(async () => {
+      const result = await updateCustomerRemote(customerId, updatedData);
+      replaceCustomer(result.customer);
+      return result;
+    });
+  };
+
+  const handleDeleteCustomer = (customerId: string) => {
+    setCustomers(prev => prev.filter(customer => customer.id !== customerId));
+    pushChange(() => deleteCustomerRemote(customerId));
+  };
+
+  // Relinking is done on the server, which also decides the merged name; the screen follows its answer
+  const handleMergeCustomers = (merge: CustomerMerge) => {
+    pushChange(async () => {
+      const result = await mergeCustomersRemote(merge);
+      setCustomers(prev => [...prev.filter(c => c.id !== result.customer.id && !result.removedIds.includes(c.id)), result.customer]);
+      replaceTransactions(result.transactions);
+      return result;
+    });
+  };
+
+  // Storage locations (admin)
+  const replaceLocation = (updated: Location) => {
+    setLocations(prev => prev.map(location => location.id === updated.id ? updated : location));
+  };
+
+  const handleCreateLocation = (data: Pick<Location, 'code' | 'name' | 'remarks'>) => {
+    const newLocation: Location = { ...data, id: generateId('loc'), active: true, createdBy: currentUser?.username };
+    setLocations(prev => [...prev, newLocation]);
+    pushChange(async () => {
+      const result = await createLocationRemote(newLocation);
+      replaceLocation(result.location);
+      return result;
+    });
+  };
+
+  const handleUpdateLocation = (locationId: string, updatedData: Partial<Location>) => {
+    setLocations(prev => prev.map(location => location.id === locationId ? { ...location, ...updatedData, updatedBy: currentUser?.username } : location));
+    pushChange(async () => {
+      const result = await updateLocationRemote(locationId, updatedData);
+      replaceLocation(result.location);
+      return result;
+    });
+  };
+
+  const handleDeleteLocation = (locationId: string) => {
+    setLocations(prev => prev.filter(location => location.id !== locationId));
+    if (locationFilter === locationId) setLocationFilter(null);
+    pushChange(() => deleteLocationRemote(locationId));
+  };
+
+  // Purchase orders (admin). Order numbers are assigned by the server, so a new order shows without one until saved.
+  const replacePurchaseOrder = (updated: PurchaseOrder) => {
+    setPurchaseOrders(prev => prev.map(order => order.id === updated.id ? updated : order));
+  };
+
+  const handleCreatePurchaseOrder = (header: Pick<PurchaseOrder, 'supplier' | 'orderDate' | 'expectedDate' | 'remarks'>) => {
+    const newOrder: PurchaseOrder = { ...header, id: generateId('po'), orderNumber: '', status: 'draft', lines: [], createdBy: currentUser?.username };
+    setPurchaseOrders(prev => [...prev, newOrder]);
+    pushChange(async () => {
+      const result = await createPurchaseOrderRemote(newOrder);
+      replacePurchaseOrder(result.purchaseOrder);
+      return result;
+    });
+    return newOrder.id;
+  };
+
+  const handleUpdatePurchaseOrder = (orderId: string, updatedData: Partial<PurchaseOrder>) => {
+    setPurchaseOrders(prev => prev.map(order => order.id === orderId ? { ...order, ...updatedData, updatedBy: currentUser?.username } : order));
+    pushChange(async () => {
+      const result = await updatePurchaseOrderRemote(orderId, updatedData);
+      replacePurchaseOrder(result.purchaseOrder);
+      return result;
+    });
+  };
+
+  const handleDeletePurchaseOrder = (orderId: string) => {
+    setPurchaseOrders(prev => prev.filter(order => order.id !== orderId));
+    pushChange(() => deletePurchaseOrderRemote(orderId));
+  };
+
+  // Receipts become purchase transactions on the server; they are added locally once it confirms
+  const handleReceivePurchaseOrder = (orderId: string, receipts: PurchaseOrderReceipt[], date: string, locationId?: string) => {
+    const withIds = receipts.map(receipt => ({ ...receipt, id: generateId('t') }));
+    pushChange(async () => {
+      const result = await receivePurchaseOrderRemote(orderId, { receipts: withIds, locationId, date: new Date(date).toISOString() });
+      appendTransactions(result.transactions);
+      replacePurchaseOrder(result.purchaseOrder);
+      return result;
+    });
+  };
+
+  // Assembly releases the BOM parts and receives the product in one server-side operation
+  const handleCreateProduction = (data: Parameters<typeof createProductionRemote>[0]) => {
+    const id = generateId('mo');
+    pushChange(async () => {
+      const result = await createProductionRemote({ ...data, id });
+      appendTransactions(result.transactions);
+      setProductionRecords(prev => [...prev, result.production]);
+      return result;
+    });
+  };
+
+  // Stock-takes (admin). The snapshot is taken on the server, so a new session appears once it is saved.
+  const replaceStockTake = (updated: StockTake) => {
+    setStockTakes(prev => prev.map(take => take.id === updated.id ? updated : take));
+  };
+
+  const handleCreateStockTake = (scope: { itemType?: Item['type']; locationId?: string; remarks: string }) => {
+    const id = generateId('st');
+    pushChange(async () => {
+      const result = await createStockTakeRemote({ ...scope, id });
+      setStockTakes(prev => [...prev, result.stockTake]);
+      return result;
+    });
+    return id;
+  };
+
+  // Counts show right away so scanning can go on while they are saved
+  const applyStockTakeCounts = (stockTakeId: string, counts: StockTakeCount[]) => {
+    setStockTakes(prev => prev.map(take => {
+      if (take.id !== stockTakeId) return take;
+      const lines = take.lines.map(line => ({ ...line }));
+      counts.forEach(count => {
+        const line = lines.find(l => l.itemId === count.itemId);
+        if (line) applyCount(line, count);
+      });
+      return { ...take, lines };
+    }));
+  };
+
+  const handleUpdateStockTake = (stockTakeId: string, data: { counts?: StockTakeCount[]; remarks?: string; status?: 'cancelled' }) => {
+    if (data.counts) applyStockTakeCounts(stockTakeId, data.counts);
+    pushChange(async () => {
+      const result = await updateStockTakeRemote(stockTakeId, data);
+      replaceStockTake(result.stockTake);
+      return result;
+    });
+  };
+
+  // Approval saves the pending counts and posts the adjustments in one request
+  const handleApproveStockTake = (stockTakeId: string, counts: StockTakeCount[]) => {
+    applyStockTakeCounts(stockTakeId, counts);
+    pushChange(async () => {
+      const result = await approveStockTakeRemote(stockTakeId, counts);
+      appendTransactions(result.transactions);
+      replaceStockTake(result.stockTake);
+      return result;
+    });
   };
 
-  const selectedItem = useMemo(() => items.find(i => i.id === selectedItemId), [items, selectedItemId]);
+  const onOrder = useMemo(() => onOrderByItem(purchaseOrders, receivedByLine(items)), [purchaseOrders, items]);
+  // Items the signed-in role may see: product-only users never see parts
+  const accessibleItems = useMemo(() => activeItems.filter(i => authRole === 'admin' || i.type === 'product'), [activeItems, authRole]);
+  const shortages = useMemo(() => new Map(shortageList(accessibleItems, onOrder).map(r => [r.item.id, r])), [accessibleItems, onOrder]);
+
+  const selectedItem = useMemo(() => activeItems.find(i => i.id === selectedItemId), [activeItems, selectedItemId]);
 
   const filteredInventory = useMemo(() => {
     const term = searchTerm.toLowerCase().trim();
-    return items.filter(item => {
+    return activeItems.filter(item => {
         const matchesTab = (activeTab === 'part' && item.type === 'part') || (activeTab === 'product' && item.type === 'product');
         if (!matchesTab) return false;
+        if (locationFilter !== null && !balances.get(item.id)?.byLocation.get(locationFilter)) return false;
         const basicMatch = item.name.toLowerCase().includes(term) || item.code.toLowerCase().includes(term);
         if (basicMatch) return true;
         if (activeTab === 'product') return item.transactions.some(t => t.serialNumber?.toLowerCase().includes(term));
         return false;
     });
-  }, [items, searchTerm, activeTab]);
-
-  const exportToExcel = () => {
-    let csvContent = "\ufeff";
-    const headers = activeTab === 'part' ? ['코드', '품명', '도번', '현재재고'] : ['코드', '제품명', '현재재고'];
-    csvContent += headers.join(',') + '\r\n';
-    filteredInventory.forEach(item => {
-      const row = activeTab === 'part' 
-        ? [item.code, item.name, item.drawingNumber, calculateStock(item)]
-        : [item.code, item.name, calculateStock(item)];
-      csvContent += row.map(v => `"${String(v).replace(/"/g, '""')}"`).join(',') + '\r\n';
-    });
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(blob);
-    link.download = `${activeTab === 'part' ? '부품' : '제품'}_재고_${new Date().toISOString().split('T')[0]}.csv`;
-    link.click();
+  }, [activeItems, searchTerm, activeTab, locationFilter, balances]);
+
+  // Workbook of the listed items and every live transaction of theirs, oldest first
+  const exportToExcel = async () => {
+    const costs = new Map<string, number>(filteredInventory.flatMap(item => valuateItem(item, settings.valuationMethod).movements.map(m => [m.transaction.id, m.cost])));
+    const transactions = filteredInventory.flatMap(item => activeTransactions(item)
+      .map(transaction => ({ item, transaction }))
+      .sort((a, b) => new Date(a.transaction.date).getTime() - new Date(b.transaction.date).getTime()));
+    try {
+      await downloadXlsx(`${activeTab === 'part' ? '부품' : '제품'}_재고_${new Date().toISOString().split('T')[0]}.xlsx`, [
+        itemsSheet(filteredInventory, activeItems, locations, stockValues),
+        transactionsSheet(transactions, locations, costs),
+      ]);
+    } catch (err: any) {
+      alert(`엑셀 파일을 만들지 못했습니다: ${err.message}`);
+    }
   };
 
-  if (!authRole) {
+  if (!currentUser) {
     return (
       <div className="min-h-screen bg-slate-900 flex items-center justify-center p-4">
         <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-md p-8 sm:p-12 animate-fade-in-up border border-slate-100">
@@ -285,12 +757,20 @@ const App: React.FC = () => {
           </div>
           <form onSubmit={handleLogin} className="space-y-6">
             <input 
-              type="password" autoFocus value={loginPassword}
+              type="text" autoFocus value={loginUsername}
+              onChange={(e) => setLoginUsername(e.target.value.toLowerCase())}
+              placeholder="USERNAME" autoComplete="username"
+              className="w-full px-6 py-4 bg-slate-50 border-2 border-slate-100 rounded-2xl focus:border-indigo-600 outline-none text-center text-2xl font-black tracking-widest transition-all"
+            />
+            <input 
+              type="password" value={loginPassword}
               onChange={(e) => setLoginPassword(e.target.value)}
-              placeholder="PASSWORD"
+              placeholder="PASSWORD" autoComplete="current-password"
               className="w-full px-6 py-4 bg-slate-50 border-2 border-slate-100 rounded-2xl focus:border-indigo-600 outline-none text-center text-3xl font-black tracking-[0.5em] transition-all"
             />
-            <button type="submit" className="w-full py-4 bg-indigo-600 text-white font-black rounded-xl shadow-xl hover:bg-indigo-700 transition-all text-lg uppercase tracking-widest">시스템 로그인</button>
+            <button type="submit" disabled={isLoggingIn} className="w-full py-4 bg-indigo-600 text-white font-black rounded-xl shadow-xl hover:bg-indigo-700 transition-all text-lg uppercase tracking-widest disabled:opacity-60">
+              {isLoggingIn ? '인증 중...' : '시스템 로그인'}
+            </button>
           </form>
         </div>
       </div>
@@ -313,6 +793,11 @@ const App: React.FC = () => {
                         </span>
                         {syncStatus === 'loading' && <SyncIcon className="w-3 h-3 text-indigo-400 animate-spin" />}
                         {syncStatus === 'error' && <span className="text-[9px] text-rose-500 font-black uppercase">Sync Failed</span>}
+                        {offlineQueue.length > 0 && (
+                          <button onClick={() => setShowOfflineQueue(true)} className={`text-[9px] font-black uppercase underline ${offlineQueue.some(op => op.conflict) ? 'text-rose-500' : 'text-amber-600'}`}>
+                            전송 대기 {offlineQueue.length}건{offlineQueue.some(op => op.conflict) ? ' · 검토 필요' : ''}
+                          </button>
+                        )}
                         {lastSyncedAt && <span className="text-[9px] text-slate-400 font-bold ml-1">{lastSyncedAt.toLocaleTimeString()}</span>}
                       </div>
                     </div>
@@ -324,15 +809,31 @@ const App: React.FC = () => {
                         <DownloadIcon className="w-3 h-3" />
                         <span>백업 저장</span>
                     </button>
-                    <label className="flex items-center gap-1.5 px-3 py-1.5 bg-white text-slate-500 border border-slate-200 rounded-lg hover:bg-slate-50 transition-all text-[10px] font-black uppercase tracking-widest shadow-sm cursor-pointer">
-                        <CloudIcon className="w-3 h-3" />
-                        <span>백업 불러오기</span>
-                        <input type="file" ref={fileInputRef} className="hidden" accept=".json" onChange={handleLocalImport} />
-                    </label>
-                    <button onClick={fetchFromCloud} className="flex items-center gap-1.5 px-3 py-1.5 bg-indigo-50 text-indigo-600 rounded-lg hover:bg-indigo-600 hover:text-white transition-all text-[10px] font-black uppercase tracking-widest border border-indigo-100">
+                    {authRole === 'admin' && (
+                      <label className="flex items-center gap-1.5 px-3 py-1.5 bg-white text-slate-500 border border-slate-200 rounded-lg hover:bg-slate-50 transition-all text-[10px] font-black uppercase tracking-widest shadow-sm cursor-pointer">
+                          <CloudIcon className="w-3 h-3" />
+                          <span>백업 불러오기</span>
+                          <input type="file" ref={fileInputRef} className="hidden" accept=".json" onChange={handleLocalImport} />
+                      </label>
+                    )}
+                    <button onClick={syncNow} className="flex items-center gap-1.5 px-3 py-1.5 bg-indigo-50 text-indigo-600 rounded-lg hover:bg-indigo-600 hover:text-white transition-all text-[10px] font-black uppercase tracking-widest border border-indigo-100">
                         <SyncIcon className={`w-3 h-3 ${syncStatus === 'loading' ? 'animate-spin' : ''}`} />
                         <span>새로고침</span>
                     </button>
+                    {authRole === 'admin' && (
+                      <>
+                        <button onClick={() => setShowImport(true)} className="px-3 py-1.5 bg-white text-slate-500 border border-slate-200 rounded-lg hover:bg-slate-50 transition-all text-[10px] font-black uppercase tracking-widest shadow-sm">일괄 등록</button>
+                        <button onClick={() => setShowLocations(true)} className="px-3 py-1.5 bg-white text-slate-500 border border-slate-200 rounded-lg hover:bg-slate-50 transition-all text-[10px] font-black uppercase tracking-widest shadow-sm">로케이션</button>
+                        <button onClick={() => setShowPurchaseOrders(true)} className="px-3 py-1.5 bg-white text-slate-500 border border-slate-200 rounded-lg hover:bg-slate-50 transition-all text-[10px] font-black uppercase tracking-widest shadow-sm">발주 관리</button>
+                        <button onClick={() => setShowStockTakes(true)} className="px-3 py-1.5 bg-white text-slate-500 border border-slate-200 rounded-lg hover:bg-slate-50 transition-all text-[10px] font-black uppercase tracking-widest shadow-sm">재고 실사</button>
+                        <button onClick={() => setShowValuation(true)} className="px-3 py-1.5 bg-white text-slate-500 border border-slate-200 rounded-lg hover:bg-slate-50 transition-all text-[10px] font-black uppercase tracking-widest shadow-sm">재고 평가</button>
+                        <button onClick={() => setShowStockReport(true)} className="px-3 py-1.5 bg-white text-slate-500 border border-slate-200 rounded-lg hover:bg-slate-50 transition-all text-[10px] font-black uppercase tracking-widest shadow-sm">수불 보고서</button>
+                        <button onClick={() => setShowTrash(true)} className="px-3 py-1.5 bg-white text-slate-500 border border-slate-200 rounded-lg hover:bg-slate-50 transition-all text-[10px] font-black uppercase tracking-widest shadow-sm">휴지통</button>
+                        <button onClick={() => setShowAuditLog(true)} className="px-3 py-1.5 bg-white text-slate-500 border border-slate-200 rounded-lg hover:bg-slate-50 transition-all text-[10px] font-black uppercase tracking-widest shadow-sm">변경 이력</button>
+                        <button onClick={() => setShowUserManagement(true)} className="px-3 py-1.5 bg-white text-slate-500 border border-slate-200 rounded-lg hover:bg-slate-50 transition-all text-[10px] font-black uppercase tracking-widest shadow-sm">사용자 관리</button>
+                      </>
+                    )}
+                    <span className="px-2 text-[10px] font-black text-slate-500 uppercase tracking-widest">{currentUser.displayName}</span>
                     <button onClick={handleLogout} className="px-3 py-1.5 bg-slate-100 text-slate-500 rounded-lg hover:bg-rose-50 hover:text-rose-600 transition-colors font-black text-[10px] uppercase border border-slate-200">Logout</button>
                   </div>
                 </div>
@@ -360,8 +861,40 @@ const App: React.FC = () => {
                   placeholder="품명, 코드, 일련번호 검색..."
                   className="w-full pl-14 pr-6 py-4 border-2 border-slate-100 rounded-2xl focus:outline-none focus:border-indigo-400 bg-white shadow-sm font-bold text-lg transition-all"
               />
+              {allUsedSerials.includes(searchTerm.trim()) && (
+                <button onClick={() => setSerialLookup(searchTerm.trim())} className="absolute right-3 top-1/2 -translate-y-1/2 px-4 py-2 bg-indigo-50 text-indigo-600 rounded-xl text-xs font-black uppercase tracking-widest hover:bg-indigo-600 hover:text-white transition-all">
+                  일련번호 이력 보기
+                </button>
+              )}
           </div>
+          {locations.length > 0 && (
+            <select value={locationFilter ?? '__all__'} onChange={(e) => setLocationFilter(e.target.value === '__all__' ? null : e.target.value)} className="px-5 py-4 border-2 border-slate-100 rounded-2xl focus:outline-none focus:border-indigo-400 bg-white shadow-sm font-bold text-lg">
+              <option value="__all__">전체 로케이션</option>
+              {sortedLocations.map(l => <option key={l.id} value={l.id}>{l.code} · {l.name}</option>)}
+              <option value="">미지정</option>
+            </select>
+          )}
           <div className="flex flex-wrap gap-3">
+            <button onClick={() => setShowShortages(true)} className={`flex items-center gap-2 px-8 py-4 font-black rounded-xl shadow-lg transition-all text-base uppercase tracking-widest ${shortages.size > 0 ? 'bg-amber-500 text-white hover:bg-amber-600' : 'bg-white text-slate-500 border-2 border-slate-100 hover:bg-slate-50'}`}>
+                <BoxIcon className="w-5 h-5" />
+                <span>부족 재고 ({shortages.size})</span>
+            </button>
+            <button onClick={() => setSerialLookup(allUsedSerials.includes(searchTerm.trim()) ? searchTerm.trim() : '')} className="flex items-center gap-2 px-8 py-4 bg-white text-slate-500 border-2 border-slate-100 font-black rounded-xl shadow-lg hover:bg-slate-50 transition-all text-base uppercase tracking-widest">
+                <SearchIcon className="w-5 h-5" />
+                <span>일련번호 조회</span>
+            </button>
+            <button onClick={() => setShowCustomers(true)} className="flex items-center gap-2 px-8 py-4 bg-white text-slate-500 border-2 border-slate-100 font-black rounded-xl shadow-lg hover:bg-slate-50 transition-all text-base uppercase tracking-widest">
+                <span>고객 관리</span>
+            </button>
+            <button onClick={() => setShowWarranties(true)} className="flex items-center gap-2 px-8 py-4 bg-white text-slate-500 border-2 border-slate-100 font-black rounded-xl shadow-lg hover:bg-slate-50 transition-all text-base uppercase tracking-widest">
+                <span>보증 만료</span>
+            </button>
+            <button onClick={() => setShowScanMode(true)} className="flex items-center gap-2 px-8 py-4 bg-slate-800 text-white font-black rounded-xl shadow-lg hover:bg-slate-900 transition-all text-base uppercase tracking-widest">
+                <span>스캔 모드</span>
+            </button>
+            <button onClick={() => setShowLabels(true)} className="flex items-center gap-2 px-8 py-4 bg-white text-slate-500 border-2 border-slate-100 font-black rounded-xl shadow-lg hover:bg-slate-50 transition-all text-base uppercase tracking-widest">
+                <span>라벨 인쇄</span>
+            </button>
             <button onClick={exportToExcel} className="flex items-center gap-2 px-8 py-4 bg-emerald-600 text-white font-black rounded-xl shadow-lg hover:bg-emerald-700 transition-all text-base uppercase tracking-widest">
                 <ServerIcon className="w-5 h-5" />
                 <span>엑셀 파일 저장</span>
@@ -390,15 +923,18 @@ const App: React.FC = () => {
                   <th className="px-10 py-7">품명 / 제품명</th>
                   {activeTab === 'part' && <th className="px-10 py-7">도번</th>}
                   <th className="px-10 py-7 text-right">현재 재고수량</th>
+                  <th className="px-10 py-7 text-right">재고 금액</th>
                   <th className="px-10 py-7 text-center">관리</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-slate-50">
                 {filteredInventory.length === 0 ? (
-                  <tr><td colSpan={activeTab === 'part' ? 5 : 4} className="px-10 py-24 text-center text-slate-300 font-black uppercase tracking-widest italic text-2xl">기록된 데이터가 없습니다</td></tr>
+                  <tr><td colSpan={activeTab === 'part' ? 6 : 5} className="px-10 py-24 text-center text-slate-300 font-black uppercase tracking-widest italic text-2xl">기록된 데이터가 없습니다</td></tr>
                 ) : (
                   filteredInventory.map(item => {
-                    const stock = calculateStock(item);
+                    const stock = displayedStock(item);
+                    const breakdown = locationFilter === null && locations.length > 0 ? locationBreakdown(item) : [];
+                    const shortage = shortages.get(item.id);
                     return (
                       <tr key={item.id} className="hover:bg-indigo-50/30 transition-colors group">
                         <td className="px-10 py-7 font-mono text-indigo-600 font-black text-xl">{item.code}</td>
@@ -406,10 +942,29 @@ const App: React.FC = () => {
                         <td className="px-10 py-7 font-black text-slate-800 text-lg">{item.name}</td>
                         {activeTab === 'part' && <td className="px-10 py-7 text-slate-400 font-mono text-sm uppercase font-bold">{item.drawingNumber || '-'}</td>}
                         <td className="px-10 py-7 text-right">
-                            <span className={`text-4xl font-black ${stock > 0 ? 'text-slate-900' : 'text-rose-500 animate-pulse'}`}>
+                            <span className={`text-4xl font-black ${stock <= 0 ? 'text-rose-500 animate-pulse' : shortage ? 'text-amber-600' : 'text-slate-900'}`}>
                                 {stock.toLocaleString()} <span className="text-xs uppercase text-slate-400 ml-1">EA</span>
                             </span>
+                            {locationFilter !== null && (
+                              <p className="text-xs font-bold text-slate-400 mt-1">{locationLabel(locations, locationFilter)} / 전체 {calculateStock(item).toLocaleString()}</p>
+                            )}
+                            {breakdown.length > 0 && (
+                              <div className="flex flex-wrap justify-end gap-1 mt-2">
+                                {breakdown.map(l => (
+                                  <span key={l.locationId} className="px-2 py-0.5 bg-slate-100 rounded-md text-[10px] font-black text-slate-500">{l.label} {l.quantity.toLocaleString()}</span>
+                                ))}
+                              </div>
+                            )}
+                            {shortage && (
+                              <p className={`text-xs font-black uppercase tracking-widest mt-1 ${shortage.belowMinimum ? 'text-rose-500' : 'text-amber-600'}`}>
+                                {shortage.belowMinimum ? '안전 재고 미만' : '재주문점 도달'}
+                              </p>
+                            )}
+                            {onOrder.get(item.id) && (
+                              <p className="text-xs font-black text-amber-500 uppercase tracking-widest mt-1">발주중 +{onOrder.get(item.id)!.toLocaleString()}</p>
+                            )}
                         </td>
+                        <td className="px-10 py-7 text-right font-black text-slate-600 text-lg">{formatAmount(stockValues.get(item.id) || 0)}</td>
                         <td className="px-10 py-7">
                           <div className="flex justify-center gap-4">
                             <button onClick={() => setSelectedItemId(item.id)} className="px-6 py-3 bg-indigo-50 text-indigo-600 rounded-xl font-black text-sm uppercase tracking-wider hover:bg-indigo-600 hover:text-white transition-all shadow-sm">상세내역</button>
@@ -435,7 +990,7 @@ const App: React.FC = () => {
                 <div className="flex flex-col items-center mb-8">
                     <div className="p-5 bg-rose-50 rounded-[1.5rem] mb-6"><TrashIcon className="w-12 h-12 text-rose-500" /></div>
                     <h4 className="text-2xl font-black text-slate-800 uppercase tracking-tight">삭제 비밀번호</h4>
-                    <p className="text-xs text-slate-400 font-bold mt-2 uppercase tracking-widest text-center">삭제된 데이터는 서버와 로컬에서<br/>영구히 삭제됩니다.</p>
+                    <p className="text-xs text-slate-400 font-bold mt-2 uppercase tracking-widest text-center">본인 계정 비밀번호를 입력하세요.<br/>삭제된 품목은 휴지통으로 이동하며<br/>보관 기간({settings.trashRetentionDays}일) 내에 복원할 수 있습니다.</p>
                 </div>
                 <input type="password" autoFocus value={deletePassword} onChange={(e) => setDeletePassword(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleDeleteItemConfirm()} placeholder="PASSWORD" className="w-full px-6 py-5 border-2 border-slate-100 rounded-2xl focus:border-rose-500 outline-none mb-8 text-center text-3xl font-black tracking-widest" />
                 <div className="grid grid-cols-2 gap-4">
@@ -446,16 +1001,168 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {showTrash && (
+        <TrashModal
+          items={items}
+          settings={settings}
+          onRestore={handleRestore}
+          onPurge={handlePurge}
+          onUpdateSettings={handleUpdateSettings}
+          onClose={() => setShowTrash(false)}
+        />
+      )}
+      {showPurchaseOrders && (
+        <PurchaseOrderModal
+          orders={purchaseOrders}
+          items={activeItems}
+          locations={locations}
+          onCreate={handleCreatePurchaseOrder}
+          onUpdate={handleUpdatePurchaseOrder}
+          onDelete={handleDeletePurchaseOrder}
+          onReceive={handleReceivePurchaseOrder}
+          onClose={() => setShowPurchaseOrders(false)}
+        />
+      )}
+      {showStockTakes && (
+        <StockTakeModal
+          stockTakes={stockTakes}
+          items={activeItems}
+          locations={locations}
+          onCreate={handleCreateStockTake}
+          onUpdate={handleUpdateStockTake}
+          onApprove={handleApproveStockTake}
+          onClose={() => setShowStockTakes(false)}
+        />
+      )}
+      {showValuation && (
+        <ValuationReportModal
+          items={activeItems}
+          settings={settings}
+          onUpdateSettings={handleUpdateSettings}
+          onClose={() => setShowValuation(false)}
+        />
+      )}
+      {showCustomers && (
+        <CustomerModal
+          customers={customers}
+          items={accessibleItems}
+          authRole={currentUser.role}
+          onCreate={handleCreateCustomer}
+          onUpdate={handleUpdateCustomer}
+          onDelete={handleDeleteCustomer}
+          onMerge={handleMergeCustomers}
+          onSelectItem={(itemId) => { setShowCustomers(false); setSelectedItemId(itemId); }}
+          onClose={() => setShowCustomers(false)}
+        />
+      )}
+      {showImport && (
+        <ImportModal
+          items={activeItems}
+          locations={locations}
+          onImport={handleBulkImport}
+          onClose={() => setShowImport(false)}
+        />
+      )}
+      {backupToRestore && (
+        <RestoreBackupModal
+          backupItems={backupToRestore.items}
+          exportDate={backupToRestore.exportDate}
+          currentItems={items}
+          onRestore={handleRestoreBackup}
+          onClose={() => setBackupToRestore(null)}
+        />
+      )}
+      {showOfflineQueue && (
+        <OfflineQueueModal
+          operations={offlineQueue}
+          items={items}
+          isOnline={dataSource === 'cloud'}
+          onRetry={handleRetryOperation}
+          onForce={handleForceOperation}
+          onDiscard={handleDiscardOperation}
+          onClose={() => setShowOfflineQueue(false)}
+        />
+      )}
+      {showScanMode && (
+        <ScanModeModal
+          items={accessibleItems}
+          allUsedSerials={allUsedSerials}
+          locations={locations}
+          onAddTransactions={handleAddTransactions}
+          onClose={() => setShowScanMode(false)}
+        />
+      )}
+      {showLabels && (
+        <LabelPrintModal
+          items={filteredInventory}
+          onClose={() => setShowLabels(false)}
+        />
+      )}
+      {showWarranties && (
+        <WarrantyReportModal
+          items={accessibleItems}
+          onSelectSerial={(serial) => { setShowWarranties(false); setSerialLookup(serial); }}
+          onClose={() => setShowWarranties(false)}
+        />
+      )}
+      {showStockReport && (
+        <StockReportModal
+          items={activeItems}
+          locations={locations}
+          onClose={() => setShowStockReport(false)}
+        />
+      )}
+      {showLocations && (
+        <LocationModal
+          locations={locations}
+          items={activeItems}
+          onCreate={handleCreateLocation}
+          onUpdate={handleUpdateLocation}
+          onDelete={handleDeleteLocation}
+          onClose={() => setShowLocations(false)}
+        />
+      )}
+      {showShortages && (
+        <ShortageDashboardModal
+          items={accessibleItems}
+          onOrder={onOrder}
+          onSelectItem={setSelectedItemId}
+          onClose={() => setShowShortages(false)}
+        />
+      )}
+      {serialLookup !== null && (
+        <SerialLookupModal
+          items={accessibleItems}
+          productions={productionRecords}
+          locations={locations}
+          initialSerial={serialLookup}
+          onSelectItem={(itemId) => { setSerialLookup(null); setSelectedItemId(itemId); }}
+          onClose={() => setSerialLookup(null)}
+        />
+      )}
+      {showAuditLog && (
+        <AuditLogModal onClose={() => setShowAuditLog(false)} />
+      )}
+      {showUserManagement && (
+        <UserManagementModal currentUser={currentUser} onClose={() => setShowUserManagement(false)} />
+      )}
       {showAddItemModal && (
-        <AddItemModal onAddItem={handleAddItem} onClose={() => setShowAddItemModal(false)} existingCodes={items.map(i => i.code)} defaultType={activeTab === 'product' ? 'product' : 'part'} />
+        <AddItemModal onAddItem={handleAddItem} onClose={() => setShowAddItemModal(false)} existingCodes={activeItems.map(i => i.code)} defaultType={activeTab === 'product' ? 'product' : 'part'} />
       )}
       {selectedItemId && selectedItem && (
         <ItemDetailModal 
           item={selectedItem} 
+          items={activeItems}
           authRole={authRole as any} 
           allUsedSerials={allUsedSerials} 
-          existingCodes={items.map(i => i.code)}
-          onAddTransaction={handleAddTransaction} 
+          existingCodes={activeItems.map(i => i.code)}
+          locations={locations}
+          customers={customers}
+          valuationMethod={settings.valuationMethod}
+          productions={productionRecords}
+          onCreateProduction={handleCreateProduction}
+          onVerifyPassword={verifyPassword}
+          onAddTransactions={handleAddTransactions} 
           onUpdateTransaction={handleUpdateTransaction} 
           onDeleteTransaction={handleDeleteTransaction} 
           onUpdateItem={handleUpdateItem} 
@@ -0,0 +1,66 @@
+
+import { kv } from '@vercel/kv';
+import type { AuditEntry } from '../../types';
+
+export const AUDIT_KEY = 'inventory_system_v2_audit';
+
+export type AuditRecord = Omit<AuditEntry, 'id' | 'at' | 'user'>;
+
+export interface AuditFilter {
+  itemCode?: string;
+  user?: string;
+  from?: number; // epoch ms, inclusive (the client sends its own local-day bounds)
+  to?: number; // epoch ms, inclusive
+  limit?: number;
+  before?: number; // list index to continue below, from the previous page's nextCursor
+}
+
+export interface AuditPage {
+  entries: AuditEntry[];
+  nextCursor?: number; // 다음 페이지를 읽을 위치 (없으면 마지막 페이지)
+}
+
+// Entries fetched per round-trip while scanning back from the newest end of the log
+const READ_CHUNK = 500;
+
+// Snapshot helper so later in-place edits of the document do not leak into recorded values
+export const snapshot = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+export const appendAuditEntries = async (username: string, records: AuditRecord[]) => {
+  if (records.length === 0) return;
+  const at = new Date().toISOString();
+  const entries: AuditEntry[] = records.map((record, index) => ({
+    id: `audit-${Date.now()}-${index}-${Math.floor(Math.random() * 1000)}`,
+    at,
+    user: username,
+    ...record,
+  }));
+  await kv.rpush(AUDIT_KEY, ...entries);
+};
+
+// Newest first, reading the append-only log from its tail in chunks until `limit` entries match.
+// Entries are appended in time order, so the scan stops at the first entry older than `from`.
+export const readAuditLog = async (filter: AuditFilter): Promise<AuditPage> => {
+  const itemCode = filter.itemCode?.trim().toUpperCase();
+  const user = filter.user?.trim().toLowerCase();
+  const limit = Math.min(filter.limit || 200, 500);
+  const entries: AuditEntry[] = [];
+  let end = filter.before ?? await kv.llen(AUDIT_KEY); // exclusive
+
+  while (end > 0) {
+    const start = Math.max(0, end - READ_CHUNK);
+    const chunk = await kv.lrange<AuditEntry>(AUDIT_KEY, start, end - 1);
+    for (let i = chunk.length - 1; i >= 0; i--) {
+      const entry = chunk[i];
+      const at = new Date(entry.at).getTime();
+      if (filter.from !== undefined && at < filter.from) return { entries };
+      if (filter.to !== undefined && at > filter.to) continue;
+      if (itemCode && !entry.itemCode?.toUpperCase().includes(itemCode)) continue;
+      if (user && entry.user.toLowerCase() !== user) continue;
+      entries.push(entry);
+      if (entries.length >= limit) return { entries, nextCursor: start + i > 0 ? start + i : undefined };
+    }
+    end = start;
+  }
+  return { entries };
+};
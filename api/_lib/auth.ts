@@ -0,0 +1,119 @@
+
+import { kv } from '@vercel/kv';
+import type { UserAccount, UserRole } from '../../types';
+import { json } from './http';
+
+export const USERS_KEY = 'inventory_system_v2_users';
+const SESSION_KEY_PREFIX = 'inventory_system_v2_session:';
+const SESSION_TTL_SECONDS = 60 * 60 * 12;
+const PBKDF2_ITERATIONS = 100000;
+
+export const USER_ROLES: UserRole[] = ['admin', 'product_only'];
+
+export interface StoredUser extends UserAccount {
+  passwordHash: string;
+  salt: string;
+  createdAt: string;
+}
+
+const toHex = (buffer: ArrayBuffer | Uint8Array) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const randomHex = (bytes: number) => toHex(crypto.getRandomValues(new Uint8Array(bytes)));
+
+const hashPassword = async (password: string, salt: string): Promise<string> => {
+  const keyMaterial = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: new TextEncoder().encode(salt), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    keyMaterial,
+    256
+  );
+  return toHex(bits);
+};
+
+// Constant-time comparison so response timing does not leak matching prefixes
+const safeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+export const toPublicUser = ({ id, username, displayName, role }: StoredUser): UserAccount => ({ id, username, displayName, role });
+
+export const normalizeUsername = (username: string) => username.trim().toLowerCase();
+
+export const getUser = (username: string) => kv.hget<StoredUser>(USERS_KEY, normalizeUsername(username));
+
+export const listUsers = async (): Promise<StoredUser[]> => {
+  const users = await kv.hgetall<Record<string, StoredUser>>(USERS_KEY);
+  return Object.values(users || {}).sort((a, b) => a.username.localeCompare(b.username));
+};
+
+export const saveUser = (user: StoredUser) => kv.hset(USERS_KEY, { [user.username]: user });
+
+export const removeUser = (username: string) => kv.hdel(USERS_KEY, normalizeUsername(username));
+
+export const buildUser = async (username: string, displayName: string, role: UserRole, password: string): Promise<StoredUser> => {
+  const salt = randomHex(16);
+  return {
+    id: `user-${randomHex(8)}`,
+    username: normalizeUsername(username),
+    displayName: displayName.trim() || username.trim(),
+    role,
+    salt,
+    passwordHash: await hashPassword(password, salt),
+    createdAt: new Date().toISOString(),
+  };
+};
+
+export const setPassword = async (user: StoredUser, password: string): Promise<StoredUser> => {
+  const salt = randomHex(16);
+  return { ...user, salt, passwordHash: await hashPassword(password, salt) };
+};
+
+// First deployment has no accounts yet: seed an 'admin' user from INITIAL_ADMIN_PASSWORD
+const ensureBootstrapAdmin = async () => {
+  const initialPassword = process.env.INITIAL_ADMIN_PASSWORD;
+  if (!initialPassword) return;
+  if ((await kv.hlen(USERS_KEY)) > 0) return;
+  await saveUser(await buildUser('admin', '관리자', 'admin', initialPassword));
+};
+
+export const verifyCredentials = async (username: string, password: string): Promise<StoredUser | null> => {
+  await ensureBootstrapAdmin();
+  const user = await getUser(username);
+  if (!user) return null;
+  const hash = await hashPassword(password, user.salt);
+  return safeEqual(hash, user.passwordHash) ? user : null;
+};
+
+export const createSession = async (user: StoredUser): Promise<string> => {
+  const token = randomHex(32);
+  await kv.set(SESSION_KEY_PREFIX + token, { username: user.username }, { ex: SESSION_TTL_SECONDS });
+  return token;
+};
+
+export const getBearerToken = (req: Request): string | null => {
+  const match = (req.headers.get('Authorization') || '').match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+};
+
+export const destroySession = (token: string) => kv.del(SESSION_KEY_PREFIX + token);
+
+// Resolves the account behind the request's bearer token. The account is re-read on
+// every call so role changes and deletions take effect without waiting for the TTL.
+export const getSessionUser = async (req: Request): Promise<StoredUser | null> => {
+  const token = getBearerToken(req);
+  if (!token) return null;
+  const session = await kv.get<{ username: string }>(SESSION_KEY_PREFIX + token);
+  if (!session) return null;
+  return getUser(session.username);
+};
+
+export const requireSession = async (req: Request, roles?: UserRole[]): Promise<UserAccount | Response> => {
+  const user = await getSessionUser(req);
+  if (!user) return json({ error: 'Unauthorized' }, 401);
+  if (roles && !roles.includes(user.role)) return json({ error: 'Forbidden' }, 403);
+  return toPublicUser(user);
+};
@@ -0,0 +1,106 @@
+import type { Customer, InventoryDocument, Transaction } from '../../types';
+import { carriesCustomer } from '../../utils/customers';
+import { generateId } from '../../utils/inventory';
+import { snapshot } from './audit';
+import { ApiError } from './http';
+import { assertAdmin } from './store';
+import type { MutationContext } from './store';
+
+const findCustomer = (doc: InventoryDocument, customerId: string): Customer => {
+  const customer = doc.customers.find(c => c.id === customerId);
+  if (!customer) throw new ApiError(404, 'Customer not found');
+  return customer;
+};
+
+const sanitizeCustomerFields = (body: any): Partial<Customer> => {
+  const fields: Partial<Customer> = {};
+  (['name', 'phoneNumber', 'address', 'remarks'] as const).forEach(field => {
+    if (body[field] === undefined || body[field] === null) return;
+    if (typeof body[field] !== 'string') throw new ApiError(400, `Invalid ${field}`);
+    fields[field] = body[field].trim();
+  });
+  if (fields.name !== undefined && !fields.name) throw new ApiError(400, 'Customer name is required');
+  return fields;
+};
+
+// Anyone who records releases may register customers. A create replayed from the offline queue carries
+// the id it was first sent with and gets back the customer that request already saved.
+export const createCustomer = (ctx: MutationContext, body: any): Customer => {
+  const { doc, user } = ctx;
+  const existing = typeof body.id === 'string' && doc.customers.find(c => c.id === body.id);
+  if (existing) return existing;
+  const fields = sanitizeCustomerFields(body);
+  if (!fields.name) throw new ApiError(400, 'Customer name is required');
+
+  const customer: Customer = {
+    id: typeof body.id === 'string' ? body.id : generateId('cust'),
+    name: fields.name,
+    phoneNumber: fields.phoneNumber || '',
+    address: fields.address || '',
+    remarks: fields.remarks || '',
+    createdBy: user.username,
+  };
+  doc.customers.push(customer);
+  ctx.record({ action: 'customer.create', reference: customer.name, after: snapshot(customer) });
+  return customer;
+};
+
+// Releases already recorded keep the name and contact details they were entered with
+export const updateCustomer = (ctx: MutationContext, customerId: string, body: any): Customer => {
+  const { doc, user } = ctx;
+  const customer = findCustomer(doc, customerId);
+  const fields = sanitizeCustomerFields(body);
+
+  const before = snapshot(customer);
+  Object.assign(customer, fields, { updatedBy: user.username });
+  ctx.record({ action: 'customer.update', reference: customer.name, before, after: snapshot(customer) });
+  return customer;
+};
+
+// Customers referenced by any transaction (trash included) can only be merged into another one
+export const deleteCustomer = (ctx: MutationContext, customerId: string) => {
+  const { doc, user } = ctx;
+  assertAdmin(user);
+  const customer = findCustomer(doc, customerId);
+  const inUse = doc.items.some(item => item.transactions.some(t => t.customerId === customer.id));
+  if (inUse) throw new ApiError(409, `Customer ${customer.name} has releases; merge it instead`);
+  doc.customers = doc.customers.filter(c => c.id !== customer.id);
+  ctx.record({ action: 'customer.delete', reference: customer.name, before: snapshot(customer) });
+};
+
+// Folds duplicate customers into one. The target is an existing customer (`targetId`) or a new one (`customer`).
+// Releases and returns of the `sourceIds` customers, and those typed with one of `names` but never linked, are
+// pointed at the target and take its name; the source customers are removed.
+export const mergeCustomers = (ctx: MutationContext, body: any) => {
+  const { doc, user } = ctx;
+  assertAdmin(user);
+  const sourceIds: string[] = body.sourceIds === undefined ? [] : body.sourceIds;
+  const names: string[] = body.names === undefined ? [] : body.names;
+  if (!Array.isArray(sourceIds) || sourceIds.some(id => typeof id !== 'string')) throw new ApiError(400, 'Invalid sourceIds');
+  if (!Array.isArray(names) || names.some(name => typeof name !== 'string')) throw new ApiError(400, 'Invalid names');
+
+  const target = typeof body.targetId === 'string' ? findCustomer(doc, body.targetId) : createCustomer(ctx, body.customer || {});
+  const sources = Array.from(new Set(sourceIds)).filter(id => id !== target.id).map(id => findCustomer(doc, id));
+  const sourceSet = new Set(sources.map(c => c.id));
+  const nameSet = new Set(names.map(name => name.trim()).filter(Boolean));
+  if (sources.length === 0 && nameSet.size === 0) throw new ApiError(400, 'Nothing to merge');
+
+  const transactions: { itemId: string; transaction: Transaction }[] = [];
+  doc.items.forEach(item => item.transactions.forEach(t => {
+    if (!carriesCustomer(t)) return;
+    const matches = t.customerId ? sourceSet.has(t.customerId) : nameSet.has(t.customerName?.trim() || '');
+    if (!matches) return;
+    t.customerId = target.id;
+    t.customerName = target.name;
+    t.updatedBy = user.username;
+    transactions.push({ itemId: item.id, transaction: t });
+  }));
+
+  doc.customers = doc.customers.filter(c => !sourceSet.has(c.id));
+  ctx.record({
+    action: 'customer.merge', reference: target.name,
+    before: { customers: sources.map(c => snapshot(c)), names: Array.from(nameSet) },
+    after: { customer: snapshot(target), linkedTransactions: transactions.length },
+  });
+  return { customer: target, transactions, removedIds: sources.map(c => c.id) };
+};
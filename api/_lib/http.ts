@@ -0,0 +1,33 @@
+
+export class ApiError extends Error {
+  status: number;
+  extra?: Record<string, unknown>;
+
+  constructor(status: number, message: string, extra?: Record<string, unknown>) {
+    super(message);
+    this.status = status;
+    this.extra = extra;
+  }
+}
+
+export const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+export const serverError = (error: any) => {
+  if (error instanceof ApiError) return json({ error: error.message, ...error.extra }, error.status);
+  console.error('KV Error:', error);
+  return json({ error: 'Internal Server Error', details: error?.message }, 500);
+};
+
+export const readJson = async (req: Request): Promise<any> => {
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== 'object') throw new ApiError(400, 'Invalid data format');
+  return body;
+};
+
+// Dynamic route segments, e.g. /api/items/:id/transactions/:transactionId -> ['items', id, 'transactions', transactionId]
+export const getPathSegments = (req: Request): string[] =>
+  new URL(req.url).pathname.split('/').filter(Boolean).slice(1).map(decodeURIComponent);
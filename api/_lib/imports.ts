@@ -0,0 +1,168 @@
+import type { InventoryDocument, Item, Transaction } from '../../types';
+import { isActive } from '../../utils/inventory';
+import { ApiError } from './http';
+import {
+  addTransaction, assertAdmin, createItem, deleteItem, deleteTransaction, findItem, restoreItem, restoreTransaction,
+  sanitizeItemFields, sanitizeTransactionFields, updateItem, updateTransaction,
+} from './store';
+import type { MutationContext } from './store';
+
+const rowsOf = (body: any, field: string): any[] => {
+  if (body[field] === undefined) return [];
+  if (!Array.isArray(body[field])) throw new ApiError(400, `Invalid ${field}`);
+  return body[field];
+};
+
+// Prefixes a rejection with the sheet row it came from
+const atRow = <T>(entry: any, index: number, action: () => T): T => {
+  try {
+    return action();
+  } catch (error) {
+    if (!(error instanceof ApiError)) throw error;
+    throw new ApiError(error.status, `Row ${Number.isInteger(entry?.row) ? entry.row : index + 1}: ${error.message}`, error.extra);
+  }
+};
+
+// Bulk import of a spreadsheet: creates `items` (each with its opening receipts) and then posts `transactions` to
+// existing items, in the given order and through the same checks as single entries. It is one mutation, so a single
+// rejected row aborts the import and nothing is saved.
+export const importInventory = (ctx: MutationContext, body: any) => {
+  assertAdmin(ctx.user);
+  const itemRows = rowsOf(body, 'items');
+  const transactionRows = rowsOf(body, 'transactions');
+  if (itemRows.length === 0 && transactionRows.length === 0) throw new ApiError(400, 'Nothing to import');
+
+  const items: Item[] = itemRows.map((entry, index) => atRow(entry, index, () =>
+    createItem(ctx, { ...entry.item, transactions: entry.transactions })));
+  const transactions: { itemId: string; transaction: Transaction }[] = transactionRows.map((entry, index) => atRow(entry, index, () => {
+    const item = findItem(ctx.doc, entry.itemId);
+    return { itemId: item.id, transaction: addTransaction(ctx, item, entry.transaction || {}) };
+  }));
+  return { items, transactions };
+};
+
+// Values that clear a field the current copy has and the backup does not
+const ITEM_CLEARS: Record<string, unknown> = {
+  registrationDate: '', spec: '', modelName: '', drawingNumber: '', application: '', remarks: '',
+  minStock: null, reorderPoint: null, reorderQuantity: null, warrantyMonths: null, lotTracked: false,
+};
+const TRANSACTION_CLEARS: Record<string, unknown> = {
+  remarks: '', unitCost: null, locationId: null, toLocationId: null, lotNumber: null, modelName: '', serialNumber: '',
+  customerName: '', address: '', phoneNumber: '', customerId: null, userId: '', warrantyMonths: null,
+};
+
+const withClears = (target: any, current: any, clears: Record<string, unknown>) => {
+  const body = { ...target };
+  Object.entries(clears).forEach(([field, value]) => {
+    if (body[field] === undefined && current[field] !== undefined) body[field] = value;
+  });
+  return body;
+};
+
+// Whether the sanitized fields differ from the stored record
+const changes = (record: any, fields: object) =>
+  Object.entries(fields).some(([field, value]) => JSON.stringify(value ?? null) !== JSON.stringify(record[field] ?? null));
+
+const byDate = (a: { date: string }, b: { date: string }) => new Date(a.date).getTime() - new Date(b.date).getTime();
+
+// A restored entry keeps its purchase order line, production or stock take only if that record still exists
+const linksOf = (doc: InventoryDocument, entry: any): Partial<Transaction> => {
+  const links: Partial<Transaction> = {};
+  const order = doc.purchaseOrders.find(o => o.id === entry.purchaseOrderId);
+  if (order && order.lines.some(line => line.id === entry.purchaseOrderLineId)) {
+    links.purchaseOrderId = order.id;
+    links.purchaseOrderLineId = entry.purchaseOrderLineId;
+  }
+  if (doc.productionRecords.some(r => r.id === entry.productionId)) links.productionId = entry.productionId;
+  if (doc.stockTakes.some(t => t.id === entry.stockTakeId)) links.stockTakeId = entry.stockTakeId;
+  return links;
+};
+
+// Prefixes a rejection with the item code it came from
+const atItem = <T>(target: any, action: () => T): T => {
+  try {
+    return action();
+  } catch (error) {
+    if (!(error instanceof ApiError)) throw error;
+    throw new ApiError(error.status, `${target.code}: ${error.message}`, error.extra);
+  }
+};
+
+// Brings one item's entries in line with the backup: entries it no longer has go to the trash (newest first, so
+// releases and returns go before the receipts they drew on), then the rest are restored, added or edited oldest first
+const restoreTransactions = (ctx: MutationContext, item: Item, targets: any[]): boolean => {
+  const active = targets.filter(t => !t.deletedAt);
+  const keep = new Set(active.map(t => t.id));
+  let changed = false;
+  item.transactions.filter(t => isActive(t) && !keep.has(t.id)).sort(byDate).reverse().forEach(t => {
+    deleteTransaction(ctx, item.id, t.id);
+    changed = true;
+  });
+  active.sort(byDate).forEach(target => {
+    const existing = item.transactions.find(t => t.id === target.id);
+    if (!existing) {
+      addTransaction(ctx, item, target, linksOf(ctx.doc, target));
+      changed = true;
+      return;
+    }
+    if (!isActive(existing)) {
+      restoreTransaction(ctx, item.id, existing.id);
+      changed = true;
+    }
+    const body = withClears(target, existing, TRANSACTION_CLEARS);
+    if (changes(existing, sanitizeTransactionFields(body))) {
+      updateTransaction(ctx, item.id, existing.id, body);
+      changed = true;
+    }
+  });
+  return changed;
+};
+
+// Restores a backup copy of the items through the same checks as single edits: items and entries the backup does not
+// keep go to the trash, trashed ones it keeps come back, and the rest are created or edited one by one (bills of
+// materials last, once every part exists). It is one mutation, so a single rejected item aborts the restore.
+export const restoreBackup = (ctx: MutationContext, body: any) => {
+  assertAdmin(ctx.user);
+  const { doc } = ctx;
+  const targets = rowsOf(body, 'items');
+  if (targets.length === 0) throw new ApiError(400, 'Nothing to restore');
+  const isEntry = (t: any) => t && typeof t === 'object' && typeof t.date === 'string';
+  if (targets.some(t => !t || typeof t.id !== 'string' || !Array.isArray(t.transactions) || !t.transactions.every(isEntry))) {
+    throw new ApiError(400, 'Invalid backup item');
+  }
+  if (new Set(targets.map(t => t.id)).size !== targets.length) throw new ApiError(400, 'Duplicate item in backup');
+
+  const active = targets.filter(t => !t.deletedAt);
+  const keep = new Set(active.map(t => t.id));
+  const created = new Set<string>();
+  const updated = new Set<string>();
+  const removed = doc.items.filter(i => isActive(i) && !keep.has(i.id));
+  removed.forEach(i => deleteItem(ctx, i.id));
+
+  active.forEach(target => atItem(target, () => {
+    const existing = doc.items.find(i => i.id === target.id);
+    if (!existing) {
+      createItem(ctx, { ...target, bom: undefined, transactions: [] });
+      created.add(target.id);
+    } else {
+      if (!isActive(existing)) {
+        restoreItem(ctx, existing.id);
+        updated.add(existing.id);
+      }
+      const fields = withClears({ ...target, bom: undefined }, existing, ITEM_CLEARS);
+      if (changes(existing, sanitizeItemFields(fields))) {
+        updateItem(ctx, existing.id, fields);
+        updated.add(existing.id);
+      }
+    }
+    if (restoreTransactions(ctx, findItem(doc, target.id), target.transactions)) updated.add(target.id);
+  }));
+  active.forEach(target => atItem(target, () => {
+    const item = findItem(doc, target.id);
+    if (JSON.stringify(target.bom || []) === JSON.stringify(item.bom || [])) return;
+    updateItem(ctx, item.id, { bom: target.bom || [] });
+    updated.add(item.id);
+  }));
+
+  return { created: created.size, updated: Array.from(updated).filter(id => !created.has(id)).length, removed: removed.length };
+};
@@ -0,0 +1,83 @@
+
+import type { InventoryDocument, Location } from '../../types';
+import { generateId } from '../../utils/inventory';
+import { snapshot } from './audit';
+import { ApiError } from './http';
+import { assertAdmin } from './store';
+import type { MutationContext } from './store';
+
+const findLocation = (doc: InventoryDocument, locationId: string): Location => {
+  const location = doc.locations.find(l => l.id === locationId);
+  if (!location) throw new ApiError(404, 'Location not found');
+  return location;
+};
+
+const sanitizeLocationFields = (body: any): Partial<Location> => {
+  const fields: Partial<Location> = {};
+  (['code', 'name', 'remarks'] as const).forEach(field => {
+    if (body[field] === undefined) return;
+    if (typeof body[field] !== 'string') throw new ApiError(400, `Invalid ${field}`);
+    fields[field] = body[field].trim();
+  });
+  if (fields.code !== undefined) {
+    if (!fields.code) throw new ApiError(400, 'Location code is required');
+    fields.code = fields.code.toUpperCase();
+  }
+  if (fields.name !== undefined && !fields.name) throw new ApiError(400, 'Location name is required');
+  if (body.active !== undefined) {
+    if (typeof body.active !== 'boolean') throw new ApiError(400, 'Invalid active flag');
+    fields.active = body.active;
+  }
+  return fields;
+};
+
+const assertUniqueLocationCode = (doc: InventoryDocument, code: string, exceptId?: string) => {
+  if (doc.locations.some(l => l.id !== exceptId && l.code === code)) throw new ApiError(409, `Duplicate location code: ${code}`);
+};
+
+// Same client id as an earlier create: that request already went through, so its location is returned
+export const createLocation = (ctx: MutationContext, body: any): Location => {
+  const { doc, user } = ctx;
+  assertAdmin(user);
+  const existing = typeof body.id === 'string' && doc.locations.find(l => l.id === body.id);
+  if (existing) return existing;
+  const fields = sanitizeLocationFields(body);
+  if (!fields.code || !fields.name) throw new ApiError(400, 'Location code and name are required');
+  assertUniqueLocationCode(doc, fields.code);
+
+  const location: Location = {
+    id: typeof body.id === 'string' ? body.id : generateId('loc'),
+    code: fields.code,
+    name: fields.name,
+    remarks: fields.remarks || '',
+    active: fields.active ?? true,
+    createdBy: user.username,
+  };
+  doc.locations.push(location);
+  ctx.record({ action: 'location.create', reference: location.code, after: snapshot(location) });
+  return location;
+};
+
+export const updateLocation = (ctx: MutationContext, locationId: string, body: any): Location => {
+  const { doc, user } = ctx;
+  assertAdmin(user);
+  const location = findLocation(doc, locationId);
+  const fields = sanitizeLocationFields(body);
+  if (fields.code) assertUniqueLocationCode(doc, fields.code, location.id);
+
+  const before = snapshot(location);
+  Object.assign(location, fields, { updatedBy: user.username });
+  ctx.record({ action: 'location.update', reference: location.code, before, after: snapshot(location) });
+  return location;
+};
+
+// Locations referenced by any transaction (trash included) keep the history readable; deactivate those instead
+export const deleteLocation = (ctx: MutationContext, locationId: string) => {
+  const { doc, user } = ctx;
+  assertAdmin(user);
+  const location = findLocation(doc, locationId);
+  const inUse = doc.items.some(item => item.transactions.some(t => t.locationId === location.id || t.toLocationId === location.id));
+  if (inUse) throw new ApiError(409, `Location ${location.code} is in use; deactivate it instead`);
+  doc.locations = doc.locations.filter(l => l.id !== location.id);
+  ctx.record({ action: 'location.delete', reference: location.code, before: snapshot(location) });
+};
@@ -0,0 +1,96 @@
+
+import type { ProductionRecord, Transaction } from '../../types';
+import { calculateStock, collectSerials, generateId } from '../../utils/inventory';
+import { allocateFifo, lotBalances, lotBalancesAt } from '../../utils/lots';
+import { parseSerialRange } from '../../utils/serials';
+import { valuateItem } from '../../utils/valuation';
+import { snapshot } from './audit';
+import { ApiError } from './http';
+import { addTransaction, assertAdmin, findItem, nextDocumentNumber } from './store';
+import type { MutationContext } from './store';
+
+const parseSerials = (body: any): string[] => {
+  if (Array.isArray(body.serialNumbers)) {
+    return body.serialNumbers.filter((s: unknown) => typeof s === 'string' && s.trim()).map((s: string) => s.trim().toUpperCase());
+  }
+  if (typeof body.serialRange !== 'string' || !body.serialRange.trim()) return [];
+  try {
+    return parseSerialRange(body.serialRange.trim().toUpperCase());
+  } catch (error: any) {
+    throw new ApiError(400, error.message);
+  }
+};
+
+// Assembles `quantity` units of a product: releases every BOM part and receives the product
+// (one transaction per serial, or a single one without serials), all linked to one production
+// record. With a location, parts are taken from and the product is put into that location.
+// Everything happens inside one mutation, so any shortage or duplicate serial aborts the whole
+// operation and nothing is saved.
+export const createProduction = (ctx: MutationContext, body: any) => {
+  const { doc, user } = ctx;
+  assertAdmin(user);
+  const product = findItem(doc, body.productId);
+  if (product.type !== 'product') throw new ApiError(400, 'Only products can be assembled');
+  if (!product.bom || product.bom.length === 0) throw new ApiError(400, `${product.code} has no bill of materials`);
+
+  const serialNumbers = parseSerials(body);
+  const quantity = serialNumbers.length > 0 ? serialNumbers.length : body.quantity;
+  if (!Number.isInteger(quantity) || quantity <= 0) throw new ApiError(400, 'Quantity must be a positive integer');
+  if (body.quantity !== undefined && body.quantity !== quantity) throw new ApiError(400, 'Quantity does not match the serial range');
+  if (new Set(serialNumbers).size !== serialNumbers.length) throw new ApiError(400, 'Serial range contains duplicates');
+  // Newly built units get fresh serials; a serial seen before belongs to an existing unit
+  const usedSerials = new Set(collectSerials(doc.items));
+  const reused = serialNumbers.filter(s => usedSerials.has(s));
+  if (reused.length > 0) throw new ApiError(409, `Duplicate serial number: ${reused.slice(0, 5).join(', ')}`);
+
+  const locationId = typeof body.locationId === 'string' && body.locationId ? body.locationId : undefined;
+  const parts = product.bom.map(line => ({ line, part: findItem(doc, line.partId) }));
+  const shortages = parts
+    .map(({ line, part }) => ({ code: part.code, name: part.name, required: line.quantity * quantity, available: calculateStock(part, locationId) }))
+    .filter(s => s.required > s.available);
+  if (shortages.length > 0) {
+    throw new ApiError(422, `Insufficient part stock: ${shortages.map(s => s.code).join(', ')}`, { shortages });
+  }
+
+  const date = typeof body.date === 'string' && body.date ? body.date : new Date().toISOString();
+  const record: ProductionRecord = {
+    id: typeof body.id === 'string' && !doc.productionRecords.some(r => r.id === body.id) ? body.id : generateId('mo'),
+    productionNumber: nextDocumentNumber('MO', date, doc.productionRecords.map(r => r.productionNumber)),
+    productId: product.id,
+    productCode: product.code,
+    quantity,
+    serialNumbers,
+    date,
+    remarks: typeof body.remarks === 'string' ? body.remarks : '',
+    createdBy: user.username,
+  };
+  const remarks = `생산 ${record.productionNumber}${record.remarks ? ` / ${record.remarks}` : ''}`;
+  const links = { productionId: record.id };
+  const transactions: { itemId: string; transaction: Transaction }[] = [];
+
+  // Parts leave at their current valuation; the product is received at the summed part cost.
+  // Lot-tracked parts are drawn FIFO from their lots (at the location, when one is given), one release per lot,
+  // so a lot can be traced to this run.
+  let partCost = 0;
+  parts.forEach(({ line, part }) => {
+    const required = line.quantity * quantity;
+    const { picks, shortfall } = part.lotTracked ? allocateFifo(locationId ? lotBalancesAt(part, locationId) : lotBalances(part), required) : { picks: [{ lotNumber: '', quantity: required }], shortfall: 0 };
+    if (shortfall > 0) throw new ApiError(422, `Insufficient lot stock for ${part.code}${locationId ? ' at the selected location' : ''}`);
+    picks.forEach(pick => {
+      const transaction = addTransaction(ctx, part, { type: 'release', quantity: pick.quantity, lotNumber: pick.lotNumber, locationId, date, remarks }, links);
+      const movement = valuateItem(part, doc.settings.valuationMethod).movements.find(m => m.transaction.id === transaction.id);
+      partCost += movement?.cost || 0;
+      transactions.push({ itemId: part.id, transaction });
+    });
+  });
+
+  const unitCost = partCost / quantity;
+  const receipts = serialNumbers.length > 0
+    ? serialNumbers.map(serialNumber => ({ type: 'purchase', quantity: 1, serialNumber, unitCost, locationId, date, remarks }))
+    : [{ type: 'purchase', quantity, unitCost, locationId, date, remarks }];
+  receipts.forEach(receipt => transactions.push({ itemId: product.id, transaction: addTransaction(ctx, product, receipt, links) }));
+
+  doc.productionRecords.push(record);
+  ctx.record({ action: 'production.create', itemId: product.id, itemCode: product.code, reference: record.productionNumber, after: snapshot(record) });
+  return { production: record, transactions };
+};
@@ -0,0 +1,163 @@
+
+import type { InventoryDocument, PurchaseOrder, PurchaseOrderLine, Transaction } from '../../types';
+import { generateId } from '../../utils/inventory';
+import { lineRemaining, purchaseOrderStatus, receivedByLine } from '../../utils/purchaseOrders';
+import { snapshot } from './audit';
+import { ApiError } from './http';
+import { addTransaction, assertAdmin, findItem, nextDocumentNumber } from './store';
+import type { MutationContext } from './store';
+
+const HEADER_FIELDS = ['supplier', 'orderDate', 'expectedDate', 'remarks'] as const;
+const STORED_STATUSES: PurchaseOrder['status'][] = ['draft', 'ordered', 'closed'];
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const findPurchaseOrder = (doc: InventoryDocument, orderId: string): PurchaseOrder => {
+  const order = doc.purchaseOrders.find(o => o.id === orderId);
+  if (!order) throw new ApiError(404, 'Purchase order not found');
+  return order;
+};
+
+const pickHeader = (body: any): Partial<PurchaseOrder> => {
+  const fields: Partial<PurchaseOrder> = {};
+  HEADER_FIELDS.forEach(field => {
+    if (body[field] === undefined) return;
+    if (typeof body[field] !== 'string') throw new ApiError(400, `Invalid ${field}`);
+    fields[field] = body[field].trim();
+  });
+  return fields;
+};
+
+// Lines snapshot the item's code, name, drawing number and spec as they were when ordered
+const sanitizeLines = (doc: InventoryDocument, lines: any, existing: PurchaseOrderLine[] = []): PurchaseOrderLine[] => {
+  if (!Array.isArray(lines)) throw new ApiError(400, 'Invalid purchase order lines');
+  return lines.map((line: any) => {
+    if (!line || typeof line.itemId !== 'string') throw new ApiError(400, 'Invalid purchase order line');
+    if (!Number.isInteger(line.quantity) || line.quantity <= 0) throw new ApiError(400, 'Line quantity must be a positive integer');
+    if (typeof line.unitPrice !== 'number' || !(line.unitPrice >= 0)) throw new ApiError(400, 'Line unit price must be zero or more');
+    const item = findItem(doc, line.itemId);
+    const previous = existing.find(l => l.id === line.id);
+    return {
+      id: previous?.id || (typeof line.id === 'string' && line.id ? line.id : generateId('pol')),
+      registrationDate: previous?.registrationDate || today(),
+      itemId: item.id,
+      code: item.code,
+      name: item.name,
+      drawingNumber: item.drawingNumber,
+      spec: item.spec,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      remarks: typeof line.remarks === 'string' ? line.remarks : '',
+    };
+  });
+};
+
+// A retried create (same client id) returns the order saved the first time instead of numbering a second one
+export const createPurchaseOrder = (ctx: MutationContext, body: any): PurchaseOrder => {
+  const { doc, user } = ctx;
+  assertAdmin(user);
+  const existing = typeof body.id === 'string' && doc.purchaseOrders.find(o => o.id === body.id);
+  if (existing) return existing;
+  const header = pickHeader(body);
+  if (!header.supplier) throw new ApiError(400, 'Supplier is required');
+  const orderDate = header.orderDate || today();
+
+  const order: PurchaseOrder = {
+    id: typeof body.id === 'string' ? body.id : generateId('po'),
+    orderNumber: nextDocumentNumber('PO', orderDate, doc.purchaseOrders.map(o => o.orderNumber)),
+    supplier: header.supplier,
+    orderDate,
+    expectedDate: header.expectedDate || '',
+    status: 'draft',
+    remarks: header.remarks || '',
+    lines: body.lines ? sanitizeLines(doc, body.lines) : [],
+    createdBy: user.username,
+  };
+  doc.purchaseOrders.push(order);
+  ctx.record({ action: 'purchaseOrder.create', reference: order.orderNumber, after: snapshot(order) });
+  return order;
+};
+
+// Header fields are editable at any time; lines only while the order is a draft.
+// Status moves draft -> ordered -> closed, and back to draft only before anything was received.
+export const updatePurchaseOrder = (ctx: MutationContext, orderId: string, body: any): PurchaseOrder => {
+  const { doc, user } = ctx;
+  assertAdmin(user);
+  const order = findPurchaseOrder(doc, orderId);
+  const before = snapshot(order);
+  const received = receivedByLine(doc.items);
+
+  Object.assign(order, pickHeader(body));
+  if (!order.supplier) throw new ApiError(400, 'Supplier is required');
+
+  if (body.lines !== undefined) {
+    if (order.status !== 'draft') throw new ApiError(409, 'Lines can only be changed while the order is a draft');
+    order.lines = sanitizeLines(doc, body.lines, order.lines);
+  }
+
+  if (body.status !== undefined && body.status !== order.status) {
+    if (!STORED_STATUSES.includes(body.status)) throw new ApiError(400, 'Invalid status');
+    if (body.status === 'ordered' && order.lines.length === 0) throw new ApiError(400, 'An order needs at least one line');
+    if (body.status === 'draft' && order.lines.some(line => (received.get(line.id) || 0) > 0)) {
+      throw new ApiError(409, 'Orders with receipts cannot return to draft');
+    }
+    if (body.status === 'closed' && order.status === 'draft') throw new ApiError(409, 'Draft orders must be confirmed or deleted');
+    order.status = body.status;
+  }
+
+  order.updatedBy = user.username;
+  ctx.record({ action: 'purchaseOrder.update', reference: order.orderNumber, before, after: snapshot(order) });
+  return order;
+};
+
+export const deletePurchaseOrder = (ctx: MutationContext, orderId: string) => {
+  const { doc, user } = ctx;
+  assertAdmin(user);
+  const order = findPurchaseOrder(doc, orderId);
+  if (order.status !== 'draft') throw new ApiError(409, 'Only draft orders can be deleted');
+  doc.purchaseOrders = doc.purchaseOrders.filter(o => o.id !== order.id);
+  ctx.record({ action: 'purchaseOrder.delete', reference: order.orderNumber, before: snapshot(order) });
+};
+
+// Receives quantities against order lines; every receipt becomes a purchase transaction linked to its line
+// (with the receipt's client-generated id, so a replayed request can be recognized)
+export const receivePurchaseOrder = (ctx: MutationContext, orderId: string, body: any) => {
+  const { doc, user } = ctx;
+  assertAdmin(user);
+  const order = findPurchaseOrder(doc, orderId);
+  const received = receivedByLine(doc.items);
+  const status = purchaseOrderStatus(order, received);
+  if (status !== 'ordered' && status !== 'partially_received') throw new ApiError(409, `Cannot receive against a ${status} order`);
+
+  const receipts: any[] = Array.isArray(body.receipts) ? body.receipts.filter((r: any) => r && r.quantity) : [];
+  if (receipts.length === 0) throw new ApiError(400, 'Nothing to receive');
+
+  const transactions: { itemId: string; transaction: Transaction }[] = [];
+  receipts.forEach(receipt => {
+    const line = order.lines.find(l => l.id === receipt.lineId);
+    if (!line) throw new ApiError(404, 'Purchase order line not found');
+    if (!Number.isInteger(receipt.quantity) || receipt.quantity <= 0) throw new ApiError(400, 'Receipt quantity must be a positive integer');
+    if (receipt.quantity > lineRemaining(line, received)) throw new ApiError(422, `Receipt exceeds the open quantity for ${line.code}`);
+
+    const item = findItem(doc, line.itemId);
+    const transaction = addTransaction(ctx, item, {
+      id: receipt.id,
+      type: 'purchase',
+      quantity: receipt.quantity,
+      unitCost: line.unitPrice,
+      locationId: body.locationId,
+      lotNumber: receipt.lotNumber,
+      date: typeof body.date === 'string' && body.date ? body.date : undefined,
+      remarks: `발주 입고 ${order.orderNumber}${body.remarks ? ` / ${body.remarks}` : ''}`,
+    }, { purchaseOrderId: order.id, purchaseOrderLineId: line.id });
+    received.set(line.id, (received.get(line.id) || 0) + receipt.quantity);
+    transactions.push({ itemId: item.id, transaction });
+  });
+
+  ctx.record({
+    action: 'purchaseOrder.receive',
+    reference: order.orderNumber,
+    after: { receipts: transactions.map(({ transaction }) => ({ lineId: transaction.purchaseOrderLineId, quantity: transaction.quantity })) },
+  });
+  return { purchaseOrder: order, transactions };
+};
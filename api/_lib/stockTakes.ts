@@ -0,0 +1,173 @@
+import type { InventoryDocument, StockTake, StockTakeLine, Transaction } from '../../types';
+import { calculateStock, generateId, isActive } from '../../utils/inventory';
+import { allocateFifo, lotBalances, lotBalancesAt } from '../../utils/lots';
+import { inStockSerials } from '../../utils/serials';
+import { applyCount, isCounted, lineVariance, serialDifferences, snapshotLines } from '../../utils/stockTakes';
+import { snapshot } from './audit';
+import { ApiError } from './http';
+import { addTransaction, assertAdmin, findItem, nextDocumentNumber } from './store';
+import type { MutationContext } from './store';
+
+const ITEM_TYPES: StockTake['itemType'][] = ['part', 'product'];
+
+const findStockTake = (doc: InventoryDocument, stockTakeId: string): StockTake => {
+  const take = doc.stockTakes.find(s => s.id === stockTakeId);
+  if (!take) throw new ApiError(404, 'Stock-take not found');
+  return take;
+};
+
+const assertOpen = (take: StockTake) => {
+  if (take.status !== 'open') throw new ApiError(409, `Stock-take ${take.stockTakeNumber} is ${take.status}`);
+};
+
+// Audit snapshot without the (possibly very long) line list
+const summary = ({ lines, ...header }: StockTake) =>
+  snapshot({ ...header, lineCount: lines.length, countedCount: lines.filter(l => l.counted !== undefined).length });
+
+const sanitizeSerials = (serials: any): string[] => {
+  if (!Array.isArray(serials) || serials.some(s => typeof s !== 'string')) throw new ApiError(400, 'Invalid counted serials');
+  return Array.from(new Set<string>(serials.map((s: string) => s.trim().toUpperCase()).filter(Boolean)));
+};
+
+// Counts are { itemId, counted, countedSerials?, lotNumber? }; counted null clears a count
+const applyCounts = (take: StockTake, counts: any) => {
+  if (!Array.isArray(counts)) throw new ApiError(400, 'Invalid counts');
+  counts.forEach((count: any) => {
+    const line = take.lines.find(l => l.itemId === count?.itemId);
+    if (!line) throw new ApiError(404, 'Stock-take line not found');
+    if (count.counted !== undefined && count.counted !== null && (!Number.isInteger(count.counted) || count.counted < 0)) {
+      throw new ApiError(400, `Counted quantity for ${line.code} must be zero or more`);
+    }
+    if (count.lotNumber !== undefined && typeof count.lotNumber !== 'string') throw new ApiError(400, 'Invalid lot number');
+    applyCount(line, {
+      itemId: line.itemId,
+      counted: count.counted,
+      countedSerials: count.countedSerials === undefined ? undefined : sanitizeSerials(count.countedSerials),
+      lotNumber: count.lotNumber === undefined ? undefined : count.lotNumber.trim().toUpperCase(),
+    });
+  });
+};
+
+// Starts a count: the book quantity of every item in scope is snapshotted now for reference while counting.
+// Sending an id that already names a session (a replayed request) returns that session unchanged.
+export const createStockTake = (ctx: MutationContext, body: any): StockTake => {
+  const { doc, user } = ctx;
+  assertAdmin(user);
+  const existing = typeof body.id === 'string' && doc.stockTakes.find(s => s.id === body.id);
+  if (existing) return existing;
+  if (body.itemType !== undefined && !ITEM_TYPES.includes(body.itemType)) throw new ApiError(400, 'Invalid item type');
+  if (body.locationId !== undefined && typeof body.locationId !== 'string') throw new ApiError(400, 'Invalid location');
+  if (body.locationId && !doc.locations.some(l => l.id === body.locationId)) throw new ApiError(404, 'Location not found');
+
+  const startedAt = new Date().toISOString();
+  const lines = snapshotLines(doc.items, { itemType: body.itemType, locationId: body.locationId });
+  if (lines.length === 0) throw new ApiError(400, 'No items to count');
+  const take: StockTake = {
+    id: typeof body.id === 'string' ? body.id : generateId('st'),
+    stockTakeNumber: nextDocumentNumber('ST', startedAt, doc.stockTakes.map(s => s.stockTakeNumber)),
+    status: 'open',
+    ...(body.itemType && { itemType: body.itemType }),
+    ...(body.locationId !== undefined && { locationId: body.locationId }),
+    startedAt,
+    remarks: typeof body.remarks === 'string' ? body.remarks.trim() : '',
+    lines,
+    createdBy: user.username,
+  };
+  doc.stockTakes.push(take);
+  ctx.record({ action: 'stockTake.create', reference: take.stockTakeNumber, after: summary(take) });
+  return take;
+};
+
+// Records counts, edits the remarks, or cancels the session. Only open sessions change.
+export const updateStockTake = (ctx: MutationContext, stockTakeId: string, body: any): StockTake => {
+  const { doc, user } = ctx;
+  assertAdmin(user);
+  const take = findStockTake(doc, stockTakeId);
+  assertOpen(take);
+  const before = summary(take);
+
+  if (body.remarks !== undefined) {
+    if (typeof body.remarks !== 'string') throw new ApiError(400, 'Invalid remarks');
+    take.remarks = body.remarks.trim();
+  }
+
+  if (body.counts !== undefined) applyCounts(take, body.counts);
+
+  if (body.status !== undefined && body.status !== take.status) {
+    if (body.status !== 'cancelled') throw new ApiError(400, 'Invalid status');
+    take.status = 'cancelled';
+  }
+
+  take.updatedBy = user.username;
+  ctx.record({ action: 'stockTake.update', reference: take.stockTakeNumber, before, after: summary(take) });
+  return take;
+};
+
+// Adjustments that bring one item from its book quantity to the counted one. Products use the missing
+// (or newly found) serials first; lot-tracked parts lose stock oldest lot first (among the lots held at the
+// counted location, when the session has one) and gain it in the line's lot.
+const lineAdjustments = (ctx: MutationContext, take: StockTake, line: StockTakeLine) => {
+  const variance = lineVariance(line);
+  const item = findItem(ctx.doc, line.itemId);
+  const adjustmentDirection = variance > 0 ? 'increase' : 'decrease';
+  const base = {
+    type: 'adjustment', adjustmentDirection, reasonCode: 'COUNT_CORRECTION',
+    locationId: take.locationId || undefined, remarks: `재고 실사 ${take.stockTakeNumber}`,
+  };
+  let remaining = Math.abs(variance);
+  const adjustments: any[] = [];
+
+  if (item.type === 'product') {
+    const { missing, extra } = serialDifferences(line);
+    (variance > 0 ? extra : missing).slice(0, remaining).forEach(serialNumber => adjustments.push({ ...base, quantity: 1, serialNumber }));
+    remaining -= adjustments.length;
+  }
+  if (remaining > 0 && item.lotTracked && variance > 0) {
+    if (!line.lotNumber) throw new ApiError(422, `Lot number required for ${item.code}`);
+    adjustments.push({ ...base, quantity: remaining, lotNumber: line.lotNumber });
+  } else if (remaining > 0 && item.lotTracked) {
+    const lots = take.locationId !== undefined ? lotBalancesAt(item, take.locationId) : lotBalances(item);
+    const { picks, shortfall } = allocateFifo(lots, remaining);
+    if (shortfall > 0) throw new ApiError(422, `Insufficient lot stock for ${item.code}${take.locationId !== undefined ? ' at the counted location' : ''}`);
+    picks.forEach(pick => adjustments.push({ ...base, quantity: pick.quantity, lotNumber: pick.lotNumber }));
+  } else if (remaining > 0) {
+    adjustments.push({ ...base, quantity: remaining });
+  }
+  return { item, adjustments };
+};
+
+// Counted lines are compared with the book as it stands at approval, so receipts and releases posted while
+// counting are not adjusted a second time. The start-of-count snapshot (`expected`) is kept as it was.
+const recordBookAtApproval = (doc: InventoryDocument, take: StockTake, line: StockTakeLine) => {
+  const item = doc.items.find(i => i.id === line.itemId && isActive(i));
+  if (!item) return;
+  line.bookAtApproval = calculateStock(item, take.locationId);
+  if (line.expectedSerials) line.bookSerialsAtApproval = inStockSerials(item);
+};
+
+// Posts one COUNT_CORRECTION adjustment per difference from the current book quantity and closes the session,
+// after recording any counts sent along. Lines left uncounted are not adjusted. Any failing adjustment aborts
+// the whole approval.
+export const approveStockTake = (ctx: MutationContext, stockTakeId: string, body: any) => {
+  const { doc, user } = ctx;
+  assertAdmin(user);
+  const take = findStockTake(doc, stockTakeId);
+  assertOpen(take);
+  const before = summary(take);
+  if (body.counts !== undefined) applyCounts(take, body.counts);
+
+  take.lines.filter(isCounted).forEach(line => recordBookAtApproval(doc, take, line));
+  const date = new Date().toISOString();
+  const transactions: { itemId: string; transaction: Transaction }[] = [];
+  take.lines.filter(line => lineVariance(line) !== 0).forEach(line => {
+    const { item, adjustments } = lineAdjustments(ctx, take, line);
+    adjustments.forEach(adjustment => {
+      const transaction = addTransaction(ctx, item, { ...adjustment, date }, { stockTakeId: take.id });
+      transactions.push({ itemId: item.id, transaction });
+    });
+  });
+
+  Object.assign(take, { status: 'approved', approvedAt: date, approvedBy: user.username, updatedBy: user.username });
+  ctx.record({ action: 'stockTake.approve', reference: take.stockTakeNumber, before, after: { ...summary(take), adjustments: transactions.length } });
+  return { stockTake: take, transactions };
+};
@@ -0,0 +1,550 @@
+
+import { kv } from '@vercel/kv';
+import type { BomLine, InventoryDocument, InventorySettings, Item, Transaction, UserAccount } from '../../types';
+import { DEFAULT_SETTINGS, NO_LOT, UNASSIGNED_LOCATION, generateId, isActive, isTrashExpired, sortItemsByCode, stockBalance } from '../../utils/inventory';
+import type { StockBalance } from '../../utils/inventory';
+import { lineRemaining, receivedByLine } from '../../utils/purchaseOrders';
+import { serialBalances } from '../../utils/serials';
+import { isValidReason, requiresReason, returnedQuantity } from '../../utils/transactionTypes';
+import { appendAuditEntries, snapshot } from './audit';
+import type { AuditRecord } from './audit';
+import { ApiError } from './http';
+
+export const INVENTORY_KEY = 'inventory_system_v2_data';
+const REVISION_KEY = 'inventory_system_v2_revision';
+const MAX_WRITE_ATTEMPTS = 5;
+
+const ITEM_FIELDS = ['type', 'registrationDate', 'code', 'name', 'spec', 'modelName', 'drawingNumber', 'application', 'remarks', 'minStock', 'reorderPoint', 'reorderQuantity', 'lotTracked', 'warrantyMonths'] as const;
+// Whole-number item settings that null clears
+const COUNT_FIELDS = ['minStock', 'reorderPoint', 'reorderQuantity', 'warrantyMonths'] as const;
+const TRANSACTION_FIELDS = ['type', 'quantity', 'date', 'remarks', 'unitCost', 'locationId', 'toLocationId', 'lotNumber', 'modelName', 'serialNumber', 'customerName', 'address', 'phoneNumber', 'customerId', 'userId', 'reasonCode', 'adjustmentDirection', 'returnOfTransactionId', 'warrantyMonths'] as const;
+const TRANSACTION_TYPES: Transaction['type'][] = ['purchase', 'release', 'transfer', 'return', 'adjustment', 'scrap'];
+const VALUATION_METHODS: InventorySettings['valuationMethod'][] = ['moving_average', 'fifo'];
+
+// Compare-and-set: writes the document only if the stored revision still equals ARGV[1].
+// Returns { 1, newRevision } on success or { 0, currentRevision } on conflict.
+const COMPARE_AND_SET_SCRIPT = `
+local current = tonumber(redis.call('GET', KEYS[2]) or '0')
+if current ~= tonumber(ARGV[1]) then
+  return { 0, current }
+end
+redis.call('SET', KEYS[1], ARGV[2])
+redis.call('SET', KEYS[2], ARGV[3])
+return { 1, tonumber(ARGV[3]) }
+`;
+
+export const loadInventory = async (): Promise<InventoryDocument> => {
+  const data = await kv.get<InventoryDocument>(INVENTORY_KEY);
+  return {
+    lastUpdated: null,
+    ...data,
+    items: data?.items || [],
+    locations: data?.locations || [],
+    purchaseOrders: data?.purchaseOrders || [],
+    productionRecords: data?.productionRecords || [],
+    stockTakes: data?.stockTakes || [],
+    customers: data?.customers || [],
+    settings: { ...DEFAULT_SETTINGS, ...data?.settings },
+    revision: data?.revision || 0,
+  };
+};
+
+// Writes `doc` as the next revision after `baseRevision`. Returns the saved document, or null
+// when someone else saved in the meantime.
+export const saveInventory = async (doc: InventoryDocument, user: UserAccount, baseRevision: number): Promise<InventoryDocument | null> => {
+  const saved: InventoryDocument = {
+    ...doc,
+    revision: baseRevision + 1,
+    lastUpdated: new Date().toISOString(),
+    lastUpdatedBy: user.username,
+  };
+  const [ok] = await kv.eval<[number, string, number], [number, number]>(
+    COMPARE_AND_SET_SCRIPT,
+    [INVENTORY_KEY, REVISION_KEY],
+    [baseRevision, JSON.stringify(saved), saved.revision]
+  );
+  return ok === 1 ? saved : null;
+};
+
+export interface MutationContext {
+  doc: InventoryDocument;
+  user: UserAccount;
+  record: (entry: AuditRecord) => void;
+}
+
+// Read-modify-write of the inventory document. The mutator edits `ctx.doc` in place and
+// throws ApiError to abort without saving. A concurrent write makes the mutator run
+// again on the fresh document, so it must not have side effects outside `ctx`; audit
+// entries passed to `ctx.record` are only written once the document save succeeds.
+export const mutateInventory = async <T>(user: UserAccount, mutator: (ctx: MutationContext) => T): Promise<{ result: T; revision: number }> => {
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const doc = await loadInventory();
+    const records: AuditRecord[] = [];
+    const ctx: MutationContext = { doc, user, record: entry => records.push(entry) };
+    purgeExpiredTrash(ctx);
+    const result = mutator(ctx);
+    const saved = await saveInventory(doc, user, doc.revision);
+    if (saved) {
+      await appendAuditEntries(user.username, records);
+      return { result, revision: saved.revision };
+    }
+  }
+  throw new ApiError(503, 'Inventory is busy, please retry');
+};
+
+const pick = <K extends string>(source: any, fields: readonly K[]) => {
+  const picked: Partial<Record<K, any>> = {};
+  fields.forEach(field => {
+    if (source[field] !== undefined) picked[field] = source[field];
+  });
+  return picked;
+};
+
+// Items and transactions in the trash are invisible to the regular endpoints
+export const findItem = (doc: InventoryDocument, itemId: string): Item => {
+  const item = doc.items.find(i => i.id === itemId && isActive(i));
+  if (!item) throw new ApiError(404, 'Item not found');
+  return item;
+};
+
+export const findTransaction = (item: Item, transactionId: string): Transaction => {
+  const transaction = item.transactions.find(t => t.id === transactionId && isActive(t));
+  if (!transaction) throw new ApiError(404, 'Transaction not found');
+  return transaction;
+};
+
+// Document numbers such as PO-20240131-001, numbered per prefix and day
+export const nextDocumentNumber = (kind: string, date: string, used: string[]) => {
+  const prefix = `${kind}-${date.slice(0, 10).replace(/-/g, '')}-`;
+  const max = used
+    .filter(n => n.startsWith(prefix))
+    .reduce((acc, n) => Math.max(acc, parseInt(n.slice(prefix.length), 10) || 0), 0);
+  return `${prefix}${String(max + 1).padStart(3, '0')}`;
+};
+
+// product_only accounts may only touch product items
+export const assertCanEdit = (user: UserAccount, item: Pick<Item, 'type'>) => {
+  if (user.role !== 'admin' && item.type !== 'product') throw new ApiError(403, 'Forbidden');
+};
+
+export const assertAdmin = (user: UserAccount) => {
+  if (user.role !== 'admin') throw new ApiError(403, 'Forbidden');
+};
+
+const assertUniqueCode = (doc: InventoryDocument, code: string, exceptItemId?: string) => {
+  const upper = code.toUpperCase();
+  if (doc.items.some(i => i.id !== exceptItemId && isActive(i) && i.code.toUpperCase() === upper)) {
+    throw new ApiError(409, `Duplicate item code: ${code}`);
+  }
+};
+
+// A serial is one physical unit: it may be on hand at most once across all items, and only the item holding it
+// can release it. Like stock, legacy histories that already break this may be edited as long as they do not get worse.
+interface SerialState {
+  total: number;
+  inItem: number;
+}
+
+const serialState = (doc: InventoryDocument, item: Item, serial: string): SerialState => {
+  const items = doc.items.includes(item) ? doc.items : [...doc.items, item];
+  return {
+    total: items.filter(isActive).reduce((sum, i) => sum + (serialBalances(i).get(serial) || 0), 0),
+    inItem: serialBalances(item).get(serial) || 0,
+  };
+};
+
+const serialStates = (doc: InventoryDocument, item: Item, serials: (string | undefined)[]) =>
+  new Map(serials.filter((s): s is string => !!s).map(s => [s.toUpperCase(), serialState(doc, item, s.toUpperCase())]));
+
+const assertSerialStock = (doc: InventoryDocument, item: Item, before: Map<string, SerialState>) => {
+  before.forEach((previous, serial) => {
+    const after = serialState(doc, item, serial);
+    if (after.total > 1 && after.total > previous.total) throw new ApiError(409, `Serial ${serial} is already in stock`);
+    if (after.inItem < 0 && after.inItem < previous.inItem) throw new ApiError(422, `Serial ${serial} is not in stock for ${item.code}`);
+  });
+};
+
+const assertSerialQuantity = (transaction: Transaction) => {
+  if (transaction.serialNumber && transaction.quantity !== 1) throw new ApiError(400, 'A serialized transaction must have a quantity of 1');
+};
+
+export const sanitizeItemFields = (body: any): Partial<Item> => {
+  const fields = pick(body, ITEM_FIELDS);
+  if (fields.type !== undefined && fields.type !== 'part' && fields.type !== 'product') throw new ApiError(400, 'Invalid item type');
+  if (fields.code !== undefined && (typeof fields.code !== 'string' || !fields.code.trim())) throw new ApiError(400, 'Item code is required');
+  if (fields.name !== undefined && (typeof fields.name !== 'string' || !fields.name.trim())) throw new ApiError(400, 'Item name is required');
+  // null clears a reorder setting or the warranty period
+  COUNT_FIELDS.forEach(field => {
+    if (fields[field] === null) fields[field] = undefined;
+    else if (fields[field] !== undefined && (!Number.isInteger(fields[field]) || fields[field] < 0)) throw new ApiError(400, `${field} must be a whole number of zero or more`);
+  });
+  if (fields.lotTracked !== undefined && typeof fields.lotTracked !== 'boolean') throw new ApiError(400, 'Invalid lotTracked flag');
+  return fields;
+};
+
+// BOM lines must point at live part items, once each, with a positive whole quantity per unit
+const sanitizeBom = (doc: InventoryDocument, type: Item['type'], bom: any): BomLine[] => {
+  if (!Array.isArray(bom)) throw new ApiError(400, 'Invalid bill of materials');
+  if (type !== 'product' && bom.length > 0) throw new ApiError(400, 'Only products can have a bill of materials');
+  const seen = new Set<string>();
+  return bom.map((line: any) => {
+    if (!line || typeof line.partId !== 'string') throw new ApiError(400, 'Invalid bill of materials line');
+    if (!Number.isInteger(line.quantity) || line.quantity <= 0) throw new ApiError(400, 'BOM quantity must be a positive integer');
+    if (!doc.items.some(i => i.id === line.partId && isActive(i) && i.type === 'part')) throw new ApiError(400, 'BOM parts must be existing part items');
+    if (seen.has(line.partId)) throw new ApiError(400, 'Duplicate part in bill of materials');
+    seen.add(line.partId);
+    return { partId: line.partId, quantity: line.quantity };
+  });
+};
+
+export const sanitizeTransactionFields = (body: any): Partial<Transaction> => {
+  const fields = pick(body, TRANSACTION_FIELDS);
+  if (fields.type !== undefined && !TRANSACTION_TYPES.includes(fields.type)) throw new ApiError(400, 'Invalid transaction type');
+  if (fields.quantity !== undefined && (!Number.isInteger(fields.quantity) || fields.quantity <= 0)) throw new ApiError(400, 'Quantity must be a positive integer');
+  // null clears the unit cost
+  if (fields.unitCost === null) fields.unitCost = undefined;
+  else if (fields.unitCost !== undefined && (typeof fields.unitCost !== 'number' || !(fields.unitCost >= 0))) throw new ApiError(400, 'Unit cost must be zero or more');
+  if (typeof fields.serialNumber === 'string') fields.serialNumber = fields.serialNumber.trim().toUpperCase();
+  if (fields.lotNumber === null || fields.lotNumber === '') fields.lotNumber = undefined;
+  else if (fields.lotNumber !== undefined) {
+    if (typeof fields.lotNumber !== 'string') throw new ApiError(400, 'Invalid lotNumber');
+    fields.lotNumber = fields.lotNumber.trim().toUpperCase() || undefined;
+  }
+  // null or an empty string puts the stock back into the unassigned pool
+  (['locationId', 'toLocationId'] as const).forEach(field => {
+    if (fields[field] === null || fields[field] === '') fields[field] = undefined;
+    else if (fields[field] !== undefined && typeof fields[field] !== 'string') throw new ApiError(400, `Invalid ${field}`);
+  });
+  if (fields.warrantyMonths === null) fields.warrantyMonths = undefined;
+  else if (fields.warrantyMonths !== undefined && (!Number.isInteger(fields.warrantyMonths) || fields.warrantyMonths < 0)) throw new ApiError(400, 'warrantyMonths must be a whole number of zero or more');
+  if (fields.customerId === null || fields.customerId === '') fields.customerId = undefined;
+  else if (fields.customerId !== undefined && typeof fields.customerId !== 'string') throw new ApiError(400, 'Invalid customerId');
+  if (fields.adjustmentDirection !== undefined && fields.adjustmentDirection !== 'increase' && fields.adjustmentDirection !== 'decrease') {
+    throw new ApiError(400, 'Invalid adjustment direction');
+  }
+  return fields;
+};
+
+// Returns, adjustments and scrap need a known reason code; an adjustment needs a direction. A return points at a live
+// release of the same item, takes back the released serial (and lot), and never exceeds what is still out.
+const assertTransactionReason = (item: Item, transaction: Transaction) => {
+  if (requiresReason(transaction.type)) {
+    if (!isValidReason(transaction.type, transaction.reasonCode)) throw new ApiError(400, `A valid reason code is required for ${transaction.type}`);
+  } else {
+    delete transaction.reasonCode;
+  }
+  if (transaction.type === 'adjustment') {
+    if (!transaction.adjustmentDirection) throw new ApiError(400, 'Adjustments need a direction');
+  } else {
+    delete transaction.adjustmentDirection;
+  }
+  if (transaction.type === 'release' && transaction.quantity < returnedQuantity(item, transaction.id)) {
+    throw new ApiError(409, 'Release quantity is below the quantity already returned');
+  }
+  if (transaction.type !== 'return') {
+    delete transaction.returnOfTransactionId;
+    return;
+  }
+  const release = item.transactions.find(t => t.id === transaction.returnOfTransactionId && isActive(t) && t.type === 'release');
+  if (!release) throw new ApiError(400, 'Returns must reference a release of the same item');
+  if (release.serialNumber) transaction.serialNumber = release.serialNumber;
+  if (release.lotNumber && !transaction.lotNumber) transaction.lotNumber = release.lotNumber;
+  if (transaction.quantity > release.quantity - returnedQuantity(item, release.id, transaction.id)) {
+    throw new ApiError(422, 'Return exceeds the released quantity');
+  }
+};
+
+// Locations must exist (and be active for new entries); a transfer needs a destination other than its source
+const assertTransactionLocations = (doc: InventoryDocument, transaction: Transaction, isNew: boolean) => {
+  [transaction.locationId, transaction.toLocationId].forEach(locationId => {
+    if (!locationId) return;
+    const location = doc.locations.find(l => l.id === locationId);
+    if (!location) throw new ApiError(400, 'Location not found');
+    if (isNew && !location.active) throw new ApiError(400, `Location ${location.code} is inactive`);
+  });
+  if (transaction.type !== 'transfer') {
+    delete transaction.toLocationId;
+    return;
+  }
+  if (!transaction.toLocationId) throw new ApiError(400, 'Transfers need a destination location');
+  if (transaction.toLocationId === transaction.locationId) throw new ApiError(400, 'Transfer source and destination must differ');
+  if (transaction.serialNumber) throw new ApiError(400, 'Transfers cannot carry serial numbers');
+};
+
+// Releases and returns may reference a registered customer. Linking one (on entry or when the link changes) takes the
+// customer's name, and its address and phone unless the entry gives its own; later edits to the customer leave the entry as it was.
+const assertTransactionCustomer = (doc: InventoryDocument, transaction: Transaction, linking: boolean) => {
+  if (!transaction.customerId || (transaction.type !== 'release' && transaction.type !== 'return')) {
+    delete transaction.customerId;
+    return;
+  }
+  const customer = doc.customers.find(c => c.id === transaction.customerId);
+  if (!customer) throw new ApiError(400, 'Customer not found');
+  if (!linking) return;
+  transaction.customerName = customer.name;
+  if (!transaction.address) transaction.address = customer.address;
+  if (!transaction.phoneNumber) transaction.phoneNumber = customer.phoneNumber;
+};
+
+// Product releases carry the warranty period in force when they are recorded, so later changes to the product's
+// period leave units already sold alone; other entries carry none
+const assertTransactionWarranty = (item: Item, transaction: Transaction, isNew: boolean) => {
+  if (transaction.type !== 'release' || item.type !== 'product') {
+    delete transaction.warrantyMonths;
+    return;
+  }
+  if (isNew && transaction.warrantyMonths === undefined && item.warrantyMonths) transaction.warrantyMonths = item.warrantyMonths;
+};
+
+// Lot-tracked items need a lot on every new receipt or upward adjustment (returns inherit the released lot);
+// transfers never carry one
+const assertTransactionLot = (item: Item, transaction: Transaction, isNew: boolean) => {
+  if (transaction.type === 'transfer') {
+    delete transaction.lotNumber;
+    return;
+  }
+  const needsLot = transaction.type === 'purchase' || (transaction.type === 'adjustment' && transaction.adjustmentDirection === 'increase');
+  if (isNew && item.lotTracked && needsLot && !transaction.lotNumber) throw new ApiError(400, `${item.code} requires a lot number on receipt`);
+};
+
+// Rejects a change that drives the total, a named location or a lot below zero; legacy negative balances
+// may still be edited as long as they do not get worse. The unassigned location is only held to the total,
+// and so is stock without a lot unless the item is lot-tracked.
+const assertStockAvailable = (item: Item, before: StockBalance) => {
+  const after = stockBalance(item);
+  if (after.total < 0 && after.total < before.total) throw new ApiError(422, `Insufficient stock for ${item.code}`);
+  after.byLocation.forEach((quantity, locationId) => {
+    if (locationId === UNASSIGNED_LOCATION || quantity >= 0) return;
+    if (quantity < (before.byLocation.get(locationId) || 0)) throw new ApiError(422, `Insufficient stock for ${item.code} at the selected location`);
+  });
+  after.byLot.forEach((quantity, lotNumber) => {
+    if ((lotNumber === NO_LOT && !item.lotTracked) || quantity >= 0) return;
+    if (quantity < (before.byLot.get(lotNumber) || 0)) throw new ApiError(422, `Insufficient stock for ${item.code} in lot ${lotNumber || '(none)'}`);
+  });
+};
+
+// Item snapshot for the audit log; transactions are audited individually
+const itemFields = ({ transactions, ...fields }: Item) => snapshot(fields);
+
+export const createItem = (ctx: MutationContext, body: any): Item => {
+  const { doc, user } = ctx;
+  const fields = sanitizeItemFields(body);
+  if (!fields.code || !fields.name || !fields.type) throw new ApiError(400, 'Item code, name and type are required');
+  assertCanEdit(user, { type: fields.type });
+  assertUniqueCode(doc, fields.code);
+
+  const id = typeof body.id === 'string' && !doc.items.some(i => i.id === body.id) ? body.id : generateId('item');
+  const item: Item = {
+    type: fields.type, registrationDate: '', code: '', name: '', spec: '', modelName: '', drawingNumber: '', application: '', remarks: '',
+    ...fields,
+    ...(body.bom !== undefined && { bom: sanitizeBom(doc, fields.type, body.bom) }),
+    id,
+    transactions: [],
+    createdBy: user.username,
+  };
+  ctx.record({ action: 'item.create', itemId: item.id, itemCode: item.code, after: itemFields(item) });
+
+  const initialTransactions: any[] = Array.isArray(body.transactions) ? body.transactions : [];
+  initialTransactions.forEach(t => addTransaction(ctx, item, t));
+
+  doc.items = sortItemsByCode([...doc.items, item]);
+  return item;
+};
+
+export const updateItem = (ctx: MutationContext, itemId: string, body: any): Item => {
+  const { doc, user } = ctx;
+  const item = findItem(doc, itemId);
+  assertCanEdit(user, item);
+  const fields = sanitizeItemFields(body);
+  if (fields.type !== undefined && fields.type !== item.type) assertAdmin(user);
+  if (fields.code) assertUniqueCode(doc, fields.code, item.id);
+
+  if (body.bom !== undefined) fields.bom = sanitizeBom(doc, fields.type || item.type, body.bom);
+
+  const before = itemFields(item);
+  Object.assign(item, fields, { updatedBy: user.username });
+  ctx.record({ action: 'item.update', itemId: item.id, itemCode: item.code, before, after: itemFields(item) });
+  return item;
+};
+
+// Moves the item (with its history) to the trash
+export const deleteItem = (ctx: MutationContext, itemId: string) => {
+  const { doc, user } = ctx;
+  assertAdmin(user);
+  const item = findItem(doc, itemId);
+  Object.assign(item, { deletedAt: new Date().toISOString(), deletedBy: user.username });
+  ctx.record({ action: 'item.delete', itemId: item.id, itemCode: item.code, before: itemFields(item) });
+};
+
+// `links` carries server-assigned references (e.g. the purchase order line) that clients may not set directly
+export const addTransaction = (ctx: MutationContext, item: Item, body: any, links: Partial<Transaction> = {}): Transaction => {
+  const { doc, user } = ctx;
+  assertCanEdit(user, item);
+  const fields = sanitizeTransactionFields(body);
+  if (!fields.type || fields.quantity === undefined) throw new ApiError(400, 'Transaction type and quantity are required');
+
+  const stockBefore = stockBalance(item);
+  const serialsBefore = serialStates(doc, item, [fields.serialNumber]);
+  const usedIds = new Set(doc.items.flatMap(i => i.transactions.map(t => t.id)));
+  const transaction: Transaction = {
+    remarks: '',
+    ...fields,
+    type: fields.type,
+    quantity: fields.quantity,
+    date: fields.date || new Date().toISOString(),
+    id: typeof body.id === 'string' && !usedIds.has(body.id) ? body.id : generateId('t'),
+    createdBy: user.username,
+    ...links,
+  };
+  assertTransactionLocations(doc, transaction, true);
+  assertTransactionLot(item, transaction, true);
+  assertTransactionReason(item, transaction);
+  assertTransactionCustomer(doc, transaction, true);
+  assertTransactionWarranty(item, transaction, true);
+  assertSerialQuantity(transaction);
+  item.transactions.push(transaction);
+  assertStockAvailable(item, stockBefore);
+  assertSerialStock(doc, item, serialsBefore);
+  ctx.record({ action: 'transaction.create', itemId: item.id, itemCode: item.code, transactionId: transaction.id, after: snapshot(transaction) });
+  return transaction;
+};
+
+// A receipt booked against a purchase order line stays a receipt and never takes in more than the line has open
+const assertPurchaseOrderReceipt = (doc: InventoryDocument, transaction: Transaction, fields: Partial<Transaction>) => {
+  if (!transaction.purchaseOrderLineId) return;
+  if (fields.type !== undefined && fields.type !== 'purchase') throw new ApiError(409, 'Purchase order receipts cannot change type');
+  if (fields.quantity === undefined || fields.quantity <= transaction.quantity) return;
+  const line = doc.purchaseOrders.flatMap(order => order.lines).find(l => l.id === transaction.purchaseOrderLineId);
+  if (line && fields.quantity - transaction.quantity > lineRemaining(line, receivedByLine(doc.items))) {
+    throw new ApiError(422, `Receipt exceeds the open quantity for ${line.code}`);
+  }
+};
+
+export const updateTransaction = (ctx: MutationContext, itemId: string, transactionId: string, body: any): Transaction => {
+  const { doc, user } = ctx;
+  const item = findItem(doc, itemId);
+  assertCanEdit(user, item);
+  const transaction = findTransaction(item, transactionId);
+  const fields = sanitizeTransactionFields(body);
+  assertPurchaseOrderReceipt(doc, transaction, fields);
+
+  const before = snapshot(transaction);
+  const stockBefore = stockBalance(item);
+  const serialsBefore = serialStates(doc, item, [transaction.serialNumber, fields.serialNumber]);
+  const relinking = fields.customerId !== undefined && fields.customerId !== transaction.customerId;
+  Object.assign(transaction, fields, { updatedBy: user.username });
+  assertTransactionLocations(doc, transaction, false);
+  assertTransactionLot(item, transaction, false);
+  assertTransactionReason(item, transaction);
+  assertTransactionCustomer(doc, transaction, relinking);
+  assertTransactionWarranty(item, transaction, false);
+  if (fields.serialNumber !== undefined || fields.quantity !== undefined) assertSerialQuantity(transaction);
+  assertStockAvailable(item, stockBefore);
+  assertSerialStock(doc, item, serialsBefore);
+  ctx.record({ action: 'transaction.update', itemId: item.id, itemCode: item.code, transactionId, before, after: snapshot(transaction) });
+  return transaction;
+};
+
+export const deleteTransaction = (ctx: MutationContext, itemId: string, transactionId: string) => {
+  const { doc, user } = ctx;
+  assertAdmin(user);
+  const item = findItem(doc, itemId);
+  const transaction = findTransaction(item, transactionId);
+  if (transaction.type === 'release' && returnedQuantity(item, transaction.id) > 0) throw new ApiError(409, 'Delete the returns of this release first');
+  Object.assign(transaction, { deletedAt: new Date().toISOString(), deletedBy: user.username });
+  ctx.record({ action: 'transaction.delete', itemId: item.id, itemCode: item.code, transactionId, before: snapshot(transaction) });
+};
+
+// Trash bin (admin only)
+const findTrashedItem = (doc: InventoryDocument, itemId: string): Item => {
+  const item = doc.items.find(i => i.id === itemId && !isActive(i));
+  if (!item) throw new ApiError(404, 'Item not found in trash');
+  return item;
+};
+
+const findTrashedTransaction = (doc: InventoryDocument, itemId: string, transactionId: string): { item: Item; transaction: Transaction } => {
+  const item = findItem(doc, itemId);
+  const transaction = item.transactions.find(t => t.id === transactionId && !isActive(t));
+  if (!transaction) throw new ApiError(404, 'Transaction not found in trash');
+  return { item, transaction };
+};
+
+export const restoreItem = (ctx: MutationContext, itemId: string): Item => {
+  const { doc, user } = ctx;
+  assertAdmin(user);
+  const item = findTrashedItem(doc, itemId);
+  assertUniqueCode(doc, item.code, item.id);
+  const serialsBefore = serialStates(doc, item, item.transactions.filter(isActive).map(t => t.serialNumber));
+  delete item.deletedAt;
+  delete item.deletedBy;
+  assertSerialStock(doc, item, serialsBefore);
+  item.updatedBy = user.username;
+  ctx.record({ action: 'item.restore', itemId: item.id, itemCode: item.code, after: itemFields(item) });
+  return item;
+};
+
+export const restoreTransaction = (ctx: MutationContext, itemId: string, transactionId: string): Transaction => {
+  const { doc, user } = ctx;
+  assertAdmin(user);
+  const { item, transaction } = findTrashedTransaction(doc, itemId, transactionId);
+  const stockBefore = stockBalance(item);
+  const serialsBefore = serialStates(doc, item, [transaction.serialNumber]);
+  delete transaction.deletedAt;
+  delete transaction.deletedBy;
+  transaction.updatedBy = user.username;
+  if (transaction.type === 'return') assertTransactionReason(item, transaction);
+  assertStockAvailable(item, stockBefore);
+  assertSerialStock(doc, item, serialsBefore);
+  ctx.record({ action: 'transaction.restore', itemId: item.id, itemCode: item.code, transactionId, after: snapshot(transaction) });
+  return transaction;
+};
+
+export const purgeItem = (ctx: MutationContext, itemId: string) => {
+  assertAdmin(ctx.user);
+  const item = findTrashedItem(ctx.doc, itemId);
+  ctx.doc.items = ctx.doc.items.filter(i => i.id !== item.id);
+  ctx.record({ action: 'item.purge', itemId: item.id, itemCode: item.code, before: snapshot(item) });
+};
+
+export const purgeTransaction = (ctx: MutationContext, itemId: string, transactionId: string) => {
+  assertAdmin(ctx.user);
+  const { item, transaction } = findTrashedTransaction(ctx.doc, itemId, transactionId);
+  item.transactions = item.transactions.filter(t => t.id !== transaction.id);
+  ctx.record({ action: 'transaction.purge', itemId: item.id, itemCode: item.code, transactionId, before: snapshot(transaction) });
+};
+
+// Runs before every mutation so the trash never outlives the configured retention period
+const purgeExpiredTrash = (ctx: MutationContext) => {
+  const { doc } = ctx;
+  const retentionDays = doc.settings.trashRetentionDays;
+  const now = Date.now();
+  doc.items = doc.items.filter(item => {
+    if (item.deletedAt && isTrashExpired(item.deletedAt, retentionDays, now)) {
+      ctx.record({ action: 'item.purge', itemId: item.id, itemCode: item.code, before: snapshot(item) });
+      return false;
+    }
+    item.transactions = item.transactions.filter(t => {
+      if (!t.deletedAt || !isTrashExpired(t.deletedAt, retentionDays, now)) return true;
+      ctx.record({ action: 'transaction.purge', itemId: item.id, itemCode: item.code, transactionId: t.id, before: snapshot(t) });
+      return false;
+    });
+    return true;
+  });
+};
+
+export const updateSettings = (ctx: MutationContext, body: any): InventorySettings => {
+  assertAdmin(ctx.user);
+  const before = snapshot(ctx.doc.settings);
+  const settings = { ...ctx.doc.settings };
+  if (body.trashRetentionDays !== undefined) {
+    if (!Number.isInteger(body.trashRetentionDays) || body.trashRetentionDays < 1) throw new ApiError(400, 'Retention must be at least 1 day');
+    settings.trashRetentionDays = body.trashRetentionDays;
+  }
+  if (body.valuationMethod !== undefined) {
+    if (!VALUATION_METHODS.includes(body.valuationMethod)) throw new ApiError(400, 'Invalid valuation method');
+    settings.valuationMethod = body.valuationMethod;
+  }
+  ctx.doc.settings = settings;
+  ctx.record({ action: 'settings.update', before, after: snapshot(settings) });
+  return settings;
+};
@@ -0,0 +1,40 @@
+
+import { readAuditLog } from './_lib/audit';
+import { requireSession } from './_lib/auth';
+import { json, serverError } from './_lib/http';
+
+export const config = {
+  runtime: 'edge',
+};
+
+// GET /api/audit?itemCode=&user=&from=&to=&limit=&before= (admin only)
+// from/to are epoch milliseconds, so the day boundaries follow the user's timezone rather than the server's;
+// before is the nextCursor of the previous page.
+const numberParam = (params: URLSearchParams, name: string) => {
+  const value = Number(params.get(name));
+  return params.get(name) && Number.isFinite(value) ? value : undefined;
+};
+
+export default async function handler(req: Request) {
+  try {
+    const user = await requireSession(req, ['admin']);
+    if (user instanceof Response) return user;
+
+    if (req.method === 'GET') {
+      const params = new URL(req.url).searchParams;
+      const page = await readAuditLog({
+        itemCode: params.get('itemCode') || undefined,
+        user: params.get('user') || undefined,
+        from: numberParam(params, 'from'),
+        to: numberParam(params, 'to'),
+        limit: numberParam(params, 'limit'),
+        before: numberParam(params, 'before'),
+      });
+      return json(page);
+    }
+
+    return new Response('Method not allowed', { status: 405 });
+  } catch (error) {
+    return serverError(error);
+  }
+}
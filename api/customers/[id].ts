@@ -0,0 +1,32 @@
+import { requireSession } from '../_lib/auth';
+import { deleteCustomer, updateCustomer } from '../_lib/customers';
+import { getPathSegments, json, readJson, serverError } from '../_lib/http';
+import { mutateInventory } from '../_lib/store';
+
+export const config = {
+  runtime: 'edge',
+};
+
+// PATCH | DELETE /api/customers/:id (deleting is admin only)
+export default async function handler(req: Request) {
+  try {
+    const user = await requireSession(req);
+    if (user instanceof Response) return user;
+    const [, customerId] = getPathSegments(req);
+
+    if (req.method === 'PATCH') {
+      const body = await readJson(req);
+      const { result: customer, revision } = await mutateInventory(user, ctx => updateCustomer(ctx, customerId, body));
+      return json({ customer, revision });
+    }
+
+    if (req.method === 'DELETE') {
+      const { revision } = await mutateInventory(user, ctx => deleteCustomer(ctx, customerId));
+      return json({ success: true, revision });
+    }
+
+    return new Response('Method not allowed', { status: 405 });
+  } catch (error) {
+    return serverError(error);
+  }
+}
@@ -0,0 +1,26 @@
+import { requireSession } from '../_lib/auth';
+import { createCustomer } from '../_lib/customers';
+import { json, readJson, serverError } from '../_lib/http';
+import { mutateInventory } from '../_lib/store';
+
+export const config = {
+  runtime: 'edge',
+};
+
+// POST /api/customers: Register a customer. Customers are read as part of GET /api/inventory.
+export default async function handler(req: Request) {
+  try {
+    const user = await requireSession(req);
+    if (user instanceof Response) return user;
+
+    if (req.method === 'POST') {
+      const body = await readJson(req);
+      const { result: customer, revision } = await mutateInventory(user, ctx => createCustomer(ctx, body));
+      return json({ customer, revision }, 201);
+    }
+
+    return new Response('Method not allowed', { status: 405 });
+  } catch (error) {
+    return serverError(error);
+  }
+}
@@ -0,0 +1,26 @@
+import { requireSession } from '../_lib/auth';
+import { mergeCustomers } from '../_lib/customers';
+import { json, readJson, serverError } from '../_lib/http';
+import { mutateInventory } from '../_lib/store';
+
+export const config = {
+  runtime: 'edge',
+};
+
+// POST /api/customers/merge: { targetId | customer, sourceIds?, names? } folds duplicates into one customer (admin only)
+export default async function handler(req: Request) {
+  try {
+    const user = await requireSession(req, ['admin']);
+    if (user instanceof Response) return user;
+
+    if (req.method === 'POST') {
+      const body = await readJson(req);
+      const { result, revision } = await mutateInventory(user, ctx => mergeCustomers(ctx, body));
+      return json({ ...result, revision });
+    }
+
+    return new Response('Method not allowed', { status: 405 });
+  } catch (error) {
+    return serverError(error);
+  }
+}
@@ -0,0 +1,27 @@
+import { requireSession } from '../_lib/auth';
+import { json, readJson, serverError } from '../_lib/http';
+import { importInventory } from '../_lib/imports';
+import { mutateInventory } from '../_lib/store';
+
+export const config = {
+  runtime: 'edge',
+};
+
+// POST /api/imports: { items?: [{ row, item, transactions }], transactions?: [{ row, itemId, transaction }] } (admin only).
+// Rows are validated on the client first; the server applies all of them or none.
+export default async function handler(req: Request) {
+  try {
+    const user = await requireSession(req, ['admin']);
+    if (user instanceof Response) return user;
+
+    if (req.method === 'POST') {
+      const body = await readJson(req);
+      const { result, revision } = await mutateInventory(user, ctx => importInventory(ctx, body));
+      return json({ ...result, revision }, 201);
+    }
+
+    return new Response('Method not allowed', { status: 405 });
+  } catch (error) {
+    return serverError(error);
+  }
+}
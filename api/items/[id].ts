@@ -0,0 +1,32 @@
+
+import { requireSession } from '../_lib/auth';
+import { getPathSegments, json, readJson, serverError } from '../_lib/http';
+import { deleteItem, mutateInventory, updateItem } from '../_lib/store';
+
+export const config = {
+  runtime: 'edge',
+};
+
+// PATCH | DELETE /api/items/:id
+export default async function handler(req: Request) {
+  try {
+    const user = await requireSession(req);
+    if (user instanceof Response) return user;
+    const [, itemId] = getPathSegments(req);
+
+    if (req.method === 'PATCH') {
+      const body = await readJson(req);
+      const { result: item, revision } = await mutateInventory(user, ctx => updateItem(ctx, itemId, body));
+      return json({ item, revision });
+    }
+
+    if (req.method === 'DELETE') {
+      const { revision } = await mutateInventory(user, ctx => deleteItem(ctx, itemId));
+      return json({ success: true, revision });
+    }
+
+    return new Response('Method not allowed', { status: 405 });
+  } catch (error) {
+    return serverError(error);
+  }
+}
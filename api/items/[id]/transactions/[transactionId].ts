@@ -0,0 +1,32 @@
+
+import { requireSession } from '../../../_lib/auth';
+import { getPathSegments, json, readJson, serverError } from '../../../_lib/http';
+import { deleteTransaction, mutateInventory, updateTransaction } from '../../../_lib/store';
+
+export const config = {
+  runtime: 'edge',
+};
+
+// PATCH | DELETE /api/items/:id/transactions/:transactionId
+export default async function handler(req: Request) {
+  try {
+    const user = await requireSession(req);
+    if (user instanceof Response) return user;
+    const [, itemId, , transactionId] = getPathSegments(req);
+
+    if (req.method === 'PATCH') {
+      const body = await readJson(req);
+      const { result: transaction, revision } = await mutateInventory(user, ctx => updateTransaction(ctx, itemId, transactionId, body));
+      return json({ transaction, revision });
+    }
+
+    if (req.method === 'DELETE') {
+      const { revision } = await mutateInventory(user, ctx => deleteTransaction(ctx, itemId, transactionId));
+      return json({ success: true, revision });
+    }
+
+    return new Response('Method not allowed', { status: 405 });
+  } catch (error) {
+    return serverError(error);
+  }
+}
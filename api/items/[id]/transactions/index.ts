@@ -0,0 +1,35 @@
+
+import { requireSession } from '../../../_lib/auth';
+import { createCustomer } from '../../../_lib/customers';
+import { getPathSegments, json, readJson, serverError } from '../../../_lib/http';
+import { addTransaction, findItem, mutateInventory } from '../../../_lib/store';
+
+export const config = {
+  runtime: 'edge',
+};
+
+// POST /api/items/:id/transactions
+// Body is a single transaction, or { transactions: [...] } to record a serial range in one atomic write.
+// `customer` registers a new customer in the same write, so the transactions may already reference it.
+export default async function handler(req: Request) {
+  try {
+    const user = await requireSession(req);
+    if (user instanceof Response) return user;
+    const [, itemId] = getPathSegments(req);
+
+    if (req.method === 'POST') {
+      const body = await readJson(req);
+      const entries: any[] = Array.isArray(body.transactions) ? body.transactions : [body];
+      const { result, revision } = await mutateInventory(user, ctx => {
+        const item = findItem(ctx.doc, itemId);
+        const customer = body.customer ? createCustomer(ctx, body.customer) : undefined;
+        return { transactions: entries.map(entry => addTransaction(ctx, item, entry)), customer };
+      });
+      return json({ ...result, revision }, 201);
+    }
+
+    return new Response('Method not allowed', { status: 405 });
+  } catch (error) {
+    return serverError(error);
+  }
+}
@@ -0,0 +1,26 @@
+
+import { requireSession } from '../_lib/auth';
+import { json, readJson, serverError } from '../_lib/http';
+import { createItem, mutateInventory } from '../_lib/store';
+
+export const config = {
+  runtime: 'edge',
+};
+
+// POST /api/items: Create a single item (optionally with initial transactions)
+export default async function handler(req: Request) {
+  try {
+    const user = await requireSession(req);
+    if (user instanceof Response) return user;
+
+    if (req.method === 'POST') {
+      const body = await readJson(req);
+      const { result: item, revision } = await mutateInventory(user, ctx => createItem(ctx, body));
+      return json({ item, revision }, 201);
+    }
+
+    return new Response('Method not allowed', { status: 405 });
+  } catch (error) {
+    return serverError(error);
+  }
+}
@@ -0,0 +1,32 @@
+import { requireSession } from '../_lib/auth';
+import { getPathSegments, json, readJson, serverError } from '../_lib/http';
+import { deleteLocation, updateLocation } from '../_lib/locations';
+import { mutateInventory } from '../_lib/store';
+
+export const config = {
+  runtime: 'edge',
+};
+
+// PATCH | DELETE /api/locations/:id (admin only)
+export default async function handler(req: Request) {
+  try {
+    const user = await requireSession(req, ['admin']);
+    if (user instanceof Response) return user;
+    const [, locationId] = getPathSegments(req);
+
+    if (req.method === 'PATCH') {
+      const body = await readJson(req);
+      const { result: location, revision } = await mutateInventory(user, ctx => updateLocation(ctx, locationId, body));
+      return json({ location, revision });
+    }
+
+    if (req.method === 'DELETE') {
+      const { revision } = await mutateInventory(user, ctx => deleteLocation(ctx, locationId));
+      return json({ success: true, revision });
+    }
+
+    return new Response('Method not allowed', { status: 405 });
+  } catch (error) {
+    return serverError(error);
+  }
+}
@@ -0,0 +1,26 @@
+import { requireSession } from '../_lib/auth';
+import { json, readJson, serverError } from '../_lib/http';
+import { createLocation } from '../_lib/locations';
+import { mutateInventory } from '../_lib/store';
+
+export const config = {
+  runtime: 'edge',
+};
+
+// POST /api/locations: Create a storage location (admin only). Locations are read as part of GET /api/inventory.
+export default async function handler(req: Request) {
+  try {
+    const user = await requireSession(req, ['admin']);
+    if (user instanceof Response) return user;
+
+    if (req.method === 'POST') {
+      const body = await readJson(req);
+      const { result: location, revision } = await mutateInventory(user, ctx => createLocation(ctx, body));
+      return json({ location, revision }, 201);
+    }
+
+    return new Response('Method not allowed', { status: 405 });
+  } catch (error) {
+    return serverError(error);
+  }
+}
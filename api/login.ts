@@ -0,0 +1,26 @@
+
+import { createSession, toPublicUser, verifyCredentials } from './_lib/auth';
+import { json, serverError } from './_lib/http';
+
+export const config = {
+  runtime: 'edge',
+};
+
+export default async function handler(req: Request) {
+  if (req.method !== 'POST') return new Response('Method not allowed', { status: 405 });
+
+  try {
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body.username !== 'string' || typeof body.password !== 'string') {
+      return json({ error: 'Invalid data format' }, 400);
+    }
+
+    const user = await verifyCredentials(body.username, body.password);
+    if (!user) return json({ error: 'Invalid username or password' }, 401);
+
+    const token = await createSession(user);
+    return json({ token, user: toPublicUser(user) });
+  } catch (error) {
+    return serverError(error);
+  }
+}
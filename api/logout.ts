@@ -0,0 +1,19 @@
+
+import { destroySession, getBearerToken } from './_lib/auth';
+import { json, serverError } from './_lib/http';
+
+export const config = {
+  runtime: 'edge',
+};
+
+export default async function handler(req: Request) {
+  if (req.method !== 'POST') return new Response('Method not allowed', { status: 405 });
+
+  try {
+    const token = getBearerToken(req);
+    if (token) await destroySession(token);
+    return json({ success: true });
+  } catch (error) {
+    return serverError(error);
+  }
+}
@@ -0,0 +1,27 @@
+import { requireSession } from '../_lib/auth';
+import { json, readJson, serverError } from '../_lib/http';
+import { createProduction } from '../_lib/production';
+import { mutateInventory } from '../_lib/store';
+
+export const config = {
+  runtime: 'edge',
+};
+
+// POST /api/productions: { id?, productId, quantity?, serialRange? | serialNumbers?, date?, remarks? } (admin only).
+// Production records are read as part of GET /api/inventory.
+export default async function handler(req: Request) {
+  try {
+    const user = await requireSession(req, ['admin']);
+    if (user instanceof Response) return user;
+
+    if (req.method === 'POST') {
+      const body = await readJson(req);
+      const { result, revision } = await mutateInventory(user, ctx => createProduction(ctx, body));
+      return json({ ...result, revision }, 201);
+    }
+
+    return new Response('Method not allowed', { status: 405 });
+  } catch (error) {
+    return serverError(error);
+  }
+}
@@ -0,0 +1,32 @@
+import { requireSession } from '../_lib/auth';
+import { getPathSegments, json, readJson, serverError } from '../_lib/http';
+import { deletePurchaseOrder, updatePurchaseOrder } from '../_lib/purchaseOrders';
+import { mutateInventory } from '../_lib/store';
+
+export const config = {
+  runtime: 'edge',
+};
+
+// PATCH | DELETE /api/purchase-orders/:id (admin only)
+export default async function handler(req: Request) {
+  try {
+    const user = await requireSession(req, ['admin']);
+    if (user instanceof Response) return user;
+    const [, orderId] = getPathSegments(req);
+
+    if (req.method === 'PATCH') {
+      const body = await readJson(req);
+      const { result: purchaseOrder, revision } = await mutateInventory(user, ctx => updatePurchaseOrder(ctx, orderId, body));
+      return json({ purchaseOrder, revision });
+    }
+
+    if (req.method === 'DELETE') {
+      const { revision } = await mutateInventory(user, ctx => deletePurchaseOrder(ctx, orderId));
+      return json({ success: true, revision });
+    }
+
+    return new Response('Method not allowed', { status: 405 });
+  } catch (error) {
+    return serverError(error);
+  }
+}
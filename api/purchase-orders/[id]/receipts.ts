@@ -0,0 +1,27 @@
+import { requireSession } from '../../_lib/auth';
+import { getPathSegments, json, readJson, serverError } from '../../_lib/http';
+import { receivePurchaseOrder } from '../../_lib/purchaseOrders';
+import { mutateInventory } from '../../_lib/store';
+
+export const config = {
+  runtime: 'edge',
+};
+
+// POST /api/purchase-orders/:id/receipts: { receipts: [{ id?, lineId, quantity, lotNumber? }], locationId?, date?, remarks? } (admin only)
+export default async function handler(req: Request) {
+  try {
+    const user = await requireSession(req, ['admin']);
+    if (user instanceof Response) return user;
+    const [, orderId] = getPathSegments(req);
+
+    if (req.method === 'POST') {
+      const body = await readJson(req);
+      const { result, revision } = await mutateInventory(user, ctx => receivePurchaseOrder(ctx, orderId, body));
+      return json({ ...result, revision }, 201);
+    }
+
+    return new Response('Method not allowed', { status: 405 });
+  } catch (error) {
+    return serverError(error);
+  }
+}
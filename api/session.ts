@@ -0,0 +1,33 @@
+
+import { getSessionUser, toPublicUser, verifyCredentials } from './_lib/auth';
+import { json, serverError } from './_lib/http';
+
+export const config = {
+  runtime: 'edge',
+};
+
+export default async function handler(req: Request) {
+  try {
+    const user = await getSessionUser(req);
+    if (!user) return json({ error: 'Unauthorized' }, 401);
+
+    // GET: Current session user
+    if (req.method === 'GET') {
+      return json({ user: toPublicUser(user) });
+    }
+
+    // POST: Re-confirm the signed-in user's password before sensitive actions
+    if (req.method === 'POST') {
+      const body = await req.json().catch(() => null);
+      if (!body || typeof body.password !== 'string') {
+        return json({ error: 'Invalid data format' }, 400);
+      }
+      const verified = await verifyCredentials(user.username, body.password);
+      return json({ valid: !!verified });
+    }
+
+    return new Response('Method not allowed', { status: 405 });
+  } catch (error) {
+    return serverError(error);
+  }
+}
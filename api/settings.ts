@@ -0,0 +1,26 @@
+
+import { requireSession } from './_lib/auth';
+import { json, readJson, serverError } from './_lib/http';
+import { mutateInventory, updateSettings } from './_lib/store';
+
+export const config = {
+  runtime: 'edge',
+};
+
+// PATCH /api/settings (admin only). Settings are read as part of GET /api/inventory.
+export default async function handler(req: Request) {
+  try {
+    const user = await requireSession(req, ['admin']);
+    if (user instanceof Response) return user;
+
+    if (req.method === 'PATCH') {
+      const body = await readJson(req);
+      const { result: settings, revision } = await mutateInventory(user, ctx => updateSettings(ctx, body));
+      return json({ settings, revision });
+    }
+
+    return new Response('Method not allowed', { status: 405 });
+  } catch (error) {
+    return serverError(error);
+  }
+}
@@ -0,0 +1,27 @@
+import { requireSession } from '../_lib/auth';
+import { getPathSegments, json, readJson, serverError } from '../_lib/http';
+import { updateStockTake } from '../_lib/stockTakes';
+import { mutateInventory } from '../_lib/store';
+
+export const config = {
+  runtime: 'edge',
+};
+
+// PATCH /api/stock-takes/:id: { counts?, remarks?, status?: 'cancelled' } (admin only)
+export default async function handler(req: Request) {
+  try {
+    const user = await requireSession(req, ['admin']);
+    if (user instanceof Response) return user;
+    const [, stockTakeId] = getPathSegments(req);
+
+    if (req.method === 'PATCH') {
+      const body = await readJson(req);
+      const { result: stockTake, revision } = await mutateInventory(user, ctx => updateStockTake(ctx, stockTakeId, body));
+      return json({ stockTake, revision });
+    }
+
+    return new Response('Method not allowed', { status: 405 });
+  } catch (error) {
+    return serverError(error);
+  }
+}
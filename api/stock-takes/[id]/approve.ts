@@ -0,0 +1,27 @@
+import { requireSession } from '../../_lib/auth';
+import { getPathSegments, json, readJson, serverError } from '../../_lib/http';
+import { approveStockTake } from '../../_lib/stockTakes';
+import { mutateInventory } from '../../_lib/store';
+
+export const config = {
+  runtime: 'edge',
+};
+
+// POST /api/stock-takes/:id/approve: { counts? } posts adjustments for every counted difference and closes the count (admin only)
+export default async function handler(req: Request) {
+  try {
+    const user = await requireSession(req, ['admin']);
+    if (user instanceof Response) return user;
+    const [, stockTakeId] = getPathSegments(req);
+
+    if (req.method === 'POST') {
+      const body = await readJson(req);
+      const { result, revision } = await mutateInventory(user, ctx => approveStockTake(ctx, stockTakeId, body));
+      return json({ ...result, revision }, 201);
+    }
+
+    return new Response('Method not allowed', { status: 405 });
+  } catch (error) {
+    return serverError(error);
+  }
+}
@@ -0,0 +1,27 @@
+import { requireSession } from '../_lib/auth';
+import { json, readJson, serverError } from '../_lib/http';
+import { createStockTake } from '../_lib/stockTakes';
+import { mutateInventory } from '../_lib/store';
+
+export const config = {
+  runtime: 'edge',
+};
+
+// POST /api/stock-takes: { itemType?, locationId?, remarks? } starts a count from a snapshot of the book stock (admin only).
+// Stock-takes are read as part of GET /api/inventory.
+export default async function handler(req: Request) {
+  try {
+    const user = await requireSession(req, ['admin']);
+    if (user instanceof Response) return user;
+
+    if (req.method === 'POST') {
+      const body = await readJson(req);
+      const { result: stockTake, revision } = await mutateInventory(user, ctx => createStockTake(ctx, body));
+      return json({ stockTake, revision }, 201);
+    }
+
+    return new Response('Method not allowed', { status: 405 });
+  } catch (error) {
+    return serverError(error);
+  }
+}
@@ -0,0 +1,41 @@
+
+import { requireSession } from './_lib/auth';
+import { ApiError, json, readJson, serverError } from './_lib/http';
+import { mutateInventory, purgeItem, purgeTransaction, restoreItem, restoreTransaction } from './_lib/store';
+
+export const config = {
+  runtime: 'edge',
+};
+
+// POST /api/trash { itemId, transactionId? }: Restore from the trash
+// DELETE /api/trash?itemId=&transactionId=: Purge permanently
+export default async function handler(req: Request) {
+  try {
+    const user = await requireSession(req, ['admin']);
+    if (user instanceof Response) return user;
+
+    if (req.method === 'POST') {
+      const body = await readJson(req);
+      if (typeof body.itemId !== 'string') throw new ApiError(400, 'Invalid data format');
+      const { result, revision } = await mutateInventory(user, ctx =>
+        body.transactionId ? restoreTransaction(ctx, body.itemId, body.transactionId) : restoreItem(ctx, body.itemId)
+      );
+      return json({ restored: result, revision });
+    }
+
+    if (req.method === 'DELETE') {
+      const params = new URL(req.url).searchParams;
+      const itemId = params.get('itemId');
+      const transactionId = params.get('transactionId');
+      if (!itemId) throw new ApiError(400, 'Invalid data format');
+      const { revision } = await mutateInventory(user, ctx =>
+        transactionId ? purgeTransaction(ctx, itemId, transactionId) : purgeItem(ctx, itemId)
+      );
+      return json({ success: true, revision });
+    }
+
+    return new Response('Method not allowed', { status: 405 });
+  } catch (error) {
+    return serverError(error);
+  }
+}
@@ -0,0 +1,84 @@
+
+import type { UserRole } from '../types';
+import { USER_ROLES, buildUser, getUser, listUsers, normalizeUsername, removeUser, requireSession, saveUser, setPassword, toPublicUser } from './_lib/auth';
+import { json, serverError } from './_lib/http';
+
+export const config = {
+  runtime: 'edge',
+};
+
+const MIN_PASSWORD_LENGTH = 4;
+
+const isValidRole = (role: unknown): role is UserRole => USER_ROLES.includes(role as UserRole);
+
+export default async function handler(req: Request) {
+  try {
+    const auth = await requireSession(req, ['admin']);
+    if (auth instanceof Response) return auth;
+
+    // GET: List accounts
+    if (req.method === 'GET') {
+      const users = await listUsers();
+      return json({ users: users.map(toPublicUser) });
+    }
+
+    // POST: Create account
+    if (req.method === 'POST') {
+      const body = await req.json().catch(() => null);
+      if (!body || typeof body.username !== 'string' || !body.username.trim() || !isValidRole(body.role)) {
+        return json({ error: 'Invalid data format' }, 400);
+      }
+      if (typeof body.password !== 'string' || body.password.length < MIN_PASSWORD_LENGTH) {
+        return json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` }, 400);
+      }
+      if (await getUser(body.username)) {
+        return json({ error: 'Username already exists' }, 409);
+      }
+      const user = await buildUser(body.username, String(body.displayName || ''), body.role, body.password);
+      await saveUser(user);
+      return json({ user: toPublicUser(user) }, 201);
+    }
+
+    // PATCH: Update display name, role or password
+    if (req.method === 'PATCH') {
+      const body = await req.json().catch(() => null);
+      if (!body || typeof body.username !== 'string') {
+        return json({ error: 'Invalid data format' }, 400);
+      }
+      let user = await getUser(body.username);
+      if (!user) return json({ error: 'User not found' }, 404);
+
+      if (body.role !== undefined) {
+        if (!isValidRole(body.role)) return json({ error: 'Invalid role' }, 400);
+        if (user.username === auth.username && body.role !== 'admin') {
+          return json({ error: 'You cannot remove your own admin role' }, 400);
+        }
+        user = { ...user, role: body.role };
+      }
+      if (typeof body.displayName === 'string' && body.displayName.trim()) {
+        user = { ...user, displayName: body.displayName.trim() };
+      }
+      if (body.password !== undefined) {
+        if (typeof body.password !== 'string' || body.password.length < MIN_PASSWORD_LENGTH) {
+          return json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` }, 400);
+        }
+        user = await setPassword(user, body.password);
+      }
+      await saveUser(user);
+      return json({ user: toPublicUser(user) });
+    }
+
+    // DELETE: Remove account (?username=)
+    if (req.method === 'DELETE') {
+      const username = normalizeUsername(new URL(req.url).searchParams.get('username') || '');
+      if (!username) return json({ error: 'Invalid data format' }, 400);
+      if (username === auth.username) return json({ error: 'You cannot delete your own account' }, 400);
+      await removeUser(username);
+      return json({ success: true });
+    }
+
+    return new Response('Method not allowed', { status: 405 });
+  } catch (error) {
+    return serverError(error);
+  }
+}
@@ -1,10 +1,11 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
 import type { Item } from '../types';
+import { parseReorderInput } from '../utils/reorder';
 import { CloseIcon } from './icons';
 
 interface AddItemModalProps {
-  onAddItem: (item: Omit<Item, 'id' | 'transactions'>, initialQuantity: number) => void;
+  onAddItem: (item: Omit<Item, 'id' | 'transactions'>, initialQuantity: number, initialLotNumber?: string) => void;
   onClose: () => void;
   existingCodes: string[];
   defaultType: 'part' | 'product';
@@ -13,6 +14,8 @@ interface AddItemModalProps {
 const AddItemModal: React.FC<AddItemModalProps> = ({ onAddItem, onClose, existingCodes, defaultType }) => {
   const [prefix, setPrefix] = useState('');
   const [itemType, setItemType] = useState<'part' | 'product'>(defaultType);
+  const [lotTracked, setLotTracked] = useState(false);
+  const [initialLotNumber, setInitialLotNumber] = useState('');
   const [formData, setFormData] = useState({
     registrationDate: new Date().toISOString().split('T')[0],
     code: '',
@@ -20,7 +23,11 @@ const AddItemModal: React.FC<AddItemModalProps> = ({ onAddItem, onClose, existin
     drawingNumber: '',
     spec: '',
     remarks: '',
-    initialQuantity: '0'
+    initialQuantity: '0',
+    minStock: '',
+    reorderPoint: '',
+    reorderQuantity: '',
+    warrantyMonths: ''
   });
 
   useEffect(() => {
@@ -68,14 +75,24 @@ const AddItemModal: React.FC<AddItemModalProps> = ({ onAddItem, onClose, existin
       alert('이미 사용 중인 코드입니다. 코드를 변경해주세요.');
       return;
     }
-    const { initialQuantity, ...rest } = formData;
+    const { initialQuantity, minStock, reorderPoint, reorderQuantity, warrantyMonths, ...rest } = formData;
     const quantity = parseInt(initialQuantity, 10) || 0;
+    const isLotTracked = itemType === 'part' && lotTracked;
+    if (isLotTracked && quantity > 0 && !initialLotNumber.trim()) {
+      alert('로트 관리 부품의 초기 수량에는 로트번호가 필요합니다.');
+      return;
+    }
     onAddItem({
       ...rest,
+      minStock: parseReorderInput(minStock),
+      reorderPoint: parseReorderInput(reorderPoint),
+      reorderQuantity: parseReorderInput(reorderQuantity),
       type: itemType,
+      ...(isLotTracked && { lotTracked: true }),
+      ...(itemType === 'product' && { warrantyMonths: parseReorderInput(warrantyMonths) }),
       modelName: '',
       application: ''
-    }, quantity);
+    }, quantity, isLotTracked ? initialLotNumber.trim().toUpperCase() : undefined);
     onClose();
   };
 
@@ -132,12 +149,42 @@ const AddItemModal: React.FC<AddItemModalProps> = ({ onAddItem, onClose, existin
                       <input type="text" name="spec" id="spec" value={formData.spec} onChange={handleChange} className="w-full px-5 py-3 border-2 border-slate-100 rounded-xl text-lg focus:ring-2 focus:ring-indigo-500 outline-none font-bold" placeholder="규격" />
                   </div>
                 </div>
+                <label className="flex items-center gap-3 px-5 py-4 bg-slate-50 rounded-xl cursor-pointer">
+                  <input type="checkbox" checked={lotTracked} onChange={(e) => setLotTracked(e.target.checked)} className="w-5 h-5" />
+                  <span className="text-sm font-black text-slate-600">로트 관리 (입고 시 로트번호 필수)</span>
+                </label>
               </>
             )}
+            {itemType === 'product' && (
+              <div>
+                <label htmlFor="warrantyMonths" className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">보증 기간 (개월)</label>
+                <input type="number" name="warrantyMonths" id="warrantyMonths" min="0" value={formData.warrantyMonths} onChange={handleChange} placeholder="보증 없음" className="w-full px-5 py-3 border-2 border-slate-100 rounded-xl text-lg focus:ring-2 focus:ring-indigo-500 outline-none font-black" />
+              </div>
+            )}
             <div>
               <label htmlFor="initialQuantity" className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">초기 수량</label>
               <input type="number" name="initialQuantity" id="initialQuantity" min="0" value={formData.initialQuantity} onChange={handleChange} className="w-full px-5 py-3 border-2 border-slate-100 rounded-xl text-lg focus:ring-2 focus:ring-indigo-500 outline-none font-black" />
             </div>
+            {itemType === 'part' && lotTracked && (parseInt(formData.initialQuantity, 10) || 0) > 0 && (
+              <div>
+                <label htmlFor="initialLotNumber" className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">초기 수량 로트번호 <span className="text-rose-500">*</span></label>
+                <input type="text" id="initialLotNumber" value={initialLotNumber} onChange={(e) => setInitialLotNumber(e.target.value.toUpperCase())} className="w-full px-5 py-3 border-2 border-slate-100 rounded-xl text-lg focus:ring-2 focus:ring-indigo-500 outline-none font-mono font-black" />
+              </div>
+            )}
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="minStock" className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">안전 재고</label>
+                <input type="number" name="minStock" id="minStock" min="0" value={formData.minStock} onChange={handleChange} placeholder="미사용" className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg focus:ring-2 focus:ring-indigo-500 outline-none font-black" />
+              </div>
+              <div>
+                <label htmlFor="reorderPoint" className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">재주문점</label>
+                <input type="number" name="reorderPoint" id="reorderPoint" min="0" value={formData.reorderPoint} onChange={handleChange} placeholder="미사용" className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg focus:ring-2 focus:ring-indigo-500 outline-none font-black" />
+              </div>
+              <div>
+                <label htmlFor="reorderQuantity" className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">발주 단위</label>
+                <input type="number" name="reorderQuantity" id="reorderQuantity" min="0" value={formData.reorderQuantity} onChange={handleChange} placeholder="미사용" className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg focus:ring-2 focus:ring-indigo-500 outline-none font-black" />
+              </div>
+            </div>
             <div>
               <label htmlFor="remarks" className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">비고</label>
               <textarea name="remarks" id="remarks" value={formData.remarks} onChange={handleChange} rows={3} className="w-full px-5 py-3 border-2 border-slate-100 rounded-xl text-lg focus:ring-2 focus:ring-indigo-500 outline-none font-bold"></textarea>
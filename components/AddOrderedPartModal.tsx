@@ -0,0 +1,120 @@
+
+import React, { useState, useMemo } from 'react';
+import type { Item, PurchaseOrderLine } from '../types';
+import { generateId } from '../utils/inventory';
+import { CloseIcon, SearchIcon } from './icons';
+
+interface AddOrderedPartModalProps {
+  items: Item[];
+  onAdd: (line: PurchaseOrderLine) => void;
+  onClose: () => void;
+}
+
+const AddOrderedPartModal: React.FC<AddOrderedPartModalProps> = ({ items, onAdd, onClose }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedItemId, setSelectedItemId] = useState('');
+  const [formData, setFormData] = useState({ quantity: '1', unitPrice: '0', remarks: '' });
+
+  const candidates = useMemo(() => {
+    const term = searchTerm.toLowerCase().trim();
+    return items
+      .filter(item => !term || item.code.toLowerCase().includes(term) || item.name.toLowerCase().includes(term) || item.drawingNumber.toLowerCase().includes(term))
+      .slice(0, 50);
+  }, [items, searchTerm]);
+
+  const selectedItem = items.find(i => i.id === selectedItemId);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const quantity = parseInt(formData.quantity, 10);
+    const unitPrice = parseFloat(formData.unitPrice);
+    if (!selectedItem) {
+      alert('발주할 품목을 선택해주세요.');
+      return;
+    }
+    if (!quantity || quantity <= 0) {
+      alert('발주 수량은 1 이상이어야 합니다.');
+      return;
+    }
+    if (isNaN(unitPrice) || unitPrice < 0) {
+      alert('단가를 올바르게 입력해주세요.');
+      return;
+    }
+    onAdd({
+      id: generateId('pol'),
+      registrationDate: new Date().toISOString().split('T')[0],
+      itemId: selectedItem.id,
+      code: selectedItem.code,
+      name: selectedItem.name,
+      drawingNumber: selectedItem.drawingNumber,
+      spec: selectedItem.spec,
+      quantity,
+      unitPrice,
+      remarks: formData.remarks,
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-[60] p-4 font-sans">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-xl animate-fade-in-up overflow-hidden">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">발주 품목 추가</h2>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors">
+            <CloseIcon className="w-8 h-8" />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit}>
+          <div className="p-8 space-y-6 max-h-[75vh] overflow-y-auto">
+            <div>
+              <label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">품목 검색</label>
+              <div className="relative">
+                <span className="absolute inset-y-0 left-0 flex items-center pl-4"><SearchIcon className="text-slate-400 w-5 h-5" /></span>
+                <input type="text" autoFocus value={searchTerm} onChange={(e) => setSearchTerm(e.target.value.toUpperCase())} placeholder="코드, 품명, 도번" className="w-full pl-12 pr-5 py-3 border-2 border-slate-100 rounded-xl text-lg focus:ring-2 focus:ring-indigo-500 outline-none font-bold" />
+              </div>
+              <div className="mt-3 max-h-56 overflow-y-auto border-2 border-slate-100 rounded-xl divide-y divide-slate-50">
+                {candidates.length === 0 ? (
+                  <p className="py-6 text-center text-slate-300 font-black uppercase tracking-widest italic">검색 결과 없음</p>
+                ) : candidates.map(item => (
+                  <button type="button" key={item.id} onClick={() => setSelectedItemId(item.id)} className={`w-full flex justify-between items-center px-4 py-3 text-left transition-colors ${item.id === selectedItemId ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}>
+                    <span>
+                      <span className="font-mono font-black text-indigo-600 mr-3">{item.code}</span>
+                      <span className="font-black text-slate-700">{item.name}</span>
+                    </span>
+                    <span className="text-xs font-mono font-bold text-slate-400">{item.drawingNumber || item.spec}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-6">
+              <div>
+                <label htmlFor="quantity" className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">발주 수량</label>
+                <input type="number" name="quantity" id="quantity" min="1" value={formData.quantity} onChange={handleChange} className="w-full px-5 py-3 border-2 border-slate-100 rounded-xl text-lg focus:ring-2 focus:ring-indigo-500 outline-none font-black" />
+              </div>
+              <div>
+                <label htmlFor="unitPrice" className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">단가</label>
+                <input type="number" name="unitPrice" id="unitPrice" min="0" step="any" value={formData.unitPrice} onChange={handleChange} className="w-full px-5 py-3 border-2 border-slate-100 rounded-xl text-lg focus:ring-2 focus:ring-indigo-500 outline-none font-black" />
+              </div>
+            </div>
+            <div>
+              <label htmlFor="remarks" className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">비고</label>
+              <textarea name="remarks" id="remarks" value={formData.remarks} onChange={handleChange} rows={2} className="w-full px-5 py-3 border-2 border-slate-100 rounded-xl text-lg focus:ring-2 focus:ring-indigo-500 outline-none font-bold"></textarea>
+            </div>
+          </div>
+          <div className="p-8 bg-slate-50 border-t border-slate-100">
+            <button type="submit" className="w-full px-8 py-5 bg-indigo-600 text-white font-black rounded-2xl shadow-xl hover:bg-indigo-700 transition-all active:scale-95 uppercase tracking-widest text-lg">
+              {selectedItem ? `${selectedItem.code} 추가하기` : '품목을 선택하세요'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AddOrderedPartModal;
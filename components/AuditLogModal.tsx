@@ -0,0 +1,190 @@
+import React, { useState, useEffect } from 'react';
+import type { AuditAction, AuditEntry, UserAccount } from '../types';
+import { fetchAuditLog, fetchUsers } from '../services/api';
+import { FIELD_LABELS, formatFieldValue } from '../utils/fieldLabels';
+import { CloseIcon, SearchIcon, SyncIcon } from './icons';
+
+interface AuditLogModalProps {
+  onClose: () => void;
+}
+
+const ACTION_LABELS: Record<AuditAction, { label: string; className: string }> = {
+  'item.create': { label: '품목 등록', className: 'bg-emerald-50 text-emerald-600' },
+  'item.update': { label: '품목 수정', className: 'bg-indigo-50 text-indigo-600' },
+  'item.delete': { label: '품목 삭제', className: 'bg-rose-50 text-rose-600' },
+  'item.restore': { label: '품목 복원', className: 'bg-emerald-50 text-emerald-600' },
+  'item.purge': { label: '품목 영구삭제', className: 'bg-rose-100 text-rose-700' },
+  'transaction.create': { label: '입출고 등록', className: 'bg-emerald-50 text-emerald-600' },
+  'transaction.update': { label: '입출고 수정', className: 'bg-indigo-50 text-indigo-600' },
+  'transaction.delete': { label: '입출고 삭제', className: 'bg-rose-50 text-rose-600' },
+  'transaction.restore': { label: '입출고 복원', className: 'bg-emerald-50 text-emerald-600' },
+  'transaction.purge': { label: '입출고 영구삭제', className: 'bg-rose-100 text-rose-700' },
+  'purchaseOrder.create': { label: '발주서 작성', className: 'bg-emerald-50 text-emerald-600' },
+  'purchaseOrder.update': { label: '발주서 수정', className: 'bg-indigo-50 text-indigo-600' },
+  'purchaseOrder.delete': { label: '발주서 삭제', className: 'bg-rose-50 text-rose-600' },
+  'purchaseOrder.receive': { label: '발주 입고', className: 'bg-emerald-50 text-emerald-600' },
+  'production.create': { label: '생산 등록', className: 'bg-emerald-50 text-emerald-600' },
+  'stockTake.create': { label: '재고 실사 시작', className: 'bg-emerald-50 text-emerald-600' },
+  'stockTake.update': { label: '재고 실사 수정', className: 'bg-indigo-50 text-indigo-600' },
+  'stockTake.approve': { label: '재고 실사 승인', className: 'bg-amber-50 text-amber-600' },
+  'customer.create': { label: '고객 등록', className: 'bg-emerald-50 text-emerald-600' },
+  'customer.update': { label: '고객 수정', className: 'bg-indigo-50 text-indigo-600' },
+  'customer.delete': { label: '고객 삭제', className: 'bg-rose-50 text-rose-600' },
+  'customer.merge': { label: '고객 병합', className: 'bg-amber-50 text-amber-600' },
+  'location.create': { label: '로케이션 등록', className: 'bg-emerald-50 text-emerald-600' },
+  'location.update': { label: '로케이션 수정', className: 'bg-indigo-50 text-indigo-600' },
+  'location.delete': { label: '로케이션 삭제', className: 'bg-rose-50 text-rose-600' },
+  'inventory.replace': { label: '백업 복원', className: 'bg-amber-50 text-amber-600' },
+  'settings.update': { label: '설정 변경', className: 'bg-slate-100 text-slate-600' },
+};
+
+// Fields that only carry bookkeeping noise in a change summary
+const IGNORED_FIELDS = ['id', 'createdBy', 'updatedBy', 'deletedAt', 'deletedBy', 'transactions'];
+
+const describeChanges = (entry: AuditEntry): string[] => {
+  const before = (entry.before || {}) as Record<string, unknown>;
+  const after = (entry.after || {}) as Record<string, unknown>;
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).filter(k => !IGNORED_FIELDS.includes(k));
+
+  if (entry.before && entry.after) {
+    return keys
+      .filter(k => JSON.stringify(before[k]) !== JSON.stringify(after[k]))
+      .map(k => `${FIELD_LABELS[k] || k}: ${formatFieldValue(before[k])} → ${formatFieldValue(after[k])}`);
+  }
+  const source = entry.after ? after : before;
+  return keys.filter(k => source[k] !== undefined && source[k] !== '').map(k => `${FIELD_LABELS[k] || k}: ${formatFieldValue(source[k])}`);
+};
+
+const AuditLogModal: React.FC<AuditLogModalProps> = ({ onClose }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [users, setUsers] = useState<UserAccount[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filter, setFilter] = useState({ itemCode: '', user: '', from: '', to: '' });
+  const [nextCursor, setNextCursor] = useState<number | undefined>(undefined);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  const loadEntries = async () => {
+    setIsLoading(true);
+    try {
+      const page = await fetchAuditLog(filter);
+      setEntries(page.entries);
+      setNextCursor(page.nextCursor);
+    } catch (err: any) {
+      alert(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Older entries matching the same filter, continuing where the last page stopped
+  const loadMore = async () => {
+    if (nextCursor === undefined) return;
+    setIsLoadingMore(true);
+    try {
+      const page = await fetchAuditLog(filter, nextCursor);
+      setEntries(prev => [...prev, ...page.entries]);
+      setNextCursor(page.nextCursor);
+    } catch (err: any) {
+      alert(err.message);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEntries();
+    fetchUsers().then(setUsers).catch(() => setUsers([]));
+  }, []);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    loadEntries();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[3rem] shadow-2xl w-full max-w-[90vw] flex flex-col h-full max-h-[95vh] overflow-hidden animate-fade-in-up">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">변경 이력 (감사 로그)</h2>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-10 h-10" /></button>
+        </div>
+        <form onSubmit={handleSearch} className="px-10 pt-8 flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-xs uppercase font-black text-slate-400 mb-2 tracking-widest">품목 코드</label>
+            <input type="text" value={filter.itemCode} onChange={(e) => setFilter({ ...filter, itemCode: e.target.value.toUpperCase() })} placeholder="예: CT1" className="px-4 py-3 border-2 border-slate-100 rounded-xl font-black outline-none focus:border-indigo-400" />
+          </div>
+          <div>
+            <label className="block text-xs uppercase font-black text-slate-400 mb-2 tracking-widest">사용자</label>
+            <select value={filter.user} onChange={(e) => setFilter({ ...filter, user: e.target.value })} className="px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400 bg-white">
+              <option value="">전체</option>
+              {users.map(u => <option key={u.id} value={u.username}>{u.displayName} ({u.username})</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs uppercase font-black text-slate-400 mb-2 tracking-widest">시작일</label>
+            <input type="date" value={filter.from} onChange={(e) => setFilter({ ...filter, from: e.target.value })} className="px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400" />
+          </div>
+          <div>
+            <label className="block text-xs uppercase font-black text-slate-400 mb-2 tracking-widest">종료일</label>
+            <input type="date" value={filter.to} onChange={(e) => setFilter({ ...filter, to: e.target.value })} className="px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400" />
+          </div>
+          <button type="submit" className="flex items-center gap-2 px-8 py-3 bg-indigo-600 text-white font-black rounded-xl shadow-lg hover:bg-indigo-700 transition-all uppercase tracking-widest">
+            <SearchIcon className="w-5 h-5" />
+            <span>조회</span>
+          </button>
+        </form>
+        <div className="flex-grow overflow-y-auto p-10">
+          {isLoading ? (
+            <div className="flex justify-center py-20"><SyncIcon className="w-12 h-12 text-indigo-600 animate-spin" /></div>
+          ) : entries.length === 0 ? (
+            <p className="py-20 text-center text-slate-300 font-black uppercase tracking-widest italic text-2xl">조회된 이력이 없습니다</p>
+          ) : (
+            <table className="w-full text-left">
+              <thead className="text-xs text-slate-400 uppercase border-b-2 border-slate-100 font-black tracking-[0.2em] sticky top-0 bg-white">
+                <tr>
+                  <th className="px-4 py-4">일시</th>
+                  <th className="px-4 py-4">사용자</th>
+                  <th className="px-4 py-4">작업</th>
+                  <th className="px-4 py-4">품목 코드 / 참조</th>
+                  <th className="px-4 py-4">변경 내용</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {entries.map(entry => (
+                  <tr key={entry.id} className="align-top">
+                    <td className="px-4 py-4 whitespace-nowrap">
+                      <p className="font-black text-slate-700">{new Date(entry.at).toLocaleDateString()}</p>
+                      <p className="text-xs text-slate-400 font-bold">{new Date(entry.at).toLocaleTimeString()}</p>
+                    </td>
+                    <td className="px-4 py-4 font-mono font-black text-slate-600">{entry.user}</td>
+                    <td className="px-4 py-4">
+                      <span className={`px-3 py-1 rounded-full text-xs font-black whitespace-nowrap ${ACTION_LABELS[entry.action]?.className || 'bg-slate-100 text-slate-500'}`}>
+                        {ACTION_LABELS[entry.action]?.label || entry.action}
+                      </span>
+                    </td>
+                    <td className="px-4 py-4 font-mono font-black text-indigo-600">{entry.itemCode || entry.reference || '-'}</td>
+                    <td className="px-4 py-4">
+                      <ul className="space-y-1 text-sm font-bold text-slate-500">
+                        {describeChanges(entry).map((line, index) => <li key={index} className="break-all">{line}</li>)}
+                      </ul>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {!isLoading && nextCursor !== undefined && (
+            <div className="flex justify-center pt-8">
+              <button onClick={loadMore} disabled={isLoadingMore} className="flex items-center gap-2 px-8 py-3 bg-white text-slate-500 border-2 border-slate-100 font-black rounded-xl hover:bg-slate-50 transition-all uppercase tracking-widest disabled:opacity-40">
+                {isLoadingMore && <SyncIcon className="w-4 h-4 animate-spin" />}
+                <span>이전 이력 더 보기</span>
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogModal;
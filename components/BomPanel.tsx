@@ -0,0 +1,124 @@
+import React, { useState, useMemo } from 'react';
+import type { BomLine, Item } from '../types';
+import { buildCapacity } from '../utils/bom';
+import { EditIcon, CheckIcon, CloseIcon, TrashIcon, PlusIcon } from './icons';
+
+interface BomPanelProps {
+  product: Item;
+  items: Item[];
+  onSave: (bom: BomLine[]) => void;
+  onProduce?: () => void;
+}
+
+const BomPanel: React.FC<BomPanelProps> = ({ product, items, onSave, onProduce }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<BomLine[]>([]);
+  const [newPartId, setNewPartId] = useState('');
+
+  const parts = useMemo(() => items.filter(i => i.type === 'part'), [items]);
+  const capacity = useMemo(() => buildCapacity(product, items), [product, items]);
+  const partById = useMemo(() => new Map(parts.map(p => [p.id, p])), [parts]);
+
+  const startEdit = () => {
+    setDraft(product.bom || []);
+    setNewPartId('');
+    setIsEditing(true);
+  };
+
+  const handleAddLine = () => {
+    if (!newPartId) return;
+    if (draft.some(l => l.partId === newPartId)) { alert('이미 추가된 부품입니다.'); return; }
+    setDraft([...draft, { partId: newPartId, quantity: 1 }]);
+    setNewPartId('');
+  };
+
+  const handleSave = () => {
+    if (draft.some(l => !Number.isInteger(l.quantity) || l.quantity <= 0)) { alert('소요 수량은 1 이상이어야 합니다.'); return; }
+    onSave(draft);
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="mb-8 border-2 border-slate-100 rounded-[2rem] p-6 bg-white">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+        <div className="flex items-center gap-6">
+          <h3 className="text-lg font-black text-slate-800 uppercase tracking-widest">자재 명세 (BOM)</h3>
+          {!isEditing && capacity.lines.length > 0 && (
+            <div className="flex items-center gap-3">
+              <span className="px-4 py-1.5 bg-indigo-50 text-indigo-600 rounded-full text-sm font-black">생산 가능 {capacity.quantity.toLocaleString()}대</span>
+              {capacity.bottleneck && (
+                <span className="text-xs font-black text-rose-500 uppercase tracking-widest">
+                  병목: {capacity.bottleneck.part ? `${capacity.bottleneck.part.code} ${capacity.bottleneck.part.name}` : '삭제된 부품'}
+                </span>
+              )}
+            </div>
+          )}
+        </div>
+        {isEditing ? (
+          <div className="flex gap-2">
+            <button onClick={handleSave} className="flex items-center gap-1.5 px-4 py-2 bg-emerald-500 text-white rounded-xl font-black text-xs uppercase"><CheckIcon className="w-4 h-4" />저장</button>
+            <button onClick={() => setIsEditing(false)} className="flex items-center gap-1.5 px-4 py-2 bg-slate-100 text-slate-500 rounded-xl font-black text-xs uppercase"><CloseIcon className="w-4 h-4" />취소</button>
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            {onProduce && capacity.lines.length > 0 && (
+              <button onClick={onProduce} className="px-4 py-2 bg-indigo-600 text-white rounded-xl font-black text-xs uppercase hover:bg-indigo-700 transition-all">생산 등록</button>
+            )}
+            <button onClick={startEdit} className="flex items-center gap-1.5 px-4 py-2 bg-white text-indigo-600 border-2 border-indigo-50 rounded-xl font-black text-xs uppercase"><EditIcon className="w-4 h-4" />BOM 편집</button>
+          </div>
+        )}
+      </div>
+
+      {isEditing ? (
+        <div className="space-y-3">
+          {draft.map((line, index) => {
+            const part = partById.get(line.partId);
+            return (
+              <div key={line.partId} className="flex items-center gap-4 px-4 py-2 bg-slate-50 rounded-xl">
+                <span className="font-mono font-black text-indigo-600 w-28">{part?.code || '-'}</span>
+                <span className="flex-grow font-black text-slate-700">{part?.name || '삭제된 부품'}</span>
+                <input type="number" min="1" value={line.quantity} onChange={(e) => setDraft(draft.map((l, i) => i === index ? { ...l, quantity: parseInt(e.target.value, 10) || 0 } : l))} className="w-24 px-3 py-2 border-2 border-slate-100 rounded-xl bg-white font-black text-right" />
+                <span className="text-xs font-black text-slate-400">EA / 대</span>
+                <button onClick={() => setDraft(draft.filter((_, i) => i !== index))} className="p-2 text-slate-300 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-all"><TrashIcon className="w-5 h-5" /></button>
+              </div>
+            );
+          })}
+          <div className="flex items-center gap-3 pt-2">
+            <select value={newPartId} onChange={(e) => setNewPartId(e.target.value)} className="flex-grow px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400 bg-white">
+              <option value="">부품 선택...</option>
+              {parts.filter(p => !draft.some(l => l.partId === p.id)).map(p => <option key={p.id} value={p.id}>{p.code} · {p.name}{p.drawingNumber ? ` (${p.drawingNumber})` : ''}</option>)}
+            </select>
+            <button onClick={handleAddLine} className="flex items-center gap-1.5 px-5 py-3 bg-indigo-50 text-indigo-600 rounded-xl font-black text-sm uppercase hover:bg-indigo-600 hover:text-white transition-all"><PlusIcon className="w-4 h-4" />추가</button>
+          </div>
+        </div>
+      ) : capacity.lines.length === 0 ? (
+        <p className="py-6 text-center text-slate-300 font-black uppercase tracking-widest italic">등록된 구성 부품이 없습니다</p>
+      ) : (
+        <table className="w-full text-left">
+          <thead className="text-xs text-slate-400 uppercase border-b-2 border-slate-100 font-black tracking-[0.2em]">
+            <tr>
+              <th className="px-4 py-3">부품 코드</th>
+              <th className="px-4 py-3">부품명</th>
+              <th className="px-4 py-3 text-right">대당 소요</th>
+              <th className="px-4 py-3 text-right">현재 재고</th>
+              <th className="px-4 py-3 text-right">생산 가능</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {capacity.lines.map(l => (
+              <tr key={l.line.partId} className={l === capacity.bottleneck ? 'bg-rose-50/50' : ''}>
+                <td className="px-4 py-3 font-mono font-black text-indigo-600">{l.part?.code || '-'}</td>
+                <td className="px-4 py-3 font-black text-slate-700">{l.part?.name || '삭제된 부품'}</td>
+                <td className="px-4 py-3 text-right font-bold text-slate-600">{l.line.quantity.toLocaleString()}</td>
+                <td className="px-4 py-3 text-right font-bold text-slate-600">{l.stock.toLocaleString()}</td>
+                <td className={`px-4 py-3 text-right font-black ${l === capacity.bottleneck ? 'text-rose-600' : 'text-slate-700'}`}>{l.buildable.toLocaleString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default BomPanel;
@@ -0,0 +1,343 @@
+import React, { useState, useMemo } from 'react';
+import type { Customer, Item, UserRole } from '../types';
+import { customerReleases, duplicateCustomerGroups, findCustomerByName, searchCustomers } from '../utils/customers';
+import type { DuplicateCustomerGroup } from '../utils/customers';
+import { activeTransactions } from '../utils/inventory';
+import { warrantyStatus } from '../utils/warranty';
+import type { CustomerMerge } from '../services/api';
+import WarrantyBadge from './WarrantyBadge';
+import { CloseIcon, PlusIcon, EditIcon, CheckIcon, TrashIcon, SearchIcon } from './icons';
+
+interface CustomerModalProps {
+  customers: Customer[];
+  items: Item[];
+  authRole: UserRole;
+  onCreate: (customer: Pick<Customer, 'name' | 'phoneNumber' | 'address' | 'remarks'>) => void;
+  onUpdate: (customerId: string, updatedData: Partial<Customer>) => void;
+  onDelete: (customerId: string) => void;
+  onMerge: (merge: CustomerMerge) => void;
+  onSelectItem: (itemId: string) => void;
+  onClose: () => void;
+}
+
+type View = { kind: 'list' } | { kind: 'detail'; customerId: string } | { kind: 'merge' };
+
+const EMPTY_FORM = { name: '', phoneNumber: '', address: '', remarks: '' };
+const NEW_TARGET = '__new__';
+
+// Stable key of a duplicate group and of its entries, so choices survive recomputation
+const groupKey = (group: DuplicateCustomerGroup) => group.customers[0]?.id || `name:${group.names[0].name}`;
+const customerEntry = (customer: Customer) => `c:${customer.id}`;
+const nameEntry = (name: string) => `n:${name}`;
+
+const CustomerModal: React.FC<CustomerModalProps> = ({ customers, items, authRole, onCreate, onUpdate, onDelete, onMerge, onSelectItem, onClose }) => {
+  const [view, setView] = useState<View>({ kind: 'list' });
+  const [searchTerm, setSearchTerm] = useState('');
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editData, setEditData] = useState(EMPTY_FORM);
+  const [mergeTargets, setMergeTargets] = useState<Record<string, string>>({});
+  const [newTargetNames, setNewTargetNames] = useState<Record<string, string>>({});
+  const [excludedEntries, setExcludedEntries] = useState<Set<string>>(new Set());
+
+  const filtered = useMemo(() => searchCustomers(customers, searchTerm), [customers, searchTerm]);
+  const releaseCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    items.forEach(item => activeTransactions(item).forEach(t => {
+      if (t.type === 'release' && t.customerId) counts.set(t.customerId, (counts.get(t.customerId) || 0) + t.quantity);
+    }));
+    return counts;
+  }, [items]);
+  const duplicateGroups = useMemo(() => authRole === 'admin' ? duplicateCustomerGroups(customers, items) : [], [authRole, customers, items]);
+  const similar = formData.name.trim() ? findCustomerByName(customers, formData.name) : undefined;
+
+  const detailCustomer = view.kind === 'detail' ? customers.find(c => c.id === view.customerId) : undefined;
+  const detailReleases = useMemo(() => detailCustomer ? customerReleases(items, detailCustomer.id) : [], [items, detailCustomer]);
+  // Products received, with the serials still out with the customer
+  const detailProducts = useMemo(() => {
+    const byItem = new Map<string, { item: Item; quantity: number; returned: number; serials: string[] }>();
+    detailReleases.forEach(({ item, transaction, returned }) => {
+      const entry = byItem.get(item.id) || { item, quantity: 0, returned: 0, serials: [] };
+      entry.quantity += transaction.quantity;
+      entry.returned += returned;
+      if (transaction.serialNumber && returned < transaction.quantity) entry.serials.push(transaction.serialNumber);
+      byItem.set(item.id, entry);
+    });
+    return Array.from(byItem.values()).sort((a, b) => a.item.code.localeCompare(b.item.code));
+  }, [detailReleases]);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) { alert('고객명은 필수 항목입니다.'); return; }
+    if (similar && !confirm(`같은 이름의 고객(${similar.name})이 이미 있습니다. 그래도 등록하시겠습니까?`)) return;
+    onCreate({ name: formData.name.trim(), phoneNumber: formData.phoneNumber.trim(), address: formData.address.trim(), remarks: formData.remarks.trim() });
+    setFormData(EMPTY_FORM);
+  };
+
+  const startEdit = (customer: Customer) => {
+    setEditingId(customer.id);
+    setEditData({ name: customer.name, phoneNumber: customer.phoneNumber, address: customer.address, remarks: customer.remarks });
+  };
+
+  const handleSaveEdit = (customer: Customer) => {
+    if (!editData.name.trim()) { alert('고객명은 필수 항목입니다.'); return; }
+    onUpdate(customer.id, { name: editData.name.trim(), phoneNumber: editData.phoneNumber.trim(), address: editData.address.trim(), remarks: editData.remarks.trim() });
+    setEditingId(null);
+  };
+
+  const handleDelete = (customer: Customer) => {
+    if (releaseCounts.has(customer.id)) { alert('출고 내역이 있는 고객은 삭제할 수 없습니다. 중복 고객이라면 병합하세요.'); return; }
+    if (!confirm(`${customer.name} 고객을 삭제하시겠습니까?`)) return;
+    onDelete(customer.id);
+  };
+
+  const toggleEntry = (entry: string) => setExcludedEntries(prev => {
+    const next = new Set(prev);
+    if (next.has(entry)) next.delete(entry);
+    else next.add(entry);
+    return next;
+  });
+
+  const handleMerge = (group: DuplicateCustomerGroup) => {
+    const key = groupKey(group);
+    const target = mergeTargets[key] || group.customers[0]?.id || NEW_TARGET;
+    const sourceIds = group.customers.filter(c => c.id !== target && !excludedEntries.has(customerEntry(c))).map(c => c.id);
+    const names = group.names.filter(n => !excludedEntries.has(nameEntry(n.name))).map(n => n.name);
+    if (sourceIds.length === 0 && names.length === 0) { alert('병합할 항목을 선택하세요.'); return; }
+
+    if (target === NEW_TARGET) {
+      const name = (newTargetNames[key] ?? group.names[0]?.name ?? '').trim();
+      if (!name) { alert('새 고객명을 입력하세요.'); return; }
+      const contact = group.names.find(n => n.phoneNumber || n.address);
+      if (!confirm(`${names.length + sourceIds.length}건을 새 고객 "${name}"(으)로 병합하시겠습니까?`)) return;
+      onMerge({ customer: { name, phoneNumber: contact?.phoneNumber || '', address: contact?.address || '', remarks: '' }, sourceIds, names });
+    } else {
+      const customer = group.customers.find(c => c.id === target)!;
+      if (!confirm(`${names.length + sourceIds.length}건을 "${customer.name}" 고객으로 병합하시겠습니까?\n병합된 출고 내역의 고객명은 "${customer.name}"(으)로 바뀌며, 병합된 다른 고객은 삭제됩니다.`)) return;
+      onMerge({ targetId: target, sourceIds, names });
+    }
+  };
+
+  const renderList = () => (
+    <div className="p-8 space-y-8">
+      <form onSubmit={handleCreate} className="grid grid-cols-2 gap-4 p-6 bg-slate-50/80 rounded-2xl border border-slate-100">
+        <div>
+          <input type="text" value={formData.name} onChange={(e) => setFormData({ ...formData, name: e.target.value })} placeholder="고객명 *" className={`w-full px-4 py-3 border-2 rounded-xl text-lg font-black outline-none ${similar ? 'border-amber-400 bg-amber-50' : 'border-slate-100 focus:border-indigo-400'}`} />
+          {similar && <p className="mt-1 text-xs font-bold text-amber-600">같은 이름의 고객이 있습니다: {similar.name} {similar.phoneNumber}</p>}
+        </div>
+        <input type="text" value={formData.phoneNumber} onChange={(e) => setFormData({ ...formData, phoneNumber: e.target.value })} placeholder="연락처" className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none focus:border-indigo-400" />
+        <input type="text" value={formData.address} onChange={(e) => setFormData({ ...formData, address: e.target.value })} placeholder="주소" className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none focus:border-indigo-400" />
+        <input type="text" value={formData.remarks} onChange={(e) => setFormData({ ...formData, remarks: e.target.value })} placeholder="비고" className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none focus:border-indigo-400" />
+        <button type="submit" className="col-span-2 flex items-center justify-center gap-2 py-4 bg-indigo-600 text-white font-black rounded-xl shadow-lg hover:bg-indigo-700 transition-all uppercase tracking-widest">
+          <PlusIcon className="w-5 h-5" />
+          <span>고객 등록</span>
+        </button>
+      </form>
+
+      <div className="relative">
+        <span className="absolute inset-y-0 left-0 flex items-center pl-4"><SearchIcon className="text-slate-400 w-5 h-5" /></span>
+        <input type="text" value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} placeholder="고객명 또는 연락처 검색" className="w-full pl-12 pr-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400" />
+      </div>
+
+      {filtered.length === 0 ? (
+        <p className="py-10 text-center text-slate-300 font-black uppercase tracking-widest italic">등록된 고객이 없습니다</p>
+      ) : (
+        <table className="w-full text-left">
+          <thead className="text-xs text-slate-400 uppercase border-b border-slate-100 font-black tracking-[0.2em]">
+            <tr>
+              <th className="px-4 py-4">고객명</th>
+              <th className="px-4 py-4">연락처</th>
+              <th className="px-4 py-4">주소</th>
+              <th className="px-4 py-4 text-right">출고</th>
+              <th className="px-4 py-4 text-center">관리</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {filtered.map(customer => editingId === customer.id ? (
+              <tr key={customer.id} className="bg-indigo-50/50">
+                <td className="px-4 py-3"><input value={editData.name} onChange={(e) => setEditData({ ...editData, name: e.target.value })} className="w-full px-3 py-2 border-2 rounded-xl bg-white font-black" /></td>
+                <td className="px-4 py-3"><input value={editData.phoneNumber} onChange={(e) => setEditData({ ...editData, phoneNumber: e.target.value })} className="w-full px-3 py-2 border-2 rounded-xl bg-white font-bold" /></td>
+                <td className="px-4 py-3"><input value={editData.address} onChange={(e) => setEditData({ ...editData, address: e.target.value })} className="w-full px-3 py-2 border-2 rounded-xl bg-white font-bold" /></td>
+                <td></td>
+                <td className="px-4 py-3">
+                  <div className="flex justify-center gap-2">
+                    <button onClick={() => handleSaveEdit(customer)} className="p-2 text-emerald-600 hover:bg-emerald-50 rounded-xl transition-all"><CheckIcon className="w-5 h-5" /></button>
+                    <button onClick={() => setEditingId(null)} className="p-2 text-slate-400 hover:bg-slate-50 rounded-xl transition-all"><CloseIcon className="w-5 h-5" /></button>
+                  </div>
+                </td>
+              </tr>
+            ) : (
+              <tr key={customer.id} className="hover:bg-slate-50/50">
+                <td className="px-4 py-4">
+                  <button onClick={() => setView({ kind: 'detail', customerId: customer.id })} className="font-black text-indigo-600 hover:underline text-left">{customer.name}</button>
+                  {customer.remarks && <p className="text-xs font-bold text-slate-400">{customer.remarks}</p>}
+                </td>
+                <td className="px-4 py-4 font-bold text-slate-600">{customer.phoneNumber || '-'}</td>
+                <td className="px-4 py-4 text-sm font-bold text-slate-500 truncate max-w-[280px]" title={customer.address}>{customer.address || '-'}</td>
+                <td className="px-4 py-4 text-right font-black text-slate-700">{releaseCounts.get(customer.id)?.toLocaleString() || '-'}</td>
+                <td className="px-4 py-4">
+                  <div className="flex justify-center gap-2">
+                    <button onClick={() => startEdit(customer)} className="p-2 text-indigo-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all"><EditIcon className="w-5 h-5" /></button>
+                    {authRole === 'admin' && <button onClick={() => handleDelete(customer)} className="p-2 text-slate-300 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-all"><TrashIcon className="w-5 h-5" /></button>}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+
+  const renderDetail = (customer: Customer) => (
+    <div className="p-8 space-y-8">
+      <button onClick={() => setView({ kind: 'list' })} className="text-sm font-black text-indigo-500 hover:underline">← 고객 목록</button>
+      <div className="grid grid-cols-3 gap-4 p-6 bg-slate-50/80 rounded-2xl border border-slate-100">
+        <div><p className="text-xs uppercase font-black text-slate-400 tracking-widest">고객명</p><p className="text-2xl font-black text-slate-800">{customer.name}</p></div>
+        <div><p className="text-xs uppercase font-black text-slate-400 tracking-widest">연락처</p><p className="text-lg font-bold text-slate-700">{customer.phoneNumber || '-'}</p></div>
+        <div><p className="text-xs uppercase font-black text-slate-400 tracking-widest">주소</p><p className="text-lg font-bold text-slate-700">{customer.address || '-'}</p></div>
+        {customer.remarks && <p className="col-span-3 text-sm font-bold text-slate-500">{customer.remarks}</p>}
+      </div>
+
+      <div>
+        <h3 className="text-xs uppercase font-black text-slate-400 mb-3 tracking-widest">보유 제품</h3>
+        {detailProducts.length === 0 ? (
+          <p className="py-6 text-center text-slate-300 font-black uppercase tracking-widest italic">출고 내역이 없습니다</p>
+        ) : (
+          <div className="grid grid-cols-2 gap-4">
+            {detailProducts.map(p => (
+              <div key={p.item.id} className="p-5 border-2 border-slate-100 rounded-2xl">
+                <div className="flex justify-between items-start">
+                  <button onClick={() => onSelectItem(p.item.id)} className="text-left">
+                    <p className="font-mono font-black text-indigo-600 hover:underline">{p.item.code}</p>
+                    <p className="font-black text-slate-800">{p.item.name}</p>
+                  </button>
+                  <div className="text-right">
+                    <p className="text-2xl font-black text-slate-900">{(p.quantity - p.returned).toLocaleString()} EA</p>
+                    {p.returned > 0 && <p className="text-xs font-bold text-amber-600">출고 {p.quantity} · 반품 {p.returned}</p>}
+                  </div>
+                </div>
+                {p.serials.length > 0 && (
+                  <div className="mt-3 flex flex-wrap gap-1">
+                    {p.serials.map(serial => <span key={serial} className="px-2 py-0.5 bg-slate-100 rounded-lg text-xs font-mono font-bold text-slate-600">{serial}</span>)}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {detailReleases.length > 0 && (
+        <div>
+          <h3 className="text-xs uppercase font-black text-slate-400 mb-3 tracking-widest">출고 내역</h3>
+          <table className="w-full text-left">
+            <thead className="text-xs text-slate-400 uppercase border-b border-slate-100 font-black tracking-[0.2em]">
+              <tr>
+                <th className="px-4 py-3">출고일</th>
+                <th className="px-4 py-3">제품</th>
+                <th className="px-4 py-3">일련번호</th>
+                <th className="px-4 py-3 text-right">수량</th>
+                <th className="px-4 py-3">보증</th>
+                <th className="px-4 py-3">배송 주소</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {detailReleases.map(({ item, transaction, returned }) => {
+                const warranty = warrantyStatus(item, transaction);
+                return (
+                <tr key={transaction.id}>
+                  <td className="px-4 py-3 font-bold text-slate-600">{new Date(transaction.date).toLocaleDateString()}</td>
+                  <td className="px-4 py-3"><span className="font-mono font-black text-indigo-600">{item.code}</span> <span className="font-bold text-slate-700">{item.name}</span></td>
+                  <td className="px-4 py-3 font-mono font-bold text-slate-600">{transaction.serialNumber || '-'}</td>
+                  <td className="px-4 py-3 text-right font-black text-slate-800">
+                    {transaction.quantity.toLocaleString()}
+                    {returned > 0 && <span className="ml-2 px-2 py-0.5 bg-amber-100 text-amber-700 rounded-full text-[10px]">반품 {returned}</span>}
+                  </td>
+                  <td className="px-4 py-3">{warranty ? <WarrantyBadge warranty={warranty} /> : <span className="text-sm font-bold text-slate-300">-</span>}</td>
+                  <td className="px-4 py-3 text-sm font-bold text-slate-500">{transaction.address || '-'}</td>
+                </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+
+  const renderMerge = () => (
+    <div className="p-8 space-y-6">
+      <p className="text-sm font-bold text-slate-500">
+        이름(띄어쓰기·대소문자·(주) 표기 무시) 또는 연락처가 같은 고객과, 고객 등록 없이 이름만 입력된 출고 내역을 묶어 보여줍니다.
+        기준 고객을 고르고 병합하면 선택한 내역이 모두 기준 고객에 연결됩니다.
+      </p>
+      {duplicateGroups.length === 0 ? (
+        <p className="py-10 text-center text-slate-300 font-black uppercase tracking-widest italic">병합할 중복 고객이 없습니다</p>
+      ) : duplicateGroups.map(group => {
+        const key = groupKey(group);
+        const target = mergeTargets[key] || group.customers[0]?.id || NEW_TARGET;
+        return (
+          <div key={key} className="p-6 border-2 border-slate-100 rounded-2xl space-y-3">
+            {group.customers.map(customer => (
+              <div key={customer.id} className="flex items-center gap-4">
+                <input type="radio" checked={target === customer.id} onChange={() => setMergeTargets(prev => ({ ...prev, [key]: customer.id }))} className="w-4 h-4" title="기준 고객" />
+                <input type="checkbox" checked={target === customer.id || !excludedEntries.has(customerEntry(customer))} disabled={target === customer.id} onChange={() => toggleEntry(customerEntry(customer))} className="w-4 h-4" />
+                <span className="px-2 py-0.5 bg-indigo-100 text-indigo-700 rounded-full text-[10px] font-black">등록 고객</span>
+                <span className="font-black text-slate-800">{customer.name}</span>
+                <span className="text-sm font-bold text-slate-500">{customer.phoneNumber}</span>
+                <span className="text-sm font-bold text-slate-400 truncate">{customer.address}</span>
+                <span className="ml-auto text-xs font-bold text-slate-400">출고 {releaseCounts.get(customer.id) || 0}</span>
+              </div>
+            ))}
+            {group.names.map(name => (
+              <div key={name.name} className="flex items-center gap-4">
+                <span className="w-4" />
+                <input type="checkbox" checked={!excludedEntries.has(nameEntry(name.name))} onChange={() => toggleEntry(nameEntry(name.name))} className="w-4 h-4" />
+                <span className="px-2 py-0.5 bg-slate-100 text-slate-500 rounded-full text-[10px] font-black">미등록</span>
+                <span className="font-black text-slate-800">{name.name}</span>
+                <span className="text-sm font-bold text-slate-500">{name.phoneNumber}</span>
+                <span className="text-sm font-bold text-slate-400 truncate">{name.address}</span>
+                <span className="ml-auto text-xs font-bold text-slate-400">{name.count}건</span>
+              </div>
+            ))}
+            <div className="flex items-center gap-4 pt-3 border-t border-slate-100">
+              <input type="radio" checked={target === NEW_TARGET} onChange={() => setMergeTargets(prev => ({ ...prev, [key]: NEW_TARGET }))} className="w-4 h-4" />
+              <span className="text-sm font-black text-slate-500">새 고객으로 등록</span>
+              {target === NEW_TARGET && (
+                <input type="text" value={newTargetNames[key] ?? group.names[0]?.name ?? ''} onChange={(e) => setNewTargetNames(prev => ({ ...prev, [key]: e.target.value }))} placeholder="고객명" className="px-3 py-2 border-2 border-slate-100 rounded-xl font-black outline-none focus:border-indigo-400" />
+              )}
+              <button onClick={() => handleMerge(group)} className="ml-auto px-6 py-2 bg-indigo-600 text-white font-black rounded-xl shadow hover:bg-indigo-700 transition-all text-sm uppercase tracking-widest">병합</button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-5xl animate-fade-in-up overflow-hidden">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div className="flex items-center gap-6">
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">고객 관리</h2>
+            {authRole === 'admin' && (
+              <div className="flex gap-2">
+                <button onClick={() => setView({ kind: 'list' })} className={`px-4 py-2 rounded-xl font-black text-xs uppercase tracking-widest transition-all ${view.kind !== 'merge' ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}>고객 목록</button>
+                <button onClick={() => setView({ kind: 'merge' })} className={`px-4 py-2 rounded-xl font-black text-xs uppercase tracking-widest transition-all ${view.kind === 'merge' ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}>중복 병합 ({duplicateGroups.length})</button>
+              </div>
+            )}
+          </div>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors">
+            <CloseIcon className="w-8 h-8" />
+          </button>
+        </div>
+        <div className="max-h-[75vh] overflow-y-auto">
+          {view.kind === 'merge' ? renderMerge() : detailCustomer ? renderDetail(detailCustomer) : renderList()}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomerModal;
@@ -0,0 +1,90 @@
+
+import React, { useState } from 'react';
+import type { PurchaseOrderLine } from '../types';
+import { CloseIcon } from './icons';
+
+interface EditOrderedPartModalProps {
+  line: PurchaseOrderLine;
+  onSave: (line: PurchaseOrderLine) => void;
+  onClose: () => void;
+}
+
+const EditOrderedPartModal: React.FC<EditOrderedPartModalProps> = ({ line, onSave, onClose }) => {
+  const [formData, setFormData] = useState({
+    quantity: String(line.quantity),
+    unitPrice: String(line.unitPrice),
+    remarks: line.remarks,
+  });
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const quantity = parseInt(formData.quantity, 10);
+    const unitPrice = parseFloat(formData.unitPrice);
+    if (!quantity || quantity <= 0) {
+      alert('발주 수량은 1 이상이어야 합니다.');
+      return;
+    }
+    if (isNaN(unitPrice) || unitPrice < 0) {
+      alert('단가를 올바르게 입력해주세요.');
+      return;
+    }
+    onSave({ ...line, quantity, unitPrice, remarks: formData.remarks });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-[60] p-4 font-sans">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-xl animate-fade-in-up overflow-hidden">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">발주 품목 수정</h2>
+            <p className="mt-1"><span className="font-mono font-black text-indigo-600 mr-2">{line.code}</span><span className="font-black text-slate-500">{line.name}</span></p>
+          </div>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors">
+            <CloseIcon className="w-8 h-8" />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit}>
+          <div className="p-8 space-y-6">
+            <div className="grid grid-cols-2 gap-6">
+              <div>
+                <label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">도번</label>
+                <p className="px-5 py-3 bg-slate-50 rounded-xl font-mono font-bold text-slate-500">{line.drawingNumber || '-'}</p>
+              </div>
+              <div>
+                <label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">규격</label>
+                <p className="px-5 py-3 bg-slate-50 rounded-xl font-bold text-slate-500">{line.spec || '-'}</p>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-6">
+              <div>
+                <label htmlFor="quantity" className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">발주 수량</label>
+                <input type="number" name="quantity" id="quantity" min="1" autoFocus value={formData.quantity} onChange={handleChange} className="w-full px-5 py-3 border-2 border-slate-100 rounded-xl text-lg focus:ring-2 focus:ring-indigo-500 outline-none font-black" />
+              </div>
+              <div>
+                <label htmlFor="unitPrice" className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">단가</label>
+                <input type="number" name="unitPrice" id="unitPrice" min="0" step="any" value={formData.unitPrice} onChange={handleChange} className="w-full px-5 py-3 border-2 border-slate-100 rounded-xl text-lg focus:ring-2 focus:ring-indigo-500 outline-none font-black" />
+              </div>
+            </div>
+            <div>
+              <label htmlFor="remarks" className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">비고</label>
+              <textarea name="remarks" id="remarks" value={formData.remarks} onChange={handleChange} rows={2} className="w-full px-5 py-3 border-2 border-slate-100 rounded-xl text-lg focus:ring-2 focus:ring-indigo-500 outline-none font-bold"></textarea>
+            </div>
+          </div>
+          <div className="p-8 bg-slate-50 border-t border-slate-100">
+            <button type="submit" className="w-full px-8 py-5 bg-indigo-600 text-white font-black rounded-2xl shadow-xl hover:bg-indigo-700 transition-all active:scale-95 uppercase tracking-widest text-lg">
+              저장하기
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default EditOrderedPartModal;
@@ -0,0 +1,246 @@
+import React, { useState, useMemo } from 'react';
+import type { Item, Location } from '../types';
+import { guessMapping, importFields, splitSheet, validateItemRows, validateTransactionRows } from '../utils/bulkImport';
+import type { BulkImport, ColumnMapping, ImportKind, ImportRow } from '../utils/bulkImport';
+import { downloadCsv, readSpreadsheetFile } from '../utils/spreadsheet';
+import { CloseIcon, CheckIcon, DownloadIcon } from './icons';
+
+interface ImportModalProps {
+  items: Item[];
+  locations: Location[];
+  onImport: (data: BulkImport) => void;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<ImportKind, string> = { items: '품목 (기초 수량)', transactions: '입출고 내역' };
+
+// Columns shown in the preview besides the row number and status
+const PREVIEW_COLUMNS: Record<ImportKind, string[]> = {
+  items: ['type', 'code', 'name', 'spec', 'drawingNumber', 'initialQuantity', 'location'],
+  transactions: ['itemCode', 'type', 'quantity', 'date', 'serialNumber', 'lotNumber', 'location', 'customerName'],
+};
+
+interface Sheet {
+  fileName: string;
+  headers: string[];
+  records: { row: number; cells: string[] }[];
+}
+
+const ImportModal: React.FC<ImportModalProps> = ({ items, locations, onImport, onClose }) => {
+  const [kind, setKind] = useState<ImportKind>('items');
+  const [defaultType, setDefaultType] = useState<Item['type']>('part');
+  const [sheet, setSheet] = useState<Sheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [step, setStep] = useState<'upload' | 'mapping' | 'preview'>('upload');
+  const [isReading, setIsReading] = useState(false);
+  const [rowFilter, setRowFilter] = useState<'all' | 'errors'>('all');
+
+  const fields = importFields(kind);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsReading(true);
+    try {
+      const { headers, records } = splitSheet(await readSpreadsheetFile(file));
+      if (records.length === 0) {
+        alert('머리글 아래에 데이터 행이 없습니다.');
+        return;
+      }
+      setSheet({ fileName: file.name, headers, records });
+      setMapping(guessMapping(headers, fields));
+      setStep('mapping');
+    } catch (err) {
+      console.error('Import read failed:', err);
+      alert('파일을 읽을 수 없습니다. CSV 또는 XLSX 파일인지 확인하세요.');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const downloadTemplate = () => {
+    downloadCsv(`일괄등록_양식_${kind === 'items' ? '품목' : '입출고'}.csv`, [fields.map(f => f.label)]);
+  };
+
+  const missingRequired = fields.filter(f => f.required && !(mapping[f.key] >= 0));
+
+  const rows = useMemo((): ImportRow<unknown>[] => {
+    if (!sheet || step !== 'preview') return [];
+    return kind === 'items'
+      ? validateItemRows(sheet.records, mapping, items, locations, defaultType)
+      : validateTransactionRows(sheet.records, mapping, items, locations);
+  }, [sheet, step, kind, mapping, items, locations, defaultType]);
+
+  const validRows = rows.filter(r => r.record);
+  const errorCount = rows.length - validRows.length;
+  const warningCount = validRows.filter(r => r.warnings.length > 0).length;
+  const shownRows = rowFilter === 'errors' ? rows.filter(r => !r.record || r.warnings.length > 0) : rows;
+
+  const handleCommit = () => {
+    if (validRows.length === 0) return;
+    const skipped = errorCount > 0 ? `\n오류가 있는 ${errorCount}행은 제외됩니다.` : '';
+    if (!confirm(`${validRows.length}건을 등록하시겠습니까?${skipped}`)) return;
+    const data: BulkImport = kind === 'items'
+      ? { items: (validRows as ImportRow<BulkImport['items'][number]>[]).map(r => ({ ...r.record!, row: r.row })), transactions: [] }
+      : { items: [], transactions: (validRows as ImportRow<BulkImport['transactions'][number]>[]).map(r => ({ ...r.record!, row: r.row })) };
+    onImport(data);
+    onClose();
+  };
+
+  const fieldLabel = (key: string) => fields.find(f => f.key === key)?.label || key;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[3rem] shadow-2xl w-full max-w-[90vw] flex flex-col h-full max-h-[95vh] overflow-hidden animate-fade-in-up">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">일괄 등록</h2>
+            <p className="text-xs text-slate-400 font-bold mt-1 uppercase tracking-widest">
+              {sheet ? `${sheet.fileName} · ${sheet.records.length}행` : 'CSV / XLSX 파일에서 품목 또는 입출고 내역 불러오기'}
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            {(['upload', 'mapping', 'preview'] as const).map((s, index) => (
+              <span key={s} className={`px-4 py-2 rounded-xl text-xs font-black uppercase tracking-widest ${step === s ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-400'}`}>
+                {index + 1}. {s === 'upload' ? '파일 선택' : s === 'mapping' ? '열 매핑' : '검증 미리보기'}
+              </span>
+            ))}
+            <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-10 h-10" /></button>
+          </div>
+        </div>
+
+        {step === 'upload' && (
+          <div className="flex-grow overflow-y-auto p-10 space-y-8 max-w-3xl">
+            <div>
+              <label className="block text-xs uppercase font-black text-slate-400 mb-3 tracking-widest">등록할 자료</label>
+              <div className="flex gap-3">
+                {(Object.keys(KIND_LABELS) as ImportKind[]).map(k => (
+                  <button key={k} onClick={() => setKind(k)} className={`px-6 py-3 rounded-xl font-black uppercase tracking-widest transition-all ${kind === k ? 'bg-indigo-600 text-white shadow-lg' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}>{KIND_LABELS[k]}</button>
+                ))}
+              </div>
+              <p className="text-sm text-slate-400 font-bold mt-3">
+                {kind === 'items'
+                  ? '새 품목을 등록합니다. 기초 수량이 있으면 입고 내역으로 함께 등록됩니다.'
+                  : '이미 등록된 품목에 입고 / 출고 / 조정 / 폐기 내역을 파일 순서대로 등록합니다. 조정은 수량 앞의 - 로 감소를 나타냅니다.'}
+              </p>
+            </div>
+            {kind === 'items' && (
+              <div>
+                <label className="block text-xs uppercase font-black text-slate-400 mb-3 tracking-widest">구분 열이 없거나 비어 있을 때</label>
+                <select value={defaultType} onChange={(e) => setDefaultType(e.target.value as Item['type'])} className="px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400">
+                  <option value="part">부품</option>
+                  <option value="product">제품</option>
+                </select>
+              </div>
+            )}
+            <div className="flex flex-wrap gap-3">
+              <label className={`flex items-center gap-2 px-8 py-4 bg-indigo-600 text-white font-black rounded-xl shadow-lg hover:bg-indigo-700 transition-all uppercase tracking-widest cursor-pointer ${isReading ? 'opacity-50 pointer-events-none' : ''}`}>
+                <span>{isReading ? '읽는 중...' : '파일 선택'}</span>
+                <input type="file" className="hidden" accept=".csv,.txt,.xlsx" onChange={handleFile} />
+              </label>
+              <button onClick={downloadTemplate} className="flex items-center gap-2 px-8 py-4 bg-white text-slate-500 border-2 border-slate-100 font-black rounded-xl hover:bg-slate-50 transition-all uppercase tracking-widest">
+                <DownloadIcon className="w-5 h-5" /><span>양식 다운로드</span>
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'mapping' && sheet && (
+          <>
+            <div className="flex-grow overflow-y-auto p-10">
+              <p className="text-sm text-slate-400 font-bold mb-6">파일의 열을 각 항목에 연결하세요. 머리글이 같은 열은 자동으로 연결되었습니다. <span className="text-rose-500">*</span> 항목은 필수입니다.</p>
+              <table className="w-full text-left max-w-4xl">
+                <thead className="text-xs text-slate-400 uppercase border-b-2 border-slate-100 font-black tracking-[0.2em]">
+                  <tr>
+                    <th className="px-4 py-4">항목</th>
+                    <th className="px-4 py-4">파일의 열</th>
+                    <th className="px-4 py-4">첫 행 값</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50">
+                  {fields.map(field => (
+                    <tr key={field.key}>
+                      <td className="px-4 py-3 font-black text-slate-700">{field.label}{field.required && <span className="text-rose-500 ml-1">*</span>}</td>
+                      <td className="px-4 py-3">
+                        <select
+                          value={mapping[field.key] ?? -1}
+                          onChange={(e) => setMapping(prev => ({ ...prev, [field.key]: Number(e.target.value) }))}
+                          className={`w-full px-4 py-2 border-2 rounded-xl font-bold outline-none focus:border-indigo-400 ${field.required && !(mapping[field.key] >= 0) ? 'border-rose-200 bg-rose-50' : 'border-slate-100'}`}
+                        >
+                          <option value={-1}>— 사용 안 함 —</option>
+                          {sheet.headers.map((header, index) => <option key={index} value={index}>{header || `(${index + 1}번째 열)`}</option>)}
+                        </select>
+                      </td>
+                      <td className="px-4 py-3 font-mono text-sm text-slate-500">{mapping[field.key] >= 0 ? sheet.records[0].cells[mapping[field.key]] || '' : ''}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="p-8 border-t border-slate-100 flex justify-between items-center">
+              <button onClick={() => { setSheet(null); setStep('upload'); }} className="px-8 py-4 bg-slate-100 text-slate-500 font-black rounded-xl hover:bg-slate-200 transition-all uppercase tracking-widest">다른 파일</button>
+              <div className="flex items-center gap-4">
+                {missingRequired.length > 0 && <span className="text-sm font-bold text-rose-500">필수 항목 미연결: {missingRequired.map(f => f.label).join(', ')}</span>}
+                <button onClick={() => { setRowFilter('all'); setStep('preview'); }} disabled={missingRequired.length > 0} className="px-8 py-4 bg-indigo-600 text-white font-black rounded-xl shadow-lg hover:bg-indigo-700 transition-all uppercase tracking-widest disabled:opacity-40">검증하기</button>
+              </div>
+            </div>
+          </>
+        )}
+
+        {step === 'preview' && sheet && (
+          <>
+            <div className="px-10 pt-8 flex flex-wrap items-center gap-4">
+              <span className="px-4 py-2 rounded-xl bg-slate-100 text-slate-600 text-sm font-black">전체 {rows.length}행</span>
+              <span className="px-4 py-2 rounded-xl bg-emerald-50 text-emerald-600 text-sm font-black">등록 가능 {validRows.length}</span>
+              <span className="px-4 py-2 rounded-xl bg-rose-50 text-rose-600 text-sm font-black">오류 {errorCount}</span>
+              {warningCount > 0 && <span className="px-4 py-2 rounded-xl bg-amber-50 text-amber-600 text-sm font-black">경고 {warningCount}</span>}
+              <label className="ml-auto flex items-center gap-2 text-sm font-bold text-slate-500">
+                <input type="checkbox" checked={rowFilter === 'errors'} onChange={(e) => setRowFilter(e.target.checked ? 'errors' : 'all')} className="w-4 h-4" />
+                오류 / 경고 행만 보기
+              </label>
+            </div>
+            <div className="flex-grow overflow-y-auto p-10">
+              <table className="w-full text-left">
+                <thead className="text-xs text-slate-400 uppercase border-b-2 border-slate-100 font-black tracking-[0.2em] sticky top-0 bg-white">
+                  <tr>
+                    <th className="px-3 py-4">행</th>
+                    <th className="px-3 py-4">상태</th>
+                    {PREVIEW_COLUMNS[kind].map(key => <th key={key} className="px-3 py-4">{fieldLabel(key)}</th>)}
+                    <th className="px-3 py-4">확인 사항</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50">
+                  {shownRows.map(r => (
+                    <tr key={r.row} className={r.record ? '' : 'bg-rose-50/50'}>
+                      <td className="px-3 py-3 font-mono text-sm text-slate-400">{r.row}</td>
+                      <td className="px-3 py-3">
+                        {r.record
+                          ? <span className="inline-flex items-center gap-1 px-3 py-1 rounded-lg bg-emerald-50 text-emerald-600 text-xs font-black"><CheckIcon className="w-3 h-3" />등록</span>
+                          : <span className="px-3 py-1 rounded-lg bg-rose-100 text-rose-600 text-xs font-black">제외</span>}
+                      </td>
+                      {PREVIEW_COLUMNS[kind].map(key => <td key={key} className="px-3 py-3 font-bold text-slate-700 text-sm">{r.values[key]}</td>)}
+                      <td className="px-3 py-3 text-sm">
+                        {r.errors.map((message, i) => <p key={`e${i}`} className="font-bold text-rose-600">{message}</p>)}
+                        {r.warnings.map((message, i) => <p key={`w${i}`} className="font-bold text-amber-600">{message}</p>)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {shownRows.length === 0 && <p className="py-20 text-center text-slate-300 font-black uppercase tracking-widest italic text-2xl">표시할 행이 없습니다</p>}
+            </div>
+            <div className="p-8 border-t border-slate-100 flex justify-between items-center">
+              <button onClick={() => setStep('mapping')} className="px-8 py-4 bg-slate-100 text-slate-500 font-black rounded-xl hover:bg-slate-200 transition-all uppercase tracking-widest">열 매핑 수정</button>
+              <button onClick={handleCommit} disabled={validRows.length === 0} className="px-8 py-4 bg-emerald-600 text-white font-black rounded-xl shadow-lg hover:bg-emerald-700 transition-all uppercase tracking-widest disabled:opacity-40">
+                유효한 {validRows.length}건 등록
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImportModal;
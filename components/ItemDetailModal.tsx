@@ -1,81 +1,85 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import type { Item, Transaction } from '../types';
+import type { BomLine, Customer, Item, Location, ProductionRecord, Transaction, ValuationMethod } from '../types';
+import { findCustomerByName, searchCustomers } from '../utils/customers';
+import { itemsSheet, transactionsSheet } from '../utils/exportWorkbook';
+import { NO_LOT, UNASSIGNED_LOCATION, generateId, stockBalance, stockChange } from '../utils/inventory';
+import { UNASSIGNED_LABEL, locationLabel, sortLocations } from '../utils/locations';
+import { allocateFifo, lotBalances, lotBalancesAt } from '../utils/lots';
+import type { LotPick } from '../utils/lots';
+import { hasReorderSettings, parseReorderInput, reorderLine } from '../utils/reorder';
+import { inStockSerials, parseSerialRange, suggestNextSerial } from '../utils/serials';
+import { downloadXlsx } from '../utils/spreadsheet';
+import { REASON_CODES, TRANSACTION_TYPE_LABELS, reasonLabel, requiresReason, returnableReleases, returnedQuantity, transactionLabel } from '../utils/transactionTypes';
+import { formatAmount, valuateItem } from '../utils/valuation';
+import { warrantyStatus } from '../utils/warranty';
+import BomPanel from './BomPanel';
+import LabelPrintModal from './LabelPrintModal';
+import LotTraceModal from './LotTraceModal';
+import ProductionModal from './ProductionModal';
+import WarrantyBadge from './WarrantyBadge';
 import { CloseIcon, ArrowUpIcon, ArrowDownIcon, EditIcon, CheckIcon, BoxIcon, TrashIcon, DownloadIcon, PlusIcon, SyncIcon, SearchIcon } from './icons';
 
 interface ItemDetailModalProps {
   item: Item;
+  items: Item[];
   authRole: 'admin' | 'product_only';
   allUsedSerials: string[];
   existingCodes: string[];
-  onAddTransaction: (itemId: string, transaction: Omit<Transaction, 'id'>) => void;
+  locations: Location[];
+  customers: Customer[];
+  valuationMethod: ValuationMethod;
+  productions: ProductionRecord[];
+  onCreateProduction: (data: { productId: string; quantity: number; serialRange?: string; locationId?: string; date?: string; remarks?: string }) => void;
+  onAddTransactions: (itemId: string, transactions: Omit<Transaction, 'id'>[], newCustomer?: Customer) => void;
   onUpdateTransaction: (itemId: string, transactionId: string, updatedData: Partial<Transaction>) => void;
   onDeleteTransaction: (itemId: string, transactionId: string) => void;
   onUpdateItem: (itemId: string, updatedData: Partial<Item>) => void;
+  onVerifyPassword: (password: string) => Promise<boolean>;
   onClose: () => void;
 }
 
-const ADMIN_PASSWORD = '5200';
-const PRODUCT_ONLY_PASSWORD = '2611';
-
-const suggestNextSerial = (usedSerials: string[]): string => {
-  if (usedSerials.length === 0) return 'AJP00001';
-  const regex = /^([a-zA-Z]+)(\d+)$/;
-  let maxNum = 0;
-  let currentPrefix = 'AJP';
-  usedSerials.forEach(s => {
-    const match = s.toUpperCase().match(regex);
-    if (match) {
-      currentPrefix = match[1];
-      const num = parseInt(match[2], 10);
-      if (num > maxNum) maxNum = num;
-    }
-  });
-  const nextNum = maxNum + 1;
-  const padLength = Math.max(5, nextNum.toString().length);
-  return `${currentPrefix}${nextNum.toString().padStart(padLength, '0')}`;
-};
-
-const parseSerialRange = (input: string): string[] => {
-  const rangeMatch = input.match(/^(.+?)(\d+)\s*~\s*(.+?)?(\d+)$/);
-  if (!rangeMatch) return [input.trim()];
-  const prefix = rangeMatch[1];
-  const startNumStr = rangeMatch[2];
-  const endNumStr = rangeMatch[4];
-  const startNum = parseInt(startNumStr, 10);
-  const endNum = parseInt(endNumStr, 10);
-  if (isNaN(startNum) || isNaN(endNum) || startNum > endNum) return [input.trim()];
-  if (endNum - startNum >= 100) throw new Error('범위는 최대 100개까지 가능합니다.');
-  const results: string[] = [];
-  const padLength = startNumStr.length;
-  for (let i = startNum; i <= endNum; i++) {
-    const paddedNum = i.toString().padStart(padLength, '0');
-    results.push(`${prefix}${paddedNum}`);
-  }
-  return results;
-};
+const NO_LOT_LABEL = '(로트 없음)';
 
 const ItemDetailModal: React.FC<ItemDetailModalProps> = ({ 
-  item, authRole, allUsedSerials, existingCodes, onAddTransaction, onUpdateTransaction, onDeleteTransaction, onUpdateItem, onClose 
+  item, items, authRole, allUsedSerials, existingCodes, locations, customers, valuationMethod, productions, onCreateProduction, onAddTransactions, onUpdateTransaction, onDeleteTransaction, onUpdateItem, onVerifyPassword, onClose 
 }) => {
-  const [transactionType, setTransactionType] = useState<'purchase' | 'release'>('purchase');
+  const [transactionType, setTransactionType] = useState<Transaction['type']>('purchase');
+  const [reasonCode, setReasonCode] = useState('');
+  const [adjustmentDirection, setAdjustmentDirection] = useState<'increase' | 'decrease'>('increase');
+  const [returnReleaseId, setReturnReleaseId] = useState('');
+  const [locationId, setLocationId] = useState('');
+  const [toLocationId, setToLocationId] = useState('');
   const [quantity, setQuantity] = useState('');
+  const [unitCost, setUnitCost] = useState('');
   const [transRemarks, setTransRemarks] = useState('');
   const [transModelName, setTransModelName] = useState('');
   const [transUserId, setTransUserId] = useState('');
   const [serialNumber, setSerialNumber] = useState('');
+  const [selectedSerials, setSelectedSerials] = useState<string[]>([]);
+  const [scanInput, setScanInput] = useState('');
+  const [lotNumber, setLotNumber] = useState('');
+  const [lotMode, setLotMode] = useState<'fifo' | 'manual'>('fifo');
+  const [manualLots, setManualLots] = useState<Record<string, string>>({});
+  const [traceLot, setTraceLot] = useState<string | null>(null);
+  const [labelSerials, setLabelSerials] = useState<string[] | null>(null);
   const [customerName, setCustomerName] = useState('');
   const [address, setAddress] = useState('');
   const [phoneNumber, setPhoneNumber] = useState('');
+  const [customerId, setCustomerId] = useState('');
+  const [showCustomerSuggestions, setShowCustomerSuggestions] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [editingTransactionId, setEditingTransactionId] = useState<string | null>(null);
   const [transEditData, setTransEditData] = useState<Partial<Transaction>>({});
-  const [showPasswordInput, setShowPasswordInput] = useState<{ type: 'item' | 'trans_save' | 'trans_delete'; targetId?: string; } | null>(null);
+  const [showPasswordInput, setShowPasswordInput] = useState<{ type: 'item' | 'bom' | 'trans_save' | 'trans_delete'; targetId?: string; } | null>(null);
+  const [pendingBom, setPendingBom] = useState<BomLine[]>([]);
+  const [showProduction, setShowProduction] = useState(false);
   const [password, setPassword] = useState('');
   const [editFormData, setEditFormData] = useState<Partial<Item>>({});
   
   // History Search State
   const [historySearchTerm, setHistorySearchTerm] = useState('');
+  const [historyLocation, setHistoryLocation] = useState<string | null>(null);
 
   useEffect(() => {
     if (item.type === 'product' && !serialNumber) setSerialNumber(suggestNextSerial(allUsedSerials));
@@ -84,93 +88,271 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
   useEffect(() => {
     setEditFormData({
       name: item.name, code: item.code, modelName: item.modelName, application: item.application,
-      drawingNumber: item.drawingNumber, spec: item.spec || '', remarks: item.remarks, registrationDate: item.registrationDate
+      drawingNumber: item.drawingNumber, spec: item.spec || '', remarks: item.remarks, registrationDate: item.registrationDate,
+      minStock: item.minStock, reorderPoint: item.reorderPoint, reorderQuantity: item.reorderQuantity,
+      lotTracked: !!item.lotTracked, warrantyMonths: item.warrantyMonths
     });
   }, [item]);
 
-  // Handle Serial Range to Quantity conversion
-  useEffect(() => {
-    if (item.type === 'product' && serialNumber.includes('~')) {
-      try {
-        const range = parseSerialRange(serialNumber.toUpperCase());
-        if (range.length > 1) {
-          setQuantity(range.length.toString());
-        }
-      } catch (e) {
-        // Silent catch for invalid ranges
-      }
+  const balance = useMemo(() => stockBalance(item), [item]);
+  const currentStock = balance.total;
+  const activeLocations = useMemo(() => sortLocations(locations.filter(l => l.active)), [locations]);
+  const locationBreakdown = useMemo(() => Array.from(balance.byLocation.entries())
+    .filter(([, quantity]) => quantity !== 0)
+    .map(([id, quantity]) => ({ id, label: locationLabel(locations, id), quantity }))
+    .sort((a, b) => a.label.localeCompare(b.label)), [balance, locations]);
+  const lots = useMemo(() => lotBalances(item), [item]);
+  // Lots are shown for lot-tracked parts and for parts that received lots before tracking was switched off
+  const showLots = item.type === 'part' && (!!item.lotTracked || lots.some(l => l.lotNumber !== NO_LOT));
+  // Releases draw only on the lots held at the selected location
+  const releaseLots = useMemo(() => locationId ? lotBalancesAt(item, locationId) : lots, [item, locationId, lots]);
+  const openLots = useMemo(() => releaseLots.filter(l => l.remaining > 0), [releaseLots]);
+  const valuation = useMemo(() => valuateItem(item, valuationMethod), [item, valuationMethod]);
+  const reorder = useMemo(() => reorderLine(item, 0), [item]);
+  const movementCosts = useMemo(() => new Map(valuation.movements.map(m => [m.transaction.id, m.cost])), [valuation]);
+  // Product stock is kept per serial: receipts need serials not on hand anywhere, releases pick from this item's serials
+  const itemSerials = useMemo(() => item.type === 'product' ? inStockSerials(item) : [], [item]);
+  const serialsOnHand = useMemo(() => new Set(items.flatMap(i => i.type === 'product' ? inStockSerials(i) : [])), [items]);
+  const unserializedStock = currentStock - itemSerials.length;
+  const isSerialDuplicate = useMemo(() => (!serialNumber.trim() || serialNumber.includes('~')) ? false : serialsOnHand.has(serialNumber.toUpperCase()), [serialNumber, serialsOnHand]);
+  // Adjustments count as a receipt or a release depending on their direction
+  const isOutbound = transactionType === 'release' || transactionType === 'scrap' || (transactionType === 'adjustment' && adjustmentDirection === 'decrease');
+  const isInbound = transactionType === 'purchase' || (transactionType === 'adjustment' && adjustmentDirection === 'increase');
+  const withCustomer = transactionType === 'purchase' || transactionType === 'release';
+  // Releases are linked to a registered customer; the name field suggests matches while typing
+  const customerSuggestions = useMemo(
+    () => transactionType === 'release' && customerName.trim() && !customerId ? searchCustomers(customers, customerName).slice(0, 8) : [],
+    [transactionType, customerName, customerId, customers]
+  );
+  const returnable = useMemo(() => returnableReleases(item), [item]);
+  const warranties = useMemo(() => new Map(item.transactions.map(t => [t.id, warrantyStatus(item, t)])), [item]);
+  const returnRelease = returnable.find(r => r.release.id === returnReleaseId);
+  // Serials fix the quantity: one unit each
+  const serialQuantity = useMemo(() => {
+    if (item.type !== 'product') return null;
+    if (transactionType === 'return') return returnRelease?.release.serialNumber ? 1 : null;
+    if (isOutbound) return selectedSerials.length > 0 ? selectedSerials.length : null;
+    if (!serialNumber.trim()) return null;
+    try {
+      return parseSerialRange(serialNumber.trim().toUpperCase()).length;
+    } catch (e) {
+      return null;
     }
-  }, [serialNumber, item.type]);
-
-  const currentStock = useMemo(() => item.transactions.reduce((acc, t) => t.type === 'purchase' ? acc + t.quantity : acc - t.quantity, 0), [item.transactions]);
-  const isSerialDuplicate = useMemo(() => (!serialNumber.trim() || serialNumber.includes('~')) ? false : allUsedSerials.includes(serialNumber.toUpperCase()), [serialNumber, allUsedSerials]);
+  }, [item.type, transactionType, isOutbound, returnRelease, selectedSerials, serialNumber]);
   const isCodeDuplicate = useMemo(() => (!editFormData.code || editFormData.code === item.code) ? false : existingCodes.some(c => c.toUpperCase() === editFormData.code?.toUpperCase()), [editFormData.code, existingCodes, item.code]);
 
   // Filtered History
   const filteredHistory = useMemo(() => {
     const term = historySearchTerm.toLowerCase().trim();
-    if (!term) return [...item.transactions].reverse();
-    return [...item.transactions].reverse().filter(t => 
+    const atLocation = historyLocation === null
+      ? item.transactions
+      : item.transactions.filter(t => (t.locationId || UNASSIGNED_LOCATION) === historyLocation || (t.type === 'transfer' && (t.toLocationId || UNASSIGNED_LOCATION) === historyLocation));
+    if (!term) return [...atLocation].reverse();
+    return [...atLocation].reverse().filter(t => 
       t.serialNumber?.toLowerCase().includes(term) || 
+      t.lotNumber?.toLowerCase().includes(term) ||
       t.customerName?.toLowerCase().includes(term) ||
       t.remarks?.toLowerCase().includes(term)
     );
-  }, [item.transactions, historySearchTerm]);
+  }, [item.transactions, historySearchTerm, historyLocation]);
+
+  const describeLocation = (t: Transaction) => t.type === 'transfer'
+    ? `${locationLabel(locations, t.locationId)} → ${locationLabel(locations, t.toLocationId)}`
+    : locationLabel(locations, t.locationId);
+
+  // Transfers move a plain quantity between locations; serials and customer details stay with receipts and releases
+  const handleAddTransfer = () => {
+    const count = parseInt(quantity, 10) || 0;
+    if (count <= 0) { alert('수량을 확인하세요.'); return; }
+    if (!toLocationId) { alert('도착 로케이션을 선택하세요.'); return; }
+    if (locationId === toLocationId) { alert('출발지와 도착지가 같습니다.'); return; }
+    const available = balance.byLocation.get(locationId) || 0;
+    if (count > available) { alert(`${locationLabel(locations, locationId)} 재고 부족! (현재 ${available})`); return; }
+    onAddTransactions(item.id, [{
+      type: 'transfer', quantity: count, date: new Date().toISOString(), remarks: transRemarks,
+      locationId: locationId || undefined, toLocationId,
+    }]);
+    setQuantity('');
+    setTransRemarks('');
+  };
+
+  // Release picks: the oldest lots first, or exactly the quantities entered per lot
+  const releaseLotPicks = (count: number): LotPick[] | null => {
+    if (lotMode === 'manual') {
+      const picks = openLots
+        .map(l => ({ lotNumber: l.lotNumber, quantity: parseInt(manualLots[l.lotNumber] || '0', 10) || 0 }))
+        .filter(p => p.quantity > 0);
+      const over = picks.find(p => p.quantity > (openLots.find(l => l.lotNumber === p.lotNumber)?.remaining || 0));
+      if (over) { alert(`로트 ${over.lotNumber || NO_LOT_LABEL} 잔량 부족!`); return null; }
+      const total = picks.reduce((sum, p) => sum + p.quantity, 0);
+      if (total !== count) { alert(`로트별 수량 합계(${total})가 출고 수량(${count})과 다릅니다.`); return null; }
+      return picks;
+    }
+    const { picks, shortfall } = allocateFifo(releaseLots, count);
+    if (shortfall > 0) {
+      if (item.lotTracked) { alert(locationId ? `${locationLabel(locations, locationId)} 로트 재고 부족!` : '로트 재고 부족!'); return null; }
+      picks.push({ lotNumber: NO_LOT, quantity: shortfall });
+    }
+    return picks;
+  };
+
+  // Scanned or typed serials (a range works too) are added to the release selection when this item holds them
+  const handleScanSerial = () => {
+    const value = scanInput.trim().toUpperCase();
+    if (!value) return;
+    let scanned: string[];
+    try {
+      scanned = parseSerialRange(value);
+    } catch (err: any) {
+      alert(err.message);
+      return;
+    }
+    const missing = scanned.filter(s => !itemSerials.includes(s));
+    if (missing.length > 0) { alert(`재고에 없는 일련번호: ${missing.slice(0, 5).join(', ')}`); return; }
+    setSelectedSerials(prev => Array.from(new Set([...prev, ...scanned])));
+    setScanInput('');
+  };
+
+  const toggleSerial = (serial: string) =>
+    setSelectedSerials(prev => prev.includes(serial) ? prev.filter(s => s !== serial) : [...prev, serial]);
+
+  const selectCustomer = (customer: Customer) => {
+    setCustomerId(customer.id);
+    setCustomerName(customer.name);
+    setPhoneNumber(customer.phoneNumber);
+    setAddress(customer.address);
+    setShowCustomerSuggestions(false);
+  };
+
+  // The customer a product release goes to: the one picked from the suggestions, a registered customer with the
+  // same name (after confirmation), or a new customer registered together with the release. null cancels.
+  const resolveReleaseCustomer = (): { customer?: Customer; isNew: boolean } | null => {
+    if (transactionType !== 'release' || item.type !== 'product' || !customerName.trim()) return { isNew: false };
+    const picked = customers.find(c => c.id === customerId);
+    if (picked) return { customer: picked, isNew: false };
+    const sameName = findCustomerByName(customers, customerName);
+    if (sameName && confirm(`등록된 고객 "${sameName.name}"${sameName.phoneNumber ? ` (${sameName.phoneNumber})` : ''}에게 출고합니까?\n취소를 누르면 새 고객으로 등록합니다.`)) {
+      return { customer: sameName, isNew: false };
+    }
+    return { customer: { id: generateId('cust'), name: customerName.trim(), phoneNumber: phoneNumber.trim(), address: address.trim(), remarks: '' }, isNew: true };
+  };
+
+  const selectTransactionType = (type: Transaction['type']) => {
+    setTransactionType(type);
+    setReasonCode('');
+    setReturnReleaseId('');
+  };
+
+  // A return takes units of one release back in; its serial, lot and customer come from that release
+  const handleAddReturn = () => {
+    if (!returnRelease) { alert('반품할 출고 건을 선택하세요.'); return; }
+    const { release, remaining } = returnRelease;
+    const count = release.serialNumber ? 1 : (parseInt(quantity, 10) || 0);
+    if (count <= 0) { alert('수량을 확인하세요.'); return; }
+    if (count > remaining) { alert(`반품 가능 수량은 ${remaining}개입니다.`); return; }
+    onAddTransactions(item.id, [{
+      type: 'return', quantity: count, date: new Date().toISOString(), reasonCode, returnOfTransactionId: release.id,
+      locationId: locationId || undefined, lotNumber: release.lotNumber, serialNumber: release.serialNumber || '',
+      customerId: release.customerId, customerName: release.customerName, address: release.address, phoneNumber: release.phoneNumber,
+      modelName: release.modelName, userId: release.userId, remarks: transRemarks,
+    }]);
+    setQuantity('');
+    setTransRemarks('');
+    setReturnReleaseId('');
+  };
 
   const handleAddTransaction = (e: React.FormEvent) => {
     e.preventDefault();
-    let targetSerials: string[] = [serialNumber.toUpperCase().trim()];
-    let isRange = false;
-    if (item.type === 'product' && serialNumber.includes('~')) {
+    if (transactionType === 'transfer') { handleAddTransfer(); return; }
+    if (requiresReason(transactionType) && !reasonCode) { alert('사유를 선택하세요.'); return; }
+    if (transactionType === 'return') { handleAddReturn(); return; }
+    let targetSerials: string[] = [];
+    if (item.type === 'product' && isOutbound) {
+      targetSerials = selectedSerials;
+      const missing = targetSerials.filter(s => !itemSerials.includes(s));
+      if (missing.length > 0) { alert(`재고에 없는 일련번호: ${missing.slice(0, 5).join(', ')}`); return; }
+    } else if (item.type === 'product' && serialNumber.trim()) {
       try { 
-        targetSerials = parseSerialRange(serialNumber.toUpperCase()); 
-        isRange = true; 
+        targetSerials = parseSerialRange(serialNumber.trim().toUpperCase()); 
       } catch (err: any) { 
         alert(err.message); 
         return; 
       }
+      const onHand = targetSerials.filter(s => serialsOnHand.has(s));
+      if (onHand.length > 0) { alert(`이미 재고에 있는 일련번호: ${onHand.slice(0, 5).join(', ')}`); return; }
     }
     
-    const duplicates = targetSerials.filter(s => !!s && allUsedSerials.includes(s));
-    if (duplicates.length > 0) { alert(`중복 번호 존재: ${duplicates.slice(0, 5).join(', ')}...`); return; }
-    
-    const count = isRange ? targetSerials.length : (parseInt(quantity, 10) || 0);
+    const count = targetSerials.length > 0 ? targetSerials.length : (parseInt(quantity, 10) || 0);
     if (count <= 0) { alert('수량을 확인하세요.'); return; }
-    if (transactionType === 'release' && count > currentStock) { alert('재고 부족!'); return; }
+    if (isOutbound && count > currentStock) { alert('재고 부족!'); return; }
+    if (item.type === 'product' && isOutbound && targetSerials.length === 0 && count > unserializedStock) {
+      alert(`일련번호 없이 출고할 수 있는 재고는 ${Math.max(0, unserializedStock)}개입니다. 출고할 일련번호를 선택하세요.`);
+      return;
+    }
+    if (isOutbound && locationId && count > (balance.byLocation.get(locationId) || 0)) {
+      alert(`${locationLabel(locations, locationId)} 재고 부족! (현재 ${balance.byLocation.get(locationId) || 0})`);
+      return;
+    }
+    const location = locationId || undefined;
+    const cost = transactionType === 'purchase' && unitCost.trim() ? parseFloat(unitCost) : undefined;
+    if (cost !== undefined && (isNaN(cost) || cost < 0)) { alert('단가를 확인하세요.'); return; }
+    const receiptLot = item.type === 'part' && isInbound ? lotNumber.trim().toUpperCase() : '';
+    if (item.lotTracked && isInbound && !receiptLot) { alert('로트번호를 입력하세요.'); return; }
+    const reason = requiresReason(transactionType) ? { reasonCode } : {};
+    const direction = transactionType === 'adjustment' ? { adjustmentDirection } : {};
+    const releaseCustomer = resolveReleaseCustomer();
+    if (!releaseCustomer) return;
+    const { customer: linkedCustomer, isNew } = releaseCustomer;
+    const newCustomer = isNew ? linkedCustomer : undefined;
+    const customerFields = withCustomer
+      ? { customerId: linkedCustomer?.id, customerName: linkedCustomer?.name ?? customerName, address: address || linkedCustomer?.address || '', phoneNumber: phoneNumber || linkedCustomer?.phoneNumber || '' }
+      : { customerName: '', address: '', phoneNumber: '' };
     
-    if (isRange) {
-      targetSerials.forEach(s => onAddTransaction(item.id, { 
-        type: transactionType, quantity: 1, date: new Date().toISOString(), 
+    if (showLots && isOutbound) {
+      const picks = releaseLotPicks(count);
+      if (!picks) return;
+      onAddTransactions(item.id, picks.map(p => ({
+        type: transactionType, quantity: p.quantity, date: new Date().toISOString(), locationId: location, ...reason, ...direction,
+        lotNumber: p.lotNumber || undefined, remarks: transRemarks, modelName: transModelName, userId: transUserId, serialNumber: '',
+      })));
+      setManualLots({});
+    } else if (targetSerials.length > 0) {
+      onAddTransactions(item.id, targetSerials.map(s => ({ 
+        type: transactionType, quantity: 1, date: new Date().toISOString(), unitCost: cost, locationId: location, ...reason, ...direction,
         remarks: transRemarks, modelName: transModelName, userId: transUserId, 
-        serialNumber: s, customerName, address, phoneNumber 
-      }));
-      alert(`${targetSerials.length}건이 일련번호 기반으로 개별 등록되었습니다.`);
+        serialNumber: s, ...customerFields
+      })), newCustomer);
+      if (targetSerials.length > 1) alert(`${targetSerials.length}건이 일련번호 기반으로 개별 등록되었습니다.`);
+      if (isInbound && confirm('등록한 일련번호 라벨을 인쇄하시겠습니까?')) setLabelSerials(targetSerials);
     } else {
-      onAddTransaction(item.id, { 
-        type: transactionType, quantity: count, date: new Date().toISOString(), 
-        remarks: transRemarks, modelName: transModelName, userId: transUserId, 
-        serialNumber: item.type === 'product' ? serialNumber.toUpperCase() : '', 
-        customerName: item.type === 'product' ? customerName : '', 
-        address: item.type === 'product' ? address : '', 
-        phoneNumber: item.type === 'product' ? phoneNumber : '' 
-      });
+      onAddTransactions(item.id, [{ 
+        type: transactionType, quantity: count, date: new Date().toISOString(), unitCost: cost, locationId: location, ...reason, ...direction,
+        lotNumber: receiptLot || undefined, remarks: transRemarks, modelName: transModelName, userId: transUserId, 
+        serialNumber: '', 
+        ...(item.type === 'product' ? customerFields : { customerName: '', address: '', phoneNumber: '' })
+      }], newCustomer);
     }
     
     setQuantity(''); 
+    setUnitCost('');
+    setLotNumber('');
     setTransRemarks(''); 
     setTransModelName(''); 
     setTransUserId(''); 
     setSerialNumber(suggestNextSerial([...allUsedSerials, ...targetSerials])); 
+    setSelectedSerials([]);
+    setScanInput('');
     setCustomerName(''); 
     setAddress(''); 
     setPhoneNumber('');
+    setCustomerId('');
   };
   
-  const handleActionConfirm = () => {
-    const requiredPass = authRole === 'admin' ? '5200' : '2611'; // Re-using passwords from App context
-    if (password !== requiredPass) { alert('비밀번호 오류.'); return; }
+  const handleActionConfirm = async () => {
+    if (!(await onVerifyPassword(password))) { alert('비밀번호 오류.'); return; }
     const currentAction = showPasswordInput; setPassword(''); setShowPasswordInput(null);
     if (currentAction?.type === 'item') onUpdateItem(item.id, editFormData), setIsEditing(false);
+    else if (currentAction?.type === 'bom') onUpdateItem(item.id, { bom: pendingBom });
     else if (currentAction?.type === 'trans_save' && currentAction.targetId) onUpdateTransaction(item.id, currentAction.targetId, transEditData), setEditingTransactionId(null);
     else if (currentAction?.type === 'trans_delete' && currentAction.targetId) onDeleteTransaction(item.id, currentAction.targetId);
   };
@@ -183,10 +365,13 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
     } else setIsEditing(true);
   };
 
-  const handleTransEditChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleTransEditChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
-    const processedValue = (name === 'quantity') ? (parseInt(value, 10) || 0) : (['code', 'name', 'serialNumber'].includes(name) ? value.toUpperCase() : value);
-    setTransEditData(prev => ({ ...prev, [name]: processedValue }));
+    const processedValue = (name === 'quantity') ? (parseInt(value, 10) || 0)
+      : (name === 'unitCost') ? (value === '' ? undefined : Math.max(0, parseFloat(value) || 0))
+      : (['code', 'name', 'serialNumber', 'lotNumber'].includes(name) ? value.toUpperCase() : value);
+    // Renaming the customer of a linked entry unlinks it from the registered customer
+    setTransEditData(prev => ({ ...prev, [name]: processedValue, ...(name === 'customerName' && prev.customerId && { customerId: '' }) }));
   };
 
   const handleEditTransaction = (t: Transaction) => {
@@ -194,6 +379,11 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
     setTransEditData(t);
   };
 
+  const handleSaveBom = (bom: BomLine[]) => {
+    setPendingBom(bom);
+    setShowPasswordInput({ type: 'bom' });
+  };
+
   const handleSaveTransEdit = (id: string) => {
     setShowPasswordInput({ type: 'trans_save', targetId: id });
   };
@@ -202,32 +392,48 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
     setShowPasswordInput({ type: 'trans_delete', targetId: id });
   };
 
-  const exportHistoryToExcel = () => {
+  const exportHistoryToExcel = async () => {
     if (item.transactions.length === 0) { alert('내역 없음.'); return; }
-    let csvContent = "\ufeff";
-    const headers = item.type === 'part' ? ['날짜', '시간', '구분', '수량', '기종', '비고'] : ['날짜', '시간', '구분', '수량', '아이디', '일련번호', '고객명', '연락처', '주소', '비고'];
-    csvContent += headers.join(',') + '\r\n';
-    filteredHistory.forEach(t => {
-      const d = new Date(t.date);
-      const row = [d.toLocaleDateString(), d.toLocaleTimeString(), t.type === 'purchase' ? '입고' : '출고', t.quantity];
-      if (item.type === 'part') row.push(t.modelName || '', t.remarks || '');
-      else row.push(t.userId || '', t.serialNumber || '', t.customerName || '', t.phoneNumber || '', t.address || '', t.remarks || '');
-      csvContent += row.map(v => `"${String(v).replace(/"/g, '""')}"`).join(',') + '\r\n';
-    });
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(blob);
-    link.download = `${item.name}_내역_${new Date().toISOString().split('T')[0]}.csv`;
-    link.click();
+    try {
+      await downloadXlsx(`${item.name}_내역_${new Date().toISOString().split('T')[0]}.xlsx`, [
+        itemsSheet([item], items, locations, new Map([[item.id, valuation.value]])),
+        transactionsSheet(filteredHistory.map(transaction => ({ item, transaction })), locations, movementCosts),
+      ]);
+    } catch (err: any) {
+      alert(`엑셀 파일을 만들지 못했습니다: ${err.message}`);
+    }
   };
 
   return (
     <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4">
       <div className="bg-white rounded-[3rem] shadow-2xl w-full max-w-[90vw] flex flex-col h-full max-h-[95vh] overflow-hidden animate-fade-in-up">
+        {showProduction && (
+          <ProductionModal
+            product={item}
+            items={items}
+            productions={productions}
+            allUsedSerials={allUsedSerials}
+            locations={activeLocations}
+            onProduce={onCreateProduction}
+            onClose={() => setShowProduction(false)}
+          />
+        )}
+        {traceLot !== null && (
+          <LotTraceModal item={item} lotNumber={traceLot} items={items} productions={productions} onClose={() => setTraceLot(null)} />
+        )}
+        {labelSerials !== null && (
+          <LabelPrintModal
+            items={[item]}
+            product={item.type === 'product' ? item : undefined}
+            initialSerials={labelSerials.length > 0 ? labelSerials : undefined}
+            onClose={() => setLabelSerials(null)}
+          />
+        )}
         {showPasswordInput && (
             <div className="fixed inset-0 bg-slate-900/40 backdrop-blur-md z-[60] flex items-center justify-center p-4">
                 <div className="bg-white rounded-[2.5rem] p-12 max-w-md w-full shadow-2xl border border-slate-100 animate-fade-in-up">
-                    <h4 className="text-2xl font-black text-slate-800 mb-4 tracking-tight uppercase">권한 인증</h4>
+                    <h4 className="text-2xl font-black text-slate-800 mb-1 tracking-tight uppercase">권한 인증</h4>
+                    <p className="text-xs text-slate-400 font-bold mb-4 uppercase tracking-widest">본인 계정 비밀번호를 입력하세요</p>
                     <input type="password" autoFocus value={password} onChange={(e) => setPassword(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleActionConfirm()} placeholder="PASSWORD" className="w-full px-6 py-5 border-2 border-slate-100 rounded-2xl focus:border-indigo-500 outline-none mb-6 text-center text-3xl font-black tracking-widest" />
                     <div className="grid grid-cols-2 gap-4">
                         <button onClick={() => { setShowPasswordInput(null); setPassword(''); }} className="py-4 bg-slate-100 text-slate-600 rounded-xl font-black uppercase text-sm tracking-widest">취소</button>
@@ -244,6 +450,7 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
                 <span>{isEditing ? '정보 저장' : '수정 모드'}</span>
               </button>
               {isEditing && <button onClick={() => setIsEditing(false)} className="px-6 py-3 bg-slate-100 text-slate-600 rounded-2xl text-base font-black uppercase">취소</button>}
+              {!isEditing && <button onClick={() => setLabelSerials([])} className="px-6 py-3 bg-white text-slate-500 border-2 border-slate-100 rounded-2xl text-base font-black uppercase">라벨 인쇄</button>}
               <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors ml-4"><CloseIcon className="w-10 h-10" /></button>
           </div>
         </div>
@@ -262,8 +469,24 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
                         <input name="drawingNumber" value={editFormData.drawingNumber || ''} onChange={(e) => setEditFormData({...editFormData, drawingNumber: e.target.value})} className="w-full px-4 py-3 border-2 border-indigo-100 rounded-xl text-lg font-mono font-bold" /></div>
                         <div><label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">규격</label>
                         <input name="spec" value={editFormData.spec || ''} onChange={(e) => setEditFormData({...editFormData, spec: e.target.value})} className="w-full px-4 py-3 border-2 border-indigo-100 rounded-xl text-lg font-bold" /></div>
+                        <label className="flex items-center gap-3 px-4 py-3 bg-white border-2 border-indigo-100 rounded-xl cursor-pointer">
+                          <input type="checkbox" checked={!!editFormData.lotTracked} onChange={(e) => setEditFormData({...editFormData, lotTracked: e.target.checked})} className="w-5 h-5" />
+                          <span className="text-sm font-black text-slate-600">로트 관리 (입고 시 로트번호 필수)</span>
+                        </label>
                       </>
                     )}
+                    {item.type === 'product' && (
+                      <div><label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">보증 기간 (개월)</label>
+                      <input type="number" min="0" value={editFormData.warrantyMonths ?? ''} onChange={(e) => setEditFormData({...editFormData, warrantyMonths: parseReorderInput(e.target.value)})} placeholder="보증 없음" className="w-full px-4 py-3 border-2 border-indigo-100 rounded-xl text-lg font-black" /></div>
+                    )}
+                    <div className="grid grid-cols-3 gap-3">
+                      <div><label className="block text-xs uppercase font-black text-slate-400 mb-2 tracking-widest">안전 재고</label>
+                      <input type="number" min="0" value={editFormData.minStock ?? ''} onChange={(e) => setEditFormData({...editFormData, minStock: parseReorderInput(e.target.value)})} placeholder="-" className="w-full px-3 py-3 border-2 border-indigo-100 rounded-xl text-lg font-black" /></div>
+                      <div><label className="block text-xs uppercase font-black text-slate-400 mb-2 tracking-widest">재주문점</label>
+                      <input type="number" min="0" value={editFormData.reorderPoint ?? ''} onChange={(e) => setEditFormData({...editFormData, reorderPoint: parseReorderInput(e.target.value)})} placeholder="-" className="w-full px-3 py-3 border-2 border-indigo-100 rounded-xl text-lg font-black" /></div>
+                      <div><label className="block text-xs uppercase font-black text-slate-400 mb-2 tracking-widest">발주 단위</label>
+                      <input type="number" min="0" value={editFormData.reorderQuantity ?? ''} onChange={(e) => setEditFormData({...editFormData, reorderQuantity: parseReorderInput(e.target.value)})} placeholder="-" className="w-full px-3 py-3 border-2 border-indigo-100 rounded-xl text-lg font-black" /></div>
+                    </div>
                     <div><label className="block text-sm uppercase font-black text-slate-400 mb-2 tracking-widest">비고</label>
                     <textarea name="remarks" value={editFormData.remarks || ''} onChange={(e) => setEditFormData({...editFormData, remarks: e.target.value})} rows={3} className="w-full px-4 py-3 border-2 border-indigo-100 rounded-xl text-lg font-bold" /></div>
                 </div>
@@ -277,8 +500,15 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
                       <>
                         <div className="flex justify-between border-b-2 border-slate-100 pb-3"><span className="text-slate-400 font-black uppercase text-xs">Drawing</span><span className="font-mono font-bold text-slate-500">{item.drawingNumber || '-'}</span></div>
                         <div className="flex justify-between border-b-2 border-slate-100 pb-3"><span className="text-slate-400 font-black uppercase text-xs">Spec</span><span className="font-bold text-slate-500">{item.spec || '-'}</span></div>
+                        <div className="flex justify-between border-b-2 border-slate-100 pb-3"><span className="text-slate-400 font-black uppercase text-xs">Lot</span><span className={`font-bold ${item.lotTracked ? 'text-indigo-600' : 'text-slate-500'}`}>{item.lotTracked ? '로트 관리' : '미관리'}</span></div>
                       </>
                     )}
+                    {item.type === 'product' && (
+                      <div className="flex justify-between border-b-2 border-slate-100 pb-3"><span className="text-slate-400 font-black uppercase text-xs">Warranty</span><span className={`font-bold ${item.warrantyMonths ? 'text-indigo-600' : 'text-slate-500'}`}>{item.warrantyMonths ? `${item.warrantyMonths}개월` : '보증 없음'}</span></div>
+                    )}
+                    {(hasReorderSettings(item) || item.reorderQuantity !== undefined) && (
+                      <div className="flex justify-between border-b-2 border-slate-100 pb-3"><span className="text-slate-400 font-black uppercase text-xs">Min / ROP / ROQ</span><span className="font-bold text-slate-500">{item.minStock ?? '-'} / {item.reorderPoint ?? '-'} / {item.reorderQuantity ?? '-'}</span></div>
+                    )}
                     <div className="flex justify-between pb-3"><span className="text-slate-400 font-black uppercase text-xs">Reg Date</span><span className="font-bold text-slate-500">{item.registrationDate}</span></div>
                     {item.remarks && (<div className="mt-6 p-5 bg-white rounded-2xl border border-slate-100 text-slate-600 font-bold leading-relaxed italic text-base">"{item.remarks}"</div>)}
                   </div>
@@ -287,19 +517,130 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
               <div className="mt-10 pt-8 border-t-2 border-slate-200">
                 <p className="text-xs font-black text-slate-400 uppercase tracking-[0.2em] mb-3">Total Stock</p>
                 <p className="text-7xl font-black text-slate-900 leading-none">{currentStock.toLocaleString()} <span className="text-2xl text-slate-300 font-black uppercase">EA</span></p>
+                {reorder && (
+                  <p className={`inline-block mt-4 px-4 py-1.5 rounded-full text-xs font-black uppercase tracking-widest ${reorder.belowMinimum ? 'bg-rose-100 text-rose-600' : 'bg-amber-100 text-amber-700'}`}>
+                    {reorder.belowMinimum ? '안전 재고 미만' : '재주문점 도달'}
+                  </p>
+                )}
+                {locations.length > 0 && locationBreakdown.length > 0 && (
+                  <div className="mt-6 space-y-2">
+                    <p className="text-xs font-black text-slate-400 uppercase tracking-[0.2em]">By Location</p>
+                    {locationBreakdown.map(l => (
+                      <button key={l.id} onClick={() => setHistoryLocation(historyLocation === l.id ? null : l.id)} className={`w-full flex justify-between px-4 py-2 rounded-xl text-sm font-black transition-all ${historyLocation === l.id ? 'bg-indigo-600 text-white' : 'bg-white text-slate-600 hover:bg-indigo-50'}`}>
+                        <span>{l.label}</span><span>{l.quantity.toLocaleString()}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {item.type === 'product' && itemSerials.length > 0 && (
+                  <div className="mt-6">
+                    <p className="text-xs font-black text-slate-400 uppercase tracking-[0.2em] mb-2">In-Stock Serials ({itemSerials.length})</p>
+                    <div className="max-h-48 overflow-y-auto flex flex-wrap gap-1.5">
+                      {itemSerials.map(s => (
+                        <button key={s} onClick={() => { setTransactionType('release'); toggleSerial(s); }} title="출고 선택" className={`px-2.5 py-1 rounded-lg font-mono text-xs font-black transition-all ${selectedSerials.includes(s) ? 'bg-rose-600 text-white' : 'bg-white text-indigo-600 hover:bg-indigo-50'}`}>{s}</button>
+                      ))}
+                    </div>
+                    {unserializedStock > 0 && <p className="mt-2 text-xs font-bold text-slate-400">일련번호 없는 재고 {unserializedStock.toLocaleString()}개</p>}
+                  </div>
+                )}
+                {showLots && lots.length > 0 && (
+                  <div className="mt-6 space-y-2">
+                    <p className="text-xs font-black text-slate-400 uppercase tracking-[0.2em]">By Lot (FIFO)</p>
+                    {lots.map(l => (
+                      <button key={l.lotNumber} onClick={() => setTraceLot(l.lotNumber)} title="로트 추적" className={`w-full flex justify-between px-4 py-2 rounded-xl text-sm font-black bg-white hover:bg-indigo-50 transition-all ${l.remaining > 0 ? 'text-slate-600' : 'text-slate-300'}`}>
+                        <span className="font-mono">{l.lotNumber || NO_LOT_LABEL}</span>
+                        <span>{l.remaining.toLocaleString()} <span className="text-[10px] text-slate-300">/ {l.received.toLocaleString()}</span></span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <p className="text-xs font-black text-slate-400 uppercase tracking-[0.2em] mt-6 mb-1">Stock Value</p>
+                <p className="text-2xl font-black text-slate-700">{formatAmount(valuation.value)} <span className="text-xs text-slate-400 font-bold">@ {formatAmount(valuation.unitCost)}</span></p>
               </div>
             </div>
             {!isEditing && (
               <div className="bg-white p-8 rounded-[2rem] border border-slate-100 shadow-xl space-y-6">
                   <h3 className="text-base font-black text-slate-800 uppercase tracking-widest flex items-center gap-2"><PlusIcon className="w-5 h-5"/> 신규 입출고 기록</h3>
                   <form onSubmit={handleAddTransaction} className="space-y-5">
-                      <div className="flex p-1.5 bg-slate-100 rounded-2xl">
-                          <button type="button" onClick={() => setTransactionType('purchase')} className={`flex-1 py-3 text-sm font-black rounded-xl transition-all ${transactionType === 'purchase' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>입고</button>
-                          <button type="button" onClick={() => setTransactionType('release')} className={`flex-1 py-3 text-sm font-black rounded-xl transition-all ${transactionType === 'release' ? 'bg-white text-rose-600 shadow-sm' : 'text-slate-400'}`}>출고</button>
+                      <div className="space-y-2">
+                        <div className="flex p-1.5 bg-slate-100 rounded-2xl">
+                            <button type="button" onClick={() => selectTransactionType('purchase')} className={`flex-1 py-3 text-sm font-black rounded-xl transition-all ${transactionType === 'purchase' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>입고</button>
+                            <button type="button" onClick={() => selectTransactionType('release')} className={`flex-1 py-3 text-sm font-black rounded-xl transition-all ${transactionType === 'release' ? 'bg-white text-rose-600 shadow-sm' : 'text-slate-400'}`}>출고</button>
+                            {locations.length > 0 && (
+                              <button type="button" onClick={() => selectTransactionType('transfer')} className={`flex-1 py-3 text-sm font-black rounded-xl transition-all ${transactionType === 'transfer' ? 'bg-white text-amber-600 shadow-sm' : 'text-slate-400'}`}>이동</button>
+                            )}
+                        </div>
+                        <div className="flex p-1 bg-slate-100 rounded-2xl">
+                            {(['return', 'adjustment', 'scrap'] as const).map(type => (
+                              <button key={type} type="button" onClick={() => selectTransactionType(type)} className={`flex-1 py-2 text-xs font-black rounded-xl transition-all ${transactionType === type ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-400'}`}>{TRANSACTION_TYPE_LABELS[type]}</button>
+                            ))}
+                        </div>
                       </div>
                       <div className="space-y-4">
-                        {item.type === 'product' ? (
+                        {locations.length > 0 && (
+                          <div className={transactionType === 'transfer' ? 'grid grid-cols-2 gap-4' : ''}>
+                            <select value={locationId} onChange={(e) => setLocationId(e.target.value)} className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400 bg-white">
+                              <option value="">{transactionType === 'transfer' ? '출발' : isOutbound ? '출고' : '입고'}: {UNASSIGNED_LABEL}</option>
+                              {activeLocations.map(l => <option key={l.id} value={l.id}>{l.code} · {l.name} ({(balance.byLocation.get(l.id) || 0).toLocaleString()})</option>)}
+                            </select>
+                            {transactionType === 'transfer' && (
+                              <select value={toLocationId} onChange={(e) => setToLocationId(e.target.value)} className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400 bg-white">
+                                <option value="">도착 로케이션 *</option>
+                                {activeLocations.filter(l => l.id !== locationId).map(l => <option key={l.id} value={l.id}>{l.code} · {l.name}</option>)}
+                              </select>
+                            )}
+                          </div>
+                        )}
+                        {transactionType === 'adjustment' && (
+                          <div className="flex p-1 bg-slate-100 rounded-xl">
+                            <button type="button" onClick={() => setAdjustmentDirection('increase')} className={`flex-1 py-2 text-xs font-black rounded-lg transition-all ${adjustmentDirection === 'increase' ? 'bg-white text-emerald-600 shadow-sm' : 'text-slate-400'}`}>증가 (+)</button>
+                            <button type="button" onClick={() => setAdjustmentDirection('decrease')} className={`flex-1 py-2 text-xs font-black rounded-lg transition-all ${adjustmentDirection === 'decrease' ? 'bg-white text-rose-600 shadow-sm' : 'text-slate-400'}`}>감소 (-)</button>
+                          </div>
+                        )}
+                        {requiresReason(transactionType) && (
+                          <select value={reasonCode} onChange={(e) => setReasonCode(e.target.value)} required className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400 bg-white">
+                            <option value="">{TRANSACTION_TYPE_LABELS[transactionType]} 사유 *</option>
+                            {REASON_CODES[transactionType].map(r => <option key={r.code} value={r.code}>{r.label}</option>)}
+                          </select>
+                        )}
+                        {transactionType === 'return' ? (
+                          returnable.length === 0 ? (
+                            <p className="text-sm font-bold text-slate-400">반품할 수 있는 출고 내역이 없습니다</p>
+                          ) : (
+                            <>
+                              <select value={returnReleaseId} onChange={(e) => setReturnReleaseId(e.target.value)} required className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400 bg-white">
+                                <option value="">원 출고 건 선택 *</option>
+                                {returnable.map(({ release, remaining }) => (
+                                  <option key={release.id} value={release.id}>
+                                    {new Date(release.date).toLocaleDateString()} · {release.serialNumber || `${release.quantity.toLocaleString()}개`}{release.lotNumber ? ` · ${release.lotNumber}` : ''}{release.customerName ? ` · ${release.customerName}` : ''} (반품 가능 {remaining})
+                                  </option>
+                                ))}
+                              </select>
+                              <input type="number" value={serialQuantity !== null ? String(serialQuantity) : quantity} onChange={(e) => setQuantity(e.target.value)} placeholder={`반품 수량 *${returnRelease ? ` (최대 ${returnRelease.remaining})` : ''}`} min="1" max={returnRelease?.remaining} required disabled={serialQuantity !== null} className={`w-full px-4 py-3 text-lg border-2 rounded-xl font-black outline-none ${serialQuantity !== null ? 'bg-slate-100 text-slate-400 cursor-not-allowed border-slate-200' : 'border-slate-100 focus:border-indigo-400'}`} />
+                            </>
+                          )
+                        ) : transactionType === 'transfer' ? (
+                          <input type="number" value={quantity} onChange={(e) => setQuantity(e.target.value)} placeholder={`이동 수량 * (출발지 재고 ${(balance.byLocation.get(locationId) || 0).toLocaleString()})`} min="1" required className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-black outline-none focus:border-indigo-400" />
+                        ) : item.type === 'product' ? (
                           <>
+                            {isOutbound ? (
+                              <div>
+                                <div className="flex justify-between items-center mb-2">
+                                  <label className="text-xs font-black uppercase text-slate-400 tracking-widest">{transactionLabel({ type: transactionType, adjustmentDirection })} 일련번호 (스캔 또는 선택)</label>
+                                  {selectedSerials.length > 0 && <button type="button" onClick={() => setSelectedSerials([])} className="text-[10px] font-black text-rose-500 underline">선택 해제</button>}
+                                </div>
+                                <input type="text" value={scanInput} onChange={(e) => setScanInput(e.target.value.toUpperCase())} onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleScanSerial(); } }} placeholder="스캔 후 Enter (범위 가능)" className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-mono font-black outline-none focus:border-indigo-400" />
+                                {itemSerials.length === 0 ? (
+                                  <p className="mt-2 text-xs font-bold text-slate-400">재고로 보유 중인 일련번호가 없습니다</p>
+                                ) : (
+                                  <div className="mt-2 max-h-40 overflow-y-auto flex flex-wrap gap-1.5">
+                                    {itemSerials.map(s => (
+                                      <button key={s} type="button" onClick={() => toggleSerial(s)} className={`px-2.5 py-1 rounded-lg font-mono text-xs font-black transition-all ${selectedSerials.includes(s) ? 'bg-rose-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-rose-50 hover:text-rose-600'}`}>{s}</button>
+                                    ))}
+                                  </div>
+                                )}
+                              </div>
+                            ) : (
                             <div className="relative">
                                 <div className="flex justify-between items-center mb-2">
                                   <label className="text-xs font-black uppercase text-slate-400 tracking-widest">일련번호 (범위: CT0001~0010)</label>
@@ -313,15 +654,35 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
                                   </div>
                                 )}
                             </div>
+                            )}
                             <div className="grid grid-cols-2 gap-4">
                                 <div className="relative">
-                                  <input type="number" value={quantity} onChange={(e) => setQuantity(e.target.value)} placeholder="수량 *" min="1" required disabled={serialNumber.includes('~')} className={`w-full px-4 py-3 text-lg border-2 rounded-xl font-black outline-none ${serialNumber.includes('~') ? 'bg-slate-100 text-slate-400 cursor-not-allowed border-slate-200' : 'border-slate-100 focus:border-indigo-400'}`} />
-                                  {serialNumber.includes('~') && <p className="absolute -bottom-4 left-0 text-[8px] font-bold text-slate-400 uppercase">범위에 의해 자동 설정됨</p>}
+                                  <input type="number" value={serialQuantity !== null ? String(serialQuantity) : quantity} onChange={(e) => setQuantity(e.target.value)} placeholder="수량 *" min="1" required disabled={serialQuantity !== null} className={`w-full px-4 py-3 text-lg border-2 rounded-xl font-black outline-none ${serialQuantity !== null ? 'bg-slate-100 text-slate-400 cursor-not-allowed border-slate-200' : 'border-slate-100 focus:border-indigo-400'}`} />
+                                  {serialQuantity !== null && <p className="absolute -bottom-4 left-0 text-[8px] font-bold text-slate-400 uppercase">일련번호에 의해 자동 설정됨</p>}
                                 </div>
-                                <input type="text" value={customerName} onChange={(e) => setCustomerName(e.target.value)} placeholder="대상자/고객명" className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400" />
+                                {withCustomer && (
+                                  <div className="relative">
+                                    <input type="text" value={customerName} onChange={(e) => { setCustomerName(e.target.value); setCustomerId(''); setShowCustomerSuggestions(true); }} onFocus={() => setShowCustomerSuggestions(true)} onBlur={() => setTimeout(() => setShowCustomerSuggestions(false), 150)} placeholder="대상자/고객명" className={`w-full px-4 py-3 text-lg border-2 rounded-xl font-bold outline-none ${customerId ? 'border-emerald-300 bg-emerald-50/50' : 'border-slate-100 focus:border-indigo-400'}`} />
+                                    {customerId && <p className="absolute -bottom-4 left-0 text-[8px] font-bold text-emerald-600 uppercase">등록 고객</p>}
+                                    {showCustomerSuggestions && customerSuggestions.length > 0 && (
+                                      <div className="absolute z-10 left-0 right-0 mt-1 bg-white border-2 border-slate-100 rounded-xl shadow-xl overflow-hidden">
+                                        {customerSuggestions.map(c => (
+                                          <button key={c.id} type="button" onMouseDown={(e) => e.preventDefault()} onClick={() => selectCustomer(c)} className="w-full px-4 py-2 text-left hover:bg-indigo-50 transition-colors">
+                                            <p className="font-black text-slate-800">{c.name}</p>
+                                            <p className="text-xs font-bold text-slate-400 truncate">{[c.phoneNumber, c.address].filter(Boolean).join(' · ') || '-'}</p>
+                                          </button>
+                                        ))}
+                                      </div>
+                                    )}
+                                  </div>
+                                )}
                             </div>
-                            <input type="text" value={phoneNumber} onChange={(e) => setPhoneNumber(e.target.value)} placeholder="연락처" className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400" />
-                            <input type="text" value={address} onChange={(e) => setAddress(e.target.value)} placeholder="배송 주소" className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400" />
+                            {withCustomer && (
+                              <>
+                                <input type="text" value={phoneNumber} onChange={(e) => setPhoneNumber(e.target.value)} placeholder="연락처" className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400" />
+                                <input type="text" value={address} onChange={(e) => setAddress(e.target.value)} placeholder="배송 주소" className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400" />
+                              </>
+                            )}
                           </>
                         ) : (
                           <div className="grid grid-cols-2 gap-4">
@@ -329,16 +690,48 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
                             <input type="text" value={transModelName} onChange={(e) => setTransModelName(e.target.value)} placeholder="기종" className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400" />
                           </div>
                         )}
+                        {item.type === 'part' && isInbound && (
+                          <input type="text" value={lotNumber} onChange={(e) => setLotNumber(e.target.value.toUpperCase())} placeholder={item.lotTracked ? '로트번호 *' : '로트번호'} required={!!item.lotTracked} className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-mono font-black outline-none focus:border-indigo-400" />
+                        )}
+                        {showLots && isOutbound && (
+                          <div className="p-4 bg-slate-50 rounded-xl space-y-3">
+                            <div className="flex p-1 bg-slate-200/60 rounded-xl">
+                              <button type="button" onClick={() => setLotMode('fifo')} className={`flex-1 py-2 text-xs font-black rounded-lg transition-all ${lotMode === 'fifo' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>선입선출 (FIFO)</button>
+                              <button type="button" onClick={() => setLotMode('manual')} className={`flex-1 py-2 text-xs font-black rounded-lg transition-all ${lotMode === 'manual' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>로트 직접 선택</button>
+                            </div>
+                            {lotMode === 'fifo' ? (
+                              <p className="text-xs font-bold text-slate-500">
+                                {(parseInt(quantity, 10) || 0) > 0
+                                  ? allocateFifo(releaseLots, parseInt(quantity, 10) || 0).picks.map(p => `${p.lotNumber || NO_LOT_LABEL} × ${p.quantity}`).join(', ') || '출고 가능한 로트가 없습니다'
+                                  : '가장 오래된 로트부터 출고됩니다'}
+                              </p>
+                            ) : openLots.length === 0 ? (
+                              <p className="text-xs font-bold text-slate-400">출고 가능한 로트가 없습니다</p>
+                            ) : openLots.map(l => (
+                              <div key={l.lotNumber} className="flex items-center gap-3">
+                                <span className="flex-grow font-mono text-sm font-black text-slate-600">{l.lotNumber || NO_LOT_LABEL}</span>
+                                <span className="text-xs font-bold text-slate-400">잔량 {l.remaining.toLocaleString()}</span>
+                                <input type="number" min="0" max={l.remaining} value={manualLots[l.lotNumber] || ''} onChange={(e) => setManualLots({ ...manualLots, [l.lotNumber]: e.target.value })} className="w-20 px-2 py-1 border-2 border-slate-100 rounded-lg bg-white font-black text-right" />
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        {transactionType === 'purchase' && (
+                          <input type="number" value={unitCost} onChange={(e) => setUnitCost(e.target.value)} placeholder="입고 단가 (원)" min="0" step="any" className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400" />
+                        )}
                         <input type="text" value={transRemarks} onChange={(e) => setTransRemarks(e.target.value)} placeholder="사유 / 비고" className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400" />
                       </div>
-                      <button type="submit" className={`w-full py-5 text-white text-lg font-black rounded-2xl shadow-xl transition-all active:scale-95 ${transactionType === 'purchase' ? 'bg-indigo-600 hover:bg-indigo-700' : 'bg-rose-600 hover:bg-rose-700'} uppercase tracking-widest`}>
-                        데이터 {serialNumber.includes('~') ? '일괄' : '' } 저장
+                      <button type="submit" className={`w-full py-5 text-white text-lg font-black rounded-2xl shadow-xl transition-all active:scale-95 ${transactionType === 'transfer' ? 'bg-amber-500 hover:bg-amber-600' : isOutbound ? 'bg-rose-600 hover:bg-rose-700' : 'bg-indigo-600 hover:bg-indigo-700'} uppercase tracking-widest`}>
+                        데이터 {transactionType !== 'transfer' && (serialQuantity || 0) > 1 ? '일괄' : '' } 저장
                       </button>
                   </form>
               </div>
             )}
           </div>
           <div className="lg:col-span-3 flex flex-col">
+            {item.type === 'product' && (
+              <BomPanel product={item} items={items} onSave={handleSaveBom} onProduce={authRole === 'admin' ? () => setShowProduction(true) : undefined} />
+            )}
             <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
               <div className="flex items-center gap-6">
                 <h3 className="text-lg font-black text-slate-800 uppercase tracking-widest">수불 히스토리</h3>
@@ -350,6 +743,13 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
                         className="w-full pl-9 pr-4 py-2 border-2 border-slate-100 rounded-xl focus:outline-none focus:border-indigo-300 bg-white text-sm font-bold"
                     />
                 </div>
+                {locations.length > 0 && (
+                  <select value={historyLocation ?? '__all__'} onChange={(e) => setHistoryLocation(e.target.value === '__all__' ? null : e.target.value)} className="px-4 py-2 border-2 border-slate-100 rounded-xl focus:outline-none focus:border-indigo-300 bg-white text-sm font-bold">
+                    <option value="__all__">전체 로케이션</option>
+                    {sortLocations(locations).map(l => <option key={l.id} value={l.id}>{l.code} · {l.name}</option>)}
+                    <option value="">{UNASSIGNED_LABEL}</option>
+                  </select>
+                )}
               </div>
               <button onClick={exportHistoryToExcel} className="flex items-center gap-2 px-5 py-3 bg-emerald-50 text-emerald-600 border-2 border-emerald-100 rounded-2xl text-sm font-black hover:bg-emerald-600 hover:text-white transition-all uppercase shadow-md">
                 <DownloadIcon className="w-5 h-5" /><span>목록 내보내기</span></button>
@@ -369,6 +769,8 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
                               <tr>
                                 <th className="px-6 py-5">날짜 / 구분</th>
                                 <th className="px-6 py-5">수량</th>
+                                {locations.length > 0 && <th className="px-6 py-5">로케이션</th>}
+                                {showLots && <th className="px-6 py-5">로트</th>}
                                 {item.type === 'part' && <th className="px-6 py-5">기종</th>}
                                 {item.type === 'product' && (
                                   <>
@@ -382,28 +784,80 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
                               </tr>
                             </thead>
                             <tbody className="divide-y-2 divide-white">
-                                {filteredHistory.map(t => (
+                                {filteredHistory.map(t => {
+                                  const change = stockChange(t);
+                                  const returned = t.type === 'release' ? returnedQuantity(item, t.id) : 0;
+                                  return (
                                     <tr key={t.id} className={`hover:bg-white transition-all group ${editingTransactionId === t.id ? 'bg-indigo-50/50' : ''}`}>
                                         <td className="px-6 py-6">
                                           <div className="flex items-center gap-4">
-                                            <div className={`p-2 rounded-xl ${t.type === 'purchase' ? 'bg-emerald-100 text-emerald-600' : 'bg-rose-100 text-rose-600'}`}>
-                                              {t.type === 'purchase' ? <ArrowUpIcon className="w-5 h-5"/> : <ArrowDownIcon className="w-5 h-5"/>}
+                                            <div className={`p-2 rounded-xl ${change > 0 ? 'bg-emerald-100 text-emerald-600' : change < 0 ? 'bg-rose-100 text-rose-600' : 'bg-amber-100 text-amber-600'}`}>
+                                              {change > 0 ? <ArrowUpIcon className="w-5 h-5"/> : change < 0 ? <ArrowDownIcon className="w-5 h-5"/> : <SyncIcon className="w-5 h-5"/>}
                                             </div>
                                             <div>
                                               <p className="font-black text-slate-700 text-lg">{new Date(t.date).toLocaleDateString()}</p>
                                               <p className="text-xs text-slate-400 font-bold">{new Date(t.date).toLocaleTimeString()}</p>
+                                              <p className="text-xs font-black text-slate-500">
+                                                {transactionLabel(t)}
+                                                {reasonLabel(t) && <span className="ml-1 text-slate-400">· {reasonLabel(t)}</span>}
+                                                {returned > 0 && <span className="ml-2 px-2 py-0.5 bg-amber-100 text-amber-700 rounded-full">반품 {returned.toLocaleString()}</span>}
+                                              </p>
+                                              {t.createdBy && <p className="text-[10px] text-slate-300 font-black uppercase tracking-widest">{t.createdBy}</p>}
                                             </div>
                                           </div>
                                         </td>
                                         <td className="px-6 py-6">
                                           {editingTransactionId === t.id ? (
-                                            <input name="quantity" type="number" value={transEditData.quantity} onChange={handleTransEditChange} className="w-24 px-3 py-2 border-2 rounded-xl bg-white font-black text-lg" />
+                                            <div className="space-y-2">
+                                              <input name="quantity" type="number" value={transEditData.quantity} onChange={handleTransEditChange} className="w-24 px-3 py-2 border-2 rounded-xl bg-white font-black text-lg" />
+                                              {t.type === 'purchase' && <input name="unitCost" type="number" min="0" step="any" value={transEditData.unitCost ?? ''} onChange={handleTransEditChange} placeholder="단가" className="w-24 px-3 py-2 border-2 rounded-xl bg-white font-bold" />}
+                                              {requiresReason(t.type) && (
+                                                <select name="reasonCode" value={transEditData.reasonCode || ''} onChange={handleTransEditChange} className="w-32 px-3 py-2 border-2 rounded-xl bg-white font-bold">
+                                                  {REASON_CODES[t.type].map(r => <option key={r.code} value={r.code}>{r.label}</option>)}
+                                                </select>
+                                              )}
+                                            </div>
                                           ) : (
-                                            <span className={`font-black text-2xl ${t.type === 'purchase' ? 'text-emerald-600' : 'text-rose-600'}`}>
-                                              {t.type === 'purchase' ? '+' : '-'}{t.quantity.toLocaleString()}
-                                            </span>
+                                            <>
+                                              <span className={`font-black text-2xl ${change > 0 ? 'text-emerald-600' : change < 0 ? 'text-rose-600' : 'text-amber-600'}`}>
+                                                {change > 0 ? '+' : change < 0 ? '-' : '↔'}{t.quantity.toLocaleString()}
+                                              </span>
+                                              <p className="text-xs text-slate-400 font-bold" title={change > 0 ? '입고 금액' : change < 0 ? '출고 원가' : undefined}>
+                                                {t.type === 'transfer' ? '로케이션 이동' : t.type === 'purchase' && t.unitCost === undefined ? '단가 미입력' : `₩${formatAmount(movementCosts.get(t.id) || 0)}`}
+                                              </p>
+                                            </>
                                           )}
                                         </td>
+                                        {locations.length > 0 && (
+                                          <td className="px-6 py-6">
+                                            {editingTransactionId === t.id ? (
+                                              <div className="space-y-2">
+                                                <select value={transEditData.locationId || ''} onChange={(e) => setTransEditData(prev => ({ ...prev, locationId: e.target.value }))} className="w-36 px-3 py-2 border-2 rounded-xl bg-white font-bold">
+                                                  <option value="">{UNASSIGNED_LABEL}</option>
+                                                  {sortLocations(locations).map(l => <option key={l.id} value={l.id}>{l.code}</option>)}
+                                                </select>
+                                                {t.type === 'transfer' && (
+                                                  <select value={transEditData.toLocationId || ''} onChange={(e) => setTransEditData(prev => ({ ...prev, toLocationId: e.target.value }))} className="w-36 px-3 py-2 border-2 rounded-xl bg-white font-bold">
+                                                    {sortLocations(locations).map(l => <option key={l.id} value={l.id}>→ {l.code}</option>)}
+                                                  </select>
+                                                )}
+                                              </div>
+                                            ) : (
+                                              <span className="font-black text-slate-600 whitespace-nowrap">{describeLocation(t)}</span>
+                                            )}
+                                          </td>
+                                        )}
+                                        {showLots && (
+                                          <td className="px-6 py-6">
+                                            {editingTransactionId === t.id && t.type !== 'transfer' ? (
+                                              <input name="lotNumber" value={transEditData.lotNumber || ''} onChange={handleTransEditChange} placeholder="로트" className="w-28 px-3 py-2 border-2 rounded-xl bg-white font-mono font-black" />
+                                            ) : t.lotNumber ? (
+                                              <button onClick={() => setTraceLot(t.lotNumber || NO_LOT)} className="font-mono font-black text-indigo-600 hover:underline">{t.lotNumber}</button>
+                                            ) : (
+                                              <span className="font-black text-slate-300">-</span>
+                                            )}
+                                          </td>
+                                        )}
                                         {item.type === 'part' && (
                                           <td className="px-6 py-6">
                                             {editingTransactionId === t.id ? (
@@ -419,7 +873,10 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
                                               {editingTransactionId === t.id ? (
                                                 <input name="serialNumber" value={transEditData.serialNumber || ''} onChange={handleTransEditChange} className="w-32 px-3 py-2 border-2 rounded-xl bg-white font-black uppercase" />
                                               ) : (
-                                                <span className="font-mono font-black text-indigo-600 text-lg">{t.serialNumber || '-'}</span>
+                                                <>
+                                                  <span className="font-mono font-black text-indigo-600 text-lg">{t.serialNumber || '-'}</span>
+                                                  {warranties.get(t.id) && <div className="mt-1"><WarrantyBadge warranty={warranties.get(t.id)!} /></div>}
+                                                </>
                                               )}
                                             </td>
                                             <td className="px-6 py-6">
@@ -470,7 +927,8 @@ const ItemDetailModal: React.FC<ItemDetailModalProps> = ({
                                           </div>
                                         </td>
                                     </tr>
-                                ))}
+                                  );
+                                })}
                             </tbody>
                         </table></div>
                     )}
@@ -0,0 +1,208 @@
+import React, { useState, useMemo } from 'react';
+import type { Item } from '../types';
+import type { Symbology } from '../utils/barcode';
+import { LABEL_LAYOUTS, labelSheetHtml, labelsPerPage, printLabels, symbologyFor } from '../utils/labels';
+import type { LabelData } from '../utils/labels';
+import { inStockSerials, parseSerialRange } from '../utils/serials';
+import { CloseIcon } from './icons';
+
+interface LabelPrintModalProps {
+  items: Item[];
+  product?: Item; // 일련번호 라벨을 찍을 제품 (없으면 items 중 제품에서 선택)
+  initialSerials?: string[]; // 방금 등록한 일련번호처럼 미리 채워 둘 일련번호
+  onClose: () => void;
+}
+
+type LabelSource = 'items' | 'serials';
+
+// "AJP00001~00010, AJP00020" -> every serial, in the order typed, without repeats
+const expandSerials = (input: string): string[] => {
+  const serials = input.split(/[,\n]/).map(token => token.trim()).filter(Boolean).flatMap(token => parseSerialRange(token));
+  return Array.from(new Set(serials.map(s => s.toUpperCase())));
+};
+
+const LabelPrintModal: React.FC<LabelPrintModalProps> = ({ items, product, initialSerials, onClose }) => {
+  const products = useMemo(() => items.filter(i => i.type === 'product'), [items]);
+  const [source, setSource] = useState<LabelSource>(product && initialSerials?.length ? 'serials' : 'items');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set(items.map(i => i.id)));
+  const [productId, setProductId] = useState(product?.id || products[0]?.id || '');
+  const serialProduct = items.find(i => i.id === productId) || product;
+  const [serialInput, setSerialInput] = useState(() => (initialSerials || (product?.type === 'product' ? inStockSerials(product) : [])).join(', '));
+  const [symbology, setSymbology] = useState<Symbology>('code128');
+  const [layoutId, setLayoutId] = useState(LABEL_LAYOUTS[0].id);
+  const [startPosition, setStartPosition] = useState('1');
+  const [copies, setCopies] = useState('1');
+  const [showName, setShowName] = useState(true);
+  const [showSpec, setShowSpec] = useState(true);
+  const [showCode, setShowCode] = useState(true);
+
+  const layout = LABEL_LAYOUTS.find(l => l.id === layoutId) || LABEL_LAYOUTS[0];
+  const perPage = labelsPerPage(layout);
+  const start = Math.min(Math.max(parseInt(startPosition, 10) || 1, 1), perPage);
+  const copyCount = Math.min(Math.max(parseInt(copies, 10) || 1, 1), 100);
+
+  const { labels, error } = useMemo((): { labels: LabelData[]; error?: string } => {
+    if (source === 'items') {
+      return {
+        labels: items.filter(i => selectedIds.has(i.id)).map(item => ({
+          value: item.code,
+          title: item.code,
+          lines: [showName ? item.name : '', showSpec ? item.spec : ''],
+        })),
+      };
+    }
+    if (!serialProduct) return { labels: [] };
+    try {
+      return {
+        labels: expandSerials(serialInput).map(serial => ({
+          value: serial,
+          title: serial,
+          lines: [showCode ? serialProduct.code : '', showName ? serialProduct.name : '', showSpec ? serialProduct.spec : ''],
+        })),
+      };
+    } catch (e) {
+      return { labels: [], error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [source, items, selectedIds, serialProduct, serialInput, showName, showSpec, showCode]);
+
+  const fallbackCount = symbology === 'code128' ? labels.filter(l => symbologyFor(l.value, symbology) !== symbology).length : 0;
+  const totalLabels = labels.length * copyCount;
+  const pageCount = totalLabels > 0 ? Math.ceil((start - 1 + totalLabels) / perPage) : 0;
+  const html = useMemo(
+    () => labelSheetHtml(labels, layout, { symbology, startPosition: start, copies: copyCount }),
+    [labels, layout, symbology, start, copyCount]
+  );
+
+  const toggleItem = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const handlePrint = () => {
+    if (labels.length === 0) return alert('인쇄할 라벨이 없습니다.');
+    printLabels(html);
+  };
+
+  const inputClass = "w-full px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400 bg-white";
+  const labelClass = "block text-xs uppercase font-black text-slate-400 mb-2 tracking-widest";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[3rem] shadow-2xl w-full max-w-[90vw] flex flex-col h-full max-h-[95vh] overflow-hidden animate-fade-in-up">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">라벨 인쇄</h2>
+            <p className="text-xs text-slate-400 font-bold mt-1 uppercase tracking-widest">품번 · 일련번호 바코드 라벨 (Code128 / QR)</p>
+          </div>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-10 h-10" /></button>
+        </div>
+        <div className="flex-grow flex overflow-hidden">
+          <div className="w-[26rem] flex-shrink-0 border-r border-slate-100 overflow-y-auto p-8 space-y-6">
+            <div className="flex gap-2">
+              {([['items', '품번 라벨'], ['serials', '일련번호 라벨']] as [LabelSource, string][]).filter(([key]) => key === 'items' || products.length > 0).map(([key, text]) => (
+                <button key={key} onClick={() => setSource(key)} className={`flex-1 px-4 py-3 rounded-xl text-xs font-black uppercase tracking-widest transition-all ${source === key ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}>{text}</button>
+              ))}
+            </div>
+
+            {source === 'items' ? (
+              <div>
+                <div className="flex justify-between items-center mb-2">
+                  <span className={labelClass}>품목 ({selectedIds.size}/{items.length})</span>
+                  <div className="flex gap-3 text-xs font-black">
+                    <button onClick={() => setSelectedIds(new Set(items.map(i => i.id)))} className="text-indigo-600 hover:underline">전체</button>
+                    <button onClick={() => setSelectedIds(new Set())} className="text-slate-400 hover:underline">해제</button>
+                  </div>
+                </div>
+                <div className="max-h-72 overflow-y-auto border-2 border-slate-100 rounded-xl divide-y divide-slate-50">
+                  {items.map(item => (
+                    <label key={item.id} className="flex items-center gap-3 px-4 py-2 cursor-pointer hover:bg-slate-50">
+                      <input type="checkbox" checked={selectedIds.has(item.id)} onChange={() => toggleItem(item.id)} className="w-4 h-4 accent-indigo-600" />
+                      <span className="font-mono font-black text-indigo-600 text-sm">{item.code}</span>
+                      <span className="font-bold text-slate-600 text-sm truncate">{item.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <>
+                <div>
+                  <label className={labelClass}>제품</label>
+                  <select value={productId} onChange={(e) => setProductId(e.target.value)} className={inputClass} disabled={!!product}>
+                    {products.map(p => <option key={p.id} value={p.id}>{p.code} - {p.name}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <div className="flex justify-between items-center mb-2">
+                    <span className={labelClass}>일련번호</span>
+                    {serialProduct && (
+                      <button onClick={() => setSerialInput(inStockSerials(serialProduct).join(', '))} className="text-xs font-black text-indigo-600 hover:underline">재고 일련번호 불러오기</button>
+                    )}
+                  </div>
+                  <textarea value={serialInput} onChange={(e) => setSerialInput(e.target.value)} rows={5} placeholder="AJP00001~00020, AJP00031" className={`${inputClass} font-mono`} />
+                  <p className="text-xs text-slate-400 font-bold mt-2">쉼표 또는 줄바꿈으로 구분, "~"로 범위 지정 (범위당 최대 100개)</p>
+                  {error && <p className="text-xs text-rose-500 font-black mt-2">{error}</p>}
+                </div>
+              </>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>바코드</label>
+                <select value={symbology} onChange={(e) => setSymbology(e.target.value as Symbology)} className={inputClass}>
+                  <option value="code128">Code128</option>
+                  <option value="qr">QR 코드</option>
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>장당 수량</label>
+                <input type="number" min="1" max="100" value={copies} onChange={(e) => setCopies(e.target.value)} className={inputClass} />
+              </div>
+            </div>
+            <div>
+              <label className={labelClass}>라벨 용지</label>
+              <select value={layoutId} onChange={(e) => setLayoutId(e.target.value)} className={inputClass}>
+                {LABEL_LAYOUTS.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+              </select>
+            </div>
+            {perPage > 1 && (
+              <div>
+                <label className={labelClass}>시작 칸 (1~{perPage})</label>
+                <input type="number" min="1" max={perPage} value={startPosition} onChange={(e) => setStartPosition(e.target.value)} className={inputClass} />
+                <p className="text-xs text-slate-400 font-bold mt-2">이미 사용한 라벨을 건너뛰고 {start}번째 칸부터 인쇄합니다</p>
+              </div>
+            )}
+            <div>
+              <span className={labelClass}>표시 항목</span>
+              <div className="flex flex-wrap gap-4">
+                {source === 'serials' && (
+                  <label className="flex items-center gap-2 font-bold text-slate-600 text-sm cursor-pointer"><input type="checkbox" checked={showCode} onChange={(e) => setShowCode(e.target.checked)} className="w-4 h-4 accent-indigo-600" />품번</label>
+                )}
+                <label className="flex items-center gap-2 font-bold text-slate-600 text-sm cursor-pointer"><input type="checkbox" checked={showName} onChange={(e) => setShowName(e.target.checked)} className="w-4 h-4 accent-indigo-600" />품명</label>
+                <label className="flex items-center gap-2 font-bold text-slate-600 text-sm cursor-pointer"><input type="checkbox" checked={showSpec} onChange={(e) => setShowSpec(e.target.checked)} className="w-4 h-4 accent-indigo-600" />규격</label>
+              </div>
+            </div>
+            {fallbackCount > 0 && (
+              <p className="p-4 bg-amber-50 text-amber-700 text-xs font-black rounded-xl">Code128로 표현할 수 없는 값(한글 등) {fallbackCount}건은 QR 코드로 인쇄됩니다.</p>
+            )}
+          </div>
+          <div className="flex-grow flex flex-col overflow-hidden bg-slate-100">
+            <div className="px-8 py-4 flex items-center justify-between bg-white border-b border-slate-100">
+              <span className="text-sm font-black text-slate-500">라벨 {totalLabels.toLocaleString()}장 · {pageCount}페이지</span>
+              <button onClick={handlePrint} disabled={labels.length === 0} className="px-8 py-3 bg-indigo-600 text-white font-black rounded-xl shadow-lg hover:bg-indigo-700 transition-all uppercase tracking-widest disabled:opacity-40">인쇄</button>
+            </div>
+            {labels.length === 0 ? (
+              <p className="py-20 text-center text-slate-300 font-black uppercase tracking-widest italic text-2xl">인쇄할 라벨을 선택하세요</p>
+            ) : (
+              <iframe title="라벨 미리보기" srcDoc={html} className="flex-grow w-full border-0" />
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LabelPrintModal;
@@ -0,0 +1,154 @@
+import React, { useState, useMemo } from 'react';
+import type { Item, Location } from '../types';
+import { stockBalance } from '../utils/inventory';
+import { sortLocations } from '../utils/locations';
+import { CloseIcon, PlusIcon, EditIcon, CheckIcon, TrashIcon } from './icons';
+
+interface LocationModalProps {
+  locations: Location[];
+  items: Item[];
+  onCreate: (location: Pick<Location, 'code' | 'name' | 'remarks'>) => void;
+  onUpdate: (locationId: string, updatedData: Partial<Location>) => void;
+  onDelete: (locationId: string) => void;
+  onClose: () => void;
+}
+
+const EMPTY_FORM = { code: '', name: '', remarks: '' };
+
+const LocationModal: React.FC<LocationModalProps> = ({ locations, items, onCreate, onUpdate, onDelete, onClose }) => {
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editData, setEditData] = useState(EMPTY_FORM);
+
+  const sorted = useMemo(() => sortLocations(locations), [locations]);
+
+  // Number of items and total quantity held at each location
+  const usage = useMemo(() => {
+    const result = new Map<string, { itemCount: number; quantity: number }>();
+    items.forEach(item => {
+      stockBalance(item).byLocation.forEach((quantity, locationId) => {
+        if (quantity === 0) return;
+        const entry = result.get(locationId) || { itemCount: 0, quantity: 0 };
+        result.set(locationId, { itemCount: entry.itemCount + 1, quantity: entry.quantity + quantity });
+      });
+    });
+    return result;
+  }, [items]);
+
+  const isDuplicate = (code: string, exceptId?: string) =>
+    locations.some(l => l.id !== exceptId && l.code === code.trim().toUpperCase());
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.code.trim() || !formData.name.trim()) { alert('코드와 이름은 필수 항목입니다.'); return; }
+    if (isDuplicate(formData.code)) { alert('이미 사용 중인 로케이션 코드입니다.'); return; }
+    onCreate({ code: formData.code.trim().toUpperCase(), name: formData.name.trim(), remarks: formData.remarks.trim() });
+    setFormData(EMPTY_FORM);
+  };
+
+  const startEdit = (location: Location) => {
+    setEditingId(location.id);
+    setEditData({ code: location.code, name: location.name, remarks: location.remarks });
+  };
+
+  const handleSaveEdit = (location: Location) => {
+    if (!editData.code.trim() || !editData.name.trim()) { alert('코드와 이름은 필수 항목입니다.'); return; }
+    if (isDuplicate(editData.code, location.id)) { alert('이미 사용 중인 로케이션 코드입니다.'); return; }
+    onUpdate(location.id, { code: editData.code.trim().toUpperCase(), name: editData.name.trim(), remarks: editData.remarks.trim() });
+    setEditingId(null);
+  };
+
+  const handleToggleActive = (location: Location) => {
+    if (location.active && (usage.get(location.id)?.quantity || 0) > 0 && !confirm(`${location.code}에 재고가 남아 있습니다. 비활성화하면 신규 입출고에서 선택할 수 없습니다. 계속하시겠습니까?`)) return;
+    onUpdate(location.id, { active: !location.active });
+  };
+
+  const handleDelete = (location: Location) => {
+    if (!confirm(`${location.code} 로케이션을 삭제하시겠습니까?\n입출고 내역에 사용된 로케이션은 삭제할 수 없습니다.`)) return;
+    onDelete(location.id);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-4xl animate-fade-in-up overflow-hidden">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">로케이션 관리</h2>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors">
+            <CloseIcon className="w-8 h-8" />
+          </button>
+        </div>
+        <div className="p-8 space-y-8 max-h-[75vh] overflow-y-auto">
+          <form onSubmit={handleCreate} className="grid grid-cols-3 gap-4 p-6 bg-slate-50/80 rounded-2xl border border-slate-100">
+            <input type="text" value={formData.code} onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })} placeholder="코드 * (예: WH-01)" className={`w-full px-4 py-3 border-2 rounded-xl text-lg font-mono font-black outline-none ${isDuplicate(formData.code) ? 'border-rose-400 bg-rose-50' : 'border-slate-100 focus:border-indigo-400'}`} />
+            <input type="text" value={formData.name} onChange={(e) => setFormData({ ...formData, name: e.target.value })} placeholder="이름 * (예: 본 창고)" className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-black outline-none focus:border-indigo-400" />
+            <input type="text" value={formData.remarks} onChange={(e) => setFormData({ ...formData, remarks: e.target.value })} placeholder="비고" className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none focus:border-indigo-400" />
+            <button type="submit" className="col-span-3 flex items-center justify-center gap-2 py-4 bg-indigo-600 text-white font-black rounded-xl shadow-lg hover:bg-indigo-700 transition-all uppercase tracking-widest">
+              <PlusIcon className="w-5 h-5" />
+              <span>로케이션 추가</span>
+            </button>
+          </form>
+
+          {sorted.length === 0 ? (
+            <p className="py-10 text-center text-slate-300 font-black uppercase tracking-widest italic">등록된 로케이션이 없습니다</p>
+          ) : (
+            <table className="w-full text-left">
+              <thead className="text-xs text-slate-400 uppercase border-b border-slate-100 font-black tracking-[0.2em]">
+                <tr>
+                  <th className="px-4 py-4">코드</th>
+                  <th className="px-4 py-4">이름</th>
+                  <th className="px-4 py-4">비고</th>
+                  <th className="px-4 py-4 text-right">재고</th>
+                  <th className="px-4 py-4 text-center">상태</th>
+                  <th className="px-4 py-4 text-center">관리</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {sorted.map(location => {
+                  const stock = usage.get(location.id);
+                  return editingId === location.id ? (
+                    <tr key={location.id} className="bg-indigo-50/50">
+                      <td className="px-4 py-3"><input value={editData.code} onChange={(e) => setEditData({ ...editData, code: e.target.value.toUpperCase() })} className="w-28 px-3 py-2 border-2 rounded-xl bg-white font-mono font-black" /></td>
+                      <td className="px-4 py-3"><input value={editData.name} onChange={(e) => setEditData({ ...editData, name: e.target.value })} className="w-full px-3 py-2 border-2 rounded-xl bg-white font-black" /></td>
+                      <td className="px-4 py-3"><input value={editData.remarks} onChange={(e) => setEditData({ ...editData, remarks: e.target.value })} className="w-full px-3 py-2 border-2 rounded-xl bg-white font-bold" /></td>
+                      <td className="px-4 py-3 text-right font-bold text-slate-500">{stock ? stock.quantity.toLocaleString() : '-'}</td>
+                      <td></td>
+                      <td className="px-4 py-3">
+                        <div className="flex justify-center gap-2">
+                          <button onClick={() => handleSaveEdit(location)} className="p-2 text-emerald-600 hover:bg-emerald-50 rounded-xl transition-all"><CheckIcon className="w-5 h-5" /></button>
+                          <button onClick={() => setEditingId(null)} className="p-2 text-slate-400 hover:bg-slate-50 rounded-xl transition-all"><CloseIcon className="w-5 h-5" /></button>
+                        </div>
+                      </td>
+                    </tr>
+                  ) : (
+                    <tr key={location.id} className={location.active ? '' : 'opacity-50'}>
+                      <td className="px-4 py-4 font-mono font-black text-indigo-600">{location.code}</td>
+                      <td className="px-4 py-4 font-black text-slate-800">{location.name}</td>
+                      <td className="px-4 py-4 text-sm font-bold text-slate-400">{location.remarks || '-'}</td>
+                      <td className="px-4 py-4 text-right">
+                        <p className="font-black text-slate-700">{stock ? stock.quantity.toLocaleString() : '-'}</p>
+                        {stock && <p className="text-xs font-bold text-slate-400">{stock.itemCount}개 품목</p>}
+                      </td>
+                      <td className="px-4 py-4 text-center">
+                        <button onClick={() => handleToggleActive(location)} className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${location.active ? 'bg-emerald-100 text-emerald-700' : 'bg-slate-100 text-slate-500'}`}>
+                          {location.active ? '사용중' : '비활성'}
+                        </button>
+                      </td>
+                      <td className="px-4 py-4">
+                        <div className="flex justify-center gap-2">
+                          <button onClick={() => startEdit(location)} className="p-2 text-indigo-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all"><EditIcon className="w-5 h-5" /></button>
+                          <button onClick={() => handleDelete(location)} className="p-2 text-slate-300 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-all"><TrashIcon className="w-5 h-5" /></button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LocationModal;
@@ -0,0 +1,145 @@
+import React, { useMemo } from 'react';
+import type { Item, ProductionRecord } from '../types';
+import { lotTrace } from '../utils/lots';
+import { downloadCsv } from '../utils/spreadsheet';
+import { reasonLabel, transactionLabel } from '../utils/transactionTypes';
+import { CloseIcon, DownloadIcon } from './icons';
+
+interface LotTraceModalProps {
+  item: Item;
+  lotNumber: string;
+  items: Item[];
+  productions: ProductionRecord[];
+  onClose: () => void;
+}
+
+const NO_LOT_LABEL = '(로트 없음)';
+
+const serialSummary = (serials: string[]) =>
+  serials.length === 0 ? '-' : serials.length === 1 ? serials[0] : `${serials[0]} ~ ${serials[serials.length - 1]} (${serials.length}대)`;
+
+const LotTraceModal: React.FC<LotTraceModalProps> = ({ item, lotNumber, items, productions, onClose }) => {
+  const trace = useMemo(() => lotTrace(item, lotNumber, productions, items), [item, lotNumber, productions, items]);
+  const label = lotNumber || NO_LOT_LABEL;
+
+  const exportTrace = () => {
+    const rows: (string | number)[][] = [
+      ['구분', '날짜', '수량', '참조', '제품', '제품 일련번호', '대상/비고'],
+      ...trace.receipts.map(t => [transactionLabel(t), new Date(t.date).toLocaleDateString(), t.quantity, reasonLabel(t), '', '', t.remarks || '']),
+      ...trace.releases.map(r => [
+        r.production ? '생산 투입' : transactionLabel(r.transaction), new Date(r.transaction.date).toLocaleDateString(), r.transaction.quantity,
+        r.production?.productionNumber || reasonLabel(r.transaction), r.product ? `${r.product.code} ${r.product.name}` : '',
+        r.production ? serialSummary(r.production.serialNumbers) : '',
+        r.production ? r.transaction.remarks || '' : [r.transaction.customerName, r.transaction.modelName, r.transaction.remarks].filter(Boolean).join(' / '),
+      ]),
+    ];
+    downloadCsv(`로트추적_${item.code}_${lotNumber || 'NOLOT'}.csv`, rows);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-[60] p-4 font-sans">
+      <div className="bg-white rounded-[3rem] shadow-2xl w-full max-w-5xl flex flex-col max-h-[95vh] overflow-hidden animate-fade-in-up">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">로트 추적 <span className="font-mono text-indigo-600">{label}</span></h2>
+            <p className="mt-1"><span className="font-mono font-black text-indigo-600 mr-2">{item.code}</span><span className="font-black text-slate-500">{item.name}</span></p>
+          </div>
+          <div className="flex items-center gap-4">
+            <button onClick={exportTrace} className="flex items-center gap-2 px-5 py-3 bg-emerald-50 text-emerald-600 border-2 border-emerald-100 rounded-2xl text-sm font-black hover:bg-emerald-600 hover:text-white transition-all uppercase">
+              <DownloadIcon className="w-5 h-5" /><span>내보내기</span>
+            </button>
+            <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-10 h-10" /></button>
+          </div>
+        </div>
+        <div className="flex-grow overflow-y-auto p-10 space-y-10">
+          <div className="grid grid-cols-3 gap-6">
+            {[
+              { title: '입고', value: trace.balance?.received || 0, className: 'text-emerald-600' },
+              { title: '사용/출고', value: trace.balance?.released || 0, className: 'text-rose-600' },
+              { title: '잔량', value: trace.balance?.remaining || 0, className: 'text-slate-900' },
+            ].map(card => (
+              <div key={card.title} className="p-6 bg-slate-50/80 rounded-2xl border border-slate-100">
+                <p className="text-xs font-black text-slate-400 uppercase tracking-[0.2em] mb-2">{card.title}</p>
+                <p className={`text-4xl font-black ${card.className}`}>{card.value.toLocaleString()}</p>
+              </div>
+            ))}
+          </div>
+
+          <section>
+            <h3 className="text-base font-black text-slate-800 uppercase tracking-widest mb-3">입고 내역 ({trace.receipts.length})</h3>
+            {trace.receipts.length === 0 ? (
+              <p className="py-6 text-center text-slate-300 font-black uppercase tracking-widest italic">입고 내역이 없습니다</p>
+            ) : (
+              <table className="w-full text-left">
+                <thead className="text-xs text-slate-400 uppercase border-b-2 border-slate-100 font-black tracking-[0.2em]">
+                  <tr>
+                    <th className="px-4 py-3">입고일</th>
+                    <th className="px-4 py-3">구분</th>
+                    <th className="px-4 py-3 text-right">수량</th>
+                    <th className="px-4 py-3">비고</th>
+                    <th className="px-4 py-3">등록</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50">
+                  {trace.receipts.map(t => (
+                    <tr key={t.id}>
+                      <td className="px-4 py-3 font-bold text-slate-600">{new Date(t.date).toLocaleDateString()}</td>
+                      <td className="px-4 py-3 font-black text-slate-500">{transactionLabel(t)}{reasonLabel(t) && <span className="ml-2 text-xs text-slate-400">{reasonLabel(t)}</span>}</td>
+                      <td className="px-4 py-3 text-right font-black text-emerald-600">+{t.quantity.toLocaleString()}</td>
+                      <td className="px-4 py-3 font-bold text-slate-500">{t.remarks || '-'}</td>
+                      <td className="px-4 py-3 text-xs font-black text-slate-400">{t.createdBy}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+
+          <section>
+            <h3 className="text-base font-black text-slate-800 uppercase tracking-widest mb-3">사용처 ({trace.releases.length})</h3>
+            {trace.releases.length === 0 ? (
+              <p className="py-6 text-center text-slate-300 font-black uppercase tracking-widest italic">아직 사용되지 않은 로트입니다</p>
+            ) : (
+              <table className="w-full text-left">
+                <thead className="text-xs text-slate-400 uppercase border-b-2 border-slate-100 font-black tracking-[0.2em]">
+                  <tr>
+                    <th className="px-4 py-3">날짜</th>
+                    <th className="px-4 py-3 text-right">수량</th>
+                    <th className="px-4 py-3">사용처</th>
+                    <th className="px-4 py-3">제품 일련번호</th>
+                    <th className="px-4 py-3">비고</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50">
+                  {trace.releases.map(({ transaction: t, production, product }) => (
+                    <tr key={t.id}>
+                      <td className="px-4 py-3 font-bold text-slate-600">{new Date(t.date).toLocaleDateString()}</td>
+                      <td className="px-4 py-3 text-right font-black text-rose-600">-{t.quantity.toLocaleString()}</td>
+                      <td className="px-4 py-3">
+                        {production ? (
+                          <>
+                            <p className="font-mono font-black text-indigo-600">{production.productionNumber}</p>
+                            <p className="text-sm font-black text-slate-700">{product ? `${product.code} ${product.name}` : production.productCode}</p>
+                          </>
+                        ) : (
+                          <>
+                            <p className="font-black text-slate-700">{t.type === 'release' ? t.customerName || t.modelName || '출고' : transactionLabel(t)}</p>
+                            {reasonLabel(t) && <p className="text-xs font-bold text-slate-400">{reasonLabel(t)}</p>}
+                          </>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 font-mono font-bold text-slate-500">{production ? serialSummary(production.serialNumbers) : '-'}</td>
+                      <td className="px-4 py-3 text-sm font-bold text-slate-400">{t.remarks || '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LotTraceModal;
@@ -0,0 +1,75 @@
+import React from 'react';
+import type { Item } from '../types';
+import type { QueuedOperation } from '../services/offlineQueue';
+import { describeOperation } from '../utils/offlineSync';
+import { CloseIcon, SyncIcon } from './icons';
+
+interface OfflineQueueModalProps {
+  operations: QueuedOperation[];
+  items: Item[];
+  isOnline: boolean;
+  onRetry: (operation: QueuedOperation) => void;
+  onForce: (operation: QueuedOperation) => void;
+  onDiscard: (operation: QueuedOperation) => void;
+  onClose: () => void;
+}
+
+const OfflineQueueModal: React.FC<OfflineQueueModalProps> = ({ operations, items, isOnline, onRetry, onForce, onDiscard, onClose }) => {
+  const blockedAt = operations.findIndex(op => op.conflict);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[3rem] shadow-2xl w-full max-w-4xl flex flex-col max-h-[90vh] overflow-hidden animate-fade-in-up">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">전송 대기 중인 변경</h2>
+            <p className="text-xs text-slate-400 font-bold mt-1 uppercase tracking-widest">
+              {isOnline ? '서버 연결됨' : '오프라인'} · 기록한 순서대로 서버에 전송됩니다
+            </p>
+          </div>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-10 h-10" /></button>
+        </div>
+        {blockedAt >= 0 && (
+          <p className="mx-10 mt-8 p-4 bg-rose-50 text-rose-600 text-sm font-black rounded-xl">
+            충돌한 변경을 처리할 때까지 그 뒤의 변경 {operations.length - blockedAt - 1}건은 전송되지 않습니다.
+          </p>
+        )}
+        <div className="flex-grow overflow-y-auto p-10">
+          {operations.length === 0 ? (
+            <p className="py-20 text-center text-slate-300 font-black uppercase tracking-widest italic text-2xl">모든 변경이 서버에 저장되었습니다</p>
+          ) : (
+            <ul className="space-y-3">
+              {operations.map(op => (
+                <li key={op.seq} className={`p-5 rounded-2xl border-2 ${op.conflict ? 'border-rose-200 bg-rose-50/50' : 'border-slate-100'}`}>
+                  <div className="flex justify-between items-start gap-4">
+                    <div>
+                      <p className="font-black text-slate-800">{describeOperation(op, items)}</p>
+                      <p className="text-xs font-bold text-slate-400 mt-1">{new Date(op.createdAt).toLocaleString()}</p>
+                    </div>
+                    {!op.conflict && <span className="px-3 py-1 rounded-full text-[10px] font-black uppercase bg-amber-50 text-amber-600">대기</span>}
+                  </div>
+                  {op.conflict && (
+                    <>
+                      <p className="mt-3 text-sm font-bold text-rose-600">{op.conflict}</p>
+                      <div className="mt-4 flex gap-2">
+                        <button onClick={() => onRetry(op)} disabled={!isOnline} className="flex items-center gap-1.5 px-4 py-2 bg-white border-2 border-slate-100 text-slate-600 rounded-xl text-xs font-black uppercase tracking-widest hover:bg-slate-50 disabled:opacity-40">
+                          <SyncIcon className="w-3 h-3" /><span>다시 시도</span>
+                        </button>
+                        {op.guard && (
+                          <button onClick={() => onForce(op)} disabled={!isOnline} className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-xs font-black uppercase tracking-widest hover:bg-indigo-700 disabled:opacity-40">내 변경으로 덮어쓰기</button>
+                        )}
+                        <button onClick={() => onDiscard(op)} className="px-4 py-2 bg-rose-50 text-rose-600 rounded-xl text-xs font-black uppercase tracking-widest hover:bg-rose-600 hover:text-white">이 변경 버리기</button>
+                      </div>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OfflineQueueModal;
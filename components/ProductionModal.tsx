@@ -0,0 +1,189 @@
+import React, { useState, useMemo } from 'react';
+import type { Item, Location, ProductionRecord } from '../types';
+import { calculateStock } from '../utils/inventory';
+import { parseSerialRange, suggestNextSerial } from '../utils/serials';
+import { CloseIcon, SyncIcon } from './icons';
+
+interface ProductionModalProps {
+  product: Item;
+  items: Item[];
+  productions: ProductionRecord[];
+  allUsedSerials: string[];
+  locations: Location[]; // 선택 가능한 (활성) 로케이션
+  onProduce: (data: { productId: string; quantity: number; serialRange?: string; locationId?: string; date?: string; remarks?: string }) => void;
+  onClose: () => void;
+}
+
+const ProductionModal: React.FC<ProductionModalProps> = ({ product, items, productions, allUsedSerials, locations, onProduce, onClose }) => {
+  const [quantity, setQuantity] = useState('1');
+  const [serialRange, setSerialRange] = useState(() => suggestNextSerial(allUsedSerials));
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [remarks, setRemarks] = useState('');
+  const [locationId, setLocationId] = useState('');
+
+  // A serial range fixes the quantity; a single serial means one unit
+  const serials = useMemo(() => {
+    if (!serialRange.trim()) return { list: [] as string[], error: '' };
+    try {
+      return { list: parseSerialRange(serialRange.trim().toUpperCase()), error: '' };
+    } catch (err: any) {
+      return { list: [] as string[], error: err.message as string };
+    }
+  }, [serialRange]);
+  const count = serials.list.length > 0 ? serials.list.length : (parseInt(quantity, 10) || 0);
+  const duplicates = useMemo(() => serials.list.filter(s => allUsedSerials.includes(s)), [serials, allUsedSerials]);
+
+  const requirements = useMemo(() => {
+    const byId = new Map<string, Item>(items.map(i => [i.id, i]));
+    return (product.bom || []).map(line => {
+      const part = byId.get(line.partId);
+      const stock = part ? calculateStock(part, locationId || undefined) : 0;
+      return { line, part, required: line.quantity * count, stock };
+    });
+  }, [product, items, count, locationId]);
+  const hasShortage = requirements.some(r => !r.part || r.required > r.stock);
+
+  const history = useMemo(() => productions.filter(p => p.productId === product.id).sort((a, b) => b.date.localeCompare(a.date)), [productions, product.id]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (requirements.length === 0) { alert('BOM이 등록되지 않은 제품입니다.'); return; }
+    if (serials.error) { alert(serials.error); return; }
+    if (count <= 0) { alert('수량을 확인하세요.'); return; }
+    if (duplicates.length > 0) { alert(`중복 번호 존재: ${duplicates.slice(0, 5).join(', ')}...`); return; }
+    if (hasShortage) { alert('부품 재고가 부족합니다.'); return; }
+    if (!confirm(`${product.code} ${count}대를 생산 등록하시겠습니까?\n구성 부품이 자동으로 출고됩니다.`)) return;
+    onProduce({
+      productId: product.id,
+      quantity: count,
+      serialRange: serialRange.trim() ? serialRange.trim().toUpperCase() : undefined,
+      locationId: locationId || undefined,
+      date: new Date(date).toISOString(),
+      remarks,
+    });
+    setRemarks('');
+    setSerialRange(suggestNextSerial([...allUsedSerials, ...serials.list]));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-[60] p-4 font-sans">
+      <div className="bg-white rounded-[3rem] shadow-2xl w-full max-w-5xl flex flex-col max-h-[95vh] overflow-hidden animate-fade-in-up">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">생산 등록</h2>
+            <p className="mt-1"><span className="font-mono font-black text-indigo-600 mr-2">{product.code}</span><span className="font-black text-slate-500">{product.name}</span></p>
+          </div>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-10 h-10" /></button>
+        </div>
+        <div className="flex-grow overflow-y-auto p-10 space-y-10">
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <label className="text-xs font-black uppercase text-slate-400 tracking-widest">일련번호 (범위: AJP00001~00010)</label>
+                <button type="button" onClick={() => setSerialRange(suggestNextSerial(allUsedSerials))} className="text-[10px] font-black text-indigo-600 underline">다음번호 제안</button>
+              </div>
+              <input type="text" value={serialRange} onChange={(e) => setSerialRange(e.target.value.toUpperCase())} placeholder="비워두면 일련번호 없이 등록" className={`w-full px-4 py-3 text-lg border-2 rounded-xl font-black outline-none ${duplicates.length > 0 || serials.error ? 'border-rose-400 bg-rose-50' : 'border-slate-100 focus:border-indigo-400'}`} />
+              {serials.list.length > 1 && (
+                <div className="flex items-center gap-1.5 mt-2 px-3 py-1 bg-indigo-50 border border-indigo-100 rounded-lg">
+                  <SyncIcon className="w-2.5 h-2.5 text-indigo-500" />
+                  <p className="text-[10px] font-black text-indigo-600 uppercase tracking-tighter">{serials.list[0]} ~ {serials.list[serials.list.length - 1]} ({serials.list.length}대)</p>
+                </div>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-black uppercase text-slate-400 tracking-widest mb-2">생산 수량</label>
+                <input type="number" min="1" value={serials.list.length > 0 ? String(serials.list.length) : quantity} onChange={(e) => setQuantity(e.target.value)} disabled={serials.list.length > 0} className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-black outline-none focus:border-indigo-400 disabled:bg-slate-100 disabled:text-slate-400" />
+              </div>
+              <div>
+                <label className="block text-xs font-black uppercase text-slate-400 tracking-widest mb-2">생산일</label>
+                <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400" />
+              </div>
+            </div>
+            {locations.length > 0 && (
+              <div className="md:col-span-2">
+                <label className="block text-xs font-black uppercase text-slate-400 tracking-widest mb-2">생산 로케이션 (부품 출고 및 제품 입고 위치)</label>
+                <select value={locationId} onChange={(e) => setLocationId(e.target.value)} className="w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400 bg-white">
+                  <option value="">전체 재고 기준 (미지정)</option>
+                  {locations.map(l => <option key={l.id} value={l.id}>{l.code} · {l.name}</option>)}
+                </select>
+              </div>
+            )}
+            <input type="text" value={remarks} onChange={(e) => setRemarks(e.target.value)} placeholder="비고" className="md:col-span-2 w-full px-4 py-3 text-lg border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400" />
+
+            <div className="md:col-span-2">
+              <h3 className="text-base font-black text-slate-800 uppercase tracking-widest mb-3">부품 소요량</h3>
+              {requirements.length === 0 ? (
+                <p className="py-6 text-center text-slate-300 font-black uppercase tracking-widest italic">BOM이 등록되지 않았습니다</p>
+              ) : (
+                <table className="w-full text-left">
+                  <thead className="text-xs text-slate-400 uppercase border-b-2 border-slate-100 font-black tracking-[0.2em]">
+                    <tr>
+                      <th className="px-4 py-3">부품</th>
+                      <th className="px-4 py-3 text-right">대당</th>
+                      <th className="px-4 py-3 text-right">소요</th>
+                      <th className="px-4 py-3 text-right">{locationId ? '로케이션 재고' : '현재 재고'}</th>
+                      <th className="px-4 py-3 text-right">출고 후</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {requirements.map(r => {
+                      const short = !r.part || r.required > r.stock;
+                      return (
+                        <tr key={r.line.partId} className={short ? 'bg-rose-50/60' : ''}>
+                          <td className="px-4 py-3"><span className="font-mono font-black text-indigo-600 mr-2">{r.part?.code || '-'}</span><span className="font-black text-slate-700">{r.part?.name || '삭제된 부품'}</span></td>
+                          <td className="px-4 py-3 text-right font-bold text-slate-500">{r.line.quantity.toLocaleString()}</td>
+                          <td className="px-4 py-3 text-right font-black text-slate-700">{r.required.toLocaleString()}</td>
+                          <td className="px-4 py-3 text-right font-bold text-slate-500">{r.stock.toLocaleString()}</td>
+                          <td className={`px-4 py-3 text-right font-black ${short ? 'text-rose-600' : 'text-slate-700'}`}>{(r.stock - r.required).toLocaleString()}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <button type="submit" disabled={requirements.length === 0 || hasShortage} className="md:col-span-2 w-full py-5 bg-indigo-600 text-white text-lg font-black rounded-2xl shadow-xl hover:bg-indigo-700 transition-all active:scale-95 uppercase tracking-widest disabled:opacity-40 disabled:cursor-not-allowed">
+              {hasShortage ? '부품 재고 부족' : `${count.toLocaleString()}대 생산 등록`}
+            </button>
+          </form>
+
+          <section>
+            <h3 className="text-base font-black text-slate-800 uppercase tracking-widest mb-3">생산 이력 ({history.length})</h3>
+            {history.length === 0 ? (
+              <p className="py-6 text-center text-slate-300 font-black uppercase tracking-widest italic">생산 이력이 없습니다</p>
+            ) : (
+              <table className="w-full text-left">
+                <thead className="text-xs text-slate-400 uppercase border-b-2 border-slate-100 font-black tracking-[0.2em]">
+                  <tr>
+                    <th className="px-4 py-3">생산번호</th>
+                    <th className="px-4 py-3">생산일</th>
+                    <th className="px-4 py-3 text-right">수량</th>
+                    <th className="px-4 py-3">일련번호</th>
+                    <th className="px-4 py-3">등록</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50">
+                  {history.map(p => (
+                    <tr key={p.id}>
+                      <td className="px-4 py-3 font-mono font-black text-indigo-600">{p.productionNumber}</td>
+                      <td className="px-4 py-3 font-bold text-slate-600">{new Date(p.date).toLocaleDateString()}</td>
+                      <td className="px-4 py-3 text-right font-black text-slate-700">{p.quantity.toLocaleString()}</td>
+                      <td className="px-4 py-3 font-mono font-bold text-slate-500">
+                        {p.serialNumbers.length === 0 ? '-' : p.serialNumbers.length === 1 ? p.serialNumbers[0] : `${p.serialNumbers[0]} ~ ${p.serialNumbers[p.serialNumbers.length - 1]}`}
+                      </td>
+                      <td className="px-4 py-3 text-xs font-black text-slate-400">{p.createdBy}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProductionModal;
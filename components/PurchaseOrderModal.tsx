@@ -0,0 +1,409 @@
+
+import React, { useState, useMemo } from 'react';
+import type { Item, Location, PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus } from '../types';
+import type { PurchaseOrderReceipt } from '../services/api';
+import { sortLocations } from '../utils/locations';
+import { lineRemaining, purchaseOrderStatus, purchaseOrderTotal, receivedByLine } from '../utils/purchaseOrders';
+import AddOrderedPartModal from './AddOrderedPartModal';
+import EditOrderedPartModal from './EditOrderedPartModal';
+import { CloseIcon, PlusIcon, EditIcon, TrashIcon, CheckIcon, ArrowDownIcon } from './icons';
+
+interface PurchaseOrderModalProps {
+  orders: PurchaseOrder[];
+  items: Item[];
+  locations: Location[];
+  onCreate: (header: Pick<PurchaseOrder, 'supplier' | 'orderDate' | 'expectedDate' | 'remarks'>) => string;
+  onUpdate: (orderId: string, data: Partial<PurchaseOrder>) => void;
+  onDelete: (orderId: string) => void;
+  onReceive: (orderId: string, receipts: PurchaseOrderReceipt[], date: string, locationId?: string) => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<PurchaseOrderStatus, { label: string; className: string }> = {
+  draft: { label: '작성중', className: 'bg-slate-100 text-slate-500' },
+  ordered: { label: '발주', className: 'bg-indigo-50 text-indigo-600' },
+  partially_received: { label: '부분 입고', className: 'bg-amber-50 text-amber-600' },
+  closed: { label: '종결', className: 'bg-emerald-50 text-emerald-600' },
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+const emptyHeader = () => ({ supplier: '', orderDate: today(), expectedDate: '', remarks: '' });
+
+const PurchaseOrderModal: React.FC<PurchaseOrderModalProps> = ({ orders, items, locations, onCreate, onUpdate, onDelete, onReceive, onClose }) => {
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | 'all' | 'open'>('open');
+  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
+  const [newHeader, setNewHeader] = useState<ReturnType<typeof emptyHeader> | null>(null);
+  const [headerDraft, setHeaderDraft] = useState<ReturnType<typeof emptyHeader> | null>(null);
+  const [showAddLine, setShowAddLine] = useState(false);
+  const [editingLine, setEditingLine] = useState<PurchaseOrderLine | null>(null);
+  const [receiptQuantities, setReceiptQuantities] = useState<Record<string, string>>({});
+  const [receiptLots, setReceiptLots] = useState<Record<string, string>>({});
+  const [receiptDate, setReceiptDate] = useState(today());
+  const [receiptLocationId, setReceiptLocationId] = useState('');
+
+  const received = useMemo(() => receivedByLine(items), [items]);
+  const lotTrackedIds = useMemo(() => new Set(items.filter(i => i.lotTracked).map(i => i.id)), [items]);
+
+  const rows = useMemo(() => orders
+    .map(order => ({ order, status: purchaseOrderStatus(order, received) }))
+    .filter(({ status }) => {
+      if (statusFilter === 'all') return true;
+      if (statusFilter === 'open') return status === 'ordered' || status === 'partially_received';
+      return status === statusFilter;
+    })
+    .sort((a, b) => b.order.orderDate.localeCompare(a.order.orderDate) || b.order.orderNumber.localeCompare(a.order.orderNumber)),
+  [orders, received, statusFilter]);
+
+  const selectedOrder = orders.find(o => o.id === selectedOrderId);
+  const selectedStatus = selectedOrder ? purchaseOrderStatus(selectedOrder, received) : null;
+  const canReceive = selectedStatus === 'ordered' || selectedStatus === 'partially_received';
+  const hasReceipts = !!selectedOrder && selectedOrder.lines.some(line => (received.get(line.id) || 0) > 0);
+
+  const openOrder = (orderId: string) => {
+    setSelectedOrderId(orderId);
+    setHeaderDraft(null);
+    setReceiptQuantities({});
+    setReceiptLots({});
+    setReceiptDate(today());
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newHeader) return;
+    if (!newHeader.supplier.trim()) {
+      alert('거래처를 입력해주세요.');
+      return;
+    }
+    const orderId = onCreate({ ...newHeader, supplier: newHeader.supplier.trim() });
+    setNewHeader(null);
+    openOrder(orderId);
+  };
+
+  const handleSaveHeader = () => {
+    if (!selectedOrder || !headerDraft) return;
+    if (!headerDraft.supplier.trim()) {
+      alert('거래처를 입력해주세요.');
+      return;
+    }
+    onUpdate(selectedOrder.id, { ...headerDraft, supplier: headerDraft.supplier.trim() });
+    setHeaderDraft(null);
+  };
+
+  const handleLinesChange = (lines: PurchaseOrderLine[]) => {
+    if (selectedOrder) onUpdate(selectedOrder.id, { lines });
+  };
+
+  const handleStatusChange = (status: PurchaseOrder['status'], message: string) => {
+    if (!selectedOrder || !confirm(message)) return;
+    onUpdate(selectedOrder.id, { status });
+  };
+
+  const handleDelete = () => {
+    if (!selectedOrder || !confirm(`${selectedOrder.orderNumber || '작성중인'} 발주서를 삭제하시겠습니까?`)) return;
+    onDelete(selectedOrder.id);
+    setSelectedOrderId(null);
+  };
+
+  const handleReceive = () => {
+    if (!selectedOrder) return;
+    const receipts: PurchaseOrderReceipt[] = [];
+    for (const line of selectedOrder.lines) {
+      const quantity = parseInt(receiptQuantities[line.id] || '0', 10) || 0;
+      if (quantity <= 0) continue;
+      if (quantity > lineRemaining(line, received)) {
+        alert(`${line.code}: 입고 수량이 잔량(${lineRemaining(line, received)})을 초과합니다.`);
+        return;
+      }
+      const lotNumber = (receiptLots[line.id] || '').trim().toUpperCase();
+      if (lotTrackedIds.has(line.itemId) && !lotNumber) {
+        alert(`${line.code}: 로트 관리 부품입니다. 로트번호를 입력해주세요.`);
+        return;
+      }
+      receipts.push({ lineId: line.id, quantity, lotNumber: lotNumber || undefined });
+    }
+    if (receipts.length === 0) {
+      alert('입고할 수량을 입력해주세요.');
+      return;
+    }
+    onReceive(selectedOrder.id, receipts, receiptDate, receiptLocationId || undefined);
+    setReceiptQuantities({});
+    setReceiptLots({});
+  };
+
+  const fillRemaining = () => {
+    if (!selectedOrder) return;
+    const filled: Record<string, string> = {};
+    selectedOrder.lines.forEach(line => {
+      const remaining = lineRemaining(line, received);
+      if (remaining > 0) filled[line.id] = String(remaining);
+    });
+    setReceiptQuantities(filled);
+  };
+
+  const renderStatus = (status: PurchaseOrderStatus) => (
+    <span className={`px-3 py-1 rounded-full text-xs font-black whitespace-nowrap ${STATUS_LABELS[status].className}`}>{STATUS_LABELS[status].label}</span>
+  );
+
+  const inputClass = 'w-full px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400';
+  const labelClass = 'block text-xs uppercase font-black text-slate-400 mb-2 tracking-widest';
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[3rem] shadow-2xl w-full max-w-[90vw] flex flex-col h-full max-h-[95vh] overflow-hidden animate-fade-in-up">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div className="flex items-center gap-6">
+            {selectedOrder && (
+              <button onClick={() => setSelectedOrderId(null)} className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-xs font-black text-slate-500 uppercase tracking-widest hover:bg-slate-50">목록</button>
+            )}
+            <div>
+              <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">
+                {selectedOrder ? (selectedOrder.orderNumber || '새 발주서') : '발주 관리'}
+              </h2>
+              {selectedOrder && selectedStatus && <div className="mt-2 flex items-center gap-3">{renderStatus(selectedStatus)}<span className="text-xs font-bold text-slate-400">{selectedOrder.createdBy}</span></div>}
+            </div>
+          </div>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-10 h-10" /></button>
+        </div>
+
+        {!selectedOrder ? (
+          <div className="flex-grow overflow-y-auto p-10 space-y-8">
+            <div className="flex flex-wrap justify-between items-center gap-4">
+              <div className="flex p-1.5 bg-slate-100 rounded-2xl">
+                {([['open', '미입고'], ['draft', '작성중'], ['closed', '종결'], ['all', '전체']] as const).map(([value, label]) => (
+                  <button key={value} onClick={() => setStatusFilter(value)} className={`px-6 py-2.5 text-sm font-black rounded-xl transition-all ${statusFilter === value ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}>{label}</button>
+                ))}
+              </div>
+              <button onClick={() => setNewHeader(emptyHeader())} className="flex items-center gap-2 px-8 py-3 bg-indigo-600 text-white font-black rounded-xl shadow-lg hover:bg-indigo-700 transition-all uppercase tracking-widest">
+                <PlusIcon className="w-5 h-5" /><span>새 발주서</span>
+              </button>
+            </div>
+
+            {newHeader && (
+              <form onSubmit={handleCreate} className="p-6 bg-slate-50/80 rounded-2xl border border-slate-100 grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+                <div className="md:col-span-2">
+                  <label className={labelClass}>거래처 <span className="text-rose-500">*</span></label>
+                  <input type="text" autoFocus value={newHeader.supplier} onChange={(e) => setNewHeader({ ...newHeader, supplier: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>발주일</label>
+                  <input type="date" value={newHeader.orderDate} onChange={(e) => setNewHeader({ ...newHeader, orderDate: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>납기 예정일</label>
+                  <input type="date" value={newHeader.expectedDate} onChange={(e) => setNewHeader({ ...newHeader, expectedDate: e.target.value })} className={inputClass} />
+                </div>
+                <div className="flex gap-2">
+                  <button type="button" onClick={() => setNewHeader(null)} className="flex-1 py-3 bg-slate-100 text-slate-500 rounded-xl font-black text-sm uppercase">취소</button>
+                  <button type="submit" className="flex-1 py-3 bg-indigo-600 text-white rounded-xl font-black text-sm uppercase">작성</button>
+                </div>
+              </form>
+            )}
+
+            {rows.length === 0 ? (
+              <p className="py-20 text-center text-slate-300 font-black uppercase tracking-widest italic text-2xl">발주서가 없습니다</p>
+            ) : (
+              <table className="w-full text-left">
+                <thead className="text-xs text-slate-400 uppercase border-b-2 border-slate-100 font-black tracking-[0.2em]">
+                  <tr>
+                    <th className="px-4 py-4">발주번호</th>
+                    <th className="px-4 py-4">거래처</th>
+                    <th className="px-4 py-4">발주일</th>
+                    <th className="px-4 py-4">납기 예정</th>
+                    <th className="px-4 py-4 text-right">품목 수</th>
+                    <th className="px-4 py-4 text-right">입고 / 발주</th>
+                    <th className="px-4 py-4 text-right">금액</th>
+                    <th className="px-4 py-4 text-center">상태</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50">
+                  {rows.map(({ order, status }) => {
+                    const ordered = order.lines.reduce((acc, line) => acc + line.quantity, 0);
+                    const receivedTotal = order.lines.reduce((acc, line) => acc + Math.min(line.quantity, received.get(line.id) || 0), 0);
+                    const overdue = order.expectedDate && order.expectedDate < today() && (status === 'ordered' || status === 'partially_received');
+                    return (
+                      <tr key={order.id} onClick={() => openOrder(order.id)} className="hover:bg-indigo-50/30 transition-colors cursor-pointer">
+                        <td className="px-4 py-4 font-mono font-black text-indigo-600">{order.orderNumber || '-'}</td>
+                        <td className="px-4 py-4 font-black text-slate-800">{order.supplier}</td>
+                        <td className="px-4 py-4 font-bold text-slate-600">{order.orderDate}</td>
+                        <td className={`px-4 py-4 font-bold ${overdue ? 'text-rose-500' : 'text-slate-600'}`}>{order.expectedDate || '-'}</td>
+                        <td className="px-4 py-4 text-right font-bold text-slate-500">{order.lines.length}</td>
+                        <td className="px-4 py-4 text-right font-black text-slate-700">{receivedTotal.toLocaleString()} / {ordered.toLocaleString()}</td>
+                        <td className="px-4 py-4 text-right font-black text-slate-700">{purchaseOrderTotal(order).toLocaleString()}</td>
+                        <td className="px-4 py-4 text-center">{renderStatus(status)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        ) : (
+          <div className="flex-grow overflow-y-auto p-10 space-y-8">
+            <div className="p-6 bg-slate-50/80 rounded-2xl border border-slate-100">
+              {headerDraft ? (
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <div>
+                    <label className={labelClass}>거래처</label>
+                    <input type="text" value={headerDraft.supplier} onChange={(e) => setHeaderDraft({ ...headerDraft, supplier: e.target.value })} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>발주일</label>
+                    <input type="date" value={headerDraft.orderDate} onChange={(e) => setHeaderDraft({ ...headerDraft, orderDate: e.target.value })} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>납기 예정일</label>
+                    <input type="date" value={headerDraft.expectedDate} onChange={(e) => setHeaderDraft({ ...headerDraft, expectedDate: e.target.value })} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>비고</label>
+                    <input type="text" value={headerDraft.remarks} onChange={(e) => setHeaderDraft({ ...headerDraft, remarks: e.target.value })} className={inputClass} />
+                  </div>
+                  <div className="md:col-span-4 flex justify-end gap-2">
+                    <button onClick={() => setHeaderDraft(null)} className="px-6 py-2 bg-slate-100 text-slate-500 rounded-xl font-black text-sm uppercase">취소</button>
+                    <button onClick={handleSaveHeader} className="flex items-center gap-2 px-6 py-2 bg-indigo-600 text-white rounded-xl font-black text-sm uppercase"><CheckIcon className="w-4 h-4" />저장</button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex flex-wrap justify-between items-start gap-6">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-8">
+                    <div><p className={labelClass}>거래처</p><p className="font-black text-slate-800 text-lg">{selectedOrder.supplier}</p></div>
+                    <div><p className={labelClass}>발주일</p><p className="font-bold text-slate-600">{selectedOrder.orderDate}</p></div>
+                    <div><p className={labelClass}>납기 예정일</p><p className="font-bold text-slate-600">{selectedOrder.expectedDate || '-'}</p></div>
+                    <div><p className={labelClass}>비고</p><p className="font-bold text-slate-600">{selectedOrder.remarks || '-'}</p></div>
+                  </div>
+                  <button onClick={() => setHeaderDraft({ supplier: selectedOrder.supplier, orderDate: selectedOrder.orderDate, expectedDate: selectedOrder.expectedDate, remarks: selectedOrder.remarks })} className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all"><EditIcon className="w-5 h-5" /></button>
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-wrap justify-between items-center gap-4">
+              <h3 className="text-lg font-black text-slate-800 uppercase tracking-widest">발주 품목 ({selectedOrder.lines.length})</h3>
+              <div className="flex flex-wrap gap-2">
+                {selectedStatus === 'draft' && (
+                  <>
+                    <button onClick={() => setShowAddLine(true)} className="flex items-center gap-2 px-5 py-2.5 bg-indigo-50 text-indigo-600 rounded-xl font-black text-sm uppercase hover:bg-indigo-600 hover:text-white transition-all"><PlusIcon className="w-4 h-4" />품목 추가</button>
+                    <button onClick={handleDelete} className="px-5 py-2.5 bg-rose-50 text-rose-600 rounded-xl font-black text-sm uppercase hover:bg-rose-600 hover:text-white transition-all">삭제</button>
+                    <button
+                      onClick={() => selectedOrder.lines.length === 0 ? alert('발주 품목을 먼저 추가해주세요.') : handleStatusChange('ordered', '발주를 확정하시겠습니까? 확정 후에는 품목을 변경할 수 없습니다.')}
+                      className="px-5 py-2.5 bg-indigo-600 text-white rounded-xl font-black text-sm uppercase hover:bg-indigo-700 transition-all"
+                    >발주 확정</button>
+                  </>
+                )}
+                {selectedStatus === 'ordered' && !hasReceipts && (
+                  <button onClick={() => handleStatusChange('draft', '작성중 상태로 되돌리시겠습니까?')} className="px-5 py-2.5 bg-slate-100 text-slate-500 rounded-xl font-black text-sm uppercase hover:bg-slate-200 transition-all">작성중으로</button>
+                )}
+                {canReceive && (
+                  <button onClick={() => handleStatusChange('closed', '미입고 잔량을 남긴 채 발주를 종결하시겠습니까?')} className="px-5 py-2.5 bg-slate-100 text-slate-500 rounded-xl font-black text-sm uppercase hover:bg-slate-200 transition-all">종결</button>
+                )}
+                {selectedOrder.status === 'closed' && (
+                  <button onClick={() => handleStatusChange('ordered', '종결된 발주를 다시 진행하시겠습니까?')} className="px-5 py-2.5 bg-slate-100 text-slate-500 rounded-xl font-black text-sm uppercase hover:bg-slate-200 transition-all">재개</button>
+                )}
+              </div>
+            </div>
+
+            <table className="w-full text-left">
+              <thead className="text-xs text-slate-400 uppercase border-b-2 border-slate-100 font-black tracking-[0.2em]">
+                <tr>
+                  <th className="px-4 py-4">코드</th>
+                  <th className="px-4 py-4">품명</th>
+                  <th className="px-4 py-4">도번 / 규격</th>
+                  <th className="px-4 py-4 text-right">발주</th>
+                  <th className="px-4 py-4 text-right">입고</th>
+                  <th className="px-4 py-4 text-right">잔량</th>
+                  <th className="px-4 py-4 text-right">단가</th>
+                  <th className="px-4 py-4 text-right">금액</th>
+                  <th className="px-4 py-4">비고</th>
+                  {selectedStatus === 'draft' && <th className="px-4 py-4 text-center">관리</th>}
+                  {canReceive && <th className="px-4 py-4 text-center">입고 수량</th>}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {selectedOrder.lines.length === 0 ? (
+                  <tr><td colSpan={10} className="py-12 text-center text-slate-300 font-black uppercase tracking-widest italic">품목이 없습니다</td></tr>
+                ) : selectedOrder.lines.map(line => {
+                  const lineReceived = received.get(line.id) || 0;
+                  const remaining = lineRemaining(line, received);
+                  return (
+                    <tr key={line.id}>
+                      <td className="px-4 py-4 font-mono font-black text-indigo-600">{line.code}</td>
+                      <td className="px-4 py-4 font-black text-slate-800">{line.name}</td>
+                      <td className="px-4 py-4 text-sm font-mono font-bold text-slate-400">{[line.drawingNumber, line.spec].filter(Boolean).join(' / ') || '-'}</td>
+                      <td className="px-4 py-4 text-right font-black text-slate-700">{line.quantity.toLocaleString()}</td>
+                      <td className="px-4 py-4 text-right font-black text-emerald-600">{lineReceived.toLocaleString()}</td>
+                      <td className={`px-4 py-4 text-right font-black ${remaining > 0 ? 'text-rose-500' : 'text-slate-300'}`}>{remaining.toLocaleString()}</td>
+                      <td className="px-4 py-4 text-right font-bold text-slate-600">{line.unitPrice.toLocaleString()}</td>
+                      <td className="px-4 py-4 text-right font-black text-slate-700">{(line.quantity * line.unitPrice).toLocaleString()}</td>
+                      <td className="px-4 py-4 text-sm font-bold text-slate-500">{line.remarks || '-'}</td>
+                      {selectedStatus === 'draft' && (
+                        <td className="px-4 py-4">
+                          <div className="flex justify-center gap-1">
+                            <button onClick={() => setEditingLine(line)} className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all"><EditIcon className="w-5 h-5" /></button>
+                            <button onClick={() => handleLinesChange(selectedOrder.lines.filter(l => l.id !== line.id))} className="p-2 text-slate-300 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-all"><TrashIcon className="w-5 h-5" /></button>
+                          </div>
+                        </td>
+                      )}
+                      {canReceive && (
+                        <td className="px-4 py-4 text-center">
+                          <input type="number" min="0" max={remaining} disabled={remaining === 0} value={receiptQuantities[line.id] || ''} onChange={(e) => setReceiptQuantities({ ...receiptQuantities, [line.id]: e.target.value })} className="w-24 px-3 py-2 border-2 border-slate-100 rounded-xl font-black text-right outline-none focus:border-emerald-400 disabled:bg-slate-50" />
+                          {lotTrackedIds.has(line.itemId) && remaining > 0 && (
+                            <input type="text" value={receiptLots[line.id] || ''} onChange={(e) => setReceiptLots({ ...receiptLots, [line.id]: e.target.value.toUpperCase() })} placeholder="로트번호" className="block w-24 mx-auto mt-2 px-3 py-2 border-2 border-slate-100 rounded-xl font-mono font-black text-sm outline-none focus:border-emerald-400" />
+                          )}
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+              <tfoot className="border-t-2 border-slate-100">
+                <tr>
+                  <td colSpan={7} className="px-4 py-4 text-right text-xs font-black text-slate-400 uppercase tracking-widest">합계</td>
+                  <td className="px-4 py-4 text-right font-black text-slate-900 text-lg">{purchaseOrderTotal(selectedOrder).toLocaleString()}</td>
+                  <td colSpan={2}></td>
+                </tr>
+              </tfoot>
+            </table>
+
+            {canReceive && (
+              <div className="flex flex-wrap justify-end items-end gap-4 p-6 bg-emerald-50/50 rounded-2xl border border-emerald-100">
+                <div>
+                  <label className={labelClass}>입고일</label>
+                  <input type="date" value={receiptDate} onChange={(e) => setReceiptDate(e.target.value)} className={inputClass} />
+                </div>
+                {locations.length > 0 && (
+                  <div>
+                    <label className={labelClass}>입고 로케이션</label>
+                    <select value={receiptLocationId} onChange={(e) => setReceiptLocationId(e.target.value)} className={`${inputClass} bg-white`}>
+                      <option value="">미지정</option>
+                      {sortLocations(locations.filter(l => l.active)).map(l => <option key={l.id} value={l.id}>{l.code} · {l.name}</option>)}
+                    </select>
+                  </div>
+                )}
+                <button onClick={fillRemaining} className="px-6 py-3 bg-white text-emerald-600 border border-emerald-200 rounded-xl font-black text-sm uppercase">잔량 전체 입력</button>
+                <button onClick={handleReceive} className="flex items-center gap-2 px-8 py-3 bg-emerald-600 text-white rounded-xl font-black uppercase tracking-widest shadow-lg hover:bg-emerald-700 transition-all">
+                  <ArrowDownIcon className="w-5 h-5" /><span>입고 처리</span>
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {showAddLine && selectedOrder && (
+        <AddOrderedPartModal
+          items={items}
+          onAdd={(line) => handleLinesChange([...selectedOrder.lines, line])}
+          onClose={() => setShowAddLine(false)}
+        />
+      )}
+      {editingLine && selectedOrder && (
+        <EditOrderedPartModal
+          line={editingLine}
+          onSave={(updated) => handleLinesChange(selectedOrder.lines.map(l => l.id === updated.id ? updated : l))}
+          onClose={() => setEditingLine(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PurchaseOrderModal;
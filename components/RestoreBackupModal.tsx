@@ -0,0 +1,208 @@
+import React, { useState, useMemo } from 'react';
+import type { Item, Transaction } from '../types';
+import { diffBackup, resolveChoice, restoreItems } from '../utils/backupRestore';
+import type { ChangeKind, ItemChoice, ItemDiff, RestoreMode } from '../utils/backupRestore';
+import { FIELD_LABELS, formatFieldValue } from '../utils/fieldLabels';
+import { transactionLabel } from '../utils/transactionTypes';
+import { CloseIcon } from './icons';
+
+interface RestoreBackupModalProps {
+  backupItems: Item[];
+  exportDate?: string;
+  currentItems: Item[];
+  onRestore: (items: Item[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<ChangeKind, { label: string; className: string }> = {
+  added: { label: '백업에만 있음', className: 'bg-emerald-50 text-emerald-600' },
+  removed: { label: '현재에만 있음', className: 'bg-rose-50 text-rose-600' },
+  changed: { label: '변경됨', className: 'bg-indigo-50 text-indigo-600' },
+  unchanged: { label: '동일', className: 'bg-slate-100 text-slate-400' },
+};
+
+const MODES: { mode: RestoreMode; label: string; description: string }[] = [
+  { mode: 'replace', label: '전체 교체', description: '현재 품목과 입출고 기록을 모두 백업 내용으로 바꿉니다. 백업 이후에 추가된 기록은 사라집니다.' },
+  { mode: 'keep_both', label: '병합: 둘 다 유지', description: '양쪽의 품목과 입출고 기록을 모두 남깁니다. 같은 기록이 서로 다르면 현재 데이터를 따릅니다.' },
+  { mode: 'backup_wins', label: '병합: 백업 우선', description: '양쪽에 있는 품목은 백업 내용으로 되돌리고, 현재에만 있는 품목은 그대로 둡니다.' },
+  { mode: 'current_wins', label: '병합: 현재 우선', description: '백업에만 있는 품목만 추가하고, 양쪽에 있는 품목은 현재 데이터를 유지합니다.' },
+  { mode: 'select', label: '품목별 선택', description: '차이가 있는 품목마다 백업, 현재, 둘 다 중에서 고릅니다.' },
+];
+
+const CHOICE_LABELS: Record<ItemChoice, string> = { backup: '백업', current: '현재', both: '둘 다' };
+
+const describeTransaction = (t: Transaction) =>
+  [new Date(t.date).toLocaleDateString(), transactionLabel(t), `${t.quantity}개`, t.serialNumber, t.remarks].filter(Boolean).join(' · ');
+
+const RestoreBackupModal: React.FC<RestoreBackupModalProps> = ({ backupItems, exportDate, currentItems, onRestore, onClose }) => {
+  const diffs = useMemo(() => diffBackup(backupItems, currentItems), [backupItems, currentItems]);
+  const [mode, setMode] = useState<RestoreMode>('current_wins');
+  const [choices, setChoices] = useState<Record<string, ItemChoice>>({});
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const counts = useMemo(() => {
+    const byKind: Record<ChangeKind, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+    let addedTransactions = 0, removedTransactions = 0, changedTransactions = 0;
+    diffs.forEach(d => {
+      byKind[d.kind]++;
+      addedTransactions += d.kind === 'added' ? d.backup!.transactions.length : d.transactions.added.length;
+      removedTransactions += d.kind === 'removed' ? d.current!.transactions.length : d.transactions.removed.length;
+      changedTransactions += d.transactions.changed.length;
+    });
+    return { byKind, addedTransactions, removedTransactions, changedTransactions };
+  }, [diffs]);
+
+  const result = useMemo(() => restoreItems(diffs, mode, choices), [diffs, mode, choices]);
+  const resultTransactions = result.reduce((sum, item) => sum + item.transactions.length, 0);
+  const currentTransactions = currentItems.reduce((sum, item) => sum + item.transactions.length, 0);
+  const visibleDiffs = showUnchanged ? diffs : diffs.filter(d => d.kind !== 'unchanged');
+
+  const setChoice = (diff: ItemDiff, choice: ItemChoice) => setChoices(prev => ({ ...prev, [diff.id]: choice }));
+
+  const handleRestore = async () => {
+    const removedItems = currentItems.length - result.filter(item => currentItems.some(c => c.id === item.id)).length;
+    const lostTransactions = Math.max(0, currentTransactions - resultTransactions);
+    const warning = removedItems > 0 || lostTransactions > 0 ? `\n현재 품목 ${removedItems}개가 제외되고 입출고 기록이 ${lostTransactions}건 줄어듭니다. (제외된 기록은 휴지통으로 이동)` : '';
+    if (!confirm(`백업을 복원하시겠습니까? (품목 ${result.length}개, 입출고 ${resultTransactions}건)${warning}\n복원한 내용은 클라우드에 저장됩니다.`)) return;
+    setIsRestoring(true);
+    try {
+      await onRestore(result);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[3rem] shadow-2xl w-full max-w-[90vw] flex flex-col h-full max-h-[95vh] overflow-hidden animate-fade-in-up">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">백업 복원</h2>
+            <p className="text-xs text-slate-400 font-bold mt-1 uppercase tracking-widest">
+              {exportDate ? `${new Date(exportDate).toLocaleString()} 백업` : '백업 파일'}과 현재 데이터 비교 · 복원을 실행하기 전에는 아무것도 저장되지 않습니다
+            </p>
+          </div>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-10 h-10" /></button>
+        </div>
+
+        <div className="px-10 pt-8 grid grid-cols-2 md:grid-cols-4 gap-4">
+          {(['added', 'removed', 'changed', 'unchanged'] as ChangeKind[]).map(kind => (
+            <div key={kind} className="p-5 rounded-2xl border-2 border-slate-100">
+              <p className="text-xs font-black text-slate-400 uppercase tracking-widest">{KIND_LABELS[kind].label}</p>
+              <p className="text-3xl font-black text-slate-800 mt-1">{counts.byKind[kind].toLocaleString()}<span className="text-base text-slate-400 ml-1">품목</span></p>
+              {kind === 'added' && <p className="text-xs font-bold text-slate-400 mt-1">입출고 {counts.addedTransactions.toLocaleString()}건 추가</p>}
+              {kind === 'removed' && <p className="text-xs font-bold text-slate-400 mt-1">입출고 {counts.removedTransactions.toLocaleString()}건 백업에 없음</p>}
+              {kind === 'changed' && <p className="text-xs font-bold text-slate-400 mt-1">입출고 {counts.changedTransactions.toLocaleString()}건 내용 다름</p>}
+            </div>
+          ))}
+        </div>
+
+        <div className="px-10 pt-6 flex flex-wrap gap-2">
+          {MODES.map(m => (
+            <button key={m.mode} onClick={() => setMode(m.mode)} className={`px-5 py-3 rounded-xl text-xs font-black uppercase tracking-widest transition-all ${mode === m.mode ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}>{m.label}</button>
+          ))}
+        </div>
+        <p className="px-10 pt-3 text-sm font-bold text-slate-500">{MODES.find(m => m.mode === mode)!.description}</p>
+
+        <div className="flex-grow overflow-y-auto px-10 py-6">
+          <label className="flex items-center gap-2 mb-4 text-sm font-bold text-slate-500 cursor-pointer">
+            <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} className="w-4 h-4 accent-indigo-600" />
+            동일한 품목도 표시
+          </label>
+          {visibleDiffs.length === 0 ? (
+            <p className="py-20 text-center text-slate-300 font-black uppercase tracking-widest italic text-2xl">백업과 현재 데이터가 같습니다</p>
+          ) : (
+            <table className="w-full text-left">
+              <thead className="text-xs text-slate-400 uppercase border-b-2 border-slate-100 font-black tracking-[0.2em] sticky top-0 bg-white">
+                <tr>
+                  <th className="px-4 py-4">구분</th>
+                  <th className="px-4 py-4">품목</th>
+                  <th className="px-4 py-4">차이</th>
+                  <th className="px-4 py-4">복원 결과</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {visibleDiffs.map(diff => {
+                  const choice = resolveChoice(diff, mode, choices);
+                  const expanded = expandedId === diff.id;
+                  const summary = [
+                    diff.fields.length > 0 ? `항목 ${diff.fields.length}개 변경` : '',
+                    diff.transactions.added.length > 0 ? `입출고 +${diff.transactions.added.length}` : '',
+                    diff.transactions.removed.length > 0 ? `입출고 -${diff.transactions.removed.length}` : '',
+                    diff.transactions.changed.length > 0 ? `입출고 ${diff.transactions.changed.length}건 수정` : '',
+                  ].filter(Boolean).join(' · ');
+                  return (
+                    <React.Fragment key={diff.id}>
+                      <tr className="align-top">
+                        <td className="px-4 py-4"><span className={`px-3 py-1 rounded-full text-[10px] font-black uppercase ${KIND_LABELS[diff.kind].className}`}>{KIND_LABELS[diff.kind].label}</span></td>
+                        <td className="px-4 py-4"><span className="font-mono font-black text-indigo-600 mr-2">{diff.code}</span><span className="font-black text-slate-800">{diff.name}</span></td>
+                        <td className="px-4 py-4">
+                          {diff.kind === 'changed' ? (
+                            <button onClick={() => setExpandedId(expanded ? null : diff.id)} className="text-sm font-bold text-indigo-600 hover:underline">{summary} {expanded ? '▲' : '▼'}</button>
+                          ) : (
+                            <span className="text-sm font-bold text-slate-400">입출고 {((diff.backup || diff.current)!.transactions.length).toLocaleString()}건</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-4">
+                          {mode === 'select' && diff.kind !== 'unchanged' ? (
+                            <div className="flex gap-1">
+                              {(diff.kind === 'changed' ? ['backup', 'current', 'both'] as ItemChoice[] : ['backup', 'current'] as ItemChoice[]).map(c => (
+                                <button key={c} onClick={() => setChoice(diff, c)} className={`px-3 py-1.5 rounded-lg text-xs font-black ${choice === c ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}>
+                                  {diff.kind === 'added' && c === 'current' ? '추가 안 함' : diff.kind === 'removed' && c === 'backup' ? '삭제' : CHOICE_LABELS[c]}
+                                </button>
+                              ))}
+                            </div>
+                          ) : (
+                            <span className="text-sm font-black text-slate-600">
+                              {diff.kind === 'unchanged' ? '유지'
+                                : diff.kind === 'added' ? (choice === 'backup' ? '추가' : '추가 안 함')
+                                : diff.kind === 'removed' ? (choice === 'current' ? '유지' : '삭제')
+                                : `${CHOICE_LABELS[choice]} 기준`}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                      {expanded && (
+                        <tr>
+                          <td colSpan={4} className="px-4 pb-6">
+                            <div className="p-5 bg-slate-50 rounded-2xl space-y-2 text-sm">
+                              {diff.fields.map(f => (
+                                <p key={f.field} className="font-bold text-slate-600">
+                                  {FIELD_LABELS[f.field] || f.field}: <span className="text-emerald-600">백업 {formatFieldValue(f.backup)}</span> / <span className="text-indigo-600">현재 {formatFieldValue(f.current)}</span>
+                                </p>
+                              ))}
+                              {diff.transactions.added.map(t => <p key={`a-${t.id}`} className="font-bold text-emerald-600">+ 백업에만 있는 기록: {describeTransaction(t)}</p>)}
+                              {diff.transactions.removed.map(t => <p key={`r-${t.id}`} className="font-bold text-rose-600">- 현재에만 있는 기록: {describeTransaction(t)}</p>)}
+                              {diff.transactions.changed.map(({ backup, current }) => (
+                                <p key={`c-${backup.id}`} className="font-bold text-indigo-600">≠ 백업 {describeTransaction(backup)} / 현재 {describeTransaction(current)}</p>
+                              ))}
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="px-10 py-6 border-t border-slate-100 flex items-center justify-between bg-slate-50/50">
+          <span className="text-sm font-black text-slate-500">
+            복원 후: 품목 {result.length.toLocaleString()}개 · 입출고 {resultTransactions.toLocaleString()}건
+            <span className="text-slate-400 ml-2">(현재 품목 {currentItems.length.toLocaleString()}개 · 입출고 {currentTransactions.toLocaleString()}건)</span>
+          </span>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-8 py-4 bg-slate-100 text-slate-600 font-black rounded-xl uppercase tracking-widest">취소</button>
+            <button onClick={handleRestore} disabled={isRestoring} className="px-10 py-4 bg-indigo-600 text-white font-black rounded-xl shadow-lg hover:bg-indigo-700 transition-all uppercase tracking-widest disabled:opacity-40">{isRestoring ? '복원 중...' : '복원 실행'}</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RestoreBackupModal;
@@ -0,0 +1,331 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import type { Item, Location, Transaction } from '../types';
+import { NO_LOT, stockBalance } from '../utils/inventory';
+import { locationLabel, sortLocations } from '../utils/locations';
+import { allocateFifo, lotBalances, lotBalancesAt } from '../utils/lots';
+import { inStockSerials, parseSerialRange } from '../utils/serials';
+import { ArrowDownIcon, ArrowUpIcon, CloseIcon, TrashIcon } from './icons';
+
+interface ScanModeModalProps {
+  items: Item[];
+  allUsedSerials: string[];
+  locations: Location[];
+  onAddTransactions: (itemId: string, transactions: Omit<Transaction, 'id'>[]) => void;
+  onClose: () => void;
+}
+
+type Direction = 'in' | 'out';
+
+interface PendingLine {
+  key: string;
+  itemId: string;
+  serialNumber?: string; // 제품은 일련번호 한 건당 한 줄, 부품은 품목당 한 줄에 수량을 누적
+  quantity: number;
+}
+
+interface Feedback {
+  tone: 'ok' | 'warn' | 'error';
+  message: string;
+}
+
+const DIRECTION_LABELS: Record<Direction, string> = { in: '입고', out: '출고' };
+
+let audioContext: AudioContext | null = null;
+
+// Short high beep for a good scan, a lower double beep for anything that needs attention
+const beep = (tone: Feedback['tone']) => {
+  try {
+    audioContext = audioContext || new AudioContext();
+    const ctx = audioContext;
+    const pulses = tone === 'ok' ? [0] : [0, 0.18];
+    pulses.forEach(offset => {
+      const oscillator = ctx.createOscillator();
+      const gain = ctx.createGain();
+      oscillator.type = tone === 'ok' ? 'sine' : 'square';
+      oscillator.frequency.value = tone === 'ok' ? 1760 : tone === 'warn' ? 660 : 220;
+      gain.gain.value = 0.15;
+      oscillator.connect(gain).connect(ctx.destination);
+      oscillator.start(ctx.currentTime + offset);
+      oscillator.stop(ctx.currentTime + offset + (tone === 'ok' ? 0.08 : 0.14));
+    });
+  } catch {
+    // No audio device or autoplay blocked: the on-screen feedback still shows
+  }
+};
+
+const ScanModeModal: React.FC<ScanModeModalProps> = ({ items, allUsedSerials, locations, onAddTransactions, onClose }) => {
+  const [direction, setDirection] = useState<Direction>('in');
+  const [locationId, setLocationId] = useState('');
+  const [remarks, setRemarks] = useState('');
+  const [scanInput, setScanInput] = useState('');
+  const [currentItemId, setCurrentItemId] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingLine[]>([]);
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const itemsByCode = useMemo(() => new Map(items.map(i => [i.code.trim().toUpperCase(), i])), [items]);
+  const itemsById = useMemo(() => new Map(items.map(i => [i.id, i])), [items]);
+  const usedSerials = useMemo(() => new Set(allUsedSerials), [allUsedSerials]);
+  // Serial -> the product currently holding it, for releases
+  const serialHolders = useMemo(() => {
+    const holders = new Map<string, Item>();
+    items.forEach(item => { if (item.type === 'product') inStockSerials(item).forEach(s => holders.set(s, item)); });
+    return holders;
+  }, [items]);
+  const currentItem = currentItemId ? itemsById.get(currentItemId) : undefined;
+  const pendingSerials = useMemo(() => new Set(pending.flatMap(l => l.serialNumber ? [l.serialNumber] : [])), [pending]);
+  const totalQuantity = pending.reduce((sum, l) => sum + l.quantity, 0);
+
+  useEffect(() => { inputRef.current?.focus(); }, []);
+
+  const notify = (tone: Feedback['tone'], message: string) => {
+    setFeedback({ tone, message });
+    beep(tone);
+  };
+
+  const changeDirection = (next: Direction) => {
+    if (next === direction) return;
+    if (pending.length > 0 && !confirm('방향을 바꾸면 스캔한 목록이 초기화됩니다. 계속하시겠습니까?')) return;
+    setDirection(next);
+    setPending([]);
+    setFeedback(null);
+    inputRef.current?.focus();
+  };
+
+  const addPartQuantity = (item: Item, quantity: number) => {
+    setPending(prev => {
+      const line = prev.find(l => l.itemId === item.id && !l.serialNumber);
+      if (line) return prev.map(l => l === line ? { ...l, quantity: l.quantity + quantity } : l);
+      return [...prev, { key: `${item.id}`, itemId: item.id, quantity }];
+    });
+  };
+
+  const scanItemCode = (item: Item) => {
+    setCurrentItemId(item.id);
+    if (item.type === 'product') {
+      notify('ok', `${item.code} ${item.name} 선택 — 일련번호를 스캔하세요`);
+      return;
+    }
+    if (direction === 'in' && item.lotTracked) {
+      notify('error', `${item.code}: 로트 관리 품목은 상세 화면에서 로트번호와 함께 입고하세요`);
+      return;
+    }
+    const scanned = pending.find(l => l.itemId === item.id && !l.serialNumber)?.quantity || 0;
+    if (direction === 'out' && scanned + 1 > stockBalance(item).total) {
+      notify('error', `${item.code} 재고 부족! (현재 ${stockBalance(item).total})`);
+      return;
+    }
+    addPartQuantity(item, 1);
+    notify('ok', `${item.code} ${item.name} +1`);
+  };
+
+  const scanSerials = (value: string) => {
+    let serials: string[];
+    try {
+      serials = parseSerialRange(value);
+    } catch (err: any) {
+      notify('error', err.message);
+      return;
+    }
+    const product = currentItem?.type === 'product' ? currentItem : undefined;
+    if (direction === 'in' && !product) {
+      notify('error', `등록되지 않은 코드: ${value}`);
+      return;
+    }
+    const repeated = serials.filter(s => pendingSerials.has(s));
+    if (repeated.length > 0) { notify('warn', `이미 스캔한 일련번호: ${repeated.slice(0, 5).join(', ')}`); return; }
+    const lines: PendingLine[] = [];
+    if (direction === 'in') {
+      const duplicates = serials.filter(s => usedSerials.has(s));
+      if (duplicates.length > 0) { notify('error', `이미 등록된 일련번호: ${duplicates.slice(0, 5).join(', ')}`); return; }
+      serials.forEach(s => lines.push({ key: `${product!.id}-${s}`, itemId: product!.id, serialNumber: s, quantity: 1 }));
+    } else {
+      const missing = serials.filter(s => !serialHolders.has(s));
+      if (missing.length > 0) {
+        notify('error', serials.length === 1 && !usedSerials.has(value) ? `등록되지 않은 코드: ${value}` : `재고에 없는 일련번호: ${missing.slice(0, 5).join(', ')}`);
+        return;
+      }
+      serials.forEach(s => {
+        const holder = serialHolders.get(s)!;
+        lines.push({ key: `${holder.id}-${s}`, itemId: holder.id, serialNumber: s, quantity: 1 });
+      });
+      setCurrentItemId(lines[lines.length - 1].itemId);
+    }
+    setPending(prev => [...prev, ...lines]);
+    const item = itemsById.get(lines[0].itemId);
+    notify('ok', serials.length > 1 ? `${item?.code} 일련번호 ${serials.length}건 추가` : `${item?.code} ${serials[0]}`);
+  };
+
+  const handleScan = () => {
+    const value = scanInput.trim().toUpperCase();
+    setScanInput('');
+    if (!value) return;
+    const item = itemsByCode.get(value);
+    if (item) scanItemCode(item);
+    else scanSerials(value);
+  };
+
+  const removeLine = (key: string) => {
+    setPending(prev => prev.filter(l => l.key !== key));
+    inputRef.current?.focus();
+  };
+
+  const setLineQuantity = (key: string, value: string) => {
+    const quantity = parseInt(value, 10);
+    setPending(prev => prev.map(l => l.key === key ? { ...l, quantity: isNaN(quantity) ? 0 : Math.max(0, quantity) } : l));
+  };
+
+  // Builds every transaction per item, or stops at the first line that would take stock below zero
+  const buildTransactions = (): Map<string, Omit<Transaction, 'id'>[]> | null => {
+    const type: Transaction['type'] = direction === 'in' ? 'purchase' : 'release';
+    const date = new Date().toISOString();
+    const base = { type, date, locationId: locationId || undefined, remarks, modelName: '', userId: '', customerName: '', address: '', phoneNumber: '' };
+    const byItem = new Map<string, Omit<Transaction, 'id'>[]>();
+    for (const line of pending) {
+      const item = itemsById.get(line.itemId);
+      if (!item || line.quantity <= 0) continue;
+      const transactions = byItem.get(item.id) || [];
+      if (line.serialNumber) {
+        if (direction === 'in' && usedSerials.has(line.serialNumber)) { alert(`이미 등록된 일련번호: ${line.serialNumber}`); return null; }
+        if (direction === 'out' && serialHolders.get(line.serialNumber)?.id !== item.id) { alert(`재고에 없는 일련번호: ${line.serialNumber}`); return null; }
+        transactions.push({ ...base, quantity: 1, serialNumber: line.serialNumber });
+      } else if (direction === 'out') {
+        const balance = stockBalance(item);
+        const available = locationId ? balance.byLocation.get(locationId) || 0 : balance.total;
+        if (line.quantity > available) {
+          alert(`${item.code} ${locationId ? `${locationLabel(locations, locationId)} ` : ''}재고 부족! (현재 ${available})`);
+          return null;
+        }
+        const lots = lotBalances(item);
+        if (item.lotTracked || lots.some(l => l.lotNumber !== NO_LOT)) {
+          // With a session location, only the lots held there are drawn
+          const { picks, shortfall } = allocateFifo(locationId ? lotBalancesAt(item, locationId) : lots, line.quantity);
+          if (shortfall > 0 && item.lotTracked) {
+            alert(`${item.code} ${locationId ? `${locationLabel(locations, locationId)} ` : ''}로트 재고 부족!`);
+            return null;
+          }
+          if (shortfall > 0) picks.push({ lotNumber: NO_LOT, quantity: shortfall });
+          picks.forEach(p => transactions.push({ ...base, quantity: p.quantity, lotNumber: p.lotNumber || undefined, serialNumber: '' }));
+        } else {
+          transactions.push({ ...base, quantity: line.quantity, serialNumber: '' });
+        }
+      } else {
+        transactions.push({ ...base, quantity: line.quantity, serialNumber: '' });
+      }
+      byItem.set(item.id, transactions);
+    }
+    return byItem;
+  };
+
+  const handleConfirm = () => {
+    if (totalQuantity <= 0) { alert('스캔한 항목이 없습니다.'); return; }
+    const byItem = buildTransactions();
+    if (!byItem) return;
+    if (!confirm(`${byItem.size}개 품목, 총 ${totalQuantity.toLocaleString()}개를 ${DIRECTION_LABELS[direction]} 처리하시겠습니까?`)) return;
+    byItem.forEach((transactions, itemId) => onAddTransactions(itemId, transactions));
+    setPending([]);
+    setCurrentItemId(null);
+    notify('ok', `${DIRECTION_LABELS[direction]} ${totalQuantity.toLocaleString()}개 등록 완료`);
+    inputRef.current?.focus();
+  };
+
+  const handleClose = () => {
+    if (pending.length > 0 && !confirm('등록하지 않은 스캔 목록이 있습니다. 닫으시겠습니까?')) return;
+    onClose();
+  };
+
+  const feedbackClass = !feedback ? 'bg-slate-800 text-slate-400'
+    : feedback.tone === 'ok' ? 'bg-emerald-500 text-white'
+    : feedback.tone === 'warn' ? 'bg-amber-400 text-amber-950'
+    : 'bg-rose-600 text-white animate-pulse';
+
+  return (
+    <div className="fixed inset-0 bg-slate-900 z-50 flex flex-col font-sans text-white" onClick={(e) => { if (e.target === e.currentTarget) inputRef.current?.focus(); }}>
+      <div className="px-10 py-6 flex flex-wrap items-center gap-6 border-b border-slate-800">
+        <h2 className="text-3xl font-black tracking-tight uppercase mr-auto">스캔 모드</h2>
+        <div className="flex gap-2">
+          {(['in', 'out'] as Direction[]).map(d => (
+            <button key={d} onClick={() => changeDirection(d)} className={`flex items-center gap-2 px-8 py-4 rounded-2xl text-lg font-black uppercase tracking-widest transition-all ${direction === d ? (d === 'in' ? 'bg-emerald-500 text-white' : 'bg-rose-500 text-white') : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}>
+              {d === 'in' ? <ArrowDownIcon className="w-5 h-5" /> : <ArrowUpIcon className="w-5 h-5" />}
+              <span>{DIRECTION_LABELS[d]}</span>
+            </button>
+          ))}
+        </div>
+        {locations.length > 0 && (
+          <select value={locationId} onChange={(e) => setLocationId(e.target.value)} className="px-5 py-4 rounded-2xl bg-slate-800 border-2 border-slate-700 font-bold outline-none focus:border-indigo-400">
+            <option value="">로케이션 미지정</option>
+            {sortLocations(locations).map(l => <option key={l.id} value={l.id}>{l.code} · {l.name}</option>)}
+          </select>
+        )}
+        <input type="text" value={remarks} onChange={(e) => setRemarks(e.target.value)} placeholder="비고 (전체 적용)" className="px-5 py-4 rounded-2xl bg-slate-800 border-2 border-slate-700 font-bold outline-none focus:border-indigo-400 w-64" />
+        <button onClick={handleClose} className="p-3 text-slate-400 hover:text-white transition-colors"><CloseIcon className="w-10 h-10" /></button>
+      </div>
+
+      <div className="px-10 pt-8 space-y-4">
+        <input
+          ref={inputRef} type="text" value={scanInput} autoComplete="off"
+          onChange={(e) => setScanInput(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleScan(); } }}
+          placeholder="품번 또는 일련번호를 스캔하세요"
+          className="w-full px-8 py-6 rounded-3xl bg-white text-slate-900 text-4xl font-mono font-black outline-none ring-4 ring-indigo-500/40 focus:ring-indigo-400"
+        />
+        <div className={`px-8 py-5 rounded-3xl text-2xl font-black transition-colors ${feedbackClass}`}>
+          {feedback?.message || '품번을 스캔하면 품목이 선택되고, 제품 일련번호를 스캔하면 목록에 추가됩니다'}
+        </div>
+        <p className="text-sm font-bold text-slate-400 uppercase tracking-widest">
+          현재 품목: {currentItem ? <span className="text-white font-mono">{currentItem.code} · {currentItem.name}</span> : '없음'}
+        </p>
+      </div>
+
+      <div className="flex-grow overflow-y-auto px-10 py-6">
+        {pending.length === 0 ? (
+          <p className="py-20 text-center text-slate-600 font-black uppercase tracking-widest italic text-2xl">스캔한 항목이 없습니다</p>
+        ) : (
+          <table className="w-full text-left">
+            <thead className="text-xs text-slate-500 uppercase border-b-2 border-slate-800 font-black tracking-[0.2em] sticky top-0 bg-slate-900">
+              <tr>
+                <th className="px-4 py-4">품번</th>
+                <th className="px-4 py-4">품명</th>
+                <th className="px-4 py-4">일련번호</th>
+                <th className="px-4 py-4 text-right">수량</th>
+                <th className="px-4 py-4"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800">
+              {[...pending].reverse().map(line => {
+                const item = itemsById.get(line.itemId);
+                return (
+                  <tr key={line.key}>
+                    <td className="px-4 py-3 font-mono font-black text-indigo-300">{item?.code}</td>
+                    <td className="px-4 py-3 font-bold">{item?.name}</td>
+                    <td className="px-4 py-3 font-mono font-black">{line.serialNumber || '-'}</td>
+                    <td className="px-4 py-3 text-right">
+                      {line.serialNumber ? <span className="font-black">1</span> : (
+                        <input type="number" min="0" value={line.quantity} onChange={(e) => setLineQuantity(line.key, e.target.value)} onBlur={() => inputRef.current?.focus()} className="w-24 px-3 py-2 rounded-xl bg-slate-800 border-2 border-slate-700 text-right font-black outline-none focus:border-indigo-400" />
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <button onClick={() => removeLine(line.key)} className="p-2 text-slate-500 hover:text-rose-400 transition-colors"><TrashIcon className="w-5 h-5" /></button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="px-10 py-6 border-t border-slate-800 flex items-center justify-between">
+        <span className="text-xl font-black text-slate-300">{pending.length}줄 · 총 {totalQuantity.toLocaleString()}개</span>
+        <div className="flex gap-4">
+          <button onClick={() => { if (confirm('스캔한 목록을 비우시겠습니까?')) setPending([]); inputRef.current?.focus(); }} disabled={pending.length === 0} className="px-8 py-4 bg-slate-800 text-slate-300 font-black rounded-2xl uppercase tracking-widest disabled:opacity-40">비우기</button>
+          <button onClick={handleConfirm} disabled={totalQuantity <= 0} className={`px-12 py-4 text-white font-black rounded-2xl shadow-lg uppercase tracking-widest text-lg disabled:opacity-40 ${direction === 'in' ? 'bg-emerald-600 hover:bg-emerald-700' : 'bg-rose-600 hover:bg-rose-700'}`}>
+            {DIRECTION_LABELS[direction]} 확정
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScanModeModal;
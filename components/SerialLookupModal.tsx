@@ -0,0 +1,205 @@
+import React, { useState, useMemo } from 'react';
+import type { Item, Location, ProductionRecord } from '../types';
+import { collectSerials, stockChange } from '../utils/inventory';
+import { locationLabel } from '../utils/locations';
+import { serialLifecycle } from '../utils/serials';
+import type { SerialEvent } from '../utils/serials';
+import { reasonLabel, transactionLabel } from '../utils/transactionTypes';
+import { WARRANTY_STATE_LABELS, formatDay, warrantyStatus } from '../utils/warranty';
+import type { WarrantyState } from '../utils/warranty';
+import { CloseIcon, SearchIcon, ArrowUpIcon, ArrowDownIcon } from './icons';
+
+interface SerialLookupModalProps {
+  items: Item[];
+  productions: ProductionRecord[];
+  locations: Location[];
+  initialSerial?: string;
+  onSelectItem: (itemId: string) => void;
+  onClose: () => void;
+}
+
+const MAX_SUGGESTIONS = 20;
+
+const WARRANTY_STATE_COLORS: Record<WarrantyState, string> = {
+  active: 'text-emerald-600',
+  expiring: 'text-amber-600',
+  expired: 'text-rose-600',
+  returned: 'text-slate-400',
+};
+
+const eventLabel = (event: SerialEvent) => {
+  const { transaction } = event;
+  if (transaction.type === 'purchase' && event.isReturn) return '반품 입고';
+  if (transaction.type === 'purchase' && event.production) return '생산 입고';
+  return transactionLabel(transaction);
+};
+
+const SerialLookupModal: React.FC<SerialLookupModalProps> = ({ items, productions, locations, initialSerial = '', onSelectItem, onClose }) => {
+  const [query, setQuery] = useState(initialSerial);
+  const [serial, setSerial] = useState(initialSerial);
+
+  const allSerials = useMemo(() => collectSerials(items).sort(), [items]);
+  const suggestions = useMemo(() => {
+    const term = query.trim();
+    if (!term || term === serial) return [];
+    return allSerials.filter(s => s.includes(term)).slice(0, MAX_SUGGESTIONS);
+  }, [allSerials, query, serial]);
+  const lifecycle = useMemo(() => serial ? serialLifecycle(items, productions, serial) : null, [items, productions, serial]);
+  const lastReceipt = lifecycle ? [...lifecycle.events].reverse().find(e => stockChange(e.transaction) > 0) : undefined;
+  const lastOutbound = lifecycle ? [...lifecycle.events].reverse().find(e => stockChange(e.transaction) < 0) : undefined;
+  // Warranty of the unit as last sold; a returned unit is no longer covered
+  const warranty = lifecycle?.lastRelease ? warrantyStatus(lifecycle.lastRelease.item, lifecycle.lastRelease.transaction) : null;
+  const statusLabel = lifecycle?.inStock ? '재고 보유' : lastOutbound?.transaction.type === 'scrap' ? '폐기됨' : '출고됨';
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const term = query.trim();
+    if (!term) return;
+    // A partial entry that matches exactly one serial opens it directly
+    const exact = allSerials.includes(term) ? term : suggestions.length === 1 ? suggestions[0] : term;
+    setQuery(exact);
+    setSerial(exact);
+  };
+
+  const selectSerial = (value: string) => {
+    setQuery(value);
+    setSerial(value);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[3rem] shadow-2xl w-full max-w-[90vw] flex flex-col h-full max-h-[95vh] overflow-hidden animate-fade-in-up">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">일련번호 조회</h2>
+            <p className="text-xs text-slate-400 font-bold mt-1 uppercase tracking-widest">입고부터 출고·반품까지 전체 이력</p>
+          </div>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-10 h-10" /></button>
+        </div>
+        <div className="px-10 pt-8">
+          <form onSubmit={handleSearch} className="relative max-w-2xl">
+            <span className="absolute inset-y-0 left-0 flex items-center pl-5"><SearchIcon className="text-slate-400 w-6 h-6" /></span>
+            <input
+              type="text" autoFocus value={query} onChange={(e) => setQuery(e.target.value.toUpperCase())}
+              placeholder="일련번호 입력 또는 스캔"
+              className="w-full pl-14 pr-32 py-4 border-2 border-slate-100 rounded-2xl focus:outline-none focus:border-indigo-400 bg-white font-mono font-black text-xl"
+            />
+            <button type="submit" className="absolute right-2 top-2 bottom-2 px-6 bg-indigo-600 text-white rounded-xl font-black text-sm uppercase tracking-widest hover:bg-indigo-700 transition-all">조회</button>
+            {suggestions.length > 0 && (
+              <div className="absolute left-0 right-0 mt-2 bg-white border-2 border-slate-100 rounded-2xl shadow-xl z-10 max-h-72 overflow-y-auto">
+                {suggestions.map(s => (
+                  <button key={s} type="button" onClick={() => selectSerial(s)} className="w-full text-left px-5 py-2.5 font-mono font-black text-slate-600 hover:bg-indigo-50 hover:text-indigo-600">{s}</button>
+                ))}
+              </div>
+            )}
+          </form>
+        </div>
+        <div className="flex-grow overflow-y-auto p-10">
+          {!lifecycle ? (
+            <p className="py-20 text-center text-slate-300 font-black uppercase tracking-widest italic text-2xl">조회할 일련번호를 입력하세요</p>
+          ) : lifecycle.events.length === 0 ? (
+            <p className="py-20 text-center text-slate-300 font-black uppercase tracking-widest italic text-2xl">{lifecycle.serial} 기록이 없습니다</p>
+          ) : (
+            <div className="space-y-10">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+                <div className="p-6 bg-slate-50/80 rounded-2xl border border-slate-100">
+                  <p className="text-xs font-black text-slate-400 uppercase tracking-[0.2em] mb-2">상태</p>
+                  <p className={`text-3xl font-black ${lifecycle.inStock ? 'text-emerald-600' : 'text-rose-600'}`}>{statusLabel}</p>
+                  {lifecycle.inStock && lastReceipt && (
+                    <p className="mt-2 text-sm font-black text-slate-500">보관 위치: {locationLabel(locations, lastReceipt.transaction.locationId)}</p>
+                  )}
+                </div>
+                <div className="p-6 bg-slate-50/80 rounded-2xl border border-slate-100">
+                  <p className="text-xs font-black text-slate-400 uppercase tracking-[0.2em] mb-2">품목</p>
+                  {lifecycle.item && (
+                    <button onClick={() => onSelectItem(lifecycle.item!.id)} className="text-left hover:underline">
+                      <span className="font-mono font-black text-indigo-600 mr-2">{lifecycle.item.code}</span>
+                      <span className="text-xl font-black text-slate-800">{lifecycle.item.name}</span>
+                    </button>
+                  )}
+                </div>
+                <div className="p-6 bg-slate-50/80 rounded-2xl border border-slate-100">
+                  <p className="text-xs font-black text-slate-400 uppercase tracking-[0.2em] mb-2">최근 출고처</p>
+                  {lifecycle.lastRelease ? (
+                    <>
+                      <p className="text-xl font-black text-slate-800">{lifecycle.lastRelease.transaction.customerName || '-'}</p>
+                      <p className="text-sm font-bold text-slate-500">{lifecycle.lastRelease.transaction.phoneNumber || '-'}</p>
+                      <p className="text-sm font-bold text-slate-400">{lifecycle.lastRelease.transaction.address || '-'}</p>
+                    </>
+                  ) : (
+                    <p className="text-xl font-black text-slate-300">출고 이력 없음</p>
+                  )}
+                </div>
+                <div className="p-6 bg-slate-50/80 rounded-2xl border border-slate-100">
+                  <p className="text-xs font-black text-slate-400 uppercase tracking-[0.2em] mb-2">보증</p>
+                  {warranty ? (
+                    <>
+                      <p className={`text-3xl font-black ${WARRANTY_STATE_COLORS[warranty.state]}`}>
+                        {WARRANTY_STATE_LABELS[warranty.state]}
+                      </p>
+                      {warranty.state !== 'returned' && (
+                        <p className="mt-2 text-sm font-black text-slate-500">
+                          {formatDay(warranty.startDate)} ~ {formatDay(warranty.endDate)} ({warranty.months}개월)
+                          <br />{warranty.daysLeft >= 0 ? `남은 기간 ${warranty.daysLeft}일` : `만료 후 ${-warranty.daysLeft}일 경과`}
+                        </p>
+                      )}
+                    </>
+                  ) : (
+                    <p className="text-xl font-black text-slate-300">{lifecycle.lastRelease ? '보증 기간 미설정' : '출고 전'}</p>
+                  )}
+                </div>
+              </div>
+
+              <table className="w-full text-left">
+                <thead className="text-xs text-slate-400 uppercase border-b-2 border-slate-100 font-black tracking-[0.2em]">
+                  <tr>
+                    <th className="px-4 py-4">날짜</th>
+                    <th className="px-4 py-4">구분</th>
+                    <th className="px-4 py-4">품목</th>
+                    <th className="px-4 py-4">로케이션</th>
+                    <th className="px-4 py-4">대상자 / 연락처</th>
+                    <th className="px-4 py-4">주소</th>
+                    <th className="px-4 py-4">비고</th>
+                    <th className="px-4 py-4">등록</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50">
+                  {lifecycle.events.map(event => {
+                    const t = event.transaction;
+                    const isRelease = stockChange(t) < 0;
+                    return (
+                      <tr key={t.id}>
+                        <td className="px-4 py-4">
+                          <p className="font-black text-slate-700">{new Date(t.date).toLocaleDateString()}</p>
+                          <p className="text-xs font-bold text-slate-400">{new Date(t.date).toLocaleTimeString()}</p>
+                        </td>
+                        <td className="px-4 py-4">
+                          <span className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-black ${isRelease ? 'bg-rose-100 text-rose-600' : event.isReturn ? 'bg-amber-100 text-amber-700' : 'bg-emerald-100 text-emerald-600'}`}>
+                            {isRelease ? <ArrowDownIcon className="w-3 h-3" /> : <ArrowUpIcon className="w-3 h-3" />}{eventLabel(event)}
+                          </span>
+                          {event.production && <p className="mt-1 font-mono text-xs font-black text-indigo-500">{event.production.productionNumber}</p>}
+                          {reasonLabel(t) && <p className="mt-1 text-xs font-black text-slate-400">{reasonLabel(t)}</p>}
+                        </td>
+                        <td className="px-4 py-4"><span className="font-mono font-black text-indigo-600 mr-2">{event.item.code}</span><span className="font-black text-slate-700">{event.item.name}</span></td>
+                        <td className="px-4 py-4 font-bold text-slate-500">{locationLabel(locations, t.locationId)}</td>
+                        <td className="px-4 py-4">
+                          <p className="font-black text-slate-800">{t.customerName || '-'}</p>
+                          <p className="text-sm font-bold text-slate-400">{t.phoneNumber || '-'}</p>
+                        </td>
+                        <td className="px-4 py-4 text-sm font-bold text-slate-500">{t.address || '-'}</td>
+                        <td className="px-4 py-4 text-sm font-bold text-slate-400">{t.remarks || '-'}</td>
+                        <td className="px-4 py-4 text-xs font-black text-slate-400">{t.createdBy || '-'}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SerialLookupModal;
@@ -0,0 +1,107 @@
+import React, { useState, useMemo } from 'react';
+import type { Item } from '../types';
+import { shortageList } from '../utils/reorder';
+import { downloadCsv } from '../utils/spreadsheet';
+import { CloseIcon, DownloadIcon } from './icons';
+
+interface ShortageDashboardModalProps {
+  items: Item[];
+  onOrder: Map<string, number>;
+  onSelectItem: (itemId: string) => void;
+  onClose: () => void;
+}
+
+const ShortageDashboardModal: React.FC<ShortageDashboardModalProps> = ({ items, onOrder, onSelectItem, onClose }) => {
+  const [typeFilter, setTypeFilter] = useState<'all' | 'part' | 'product'>('all');
+  const [hideCovered, setHideCovered] = useState(false);
+
+  const rows = useMemo(() => shortageList(items.filter(i => typeFilter === 'all' || i.type === typeFilter), onOrder)
+    .filter(r => !hideCovered || r.suggestedQuantity > 0), [items, onOrder, typeFilter, hideCovered]);
+  const belowMinimumCount = rows.filter(r => r.belowMinimum).length;
+
+  const exportShortages = () => {
+    downloadCsv(`부족재고_${new Date().toISOString().split('T')[0]}.csv`, [
+      ['코드', '품명', '구분', '현재재고', '안전재고', '재주문점', '발주단위', '발주중', '권장발주수량', '상태'],
+      ...rows.map(r => [
+        r.item.code, r.item.name, r.item.type === 'part' ? '부품' : '제품', r.stock,
+        r.item.minStock ?? '', r.item.reorderPoint ?? '', r.item.reorderQuantity ?? '', r.onOrder, r.suggestedQuantity,
+        r.belowMinimum ? '안전재고 미만' : '재주문점 도달',
+      ]),
+    ]);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[3rem] shadow-2xl w-full max-w-[90vw] flex flex-col h-full max-h-[95vh] overflow-hidden animate-fade-in-up">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">부족 재고 현황</h2>
+            <p className="text-xs text-slate-400 font-bold mt-1 uppercase tracking-widest">
+              재주문 대상 {rows.length}건 · 안전 재고 미만 <span className="text-rose-500">{belowMinimumCount}건</span>
+            </p>
+          </div>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-10 h-10" /></button>
+        </div>
+        <div className="px-10 pt-8 flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-xs uppercase font-black text-slate-400 mb-2 tracking-widest">구분</label>
+            <select value={typeFilter} onChange={(e) => setTypeFilter(e.target.value as typeof typeFilter)} className="px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400 bg-white">
+              <option value="all">전체</option>
+              <option value="part">부품</option>
+              <option value="product">제품</option>
+            </select>
+          </div>
+          <label className="flex items-center gap-2 px-4 py-3 text-sm font-black text-slate-500 cursor-pointer">
+            <input type="checkbox" checked={hideCovered} onChange={(e) => setHideCovered(e.target.checked)} className="w-4 h-4" />
+            발주중 수량으로 충족된 품목 숨기기
+          </label>
+          <button onClick={exportShortages} className="ml-auto flex items-center gap-2 px-8 py-3 bg-emerald-600 text-white font-black rounded-xl shadow-lg hover:bg-emerald-700 transition-all uppercase tracking-widest">
+            <DownloadIcon className="w-5 h-5" /><span>엑셀 파일 저장</span>
+          </button>
+        </div>
+        <div className="flex-grow overflow-y-auto p-10">
+          {rows.length === 0 ? (
+            <p className="py-20 text-center text-slate-300 font-black uppercase tracking-widest italic text-2xl">재주문이 필요한 품목이 없습니다</p>
+          ) : (
+            <table className="w-full text-left">
+              <thead className="text-xs text-slate-400 uppercase border-b-2 border-slate-100 font-black tracking-[0.2em] sticky top-0 bg-white">
+                <tr>
+                  <th className="px-4 py-4">코드</th>
+                  <th className="px-4 py-4">품명</th>
+                  <th className="px-4 py-4 text-right">현재 재고</th>
+                  <th className="px-4 py-4 text-right">안전 재고</th>
+                  <th className="px-4 py-4 text-right">재주문점</th>
+                  <th className="px-4 py-4 text-right">발주 단위</th>
+                  <th className="px-4 py-4 text-right">발주중</th>
+                  <th className="px-4 py-4 text-right">권장 발주</th>
+                  <th className="px-4 py-4 text-center">상태</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {rows.map(r => (
+                  <tr key={r.item.id} onClick={() => onSelectItem(r.item.id)} className="hover:bg-indigo-50/30 transition-colors cursor-pointer">
+                    <td className="px-4 py-4 font-mono font-black text-indigo-600">{r.item.code}</td>
+                    <td className="px-4 py-4 font-black text-slate-800">{r.item.name}</td>
+                    <td className={`px-4 py-4 text-right text-xl font-black ${r.belowMinimum ? 'text-rose-600' : 'text-amber-600'}`}>{r.stock.toLocaleString()}</td>
+                    <td className="px-4 py-4 text-right font-bold text-slate-500">{r.item.minStock?.toLocaleString() ?? '-'}</td>
+                    <td className="px-4 py-4 text-right font-bold text-slate-500">{r.item.reorderPoint?.toLocaleString() ?? '-'}</td>
+                    <td className="px-4 py-4 text-right font-bold text-slate-500">{r.item.reorderQuantity?.toLocaleString() ?? '-'}</td>
+                    <td className="px-4 py-4 text-right font-bold text-amber-500">{r.onOrder > 0 ? `+${r.onOrder.toLocaleString()}` : '-'}</td>
+                    <td className="px-4 py-4 text-right text-xl font-black text-indigo-600">{r.suggestedQuantity > 0 ? r.suggestedQuantity.toLocaleString() : '-'}</td>
+                    <td className="px-4 py-4 text-center">
+                      <span className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${r.belowMinimum ? 'bg-rose-100 text-rose-600' : 'bg-amber-100 text-amber-700'}`}>
+                        {r.belowMinimum ? '안전 재고 미만' : '재주문점 도달'}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortageDashboardModal;
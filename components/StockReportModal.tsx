@@ -0,0 +1,249 @@
+import React, { useState, useMemo } from 'react';
+import type { Item, Location } from '../types';
+import { UNASSIGNED_LOCATION, sortItemsByCode, stockBalance } from '../utils/inventory';
+import { locationLabel, sortLocations } from '../utils/locations';
+import { downloadCsv } from '../utils/spreadsheet';
+import { periodReport, sumPeriodRows } from '../utils/stockReport';
+import type { PeriodReportRow } from '../utils/stockReport';
+import { CloseIcon, DownloadIcon } from './icons';
+
+interface StockReportModalProps {
+  items: Item[];
+  locations: Location[];
+  onClose: () => void;
+}
+
+type ReportView = 'period' | 'asOf';
+
+const ALL_LOCATIONS = '__all__';
+
+const TYPE_GROUPS: { type: Item['type']; label: string }[] = [
+  { type: 'part', label: '부품' },
+  { type: 'product', label: '제품' },
+];
+
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Start of the given local day, or of the day after it, in epoch ms
+const dayStart = (value: string, offset = 0) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day + offset).getTime();
+};
+
+const StockReportModal: React.FC<StockReportModalProps> = ({ items, locations, onClose }) => {
+  const today = formatDate(new Date());
+  const [view, setView] = useState<ReportView>('period');
+  const [fromDate, setFromDate] = useState(today.slice(0, 8) + '01');
+  const [toDate, setToDate] = useState(today);
+  const [asOfDate, setAsOfDate] = useState(today);
+  const [typeFilter, setTypeFilter] = useState<'all' | Item['type']>('all');
+  const [locationFilter, setLocationFilter] = useState(ALL_LOCATIONS);
+  const [hideEmpty, setHideEmpty] = useState(true);
+
+  const sortedLocations = useMemo(() => sortLocations(locations), [locations]);
+  const locationId = locationFilter === ALL_LOCATIONS ? undefined : locationFilter;
+  const locationName = locationId === undefined ? '전체' : locationLabel(locations, locationId);
+  const filteredItems = useMemo(() => items.filter(i => typeFilter === 'all' || i.type === typeFilter), [items, typeFilter]);
+  const groups = TYPE_GROUPS.filter(g => typeFilter === 'all' || g.type === typeFilter);
+  const invalidRange = fromDate > toDate;
+
+  const periodRows = useMemo(() => {
+    if (invalidRange) return [];
+    return periodReport(filteredItems, dayStart(fromDate), dayStart(toDate, 1), locationId)
+      .filter(r => !hideEmpty || r.opening || r.receipts || r.releases || r.closing);
+  }, [filteredItems, fromDate, toDate, locationId, hideEmpty, invalidRange]);
+
+  // Stock at the end of the chosen day, per location
+  const asOfRows = useMemo(() => {
+    const before = dayStart(asOfDate, 1);
+    return sortItemsByCode(filteredItems).map(item => {
+      const balance = stockBalance(item, before);
+      const byLocation = Array.from(balance.byLocation.entries()).filter(([, quantity]) => quantity !== 0);
+      const quantity = locationId === undefined ? balance.total : balance.byLocation.get(locationId) || 0;
+      return { item, quantity, byLocation };
+    }).filter(r => !hideEmpty || r.quantity !== 0);
+  }, [filteredItems, asOfDate, locationId, hideEmpty]);
+
+  // Locations that appear in the as-of report, in display order, with unassigned stock last
+  const asOfLocationIds = useMemo(() => {
+    const used = new Set(asOfRows.flatMap(r => r.byLocation.map(([id]) => id)));
+    const ids = sortedLocations.map(l => l.id).filter(id => used.has(id));
+    Array.from(used).forEach(id => { if (!ids.includes(id) && id !== UNASSIGNED_LOCATION) ids.push(id); });
+    if (used.has(UNASSIGNED_LOCATION)) ids.push(UNASSIGNED_LOCATION);
+    return ids;
+  }, [asOfRows, sortedLocations]);
+
+  const exportPeriod = () => {
+    const lines: (string | number)[][] = [
+      ['기간', `${fromDate} ~ ${toDate}`, '로케이션', locationName],
+      ['구분', '코드', '품명', '기초재고', '입고', '출고', '기말재고'],
+    ];
+    groups.forEach(group => {
+      const rows = periodRows.filter(r => r.item.type === group.type);
+      if (rows.length === 0) return;
+      rows.forEach(r => lines.push([group.label, r.item.code, r.item.name, r.opening, r.receipts, r.releases, r.closing]));
+      const sums = sumPeriodRows(rows);
+      lines.push([`${group.label} 소계`, '', '', sums.opening, sums.receipts, sums.releases, sums.closing]);
+    });
+    downloadCsv(`재고수불_${fromDate}_${toDate}.csv`, lines);
+  };
+
+  const exportAsOf = () => {
+    const lines: (string | number)[][] = [['기준일', asOfDate, '로케이션', locationName]];
+    if (locationId === undefined) {
+      lines.push(['구분', '코드', '품명', ...asOfLocationIds.map(id => locationLabel(locations, id)), '합계']);
+      asOfRows.forEach(r => {
+        const byLocation = new Map(r.byLocation);
+        lines.push([r.item.type === 'part' ? '부품' : '제품', r.item.code, r.item.name, ...asOfLocationIds.map(id => byLocation.get(id) || 0), r.quantity]);
+      });
+    } else {
+      lines.push(['구분', '코드', '품명', '재고']);
+      asOfRows.forEach(r => lines.push([r.item.type === 'part' ? '부품' : '제품', r.item.code, r.item.name, r.quantity]));
+    }
+    downloadCsv(`기준일재고_${asOfDate}.csv`, lines);
+  };
+
+  const renderPeriodGroup = (label: string, rows: PeriodReportRow[]) => {
+    const sums = sumPeriodRows(rows);
+    return (
+      <tbody key={label} className="divide-y divide-slate-50">
+        <tr className="bg-slate-50"><td colSpan={6} className="px-4 py-3 text-xs font-black text-slate-500 uppercase tracking-widest">{label}</td></tr>
+        {rows.map(r => (
+          <tr key={r.item.id}>
+            <td className="px-4 py-4 font-mono font-black text-indigo-600">{r.item.code}</td>
+            <td className="px-4 py-4 font-black text-slate-800">{r.item.name}</td>
+            <td className="px-4 py-4 text-right font-black text-slate-700">{r.opening.toLocaleString()}</td>
+            <td className="px-4 py-4 text-right font-black text-emerald-600">{r.receipts ? `+${r.receipts.toLocaleString()}` : '-'}</td>
+            <td className="px-4 py-4 text-right font-black text-rose-600">{r.releases ? `-${r.releases.toLocaleString()}` : '-'}</td>
+            <td className="px-4 py-4 text-right font-black text-slate-900">{r.closing.toLocaleString()}</td>
+          </tr>
+        ))}
+        <tr className="font-black border-t-2 border-slate-100">
+          <td colSpan={2} className="px-4 py-4 text-xs text-slate-400 uppercase tracking-widest">{label} 소계</td>
+          <td className="px-4 py-4 text-right text-slate-700">{sums.opening.toLocaleString()}</td>
+          <td className="px-4 py-4 text-right text-emerald-600">{sums.receipts.toLocaleString()}</td>
+          <td className="px-4 py-4 text-right text-rose-600">{sums.releases.toLocaleString()}</td>
+          <td className="px-4 py-4 text-right text-slate-900">{sums.closing.toLocaleString()}</td>
+        </tr>
+      </tbody>
+    );
+  };
+
+  const rowCount = view === 'period' ? periodRows.length : asOfRows.length;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[3rem] shadow-2xl w-full max-w-[90vw] flex flex-col h-full max-h-[95vh] overflow-hidden animate-fade-in-up">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">재고 수불 보고서</h2>
+            <p className="text-xs text-slate-400 font-bold mt-1 uppercase tracking-widest">
+              {view === 'period' ? `${fromDate} ~ ${toDate}` : `${asOfDate} 마감 기준`} · 로케이션: {locationName}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-10 h-10" /></button>
+        </div>
+        <div className="px-10 pt-8 flex gap-2">
+          <button onClick={() => setView('period')} className={`px-6 py-3 rounded-xl font-black text-sm uppercase tracking-widest transition-all ${view === 'period' ? 'bg-indigo-600 text-white shadow-lg' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}>기간 수불</button>
+          <button onClick={() => setView('asOf')} className={`px-6 py-3 rounded-xl font-black text-sm uppercase tracking-widest transition-all ${view === 'asOf' ? 'bg-indigo-600 text-white shadow-lg' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}>기준일 재고</button>
+        </div>
+        <div className="px-10 pt-6 flex flex-wrap items-end gap-4">
+          {view === 'period' ? (
+            <>
+              <div>
+                <label className="block text-xs uppercase font-black text-slate-400 mb-2 tracking-widest">시작일</label>
+                <input type="date" value={fromDate} onChange={(e) => e.target.value && setFromDate(e.target.value)} className="px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400" />
+              </div>
+              <div>
+                <label className="block text-xs uppercase font-black text-slate-400 mb-2 tracking-widest">종료일</label>
+                <input type="date" value={toDate} onChange={(e) => e.target.value && setToDate(e.target.value)} className="px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400" />
+              </div>
+            </>
+          ) : (
+            <div>
+              <label className="block text-xs uppercase font-black text-slate-400 mb-2 tracking-widest">기준일</label>
+              <input type="date" value={asOfDate} onChange={(e) => e.target.value && setAsOfDate(e.target.value)} className="px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400" />
+            </div>
+          )}
+          <div>
+            <label className="block text-xs uppercase font-black text-slate-400 mb-2 tracking-widest">구분</label>
+            <select value={typeFilter} onChange={(e) => setTypeFilter(e.target.value as typeof typeFilter)} className="px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400 bg-white">
+              <option value="all">전체</option>
+              <option value="part">부품</option>
+              <option value="product">제품</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs uppercase font-black text-slate-400 mb-2 tracking-widest">로케이션</label>
+            <select value={locationFilter} onChange={(e) => setLocationFilter(e.target.value)} className="px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400 bg-white">
+              <option value={ALL_LOCATIONS}>전체</option>
+              {sortedLocations.map(l => <option key={l.id} value={l.id}>{l.code} · {l.name}</option>)}
+              <option value={UNASSIGNED_LOCATION}>미지정</option>
+            </select>
+          </div>
+          <label className="flex items-center gap-2 py-3 text-sm font-bold text-slate-500 cursor-pointer">
+            <input type="checkbox" checked={hideEmpty} onChange={(e) => setHideEmpty(e.target.checked)} className="w-4 h-4" />
+            재고·변동 없는 품목 숨기기
+          </label>
+          <button onClick={view === 'period' ? exportPeriod : exportAsOf} disabled={rowCount === 0} className="ml-auto flex items-center gap-2 px-8 py-3 bg-emerald-600 text-white font-black rounded-xl shadow-lg hover:bg-emerald-700 transition-all uppercase tracking-widest disabled:opacity-40">
+            <DownloadIcon className="w-5 h-5" /><span>엑셀 파일 저장</span>
+          </button>
+        </div>
+        <div className="flex-grow overflow-y-auto p-10">
+          {view === 'period' && invalidRange ? (
+            <p className="py-20 text-center text-rose-400 font-black uppercase tracking-widest italic text-2xl">종료일이 시작일보다 빠릅니다</p>
+          ) : rowCount === 0 ? (
+            <p className="py-20 text-center text-slate-300 font-black uppercase tracking-widest italic text-2xl">해당 조건의 재고 내역이 없습니다</p>
+          ) : view === 'period' ? (
+            <table className="w-full text-left">
+              <thead className="text-xs text-slate-400 uppercase border-b-2 border-slate-100 font-black tracking-[0.2em] sticky top-0 bg-white">
+                <tr>
+                  <th className="px-4 py-4">코드</th>
+                  <th className="px-4 py-4">품명</th>
+                  <th className="px-4 py-4 text-right">기초재고</th>
+                  <th className="px-4 py-4 text-right">입고</th>
+                  <th className="px-4 py-4 text-right">출고</th>
+                  <th className="px-4 py-4 text-right">기말재고</th>
+                </tr>
+              </thead>
+              {groups.map(group => {
+                const rows = periodRows.filter(r => r.item.type === group.type);
+                return rows.length > 0 && renderPeriodGroup(group.label, rows);
+              })}
+            </table>
+          ) : (
+            <table className="w-full text-left">
+              <thead className="text-xs text-slate-400 uppercase border-b-2 border-slate-100 font-black tracking-[0.2em] sticky top-0 bg-white">
+                <tr>
+                  <th className="px-4 py-4">구분</th>
+                  <th className="px-4 py-4">코드</th>
+                  <th className="px-4 py-4">품명</th>
+                  {locationId === undefined && <th className="px-4 py-4">로케이션별</th>}
+                  <th className="px-4 py-4 text-right">재고</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {asOfRows.map(r => (
+                  <tr key={r.item.id}>
+                    <td className="px-4 py-4 text-xs font-black text-slate-400">{r.item.type === 'part' ? '부품' : '제품'}</td>
+                    <td className="px-4 py-4 font-mono font-black text-indigo-600">{r.item.code}</td>
+                    <td className="px-4 py-4 font-black text-slate-800">{r.item.name}</td>
+                    {locationId === undefined && (
+                      <td className="px-4 py-4 text-xs font-bold text-slate-500">
+                        {r.byLocation.map(([id, quantity]) => `${locationLabel(locations, id)} ${quantity.toLocaleString()}`).join(' · ') || '-'}
+                      </td>
+                    )}
+                    <td className="px-4 py-4 text-right font-black text-slate-900">{r.quantity.toLocaleString()} EA</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StockReportModal;
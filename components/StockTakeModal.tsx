@@ -0,0 +1,422 @@
+import React, { useState, useMemo } from 'react';
+import type { Item, Location, StockTake, StockTakeLine, StockTakeStatus } from '../types';
+import { UNASSIGNED_LABEL, locationLabel, sortLocations } from '../utils/locations';
+import { serialBalances } from '../utils/serials';
+import { downloadCsv } from '../utils/spreadsheet';
+import { isCounted, lineVariance, serialDifferences, stockTakeSummary } from '../utils/stockTakes';
+import type { StockTakeCount } from '../utils/stockTakes';
+import { CloseIcon, PlusIcon, CheckIcon, DownloadIcon, SearchIcon } from './icons';
+
+interface StockTakeModalProps {
+  stockTakes: StockTake[];
+  items: Item[];
+  locations: Location[];
+  onCreate: (scope: { itemType?: Item['type']; locationId?: string; remarks: string }) => string;
+  onUpdate: (stockTakeId: string, data: { counts?: StockTakeCount[]; remarks?: string; status?: 'cancelled' }) => void;
+  onApprove: (stockTakeId: string, counts: StockTakeCount[]) => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<StockTakeStatus, { label: string; className: string }> = {
+  open: { label: '실사중', className: 'bg-indigo-50 text-indigo-600' },
+  approved: { label: '승인', className: 'bg-emerald-50 text-emerald-600' },
+  cancelled: { label: '취소', className: 'bg-slate-100 text-slate-400' },
+};
+
+const TYPE_LABELS: Record<Item['type'], string> = { part: '부품', product: '제품' };
+
+// Location filter values: '__all__' counts the whole stock, '' the stock without a location
+const ALL_LOCATIONS = '__all__';
+
+// Unsaved edits of one line; counted '' clears the count
+interface LineDraft {
+  counted?: string;
+  countedSerials?: string[];
+  lotNumber?: string;
+}
+
+const StockTakeModal: React.FC<StockTakeModalProps> = ({ stockTakes, items, locations, onCreate, onUpdate, onApprove, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newScope, setNewScope] = useState<{ itemType: '' | Item['type']; locationId: string; remarks: string } | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, LineDraft>>({});
+  const [scanInput, setScanInput] = useState('');
+  const [lastScan, setLastScan] = useState<{ message: string; ok: boolean } | null>(null);
+  const [lineFilter, setLineFilter] = useState<'all' | 'uncounted' | 'variance'>('all');
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const selected = stockTakes.find(s => s.id === selectedId);
+  const isOpen = selected?.status === 'open';
+  const itemsById = useMemo(() => new Map(items.map(i => [i.id, i])), [items]);
+
+  const rows = useMemo(() => [...stockTakes].sort((a, b) => b.startedAt.localeCompare(a.startedAt)), [stockTakes]);
+
+  // Lines with the unsaved edits applied
+  const lines = useMemo((): StockTakeLine[] => (selected?.lines || []).map(line => {
+    const draft = drafts[line.itemId];
+    if (!draft) return line;
+    const merged: StockTakeLine = { ...line };
+    if (draft.counted !== undefined) merged.counted = draft.counted === '' ? undefined : parseInt(draft.counted, 10) || 0;
+    if (draft.countedSerials !== undefined) merged.countedSerials = draft.countedSerials;
+    if (draft.lotNumber !== undefined) merged.lotNumber = draft.lotNumber;
+    return merged;
+  }), [selected, drafts]);
+  const summary = selected ? stockTakeSummary({ ...selected, lines }) : null;
+  const hasDrafts = Object.keys(drafts).length > 0;
+
+  // Scans resolve to a line by item code, or by any serial the item has ever held
+  const scanTargets = useMemo(() => {
+    const targets = new Map<string, { itemId: string; serial?: string }>();
+    (selected?.lines || []).forEach(line => {
+      targets.set(line.code.toUpperCase(), { itemId: line.itemId });
+      const item = itemsById.get(line.itemId);
+      const serials = [...(line.expectedSerials || []), ...(item?.type === 'product' ? Array.from(serialBalances(item).keys()) : [])];
+      serials.forEach(serial => { if (!targets.has(serial)) targets.set(serial, { itemId: line.itemId, serial }); });
+    });
+    return targets;
+  }, [selected, itemsById]);
+
+  const visibleLines = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return lines.filter(line => {
+      if (lineFilter === 'uncounted' && isCounted(line)) return false;
+      if (lineFilter === 'variance' && lineVariance(line) === 0) return false;
+      return !term || line.code.toLowerCase().includes(term) || line.name.toLowerCase().includes(term);
+    });
+  }, [lines, lineFilter, searchTerm]);
+
+  const openStockTake = (stockTakeId: string) => {
+    setSelectedId(stockTakeId);
+    setDrafts({});
+    setLastScan(null);
+    setLineFilter('all');
+    setSearchTerm('');
+  };
+
+  const leaveStockTake = () => {
+    if (hasDrafts && !confirm('저장하지 않은 실사 수량이 있습니다. 목록으로 돌아가시겠습니까?')) return;
+    setSelectedId(null);
+    setDrafts({});
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newScope) return;
+    const stockTakeId = onCreate({
+      itemType: newScope.itemType || undefined,
+      locationId: newScope.locationId === ALL_LOCATIONS ? undefined : newScope.locationId,
+      remarks: newScope.remarks.trim(),
+    });
+    setNewScope(null);
+    openStockTake(stockTakeId);
+  };
+
+  const updateDraft = (itemId: string, changes: LineDraft) =>
+    setDrafts(prev => ({ ...prev, [itemId]: { ...prev[itemId], ...changes } }));
+
+  const handleScan = () => {
+    const code = scanInput.trim().toUpperCase();
+    if (!code) return;
+    setScanInput('');
+    const target = scanTargets.get(code);
+    const line = target && lines.find(l => l.itemId === target.itemId);
+    if (!target || !line) {
+      setLastScan({ message: `등록되지 않은 코드: ${code}`, ok: false });
+      return;
+    }
+    const countedSerials = line.countedSerials || [];
+    if (target.serial && countedSerials.includes(target.serial)) {
+      setLastScan({ message: `이미 스캔한 일련번호: ${target.serial}`, ok: false });
+      return;
+    }
+    const counted = (line.counted || 0) + 1;
+    updateDraft(line.itemId, { counted: String(counted), ...(target.serial && { countedSerials: [...countedSerials, target.serial] }) });
+    setLastScan({ message: `${line.code} ${line.name}${target.serial ? ` (${target.serial})` : ''} → ${counted.toLocaleString()}`, ok: true });
+  };
+
+  const buildCounts = (): StockTakeCount[] | null => {
+    const counts: StockTakeCount[] = [];
+    for (const [itemId, draft] of Object.entries(drafts) as [string, LineDraft][]) {
+      const line = lines.find(l => l.itemId === itemId);
+      if (!line) continue;
+      const counted = draft.counted === undefined ? undefined : draft.counted.trim() === '' ? null : Number(draft.counted);
+      if (counted !== undefined && counted !== null && (!Number.isInteger(counted) || counted < 0)) {
+        alert(`${line.code}: 실사 수량을 확인하세요.`);
+        return null;
+      }
+      counts.push({ itemId, counted, countedSerials: draft.countedSerials, lotNumber: draft.lotNumber });
+    }
+    return counts;
+  };
+
+  const handleSave = () => {
+    if (!selected) return;
+    const counts = buildCounts();
+    if (!counts || counts.length === 0) return;
+    onUpdate(selected.id, { counts });
+    setDrafts({});
+  };
+
+  const handleApprove = () => {
+    if (!selected || !summary) return;
+    const counts = buildCounts();
+    if (!counts) return;
+    const missingLot = lines.find(line => itemsById.get(line.itemId)?.lotTracked && lineVariance(line) > 0 && !line.lotNumber);
+    if (missingLot) { alert(`${missingLot.code}: 늘어난 수량을 조정할 로트번호를 입력하세요.`); return; }
+    const uncounted = summary.total - summary.counted;
+    const message = [
+      `${selected.stockTakeNumber} 실사를 승인하시겠습니까?`,
+      `차이 ${summary.variances}건을 조정합니다 (증가 +${summary.increase.toLocaleString()} / 감소 -${summary.decrease.toLocaleString()}).`,
+      uncounted > 0 ? `실사하지 않은 ${uncounted}개 품목은 조정되지 않습니다.` : '',
+      '실사 시작 이후 입출고가 있었던 품목은 승인 시점의 장부 수량 기준으로 조정됩니다.',
+      '승인 후에는 수정할 수 없습니다.',
+    ].filter(Boolean).join('\n');
+    if (!confirm(message)) return;
+    onApprove(selected.id, counts);
+    setDrafts({});
+  };
+
+  const handleCancelStockTake = () => {
+    if (!selected || !confirm(`${selected.stockTakeNumber} 실사를 취소하시겠습니까? 재고는 조정되지 않으며 기록은 보관됩니다.`)) return;
+    onUpdate(selected.id, { status: 'cancelled' });
+  };
+
+  const scopeLabel = (take: StockTake) => [
+    take.itemType ? TYPE_LABELS[take.itemType] : '전체 품목',
+    take.locationId === undefined ? '전체 로케이션' : locationLabel(locations, take.locationId),
+  ].join(' · ');
+
+  const exportSheet = () => {
+    if (!selected) return;
+    downloadCsv(`재고실사_${selected.stockTakeNumber}.csv`, [
+      ['코드', '품명', '장부 수량', '승인 시 장부 수량', '실사 수량', '차이', '누락 일련번호', '추가 일련번호', '로트'],
+      ...lines.map(line => {
+        const { missing, extra } = serialDifferences(line);
+        return [line.code, line.name, line.expected, line.bookAtApproval ?? '', isCounted(line) ? line.counted! : '', isCounted(line) ? lineVariance(line) : '',
+          line.countedSerials ? missing.join(' ') : '', extra.join(' '), line.lotNumber || ''];
+      }),
+    ]);
+  };
+
+  const renderStatus = (status: StockTakeStatus) => (
+    <span className={`px-3 py-1 rounded-full text-xs font-black whitespace-nowrap ${STATUS_LABELS[status].className}`}>{STATUS_LABELS[status].label}</span>
+  );
+
+  const inputClass = 'w-full px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400';
+  const labelClass = 'block text-xs uppercase font-black text-slate-400 mb-2 tracking-widest';
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[3rem] shadow-2xl w-full max-w-[90vw] flex flex-col h-full max-h-[95vh] overflow-hidden animate-fade-in-up">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div className="flex items-center gap-6">
+            {selected && (
+              <button onClick={leaveStockTake} className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-xs font-black text-slate-500 uppercase tracking-widest hover:bg-slate-50">목록</button>
+            )}
+            <div>
+              <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">{selected ? selected.stockTakeNumber : '재고 실사'}</h2>
+              {selected && (
+                <div className="mt-2 flex items-center gap-3">
+                  {renderStatus(selected.status)}
+                  <span className="text-xs font-bold text-slate-400">{scopeLabel(selected)} · {new Date(selected.startedAt).toLocaleString()} · {selected.createdBy}</span>
+                </div>
+              )}
+            </div>
+          </div>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-10 h-10" /></button>
+        </div>
+
+        {!selected ? (
+          <div className="flex-grow overflow-y-auto p-10 space-y-8">
+            <div className="flex justify-between items-center gap-4">
+              <p className="text-sm font-bold text-slate-400">실사 수량을 장부 수량과 비교합니다. 승인하면 승인 시점의 장부 수량과의 차이만큼 조정 내역이 등록됩니다.</p>
+              <button onClick={() => setNewScope({ itemType: '', locationId: ALL_LOCATIONS, remarks: '' })} className="flex items-center gap-2 px-8 py-3 bg-indigo-600 text-white font-black rounded-xl shadow-lg hover:bg-indigo-700 transition-all uppercase tracking-widest whitespace-nowrap">
+                <PlusIcon className="w-5 h-5" /><span>새 실사</span>
+              </button>
+            </div>
+
+            {newScope && (
+              <form onSubmit={handleCreate} className="p-6 bg-slate-50/80 rounded-2xl border border-slate-100 grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+                <div>
+                  <label className={labelClass}>대상 구분</label>
+                  <select value={newScope.itemType} onChange={(e) => setNewScope({ ...newScope, itemType: e.target.value as '' | Item['type'] })} className={`${inputClass} bg-white`}>
+                    <option value="">전체</option>
+                    <option value="part">부품</option>
+                    <option value="product">제품</option>
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>대상 로케이션</label>
+                  <select value={newScope.locationId} onChange={(e) => setNewScope({ ...newScope, locationId: e.target.value })} className={`${inputClass} bg-white`}>
+                    <option value={ALL_LOCATIONS}>전체 재고</option>
+                    {locations.length > 0 && <option value="">{UNASSIGNED_LABEL}</option>}
+                    {sortLocations(locations).map(l => <option key={l.id} value={l.id}>{l.code} · {l.name}</option>)}
+                  </select>
+                </div>
+                <div className="md:col-span-2">
+                  <label className={labelClass}>비고</label>
+                  <input type="text" value={newScope.remarks} onChange={(e) => setNewScope({ ...newScope, remarks: e.target.value })} className={inputClass} />
+                </div>
+                <div className="flex gap-2">
+                  <button type="button" onClick={() => setNewScope(null)} className="flex-1 py-3 bg-slate-100 text-slate-500 rounded-xl font-black text-sm uppercase">취소</button>
+                  <button type="submit" className="flex-1 py-3 bg-indigo-600 text-white rounded-xl font-black text-sm uppercase">시작</button>
+                </div>
+              </form>
+            )}
+
+            {rows.length === 0 ? (
+              <p className="py-20 text-center text-slate-300 font-black uppercase tracking-widest italic text-2xl">실사 기록이 없습니다</p>
+            ) : (
+              <table className="w-full text-left">
+                <thead className="text-xs text-slate-400 uppercase border-b-2 border-slate-100 font-black tracking-[0.2em]">
+                  <tr>
+                    <th className="px-4 py-4">실사번호</th>
+                    <th className="px-4 py-4">시작</th>
+                    <th className="px-4 py-4">대상</th>
+                    <th className="px-4 py-4 text-right">실사 / 품목</th>
+                    <th className="px-4 py-4 text-right">차이</th>
+                    <th className="px-4 py-4">비고</th>
+                    <th className="px-4 py-4">승인</th>
+                    <th className="px-4 py-4 text-center">상태</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50">
+                  {rows.map(take => {
+                    const rowSummary = stockTakeSummary(take);
+                    return (
+                      <tr key={take.id} onClick={() => openStockTake(take.id)} className="hover:bg-indigo-50/30 transition-colors cursor-pointer">
+                        <td className="px-4 py-4 font-mono font-black text-indigo-600">{take.stockTakeNumber}</td>
+                        <td className="px-4 py-4 font-bold text-slate-600">{new Date(take.startedAt).toLocaleString()}</td>
+                        <td className="px-4 py-4 font-bold text-slate-600">{scopeLabel(take)}</td>
+                        <td className="px-4 py-4 text-right font-black text-slate-700">{rowSummary.counted.toLocaleString()} / {rowSummary.total.toLocaleString()}</td>
+                        <td className={`px-4 py-4 text-right font-black ${rowSummary.variances > 0 ? 'text-rose-500' : 'text-slate-300'}`}>{rowSummary.variances.toLocaleString()}</td>
+                        <td className="px-4 py-4 text-sm font-bold text-slate-500">{take.remarks || '-'}</td>
+                        <td className="px-4 py-4 text-xs font-black text-slate-400">{take.approvedBy ? `${take.approvedBy} · ${new Date(take.approvedAt!).toLocaleDateString()}` : '-'}</td>
+                        <td className="px-4 py-4 text-center">{renderStatus(take.status)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        ) : (
+          <div className="flex-grow overflow-y-auto p-10 space-y-8">
+            {summary && (
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-6">
+                {[
+                  { title: '품목', value: summary.total, className: 'text-slate-900' },
+                  { title: '실사 완료', value: summary.counted, className: 'text-indigo-600' },
+                  { title: '차이 품목', value: summary.variances, className: summary.variances > 0 ? 'text-rose-600' : 'text-slate-300' },
+                  { title: '증가', value: summary.increase, className: 'text-emerald-600' },
+                  { title: '감소', value: summary.decrease, className: 'text-rose-600' },
+                ].map(card => (
+                  <div key={card.title} className="p-6 bg-slate-50/80 rounded-2xl border border-slate-100">
+                    <p className="text-xs font-black text-slate-400 uppercase tracking-[0.2em] mb-2">{card.title}</p>
+                    <p className={`text-4xl font-black ${card.className}`}>{card.value.toLocaleString()}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {isOpen && (
+              <div className="p-6 bg-indigo-50/50 rounded-2xl border border-indigo-100 space-y-3">
+                <label className={labelClass}>바코드 스캔 (품번 또는 일련번호, 스캔할 때마다 1개씩 집계)</label>
+                <input
+                  type="text" autoFocus value={scanInput} onChange={(e) => setScanInput(e.target.value.toUpperCase())}
+                  onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleScan(); } }}
+                  placeholder="스캔 후 Enter"
+                  className="w-full px-5 py-4 border-2 border-indigo-100 rounded-2xl font-mono font-black text-xl outline-none focus:border-indigo-400 bg-white"
+                />
+                {lastScan && <p className={`text-sm font-black ${lastScan.ok ? 'text-emerald-600' : 'text-rose-600'}`}>{lastScan.message}</p>}
+              </div>
+            )}
+
+            <div className="flex flex-wrap justify-between items-center gap-4">
+              <div className="flex items-center gap-4">
+                <div className="flex p-1.5 bg-slate-100 rounded-2xl">
+                  {([['all', '전체'], ['uncounted', '미실사'], ['variance', '차이']] as const).map(([value, label]) => (
+                    <button key={value} onClick={() => setLineFilter(value)} className={`px-5 py-2 text-sm font-black rounded-xl transition-all ${lineFilter === value ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}>{label}</button>
+                  ))}
+                </div>
+                <div className="relative w-64">
+                  <span className="absolute inset-y-0 left-0 flex items-center pl-3"><SearchIcon className="text-slate-400 w-4 h-4" /></span>
+                  <input type="text" value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} placeholder="코드, 품명 검색..." className="w-full pl-9 pr-4 py-2 border-2 border-slate-100 rounded-xl focus:outline-none focus:border-indigo-300 bg-white text-sm font-bold" />
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <button onClick={exportSheet} className="flex items-center gap-2 px-5 py-2.5 bg-emerald-50 text-emerald-600 border-2 border-emerald-100 rounded-xl text-sm font-black hover:bg-emerald-600 hover:text-white transition-all uppercase">
+                  <DownloadIcon className="w-4 h-4" /><span>내보내기</span>
+                </button>
+                {isOpen && (
+                  <>
+                    <button onClick={handleCancelStockTake} className="px-5 py-2.5 bg-rose-50 text-rose-600 rounded-xl font-black text-sm uppercase hover:bg-rose-600 hover:text-white transition-all">실사 취소</button>
+                    <button onClick={handleSave} disabled={!hasDrafts} className="px-5 py-2.5 bg-indigo-50 text-indigo-600 rounded-xl font-black text-sm uppercase hover:bg-indigo-600 hover:text-white transition-all disabled:opacity-40 disabled:pointer-events-none">저장</button>
+                    <button onClick={handleApprove} className="flex items-center gap-2 px-5 py-2.5 bg-emerald-600 text-white rounded-xl font-black text-sm uppercase hover:bg-emerald-700 transition-all"><CheckIcon className="w-4 h-4" />승인 및 조정</button>
+                  </>
+                )}
+              </div>
+            </div>
+
+            <table className="w-full text-left">
+              <thead className="text-xs text-slate-400 uppercase border-b-2 border-slate-100 font-black tracking-[0.2em]">
+                <tr>
+                  <th className="px-4 py-4">코드</th>
+                  <th className="px-4 py-4">품명</th>
+                  <th className="px-4 py-4 text-right">장부</th>
+                  <th className="px-4 py-4 text-center">실사</th>
+                  <th className="px-4 py-4 text-right">차이</th>
+                  <th className="px-4 py-4">일련번호 / 로트</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {visibleLines.length === 0 ? (
+                  <tr><td colSpan={6} className="py-12 text-center text-slate-300 font-black uppercase tracking-widest italic">해당하는 품목이 없습니다</td></tr>
+                ) : visibleLines.map(line => {
+                  const variance = lineVariance(line);
+                  const { missing, extra } = serialDifferences(line);
+                  const draft = drafts[line.itemId];
+                  const needsLot = isOpen && !!itemsById.get(line.itemId)?.lotTracked && variance > 0;
+                  return (
+                    <tr key={line.itemId} className={draft ? 'bg-amber-50/40' : ''}>
+                      <td className="px-4 py-3 font-mono font-black text-indigo-600">{line.code}</td>
+                      <td className="px-4 py-3 font-black text-slate-800">{line.name}</td>
+                      <td className="px-4 py-3 text-right font-black text-slate-500">
+                        {line.expected.toLocaleString()}
+                        {line.bookAtApproval !== undefined && line.bookAtApproval !== line.expected && (
+                          <span className="block text-[10px] font-bold text-slate-400">승인 시 {line.bookAtApproval.toLocaleString()}</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-center">
+                        {isOpen ? (
+                          <input
+                            type="number" min="0" value={draft?.counted ?? (isCounted(line) ? String(line.counted) : '')}
+                            onChange={(e) => updateDraft(line.itemId, { counted: e.target.value, ...(e.target.value === '' && { countedSerials: [] }) })}
+                            className="w-24 px-3 py-2 border-2 border-slate-100 rounded-xl font-black text-right outline-none focus:border-indigo-400"
+                          />
+                        ) : (
+                          <span className="font-black text-slate-700">{isCounted(line) ? line.counted!.toLocaleString() : '-'}</span>
+                        )}
+                      </td>
+                      <td className={`px-4 py-3 text-right font-black ${variance > 0 ? 'text-emerald-600' : variance < 0 ? 'text-rose-600' : 'text-slate-300'}`}>
+                        {isCounted(line) ? `${variance > 0 ? '+' : ''}${variance.toLocaleString()}` : '-'}
+                      </td>
+                      <td className="px-4 py-3 text-xs font-bold text-slate-500">
+                        {line.countedSerials && missing.length > 0 && <p className="text-rose-500">누락: {missing.slice(0, 5).join(', ')}{missing.length > 5 ? ` 외 ${missing.length - 5}` : ''}</p>}
+                        {extra.length > 0 && <p className="text-emerald-600">추가: {extra.slice(0, 5).join(', ')}{extra.length > 5 ? ` 외 ${extra.length - 5}` : ''}</p>}
+                        {needsLot ? (
+                          <input type="text" value={draft?.lotNumber ?? line.lotNumber ?? ''} onChange={(e) => updateDraft(line.itemId, { lotNumber: e.target.value.toUpperCase() })} placeholder="조정 로트 *" className="w-32 px-3 py-2 border-2 border-slate-100 rounded-xl font-mono font-black outline-none focus:border-indigo-400" />
+                        ) : line.lotNumber && <p className="font-mono">로트 {line.lotNumber}</p>}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StockTakeModal;
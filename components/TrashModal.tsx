@@ -0,0 +1,157 @@
+import React, { useState, useMemo } from 'react';
+import type { InventorySettings, Item, Transaction } from '../types';
+import { isActive, stockChange } from '../utils/inventory';
+import { TRANSACTION_TYPE_LABELS } from '../utils/transactionTypes';
+import { CloseIcon, SyncIcon, TrashIcon, CheckIcon } from './icons';
+
+interface TrashModalProps {
+  items: Item[];
+  settings: InventorySettings;
+  onRestore: (itemId: string, transactionId?: string) => void;
+  onPurge: (itemId: string, transactionId?: string) => void;
+  onUpdateSettings: (settings: Partial<InventorySettings>) => void;
+  onClose: () => void;
+}
+
+const daysLeft = (deletedAt: string, retentionDays: number) => {
+  const elapsed = (Date.now() - new Date(deletedAt).getTime()) / (24 * 60 * 60 * 1000);
+  return Math.max(0, Math.ceil(retentionDays - elapsed));
+};
+
+const TrashModal: React.FC<TrashModalProps> = ({ items, settings, onRestore, onPurge, onUpdateSettings, onClose }) => {
+  const [retentionDays, setRetentionDays] = useState(String(settings.trashRetentionDays));
+
+  const deletedItems = useMemo(() => items.filter(i => !isActive(i)), [items]);
+  // Transactions of items that are themselves in the trash go back together with their item
+  const deletedTransactions = useMemo(() => {
+    const rows: { item: Item; transaction: Transaction }[] = [];
+    items.filter(isActive).forEach(item => {
+      item.transactions.filter(t => !isActive(t)).forEach(transaction => rows.push({ item, transaction }));
+    });
+    return rows.sort((a, b) => (b.transaction.deletedAt || '').localeCompare(a.transaction.deletedAt || ''));
+  }, [items]);
+
+  const handlePurge = (label: string, itemId: string, transactionId?: string) => {
+    if (!confirm(`${label}을(를) 영구 삭제하시겠습니까? 복원할 수 없습니다.`)) return;
+    onPurge(itemId, transactionId);
+  };
+
+  const handleSaveRetention = () => {
+    const days = parseInt(retentionDays, 10);
+    if (!days || days < 1) { alert('보관 기간은 1일 이상이어야 합니다.'); return; }
+    onUpdateSettings({ trashRetentionDays: days });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[3rem] shadow-2xl w-full max-w-5xl flex flex-col max-h-[95vh] overflow-hidden animate-fade-in-up">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">휴지통</h2>
+            <p className="text-xs text-slate-400 font-bold mt-1 uppercase tracking-widest">삭제된 항목은 보관 기간이 지나면 자동으로 영구 삭제됩니다</p>
+          </div>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-10 h-10" /></button>
+        </div>
+        <div className="flex-grow overflow-y-auto p-10 space-y-10">
+          <div className="flex items-center gap-4 p-6 bg-slate-50/80 rounded-2xl border border-slate-100">
+            <label className="text-sm uppercase font-black text-slate-400 tracking-widest">보관 기간</label>
+            <input type="number" min="1" value={retentionDays} onChange={(e) => setRetentionDays(e.target.value)} className="w-28 px-4 py-2 border-2 border-slate-100 rounded-xl text-lg font-black outline-none focus:border-indigo-400" />
+            <span className="text-sm font-black text-slate-500">일</span>
+            <button onClick={handleSaveRetention} className="flex items-center gap-2 px-5 py-2 bg-indigo-600 text-white font-black rounded-xl hover:bg-indigo-700 transition-all text-sm uppercase tracking-widest">
+              <CheckIcon className="w-4 h-4" /><span>저장</span>
+            </button>
+          </div>
+
+          <section>
+            <h3 className="text-lg font-black text-slate-800 uppercase tracking-widest mb-4">삭제된 품목 ({deletedItems.length})</h3>
+            {deletedItems.length === 0 ? (
+              <p className="py-8 text-center text-slate-300 font-black uppercase tracking-widest italic">비어 있음</p>
+            ) : (
+              <table className="w-full text-left">
+                <thead className="text-xs text-slate-400 uppercase border-b-2 border-slate-100 font-black tracking-[0.2em]">
+                  <tr>
+                    <th className="px-4 py-3">코드</th>
+                    <th className="px-4 py-3">품명</th>
+                    <th className="px-4 py-3">내역 수</th>
+                    <th className="px-4 py-3">삭제</th>
+                    <th className="px-4 py-3">남은 기간</th>
+                    <th className="px-4 py-3 text-center">관리</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50">
+                  {deletedItems.map(item => (
+                    <tr key={item.id}>
+                      <td className="px-4 py-4 font-mono font-black text-indigo-600">{item.code}</td>
+                      <td className="px-4 py-4 font-black text-slate-800">{item.name}</td>
+                      <td className="px-4 py-4 font-bold text-slate-500">{item.transactions.length}</td>
+                      <td className="px-4 py-4">
+                        <p className="font-bold text-slate-600">{new Date(item.deletedAt!).toLocaleString()}</p>
+                        <p className="text-xs text-slate-400 font-black">{item.deletedBy}</p>
+                      </td>
+                      <td className="px-4 py-4 font-black text-slate-500">{daysLeft(item.deletedAt!, settings.trashRetentionDays)}일</td>
+                      <td className="px-4 py-4">
+                        <div className="flex justify-center gap-2">
+                          <button onClick={() => onRestore(item.id)} className="flex items-center gap-1.5 px-4 py-2 bg-emerald-50 text-emerald-600 rounded-xl font-black text-xs uppercase hover:bg-emerald-600 hover:text-white transition-all"><SyncIcon className="w-4 h-4" />복원</button>
+                          <button onClick={() => handlePurge(item.name, item.id)} className="p-2 text-slate-300 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-all"><TrashIcon className="w-5 h-5" /></button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+
+          <section>
+            <h3 className="text-lg font-black text-slate-800 uppercase tracking-widest mb-4">삭제된 입출고 내역 ({deletedTransactions.length})</h3>
+            {deletedTransactions.length === 0 ? (
+              <p className="py-8 text-center text-slate-300 font-black uppercase tracking-widest italic">비어 있음</p>
+            ) : (
+              <table className="w-full text-left">
+                <thead className="text-xs text-slate-400 uppercase border-b-2 border-slate-100 font-black tracking-[0.2em]">
+                  <tr>
+                    <th className="px-4 py-3">품목</th>
+                    <th className="px-4 py-3">구분 / 수량</th>
+                    <th className="px-4 py-3">거래일</th>
+                    <th className="px-4 py-3">일련번호</th>
+                    <th className="px-4 py-3">삭제</th>
+                    <th className="px-4 py-3 text-center">관리</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50">
+                  {deletedTransactions.map(({ item, transaction: t }) => (
+                    <tr key={t.id}>
+                      <td className="px-4 py-4">
+                        <p className="font-mono font-black text-indigo-600">{item.code}</p>
+                        <p className="text-xs font-bold text-slate-400">{item.name}</p>
+                      </td>
+                      <td className="px-4 py-4">
+                        <span className={`font-black text-lg ${stockChange(t) > 0 ? 'text-emerald-600' : t.type === 'transfer' ? 'text-amber-600' : 'text-rose-600'}`}>
+                          {TRANSACTION_TYPE_LABELS[t.type]} {stockChange(t) > 0 ? '+' : stockChange(t) < 0 ? '-' : ''}{t.quantity.toLocaleString()}
+                        </span>
+                      </td>
+                      <td className="px-4 py-4 font-bold text-slate-600">{new Date(t.date).toLocaleDateString()}</td>
+                      <td className="px-4 py-4 font-mono font-black text-slate-500">{t.serialNumber || '-'}</td>
+                      <td className="px-4 py-4">
+                        <p className="font-bold text-slate-600">{new Date(t.deletedAt!).toLocaleString()}</p>
+                        <p className="text-xs text-slate-400 font-black">{t.deletedBy} · {daysLeft(t.deletedAt!, settings.trashRetentionDays)}일 남음</p>
+                      </td>
+                      <td className="px-4 py-4">
+                        <div className="flex justify-center gap-2">
+                          <button onClick={() => onRestore(item.id, t.id)} className="flex items-center gap-1.5 px-4 py-2 bg-emerald-50 text-emerald-600 rounded-xl font-black text-xs uppercase hover:bg-emerald-600 hover:text-white transition-all"><SyncIcon className="w-4 h-4" />복원</button>
+                          <button onClick={() => handlePurge(`${item.code} 내역`, item.id, t.id)} className="p-2 text-slate-300 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-all"><TrashIcon className="w-5 h-5" /></button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrashModal;
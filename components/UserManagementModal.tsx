@@ -0,0 +1,145 @@
+import React, { useState, useEffect } from 'react';
+import type { UserAccount, UserRole } from '../types';
+import { createUser, deleteUser, fetchUsers, updateUser } from '../services/api';
+import { CloseIcon, PlusIcon, TrashIcon, SyncIcon } from './icons';
+
+interface UserManagementModalProps {
+  currentUser: UserAccount;
+  onClose: () => void;
+}
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  admin: '관리자 (전체)',
+  product_only: '제품 전용',
+};
+
+const UserManagementModal: React.FC<UserManagementModalProps> = ({ currentUser, onClose }) => {
+  const [users, setUsers] = useState<UserAccount[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [formData, setFormData] = useState({ username: '', displayName: '', role: 'product_only' as UserRole, password: '' });
+
+  const loadUsers = async () => {
+    setIsLoading(true);
+    try {
+      setUsers(await fetchUsers());
+    } catch (err: any) {
+      alert(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.username.trim() || !formData.password) {
+      alert('아이디와 비밀번호는 필수 항목입니다.');
+      return;
+    }
+    try {
+      await createUser(formData);
+      setFormData({ username: '', displayName: '', role: 'product_only', password: '' });
+      await loadUsers();
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  const handleRoleChange = async (user: UserAccount, role: UserRole) => {
+    try {
+      await updateUser({ username: user.username, role });
+      await loadUsers();
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  const handleResetPassword = async (user: UserAccount) => {
+    const password = prompt(`${user.displayName}(${user.username}) 계정의 새 비밀번호를 입력하세요.`);
+    if (!password) return;
+    try {
+      await updateUser({ username: user.username, password });
+      alert('비밀번호가 변경되었습니다.');
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  const handleDelete = async (user: UserAccount) => {
+    if (!confirm(`${user.displayName}(${user.username}) 계정을 삭제하시겠습니까?`)) return;
+    try {
+      await deleteUser(user.username);
+      await loadUsers();
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-full max-w-3xl animate-fade-in-up overflow-hidden">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">사용자 계정 관리</h2>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors">
+            <CloseIcon className="w-8 h-8" />
+          </button>
+        </div>
+        <div className="p-8 space-y-8 max-h-[75vh] overflow-y-auto">
+          <form onSubmit={handleCreate} className="grid grid-cols-2 gap-4 p-6 bg-slate-50/80 rounded-2xl border border-slate-100">
+            <input type="text" value={formData.username} onChange={(e) => setFormData({ ...formData, username: e.target.value.toLowerCase() })} placeholder="아이디 *" className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-black outline-none focus:border-indigo-400" />
+            <input type="text" value={formData.displayName} onChange={(e) => setFormData({ ...formData, displayName: e.target.value })} placeholder="이름" className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none focus:border-indigo-400" />
+            <select value={formData.role} onChange={(e) => setFormData({ ...formData, role: e.target.value as UserRole })} className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none focus:border-indigo-400 bg-white">
+              {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+            </select>
+            <input type="password" value={formData.password} onChange={(e) => setFormData({ ...formData, password: e.target.value })} placeholder="비밀번호 *" className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl text-lg font-bold outline-none focus:border-indigo-400" />
+            <button type="submit" className="col-span-2 flex items-center justify-center gap-2 py-4 bg-indigo-600 text-white font-black rounded-xl shadow-lg hover:bg-indigo-700 transition-all uppercase tracking-widest">
+              <PlusIcon className="w-5 h-5" />
+              <span>계정 추가</span>
+            </button>
+          </form>
+
+          {isLoading ? (
+            <div className="flex justify-center py-10"><SyncIcon className="w-10 h-10 text-indigo-600 animate-spin" /></div>
+          ) : (
+            <table className="w-full text-left">
+              <thead className="text-xs text-slate-400 uppercase border-b border-slate-100 font-black tracking-[0.2em]">
+                <tr>
+                  <th className="px-4 py-4">아이디</th>
+                  <th className="px-4 py-4">이름</th>
+                  <th className="px-4 py-4">권한</th>
+                  <th className="px-4 py-4 text-center">관리</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {users.map(user => (
+                  <tr key={user.id}>
+                    <td className="px-4 py-4 font-mono font-black text-indigo-600">{user.username}</td>
+                    <td className="px-4 py-4 font-black text-slate-800">{user.displayName}</td>
+                    <td className="px-4 py-4">
+                      <select value={user.role} disabled={user.username === currentUser.username} onChange={(e) => handleRoleChange(user, e.target.value as UserRole)} className="px-3 py-2 border-2 border-slate-100 rounded-xl font-bold bg-white disabled:bg-slate-50 disabled:text-slate-400">
+                        {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                      </select>
+                    </td>
+                    <td className="px-4 py-4">
+                      <div className="flex justify-center gap-2">
+                        <button onClick={() => handleResetPassword(user)} className="px-4 py-2 bg-indigo-50 text-indigo-600 rounded-xl font-black text-xs uppercase tracking-wider hover:bg-indigo-600 hover:text-white transition-all">비밀번호 변경</button>
+                        {user.username !== currentUser.username && (
+                          <button onClick={() => handleDelete(user)} className="p-2 text-slate-300 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-all"><TrashIcon className="w-5 h-5" /></button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UserManagementModal;
@@ -0,0 +1,147 @@
+import React, { useState, useMemo } from 'react';
+import type { InventorySettings, Item, ValuationMethod } from '../types';
+import { sortItemsByCode } from '../utils/inventory';
+import { downloadCsv } from '../utils/spreadsheet';
+import { formatAmount, valuationReport } from '../utils/valuation';
+import type { ValuationReportRow } from '../utils/valuation';
+import { CloseIcon, DownloadIcon } from './icons';
+
+interface ValuationReportModalProps {
+  items: Item[];
+  settings: InventorySettings;
+  onUpdateSettings: (settings: Partial<InventorySettings>) => void;
+  onClose: () => void;
+}
+
+const VALUATION_METHOD_LABELS: Record<ValuationMethod, string> = {
+  moving_average: '이동평균법',
+  fifo: '선입선출법 (FIFO)',
+};
+
+const currentMonth = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const SUM_FIELDS = ['openingValue', 'receiptValue', 'releaseCost', 'closingValue'] as const;
+
+const ValuationReportModal: React.FC<ValuationReportModalProps> = ({ items, settings, onUpdateSettings, onClose }) => {
+  const [month, setMonth] = useState(currentMonth());
+  const [typeFilter, setTypeFilter] = useState<'all' | 'part' | 'product'>('all');
+
+  // Month boundaries in local time, matching how transaction dates are shown
+  const [from, to] = useMemo(() => {
+    const [year, monthIndex] = month.split('-').map(Number);
+    return [new Date(year, monthIndex - 1, 1).getTime(), new Date(year, monthIndex, 1).getTime()];
+  }, [month]);
+
+  const rows = useMemo(() => {
+    const filtered = sortItemsByCode(items.filter(i => typeFilter === 'all' || i.type === typeFilter));
+    return valuationReport(filtered, settings.valuationMethod, from, to)
+      .filter(r => r.openingQuantity || r.receiptQuantity || r.releaseQuantity || r.closingQuantity);
+  }, [items, typeFilter, settings.valuationMethod, from, to]);
+
+  const totals = useMemo(() => {
+    const sums = { openingValue: 0, receiptValue: 0, releaseCost: 0, closingValue: 0 };
+    rows.forEach(r => SUM_FIELDS.forEach(field => { sums[field] += r[field]; }));
+    return sums;
+  }, [rows]);
+
+  const handleMethodChange = (method: ValuationMethod) => {
+    if (method === settings.valuationMethod) return;
+    if (!confirm(`평가 방법을 ${VALUATION_METHOD_LABELS[method]}(으)로 변경하시겠습니까? 모든 재고 금액과 출고 원가가 다시 계산됩니다.`)) return;
+    onUpdateSettings({ valuationMethod: method });
+  };
+
+  const exportReport = () => {
+    const headers = ['코드', '품명', '구분', '기초수량', '기초금액', '입고수량', '입고금액', '출고수량', '출고원가', '기말수량', '기말금액'];
+    const lines = rows.map((r: ValuationReportRow) => [
+      r.item.code, r.item.name, r.item.type === 'part' ? '부품' : '제품',
+      r.openingQuantity, Math.round(r.openingValue), r.receiptQuantity, Math.round(r.receiptValue),
+      r.releaseQuantity, Math.round(r.releaseCost), r.closingQuantity, Math.round(r.closingValue),
+    ]);
+    lines.push(['합계', '', '', '', Math.round(totals.openingValue), '', Math.round(totals.receiptValue), '', Math.round(totals.releaseCost), '', Math.round(totals.closingValue)]);
+    downloadCsv(`재고평가_${month}.csv`, [headers, ...lines]);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[3rem] shadow-2xl w-full max-w-[90vw] flex flex-col h-full max-h-[95vh] overflow-hidden animate-fade-in-up">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">월말 재고 평가</h2>
+            <p className="text-xs text-slate-400 font-bold mt-1 uppercase tracking-widest">평가 방법: {VALUATION_METHOD_LABELS[settings.valuationMethod]}</p>
+          </div>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-10 h-10" /></button>
+        </div>
+        <div className="px-10 pt-8 flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-xs uppercase font-black text-slate-400 mb-2 tracking-widest">기준월</label>
+            <input type="month" value={month} onChange={(e) => e.target.value && setMonth(e.target.value)} className="px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400" />
+          </div>
+          <div>
+            <label className="block text-xs uppercase font-black text-slate-400 mb-2 tracking-widest">구분</label>
+            <select value={typeFilter} onChange={(e) => setTypeFilter(e.target.value as typeof typeFilter)} className="px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400 bg-white">
+              <option value="all">전체</option>
+              <option value="part">부품</option>
+              <option value="product">제품</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs uppercase font-black text-slate-400 mb-2 tracking-widest">평가 방법</label>
+            <select value={settings.valuationMethod} onChange={(e) => handleMethodChange(e.target.value as ValuationMethod)} className="px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400 bg-white">
+              {(Object.keys(VALUATION_METHOD_LABELS) as ValuationMethod[]).map(method => <option key={method} value={method}>{VALUATION_METHOD_LABELS[method]}</option>)}
+            </select>
+          </div>
+          <button onClick={exportReport} className="ml-auto flex items-center gap-2 px-8 py-3 bg-emerald-600 text-white font-black rounded-xl shadow-lg hover:bg-emerald-700 transition-all uppercase tracking-widest">
+            <DownloadIcon className="w-5 h-5" /><span>엑셀 파일 저장</span>
+          </button>
+        </div>
+        <div className="flex-grow overflow-y-auto p-10">
+          {rows.length === 0 ? (
+            <p className="py-20 text-center text-slate-300 font-black uppercase tracking-widest italic text-2xl">해당 월의 재고 내역이 없습니다</p>
+          ) : (
+            <table className="w-full text-left">
+              <thead className="text-xs text-slate-400 uppercase border-b-2 border-slate-100 font-black tracking-[0.2em] sticky top-0 bg-white">
+                <tr>
+                  <th className="px-4 py-4">코드</th>
+                  <th className="px-4 py-4">품명</th>
+                  <th className="px-4 py-4 text-right">기초</th>
+                  <th className="px-4 py-4 text-right">입고</th>
+                  <th className="px-4 py-4 text-right">출고 (원가)</th>
+                  <th className="px-4 py-4 text-right">기말</th>
+                  <th className="px-4 py-4 text-right">기말 단가</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {rows.map(r => (
+                  <tr key={r.item.id}>
+                    <td className="px-4 py-4 font-mono font-black text-indigo-600">{r.item.code}</td>
+                    <td className="px-4 py-4 font-black text-slate-800">{r.item.name}</td>
+                    <td className="px-4 py-4 text-right"><p className="font-black text-slate-700">{formatAmount(r.openingValue)}</p><p className="text-xs font-bold text-slate-400">{r.openingQuantity.toLocaleString()} EA</p></td>
+                    <td className="px-4 py-4 text-right"><p className="font-black text-emerald-600">{formatAmount(r.receiptValue)}</p><p className="text-xs font-bold text-slate-400">{r.receiptQuantity.toLocaleString()} EA</p></td>
+                    <td className="px-4 py-4 text-right"><p className="font-black text-rose-600">{formatAmount(r.releaseCost)}</p><p className="text-xs font-bold text-slate-400">{r.releaseQuantity.toLocaleString()} EA</p></td>
+                    <td className="px-4 py-4 text-right"><p className="font-black text-slate-900">{formatAmount(r.closingValue)}</p><p className="text-xs font-bold text-slate-400">{r.closingQuantity.toLocaleString()} EA</p></td>
+                    <td className="px-4 py-4 text-right font-bold text-slate-500">{r.closingQuantity > 0 ? formatAmount(r.closingValue / r.closingQuantity) : '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="border-t-2 border-slate-100">
+                <tr className="font-black">
+                  <td colSpan={2} className="px-4 py-5 text-xs text-slate-400 uppercase tracking-widest">합계</td>
+                  <td className="px-4 py-5 text-right text-slate-700">{formatAmount(totals.openingValue)}</td>
+                  <td className="px-4 py-5 text-right text-emerald-600">{formatAmount(totals.receiptValue)}</td>
+                  <td className="px-4 py-5 text-right text-rose-600">{formatAmount(totals.releaseCost)}</td>
+                  <td className="px-4 py-5 text-right text-slate-900 text-lg">{formatAmount(totals.closingValue)}</td>
+                  <td></td>
+                </tr>
+              </tfoot>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ValuationReportModal;
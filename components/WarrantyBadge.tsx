@@ -0,0 +1,18 @@
+import React from 'react';
+import type { WarrantyState, WarrantyStatus } from '../utils/warranty';
+import { warrantySummary } from '../utils/warranty';
+
+const STATE_STYLES: Record<WarrantyState, string> = {
+  active: 'bg-emerald-100 text-emerald-700',
+  expiring: 'bg-amber-100 text-amber-700',
+  expired: 'bg-rose-100 text-rose-600',
+  returned: 'bg-slate-100 text-slate-500',
+};
+
+const WarrantyBadge: React.FC<{ warranty: WarrantyStatus; className?: string }> = ({ warranty, className = '' }) => (
+  <span className={`inline-block px-2 py-0.5 rounded-full text-[10px] font-black whitespace-nowrap ${STATE_STYLES[warranty.state]} ${className}`}>
+    {warrantySummary(warranty)}
+  </span>
+);
+
+export default WarrantyBadge;
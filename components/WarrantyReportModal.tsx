@@ -0,0 +1,101 @@
+import React, { useState, useMemo } from 'react';
+import type { Item } from '../types';
+import { downloadCsv } from '../utils/spreadsheet';
+import { EXPIRING_SOON_DAYS, expiringWarranties, formatDay } from '../utils/warranty';
+import WarrantyBadge from './WarrantyBadge';
+import { CloseIcon, DownloadIcon } from './icons';
+
+interface WarrantyReportModalProps {
+  items: Item[];
+  onSelectSerial: (serial: string) => void;
+  onClose: () => void;
+}
+
+const WarrantyReportModal: React.FC<WarrantyReportModalProps> = ({ items, onSelectSerial, onClose }) => {
+  const [days, setDays] = useState(String(EXPIRING_SOON_DAYS));
+  const withinDays = Math.max(0, parseInt(days, 10) || 0);
+
+  const rows = useMemo(() => expiringWarranties(items, withinDays), [items, withinDays]);
+
+  const exportReport = () => {
+    downloadCsv(`보증만료예정_${formatDay(new Date())}_${withinDays}일.csv`, [
+      ['보증 만료일', '남은 일수', '제품 코드', '제품명', '일련번호', '수량', '고객명', '연락처', '주소', '출고일', '보증 기간(개월)'],
+      ...rows.map(w => {
+        const t = w.release;
+        return [
+          formatDay(w.endDate), w.daysLeft, w.item.code, w.item.name, t.serialNumber || '', t.quantity,
+          t.customerName || '', t.phoneNumber || '', t.address || '', formatDay(w.startDate), w.months,
+        ];
+      }),
+    ]);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 p-4 font-sans">
+      <div className="bg-white rounded-[3rem] shadow-2xl w-full max-w-[90vw] flex flex-col h-full max-h-[95vh] overflow-hidden animate-fade-in-up">
+        <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-3xl font-black text-slate-800 tracking-tight uppercase">보증 만료 예정</h2>
+            <p className="text-xs text-slate-400 font-bold mt-1 uppercase tracking-widest">출고일 기준 보증 기간이 {withinDays}일 안에 끝나는 제품</p>
+          </div>
+          <button onClick={onClose} className="p-3 text-slate-400 hover:text-slate-800 transition-colors"><CloseIcon className="w-10 h-10" /></button>
+        </div>
+        <div className="px-10 pt-8 flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-xs uppercase font-black text-slate-400 mb-2 tracking-widest">만료까지 (일)</label>
+            <input type="number" min="0" value={days} onChange={(e) => setDays(e.target.value)} className="w-32 px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-400" />
+          </div>
+          <div className="flex gap-2 pb-1">
+            {[30, 60, 90].map(preset => (
+              <button key={preset} onClick={() => setDays(String(preset))} className={`px-4 py-2 rounded-xl text-xs font-black uppercase tracking-widest transition-all ${withinDays === preset ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}>{preset}일</button>
+            ))}
+          </div>
+          <button onClick={exportReport} disabled={rows.length === 0} className="ml-auto flex items-center gap-2 px-8 py-3 bg-emerald-600 text-white font-black rounded-xl shadow-lg hover:bg-emerald-700 transition-all uppercase tracking-widest disabled:opacity-40">
+            <DownloadIcon className="w-5 h-5" /><span>엑셀 파일 저장</span>
+          </button>
+        </div>
+        <div className="flex-grow overflow-y-auto p-10">
+          {rows.length === 0 ? (
+            <p className="py-20 text-center text-slate-300 font-black uppercase tracking-widest italic text-2xl">기간 내 만료되는 보증이 없습니다</p>
+          ) : (
+            <table className="w-full text-left">
+              <thead className="text-xs text-slate-400 uppercase border-b-2 border-slate-100 font-black tracking-[0.2em] sticky top-0 bg-white">
+                <tr>
+                  <th className="px-4 py-4">보증 상태</th>
+                  <th className="px-4 py-4">제품</th>
+                  <th className="px-4 py-4">일련번호</th>
+                  <th className="px-4 py-4">고객 / 연락처</th>
+                  <th className="px-4 py-4">출고일</th>
+                  <th className="px-4 py-4 text-right">보증 기간</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {rows.map(w => (
+                  <tr key={w.release.id}>
+                    <td className="px-4 py-4"><WarrantyBadge warranty={w} /></td>
+                    <td className="px-4 py-4"><span className="font-mono font-black text-indigo-600 mr-2">{w.item.code}</span><span className="font-black text-slate-800">{w.item.name}</span></td>
+                    <td className="px-4 py-4">
+                      {w.release.serialNumber ? (
+                        <button onClick={() => onSelectSerial(w.release.serialNumber!)} className="font-mono font-black text-indigo-600 hover:underline">{w.release.serialNumber}</button>
+                      ) : (
+                        <span className="font-bold text-slate-500">{w.release.quantity.toLocaleString()}개</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-4">
+                      <p className="font-black text-slate-800">{w.release.customerName || '-'}</p>
+                      <p className="text-sm font-bold text-slate-400">{w.release.phoneNumber || '-'}</p>
+                    </td>
+                    <td className="px-4 py-4 font-bold text-slate-600">{formatDay(w.startDate)}</td>
+                    <td className="px-4 py-4 text-right font-bold text-slate-500">{w.months}개월</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WarrantyReportModal;
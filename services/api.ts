@@ -0,0 +1,309 @@
+
+import type { AuditEntry, Customer, InventorySettings, Item, Location, ProductionRecord, PurchaseOrder, StockTake, Transaction, UserAccount, UserRole } from '../types';
+import type { BulkImport } from '../utils/bulkImport';
+import type { StockTakeCount } from '../utils/stockTakes';
+
+const SESSION_STORAGE_KEY = 'inventory_system_session_v1';
+
+export interface AuthSession {
+  token: string;
+  user: UserAccount;
+}
+
+export const loadSession = (): AuthSession | null => {
+  try {
+    const saved = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveSession = (session: AuthSession) => sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+
+export const clearSession = () => sessionStorage.removeItem(SESSION_STORAGE_KEY);
+
+let unauthorizedHandler: (() => void) | null = null;
+
+// App registers this so an expired or revoked token drops the user back to the login screen
+export const setUnauthorizedHandler = (handler: (() => void) | null) => {
+  unauthorizedHandler = handler;
+};
+
+export const apiFetch = async (path: string, init: RequestInit = {}): Promise<Response> => {
+  const session = loadSession();
+  const headers = new Headers(init.headers);
+  if (session) headers.set('Authorization', `Bearer ${session.token}`);
+  if (init.body && !headers.has('Content-Type')) headers.set('Content-Type', 'application/json');
+
+  const response = await fetch(path, { ...init, headers });
+  if (response.status === 401 && unauthorizedHandler) unauthorizedHandler();
+  return response;
+};
+
+export class ApiRequestError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const readError = async (response: Response, fallback: string) => {
+  const data = await response.json().catch(() => null);
+  return new ApiRequestError(response.status, data?.error || fallback);
+};
+
+// A change that did not reach the server, kept in the offline queue and replayed later
+export interface QueuedRequest {
+  path: string;
+  method: string;
+  body?: string;
+}
+
+export class OfflineError extends Error {
+  request: QueuedRequest;
+
+  constructor(request: QueuedRequest) {
+    super('Server unreachable');
+    this.request = request;
+  }
+}
+
+let holdChanges = false;
+
+// While older offline changes wait to be replayed, new changes are queued behind them instead of sent
+export const setHoldChanges = (hold: boolean) => {
+  holdChanges = hold;
+};
+
+const requestJson = async <T>(path: string, init: RequestInit, fallbackError: string): Promise<T> => {
+  const method = init.method || 'GET';
+  const queued: QueuedRequest = { path, method, body: typeof init.body === 'string' ? init.body : undefined };
+  if (method !== 'GET' && holdChanges) throw new OfflineError(queued);
+  let response: Response;
+  try {
+    response = await apiFetch(path, init);
+  } catch (err) {
+    if (method !== 'GET') throw new OfflineError(queued);
+    throw err;
+  }
+  if (!response.ok) throw await readError(response, fallbackError);
+  return response.json();
+};
+
+// Replays a queued change; a network failure throws OfflineError again, a rejection ApiRequestError
+export const sendQueuedRequest = async (request: QueuedRequest): Promise<{ revision: number; [key: string]: unknown }> => {
+  let response: Response;
+  try {
+    response = await apiFetch(request.path, { method: request.method, body: request.body });
+  } catch {
+    throw new OfflineError(request);
+  }
+  if (!response.ok) throw await readError(response, 'Failed to replay change');
+  return response.json();
+};
+
+export const login = async (username: string, password: string): Promise<AuthSession> => {
+  const response = await fetch('/api/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password }),
+  });
+  if (!response.ok) throw await readError(response, 'Login failed');
+  const session: AuthSession = await response.json();
+  saveSession(session);
+  return session;
+};
+
+export const logout = async () => {
+  try {
+    await apiFetch('/api/logout', { method: 'POST' });
+  } finally {
+    clearSession();
+  }
+};
+
+export const verifyPassword = async (password: string): Promise<boolean> => {
+  const response = await apiFetch('/api/session', { method: 'POST', body: JSON.stringify({ password }) });
+  if (!response.ok) return false;
+  const data = await response.json();
+  return data.valid === true;
+};
+
+// User administration (admin only)
+export const fetchUsers = async (): Promise<UserAccount[]> => {
+  const response = await apiFetch('/api/users');
+  if (!response.ok) throw await readError(response, 'Failed to load users');
+  return (await response.json()).users;
+};
+
+export const createUser = async (data: { username: string; displayName: string; role: UserRole; password: string }): Promise<UserAccount> => {
+  const response = await apiFetch('/api/users', { method: 'POST', body: JSON.stringify(data) });
+  if (!response.ok) throw await readError(response, 'Failed to create user');
+  return (await response.json()).user;
+};
+
+export const updateUser = async (data: { username: string; displayName?: string; role?: UserRole; password?: string }): Promise<UserAccount> => {
+  const response = await apiFetch('/api/users', { method: 'PATCH', body: JSON.stringify(data) });
+  if (!response.ok) throw await readError(response, 'Failed to update user');
+  return (await response.json()).user;
+};
+
+export const deleteUser = async (username: string) => {
+  const response = await apiFetch(`/api/users?username=${encodeURIComponent(username)}`, { method: 'DELETE' });
+  if (!response.ok) throw await readError(response, 'Failed to delete user');
+};
+
+// Fine-grained inventory changes
+const itemPath = (itemId: string) => `/api/items/${encodeURIComponent(itemId)}`;
+const transactionPath = (itemId: string, transactionId: string) => `${itemPath(itemId)}/transactions/${encodeURIComponent(transactionId)}`;
+
+export const createItemRemote = (item: Item) =>
+  requestJson<{ item: Item; revision: number }>('/api/items', { method: 'POST', body: JSON.stringify(item) }, 'Failed to create item');
+
+// Fields explicitly set to undefined (e.g. a cleared reorder point) are sent as null so the server clears them
+export const updateItemRemote = (itemId: string, data: Partial<Item>) =>
+  requestJson<{ item: Item; revision: number }>(itemPath(itemId), { method: 'PATCH', body: JSON.stringify(data, (_, value) => value === undefined ? null : value) }, 'Failed to update item');
+
+export const deleteItemRemote = (itemId: string) =>
+  requestJson<{ revision: number }>(itemPath(itemId), { method: 'DELETE' }, 'Failed to delete item');
+
+// `customer` is registered in the same write, for releases to a customer entered for the first time
+export const addTransactionsRemote = (itemId: string, transactions: Transaction[], customer?: Customer) =>
+  requestJson<{ transactions: Transaction[]; customer?: Customer; revision: number }>(
+    `${itemPath(itemId)}/transactions`, { method: 'POST', body: JSON.stringify({ transactions, customer }) }, 'Failed to add transaction'
+  );
+
+// Like updateItemRemote, a field set to undefined (e.g. a cleared unit cost) is sent as null
+export const updateTransactionRemote = (itemId: string, transactionId: string, data: Partial<Transaction>) =>
+  requestJson<{ transaction: Transaction; revision: number }>(
+    transactionPath(itemId, transactionId), { method: 'PATCH', body: JSON.stringify(data, (_, value) => value === undefined ? null : value) }, 'Failed to update transaction'
+  );
+
+export const deleteTransactionRemote = (itemId: string, transactionId: string) =>
+  requestJson<{ revision: number }>(transactionPath(itemId, transactionId), { method: 'DELETE' }, 'Failed to delete transaction');
+
+// Trash bin and settings (admin only)
+const trashQuery = (itemId: string, transactionId?: string) => {
+  const params = new URLSearchParams({ itemId });
+  if (transactionId) params.set('transactionId', transactionId);
+  return params.toString();
+};
+
+export const restoreFromTrash = (itemId: string, transactionId?: string) =>
+  requestJson<{ restored: Item | Transaction; revision: number }>('/api/trash', { method: 'POST', body: JSON.stringify({ itemId, transactionId }) }, 'Failed to restore');
+
+export const purgeFromTrash = (itemId: string, transactionId?: string) =>
+  requestJson<{ revision: number }>(`/api/trash?${trashQuery(itemId, transactionId)}`, { method: 'DELETE' }, 'Failed to purge');
+
+export const updateSettingsRemote = (settings: Partial<InventorySettings>) =>
+  requestJson<{ settings: InventorySettings; revision: number }>('/api/settings', { method: 'PATCH', body: JSON.stringify(settings) }, 'Failed to update settings');
+
+// Storage locations (admin only)
+const locationPath = (locationId: string) => `/api/locations/${encodeURIComponent(locationId)}`;
+
+export const createLocationRemote = (location: Partial<Location>) =>
+  requestJson<{ location: Location; revision: number }>('/api/locations', { method: 'POST', body: JSON.stringify(location) }, 'Failed to create location');
+
+export const updateLocationRemote = (locationId: string, data: Partial<Location>) =>
+  requestJson<{ location: Location; revision: number }>(locationPath(locationId), { method: 'PATCH', body: JSON.stringify(data) }, 'Failed to update location');
+
+export const deleteLocationRemote = (locationId: string) =>
+  requestJson<{ revision: number }>(locationPath(locationId), { method: 'DELETE' }, 'Failed to delete location');
+
+// Purchase orders (admin only)
+const purchaseOrderPath = (orderId: string) => `/api/purchase-orders/${encodeURIComponent(orderId)}`;
+
+export interface PurchaseOrderReceipt {
+  id?: string; // 생성될 입고 내역 ID (재전송 시 중복 입고 확인용)
+  lineId: string;
+  quantity: number;
+  lotNumber?: string;
+}
+
+export const createPurchaseOrderRemote = (order: Partial<PurchaseOrder>) =>
+  requestJson<{ purchaseOrder: PurchaseOrder; revision: number }>('/api/purchase-orders', { method: 'POST', body: JSON.stringify(order) }, 'Failed to create purchase order');
+
+export const updatePurchaseOrderRemote = (orderId: string, data: Partial<PurchaseOrder>) =>
+  requestJson<{ purchaseOrder: PurchaseOrder; revision: number }>(purchaseOrderPath(orderId), { method: 'PATCH', body: JSON.stringify(data) }, 'Failed to update purchase order');
+
+export const deletePurchaseOrderRemote = (orderId: string) =>
+  requestJson<{ revision: number }>(purchaseOrderPath(orderId), { method: 'DELETE' }, 'Failed to delete purchase order');
+
+export const receivePurchaseOrderRemote = (orderId: string, data: { receipts: PurchaseOrderReceipt[]; locationId?: string; date?: string; remarks?: string }) =>
+  requestJson<{ purchaseOrder: PurchaseOrder; transactions: { itemId: string; transaction: Transaction }[]; revision: number }>(
+    `${purchaseOrderPath(orderId)}/receipts`, { method: 'POST', body: JSON.stringify(data) }, 'Failed to receive purchase order'
+  );
+
+// Production / assembly (admin only)
+export const createProductionRemote = (data: { id?: string; productId: string; quantity: number; serialRange?: string; locationId?: string; date?: string; remarks?: string }) =>
+  requestJson<{ production: ProductionRecord; transactions: { itemId: string; transaction: Transaction }[]; revision: number }>(
+    '/api/productions', { method: 'POST', body: JSON.stringify(data) }, 'Failed to record production'
+  );
+
+// Stock-takes (admin only)
+const stockTakePath = (stockTakeId: string) => `/api/stock-takes/${encodeURIComponent(stockTakeId)}`;
+
+export const createStockTakeRemote = (data: { id?: string; itemType?: Item['type']; locationId?: string; remarks?: string }) =>
+  requestJson<{ stockTake: StockTake; revision: number }>('/api/stock-takes', { method: 'POST', body: JSON.stringify(data) }, 'Failed to start stock-take');
+
+export const updateStockTakeRemote = (stockTakeId: string, data: { counts?: StockTakeCount[]; remarks?: string; status?: 'cancelled' }) =>
+  requestJson<{ stockTake: StockTake; revision: number }>(stockTakePath(stockTakeId), { method: 'PATCH', body: JSON.stringify(data) }, 'Failed to update stock-take');
+
+export const approveStockTakeRemote = (stockTakeId: string, counts: StockTakeCount[] = []) =>
+  requestJson<{ stockTake: StockTake; transactions: { itemId: string; transaction: Transaction }[]; revision: number }>(
+    `${stockTakePath(stockTakeId)}/approve`, { method: 'POST', body: JSON.stringify({ counts }) }, 'Failed to approve stock-take'
+  );
+
+// Customers (deleting and merging are admin only)
+const customerPath = (customerId: string) => `/api/customers/${encodeURIComponent(customerId)}`;
+
+export interface CustomerMerge {
+  targetId?: string;
+  customer?: Partial<Customer>; // merge into a new customer instead of targetId
+  sourceIds: string[];
+  names: string[];
+}
+
+export const createCustomerRemote = (customer: Partial<Customer>) =>
+  requestJson<{ customer: Customer; revision: number }>('/api/customers', { method: 'POST', body: JSON.stringify(customer) }, 'Failed to create customer');
+
+export const updateCustomerRemote = (customerId: string, data: Partial<Customer>) =>
+  requestJson<{ customer: Customer; revision: number }>(customerPath(customerId), { method: 'PATCH', body: JSON.stringify(data) }, 'Failed to update customer');
+
+export const deleteCustomerRemote = (customerId: string) =>
+  requestJson<{ revision: number }>(customerPath(customerId), { method: 'DELETE' }, 'Failed to delete customer');
+
+export const mergeCustomersRemote = (data: CustomerMerge) =>
+  requestJson<{ customer: Customer; transactions: { itemId: string; transaction: Transaction }[]; removedIds: string[]; revision: number }>(
+    '/api/customers/merge', { method: 'POST', body: JSON.stringify(data) }, 'Failed to merge customers'
+  );
+
+// Bulk import of validated spreadsheet rows (admin only), applied all or nothing
+export const importRemote = (data: BulkImport) =>
+  requestJson<{ items: Item[]; transactions: { itemId: string; transaction: Transaction }[]; revision: number }>(
+    '/api/imports', { method: 'POST', body: JSON.stringify(data) }, 'Failed to import'
+  );
+
+// Backup restore (admin only): the items the restore wizard kept, checked and applied all or nothing
+export const restoreBackupRemote = (items: Item[]) =>
+  requestJson<{ created: number; updated: number; removed: number; revision: number }>(
+    '/api/imports/restore', { method: 'POST', body: JSON.stringify({ items }) }, 'Failed to restore backup'
+  );
+
+// Audit log (admin only)
+// Dates are local calendar days, sent as epoch bounds so the server does not read them in its own timezone
+export const fetchAuditLog = async (
+  filter: { itemCode?: string; user?: string; from?: string; to?: string },
+  before?: number
+): Promise<{ entries: AuditEntry[]; nextCursor?: number }> => {
+  const params = new URLSearchParams();
+  if (filter.itemCode) params.set('itemCode', filter.itemCode);
+  if (filter.user) params.set('user', filter.user);
+  if (filter.from) params.set('from', String(new Date(`${filter.from}T00:00:00`).getTime()));
+  if (filter.to) params.set('to', String(new Date(`${filter.to}T23:59:59.999`).getTime()));
+  if (before !== undefined) params.set('before', String(before));
+  return requestJson<{ entries: AuditEntry[]; nextCursor?: number }>(`/api/audit?${params}`, {}, 'Failed to load audit log');
+};
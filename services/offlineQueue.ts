@@ -0,0 +1,62 @@
+import type { QueuedRequest } from './api';
+
+const DB_NAME = 'inventory_system_offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'operations';
+
+// Values a queued edit expected to find on the server, to spot someone else changing the same fields
+export interface OperationGuard {
+  itemId: string;
+  transactionId?: string;
+  before: Record<string, unknown>; // 수정 전 값 (필드별)
+}
+
+export interface QueuedOperation {
+  seq?: number; // IndexedDB 키 (기록 순서)
+  user: string; // 변경한 계정 (다른 계정의 변경은 재전송하지 않음)
+  createdAt: string;
+  request: QueuedRequest;
+  guard?: OperationGuard;
+  conflict?: string; // 재전송이 보류된 이유 (사용자 검토 필요)
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  dbPromise = dbPromise || new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'seq', autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = run(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const enqueueOperation = (operation: QueuedOperation) =>
+  withStore('readwrite', store => store.add(operation));
+
+// The user's queued changes, oldest first
+export const listOperations = async (user: string): Promise<QueuedOperation[]> =>
+  (await withStore<QueuedOperation[]>('readonly', store => store.getAll())).filter(op => op.user === user);
+
+export const updateOperation = (operation: QueuedOperation) =>
+  withStore('readwrite', store => store.put(operation));
+
+export const removeOperation = (seq: number) =>
+  withStore('readwrite', store => store.delete(seq));
@@ -2,16 +2,40 @@
 
 export interface Transaction {
   id: string;
-  type: 'purchase' | 'release';
-  quantity: number;
+  // transfer: 로케이션 간 이동 (총 재고 변동 없음), return: 고객 반품 입고, adjustment: 재고 조정 (+/-), scrap: 폐기
+  type: 'purchase' | 'release' | 'transfer' | 'return' | 'adjustment' | 'scrap';
+  quantity: number; // 항상 양수, 증감 방향은 type (조정은 adjustmentDirection)으로 결정
   date: string;
   remarks: string;
+  unitCost?: number; // 입고 단가 (재고 평가용, 입고에만 사용)
+  locationId?: string; // 입고/출고 로케이션, 이동은 출발 로케이션 (없으면 미지정)
+  toLocationId?: string; // 이동 도착 로케이션 (이동만 해당)
+  lotNumber?: string; // 로트번호 (부품 입고 시 로트, 출고 시 사용한 로트)
   modelName?: string; // 기종 정보
   serialNumber?: string; // 일련번호 (선택)
   customerName?: string; // 이름
   address?: string; // 주소
   phoneNumber?: string; // 전화번호
+  customerId?: string; // 등록 고객 ID (출고/반품, 없으면 고객명만 직접 입력된 내역)
   userId?: string; // 아이디 추가
+  createdBy?: string; // 등록한 사용자 계정
+  updatedBy?: string; // 마지막으로 수정한 사용자 계정
+  deletedAt?: string; // 휴지통 이동 시각 (있으면 재고 계산/목록에서 제외)
+  deletedBy?: string;
+  purchaseOrderId?: string; // 발주 입고로 생성된 경우 발주서 ID
+  purchaseOrderLineId?: string; // 발주 품목 라인 ID
+  productionId?: string; // 생산(조립)으로 생성된 경우 생산 기록 ID
+  stockTakeId?: string; // 재고 실사 승인으로 생성된 조정인 경우 실사 ID
+  reasonCode?: string; // 반품/조정/폐기 사유 코드 (필수)
+  adjustmentDirection?: 'increase' | 'decrease'; // 조정 방향 (조정만 해당)
+  returnOfTransactionId?: string; // 반품 대상 원 출고 내역 ID (반품만 해당)
+  warrantyMonths?: number; // 출고 시점의 보증 기간 (개월, 제품 출고만 해당, 보증 시작일 = 출고일)
+}
+
+// 자재 명세(BOM) 한 줄: 제품 1대당 필요한 부품과 수량
+export interface BomLine {
+  partId: string; // 부품 Item ID
+  quantity: number; // 제품 1대당 소요 수량
 }
 
 export interface Item {
@@ -25,7 +49,38 @@ export interface Item {
   drawingNumber: string; // 도번
   application: string; // 적용
   remarks: string; // 비고
+  minStock?: number; // 안전 재고 (이 수량 미만이면 부족)
+  reorderPoint?: number; // 재주문점 (재고가 이 수량 이하가 되면 발주)
+  reorderQuantity?: number; // 기본 발주 수량 (발주 단위)
+  lotTracked?: boolean; // 로트 관리 품목 (입고 시 로트번호 필수, 출고 시 로트 지정)
+  bom?: BomLine[]; // 제품 구성 부품 (제품만 해당)
+  warrantyMonths?: number; // 보증 기간 (개월, 제품만 해당, 없으면 보증 없음)
   transactions: Transaction[];
+  createdBy?: string;
+  updatedBy?: string;
+  deletedAt?: string; // 휴지통 이동 시각
+  deletedBy?: string;
+}
+
+export type UserRole = 'admin' | 'product_only';
+
+// 서버 세션에서 내려오는 사용자 정보 (비밀번호 해시는 포함하지 않음)
+export interface UserAccount {
+  id: string;
+  username: string;
+  displayName: string;
+  role: UserRole;
+}
+
+// 등록 고객 (제품 출고 대상). 출고 내역은 customerId로 참조하고, 출고 당시의 이름/연락처/주소도 내역에 그대로 남김
+export interface Customer {
+  id: string;
+  name: string;
+  phoneNumber: string;
+  address: string;
+  remarks: string;
+  createdBy?: string;
+  updatedBy?: string;
 }
 
 // Fix: Added missing OrderedPart interface to resolve "no exported member" errors in modal components
@@ -38,4 +93,133 @@ export interface OrderedPart {
   spec: string;
   unitPrice: number;
   remarks: string;
-}
\ No newline at end of file
+}
+
+// 보관 장소 (본 창고, 생산 라인, 외주 도금업체 등)
+export interface Location {
+  id: string;
+  code: string; // 로케이션 코드 (예: WH-01)
+  name: string;
+  remarks: string;
+  active: boolean; // 비활성 로케이션은 신규 입출고/이동에서 선택 불가
+  createdBy?: string;
+  updatedBy?: string;
+}
+
+// 발주 품목 라인: 발주 시점의 품목 정보(OrderedPart)와 수량
+// 입고 수량은 라인에 연결된 입고 내역(purchaseOrderLineId)에서 계산
+export interface PurchaseOrderLine extends OrderedPart {
+  itemId: string;
+  quantity: number; // 발주 수량
+}
+
+// draft: 작성중, ordered: 발주 확정, partially_received: 부분 입고, closed: 종결
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partially_received' | 'closed';
+
+export interface PurchaseOrder {
+  id: string;
+  orderNumber: string; // 발주번호 (PO-YYYYMMDD-001)
+  supplier: string; // 거래처
+  orderDate: string; // 발주일 (YYYY-MM-DD)
+  expectedDate: string; // 납기 예정일
+  // 저장되는 상태는 draft / ordered / closed(수동 종결) 뿐이며,
+  // 부분 입고 및 전량 입고 종결은 입고 내역으로부터 계산 (utils/purchaseOrders.ts)
+  status: Extract<PurchaseOrderStatus, 'draft' | 'ordered' | 'closed'>;
+  remarks: string;
+  lines: PurchaseOrderLine[];
+  createdBy?: string;
+  updatedBy?: string;
+}
+
+// 생산(조립) 기록: 부품 출고와 제품 입고 내역이 productionId로 연결됨
+export interface ProductionRecord {
+  id: string;
+  productionNumber: string; // 생산번호 (MO-YYYYMMDD-001)
+  productId: string;
+  productCode: string;
+  quantity: number;
+  serialNumbers: string[]; // 생산된 제품 일련번호 (없으면 빈 배열)
+  date: string;
+  remarks: string;
+  createdBy?: string;
+}
+
+// 재고 실사 품목 라인: 실사 시작 시점의 장부 수량(스냅샷)과 실사 수량
+export interface StockTakeLine {
+  itemId: string;
+  code: string; // 실사 시작 시점의 품번
+  name: string;
+  expected: number; // 장부 수량 (시작 시점 스냅샷, 이후 입출고와 무관)
+  expectedSerials?: string[]; // 장부상 보유 일련번호 (제품, 전체 로케이션 실사만)
+  counted?: number; // 실사 수량 (미입력이면 없음)
+  countedSerials?: string[]; // 스캔으로 확인한 일련번호
+  lotNumber?: string; // 로트 관리 부품이 남을 때(증가) 조정할 로트
+  bookAtApproval?: number; // 승인 시점의 장부 수량 (실사한 품목, 조정 차이의 기준)
+  bookSerialsAtApproval?: string[]; // 승인 시점의 장부상 보유 일련번호 (expectedSerials가 있는 품목)
+}
+
+// open: 실사 중, approved: 승인 (차이 조정 완료), cancelled: 취소
+export type StockTakeStatus = 'open' | 'approved' | 'cancelled';
+
+// 재고 실사: 승인 또는 취소 후에도 삭제하지 않고 기록으로 보관
+export interface StockTake {
+  id: string;
+  stockTakeNumber: string; // 실사번호 (ST-YYYYMMDD-001)
+  status: StockTakeStatus;
+  itemType?: Item['type']; // 대상 구분 (없으면 전체)
+  locationId?: string; // 대상 로케이션 (없으면 전체 재고, ''는 미지정)
+  startedAt: string;
+  remarks: string;
+  lines: StockTakeLine[];
+  createdBy?: string;
+  updatedBy?: string;
+  approvedAt?: string;
+  approvedBy?: string;
+}
+
+// 재고 평가 방법: 이동평균법 / 선입선출법
+export type ValuationMethod = 'moving_average' | 'fifo';
+
+// 시스템 설정 (관리자만 변경)
+export interface InventorySettings {
+  trashRetentionDays: number; // 휴지통 보관 기간 (경과 시 자동 영구 삭제)
+  valuationMethod: ValuationMethod; // 재고 금액 및 출고 원가 계산 방법
+}
+
+// KV에 저장되는 전체 재고 문서
+export interface InventoryDocument {
+  items: Item[];
+  locations: Location[];
+  purchaseOrders: PurchaseOrder[];
+  productionRecords: ProductionRecord[];
+  stockTakes: StockTake[];
+  customers: Customer[];
+  settings: InventorySettings;
+  revision: number; // 저장할 때마다 1씩 증가 (동시 저장 충돌 감지용)
+  lastUpdated: string | null;
+  lastUpdatedBy?: string;
+}
+
+export type AuditAction =
+  | 'item.create' | 'item.update' | 'item.delete' | 'item.restore' | 'item.purge'
+  | 'transaction.create' | 'transaction.update' | 'transaction.delete' | 'transaction.restore' | 'transaction.purge'
+  | 'purchaseOrder.create' | 'purchaseOrder.update' | 'purchaseOrder.delete' | 'purchaseOrder.receive'
+  | 'production.create'
+  | 'stockTake.create' | 'stockTake.update' | 'stockTake.approve'
+  | 'customer.create' | 'customer.update' | 'customer.delete' | 'customer.merge'
+  | 'location.create' | 'location.update' | 'location.delete'
+  | 'inventory.replace' | 'settings.update';
+
+// 변경 이력 (추가만 가능, 수정/삭제 불가)
+export interface AuditEntry {
+  id: string;
+  at: string; // ISO 시각
+  user: string; // 변경한 사용자 계정
+  action: AuditAction;
+  itemId?: string;
+  itemCode?: string;
+  transactionId?: string;
+  reference?: string; // 품목 외 대상 식별자 (발주번호 등)
+  before?: unknown; // 변경 전 값
+  after?: unknown; // 변경 후 값
+}
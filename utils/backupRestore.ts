@@ -0,0 +1,97 @@
+import type { Item, Transaction } from '../types';
+import { mergeItems, sortItemsByCode } from './inventory';
+
+// added = 백업에만 있음, removed = 현재 데이터에만 있음 (전체 교체 시 사라짐)
+export type ChangeKind = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface FieldChange {
+  field: string;
+  backup: unknown;
+  current: unknown;
+}
+
+export interface TransactionDiff {
+  added: Transaction[];
+  removed: Transaction[];
+  changed: { backup: Transaction; current: Transaction }[];
+}
+
+export interface ItemDiff {
+  id: string;
+  code: string;
+  name: string;
+  kind: ChangeKind;
+  backup?: Item;
+  current?: Item;
+  fields: FieldChange[];
+  transactions: TransactionDiff;
+}
+
+// replace = 백업으로 전체 교체, keep_both / backup_wins / current_wins = 병합, select = 품목별 선택
+export type RestoreMode = 'replace' | 'keep_both' | 'backup_wins' | 'current_wins' | 'select';
+export type ItemChoice = 'backup' | 'current' | 'both';
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const diffTransactions = (backup: Transaction[], current: Transaction[]): TransactionDiff => {
+  const currentById = new Map(current.map(t => [t.id, t]));
+  const backupIds = new Set(backup.map(t => t.id));
+  const diff: TransactionDiff = { added: [], removed: current.filter(t => !backupIds.has(t.id)), changed: [] };
+  backup.forEach(t => {
+    const existing = currentById.get(t.id);
+    if (!existing) diff.added.push(t);
+    else if (!same(t, existing)) diff.changed.push({ backup: t, current: existing });
+  });
+  return diff;
+};
+
+const diffFields = (backup: Item, current: Item): FieldChange[] => {
+  const backupFields = backup as unknown as Record<string, unknown>;
+  const currentFields = current as unknown as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(backup), ...Object.keys(current)])).filter(f => f !== 'transactions');
+  return fields
+    .filter(field => !same(backupFields[field], currentFields[field]))
+    .map(field => ({ field, backup: backupFields[field], current: currentFields[field] }));
+};
+
+// Every item in either the backup or the current data, compared by ID, in item code order
+export const diffBackup = (backupItems: Item[], currentItems: Item[]): ItemDiff[] => {
+  const currentById = new Map(currentItems.map(i => [i.id, i]));
+  const backupById = new Map(backupItems.map(i => [i.id, i]));
+  const ids = Array.from(new Set([...backupItems.map(i => i.id), ...currentItems.map(i => i.id)]));
+  const diffs = ids.map((id): ItemDiff => {
+    const backup = backupById.get(id);
+    const current = currentById.get(id);
+    const base = (backup || current)!;
+    const fields = backup && current ? diffFields(backup, current) : [];
+    const transactions = diffTransactions(backup?.transactions || [], current?.transactions || []);
+    const kind: ChangeKind = !current ? 'added' : !backup ? 'removed'
+      : fields.length > 0 || transactions.added.length + transactions.removed.length + transactions.changed.length > 0 ? 'changed' : 'unchanged';
+    return { id, code: base.code, name: base.name, kind, backup, current, fields, transactions: backup && current ? transactions : { added: [], removed: [], changed: [] } };
+  });
+  return diffs.sort((a, b) => a.code.localeCompare(b.code, undefined, { numeric: true, sensitivity: 'base' }));
+};
+
+// What each mode does with one item; `select` uses the per-item choice
+export const resolveChoice = (diff: ItemDiff, mode: RestoreMode, choices: Record<string, ItemChoice>): ItemChoice => {
+  switch (mode) {
+    case 'replace': return 'backup';
+    case 'keep_both': return 'both';
+    case 'backup_wins': return diff.kind === 'removed' ? 'current' : 'backup';
+    case 'current_wins': return diff.kind === 'added' ? 'backup' : 'current';
+    case 'select': return choices[diff.id] || (diff.kind === 'added' ? 'backup' : 'current');
+  }
+};
+
+// The items to save: `backup` takes the backup copy (dropping an item the backup does not have),
+// `current` keeps the current copy (skipping an item only the backup has), and `both` keeps every
+// transaction from either side with the current copy winning where the same record differs
+export const restoreItems = (diffs: ItemDiff[], mode: RestoreMode, choices: Record<string, ItemChoice>): Item[] => {
+  const restored = diffs.flatMap(diff => {
+    const choice = resolveChoice(diff, mode, choices);
+    if (choice === 'backup') return diff.backup ? [diff.backup] : [];
+    if (choice === 'current') return diff.current ? [diff.current] : [];
+    return diff.backup && diff.current ? mergeItems([diff.backup], [diff.current]) : [(diff.backup || diff.current)!];
+  });
+  return sortItemsByCode(restored);
+};
@@ -0,0 +1,305 @@
+// Code128 and QR symbols drawn as SVG, generated locally without a barcode library
+
+export type Symbology = 'code128' | 'qr';
+
+// Bar/space widths of Code128 symbols 0-106 (106 = stop, with its final bar)
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+const START_B = 104;
+const START_C = 105;
+const CODE_B = 100;
+const CODE_C = 99;
+const STOP = 106;
+
+// Code128 covers printable ASCII only; item codes in Korean need a QR code instead
+export const canEncodeCode128 = (value: string) => /^[\x20-\x7e]+$/.test(value);
+
+// Symbol values of `value`: code set B, switching to C for runs of digits long enough to make the symbol shorter
+const code128Symbols = (value: string): number[] => {
+  const symbols: number[] = [];
+  let set: 'B' | 'C' | null = null;
+  let i = 0;
+  while (i < value.length) {
+    const digits = value.slice(i).match(/^\d+/)?.[0].length || 0;
+    const atEdge = i === 0 || i + digits === value.length;
+    if (digits >= (atEdge ? 4 : 6)) {
+      const run = digits - (digits % 2);
+      if (set !== 'C') symbols.push(set === null ? START_C : CODE_C);
+      set = 'C';
+      for (let k = 0; k < run; k += 2) symbols.push(Number(value.slice(i + k, i + k + 2)));
+      i += run;
+    } else {
+      if (set !== 'B') symbols.push(set === null ? START_B : CODE_B);
+      set = 'B';
+      symbols.push(value.charCodeAt(i) - 32);
+      i++;
+    }
+  }
+  const checksum = symbols.reduce((sum, symbol, index) => sum + symbol * Math.max(index, 1), 0) % 103;
+  return [...symbols, checksum, STOP];
+};
+
+// Module widths alternating bar, space, bar... for the whole symbol (without quiet zones)
+export const code128Widths = (value: string): number[] => {
+  if (!canEncodeCode128(value)) throw new Error('Code128 supports printable ASCII only');
+  return code128Symbols(value).flatMap(symbol => CODE128_PATTERNS[symbol].split('').map(Number));
+};
+
+// QR codes: byte mode (UTF-8), error correction level M, versions 1-10 (up to 213 bytes)
+const QR_VERSIONS: { ecPerBlock: number; groups: [number, number][] }[] = [
+  { ecPerBlock: 10, groups: [[1, 16]] },
+  { ecPerBlock: 16, groups: [[1, 28]] },
+  { ecPerBlock: 26, groups: [[1, 44]] },
+  { ecPerBlock: 18, groups: [[2, 32]] },
+  { ecPerBlock: 24, groups: [[2, 43]] },
+  { ecPerBlock: 16, groups: [[4, 27]] },
+  { ecPerBlock: 18, groups: [[4, 31]] },
+  { ecPerBlock: 22, groups: [[2, 38], [2, 39]] },
+  { ecPerBlock: 22, groups: [[3, 36], [2, 37]] },
+  { ecPerBlock: 26, groups: [[4, 43], [1, 44]] },
+];
+const QR_ALIGNMENT = [[], [6, 18], [6, 22], [6, 26], [6, 30], [6, 34], [6, 22, 38], [6, 24, 42], [6, 26, 46], [6, 28, 50]];
+const QR_EC_LEVEL_M = 0;
+
+const gfMultiply = (x: number, y: number) => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const reedSolomonDivisor = (degree: number) => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]) => {
+  const result = new Array<number>(divisor.length).fill(0);
+  data.forEach(byte => {
+    const factor = byte ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coefficient, i) => { result[i] ^= gfMultiply(coefficient, factor); });
+  });
+  return result;
+};
+
+// Data and error correction codewords, interleaved across the blocks
+const qrCodewords = (bytes: Uint8Array, version: number): number[] => {
+  const { ecPerBlock, groups } = QR_VERSIONS[version - 1];
+  const capacity = groups.reduce((sum, [blocks, size]) => sum + blocks * size, 0);
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  push(0b0100, 4);
+  push(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach(byte => push(byte, 8));
+  push(0, Math.min(4, capacity * 8 - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) data.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0));
+  for (let pad = 0xec; data.length < capacity; pad ^= 0xec ^ 0x11) data.push(pad);
+
+  const divisor = reedSolomonDivisor(ecPerBlock);
+  const blocks: { data: number[]; ec: number[] }[] = [];
+  let offset = 0;
+  groups.forEach(([count, size]) => {
+    for (let b = 0; b < count; b++) {
+      const block = data.slice(offset, offset + size);
+      blocks.push({ data: block, ec: reedSolomonRemainder(block, divisor) });
+      offset += size;
+    }
+  });
+  const result: number[] = [];
+  const longest = Math.max(...blocks.map(b => b.data.length));
+  for (let i = 0; i < longest; i++) blocks.forEach(b => { if (i < b.data.length) result.push(b.data[i]); });
+  for (let i = 0; i < ecPerBlock; i++) blocks.forEach(b => result.push(b.ec[i]));
+  return result;
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+  (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0,
+];
+
+// Lower is easier to scan: long runs, 2x2 blocks, finder-like patterns and an uneven dark/light balance all cost
+const maskPenalty = (modules: boolean[][]) => {
+  const size = modules.length;
+  let penalty = 0;
+  const lines = [...modules, ...modules.map((_, x) => modules.map(row => row[x]))];
+  lines.forEach(line => {
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        run++;
+      } else {
+        if (run >= 5) penalty += run - 2;
+        run = 1;
+      }
+    }
+    const text = line.map(dark => dark ? '1' : '0').join('');
+    penalty += 40 * ((text.match(/(?=10111010000)/g) || []).length + (text.match(/(?=00001011101)/g) || []).length);
+  });
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const dark = modules[y][x];
+      if (dark === modules[y][x + 1] && dark === modules[y + 1][x] && dark === modules[y + 1][x + 1]) penalty += 3;
+    }
+  }
+  const darkCount = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  penalty += Math.floor(Math.abs(darkCount * 20 - size * size * 10) / (size * size)) * 10;
+  return penalty;
+};
+
+// Dark modules of the QR symbol for `value`, row by row (without the quiet zone)
+export const qrModules = (value: string): boolean[][] => {
+  const bytes = new TextEncoder().encode(value);
+  const version = QR_VERSIONS.findIndex(v => v.groups.reduce((sum, [blocks, size]) => sum + blocks * size, 0) >= bytes.length + (v === QR_VERSIONS[9] ? 3 : 2)) + 1;
+  if (version === 0) throw new Error('Too long for a QR label');
+  const size = version * 4 + 17;
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const reserved = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const set = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    reserved[y][x] = true;
+  };
+
+  // Timing patterns, finder patterns with their separators, alignment patterns
+  for (let i = 0; i < size; i++) {
+    set(6, i, i % 2 === 0);
+    set(i, 6, i % 2 === 0);
+  }
+  [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < size && y >= 0 && y < size) set(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  });
+  const positions = QR_ALIGNMENT[version - 1];
+  positions.forEach((cy, i) => positions.forEach((cx, j) => {
+    const last = positions.length - 1;
+    if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) set(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  }));
+
+  const drawFormat = (mask: number) => {
+    const data = (QR_EC_LEVEL_M << 3) | mask;
+    let rem = data;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = ((data << 10) | rem) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) === 1;
+    for (let i = 0; i <= 5; i++) set(8, i, bit(i));
+    set(8, 7, bit(6));
+    set(8, 8, bit(7));
+    set(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) set(14 - i, 8, bit(i));
+    for (let i = 0; i < 8; i++) set(size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) set(8, size - 15 + i, bit(i));
+    set(8, size - 8, true);
+  };
+  drawFormat(0);
+  if (version >= 7) {
+    let rem = version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits = (version << 12) | rem;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) === 1;
+      set(size - 11 + (i % 3), Math.floor(i / 3), dark);
+      set(Math.floor(i / 3), size - 11 + (i % 3), dark);
+    }
+  }
+
+  // Codewords zigzag up and down two-module columns from the bottom right, skipping the vertical timing column
+  const codewords = qrCodewords(bytes, version);
+  let bitIndex = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (reserved[y][x] || bitIndex >= codewords.length * 8) continue;
+        modules[y][x] = ((codewords[bitIndex >>> 3] >>> (7 - (bitIndex & 7))) & 1) === 1;
+        bitIndex++;
+      }
+    }
+  }
+
+  const applyMask = (mask: number) => {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (!reserved[y][x] && MASKS[mask](x, y)) modules[y][x] = !modules[y][x];
+      }
+    }
+  };
+  let best = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    applyMask(mask);
+    drawFormat(mask);
+    const penalty = maskPenalty(modules);
+    if (penalty < bestPenalty) {
+      best = mask;
+      bestPenalty = penalty;
+    }
+    applyMask(mask);
+  }
+  applyMask(best);
+  drawFormat(best);
+  return modules;
+};
+
+// SVG markup that scales to its container; bars and modules are drawn as one path each
+export const barcodeSvg = (value: string, symbology: Symbology): string => {
+  if (symbology === 'qr') {
+    const modules = qrModules(value);
+    const quiet = 2;
+    const size = modules.length + quiet * 2;
+    const path = modules.flatMap((row, y) => row.map((dark, x) => dark ? `M${x + quiet} ${y + quiet}h1v1h-1z` : '')).join('');
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" preserveAspectRatio="xMidYMid meet" shape-rendering="crispEdges"><path d="${path}" fill="#000"/></svg>`;
+  }
+  const widths = code128Widths(value);
+  const quiet = 10;
+  let x = quiet;
+  const bars: string[] = [];
+  widths.forEach((width, index) => {
+    if (index % 2 === 0) bars.push(`M${x} 0h${width}v1h-${width}z`);
+    x += width;
+  });
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${x + quiet} 1" preserveAspectRatio="none" shape-rendering="crispEdges"><path d="${bars.join('')}" fill="#000"/></svg>`;
+};
@@ -0,0 +1,30 @@
+import type { BomLine, Item } from '../types';
+import { calculateStock } from './inventory';
+
+export interface BuildCapacityLine {
+  line: BomLine;
+  part?: Item; // undefined when the part was deleted after the BOM was saved
+  stock: number;
+  buildable: number; // 이 부품 재고만으로 생산 가능한 수량
+}
+
+export interface BuildCapacity {
+  quantity: number; // 현재 부품 재고로 생산 가능한 제품 수량
+  bottleneck: BuildCapacityLine | null;
+  lines: BuildCapacityLine[];
+}
+
+// How many units of `product` the current part stock supports. The part allowing the fewest
+// units is the bottleneck; a product without a BOM cannot be built.
+export const buildCapacity = (product: Item, items: Item[]): BuildCapacity => {
+  const byId = new Map(items.map(item => [item.id, item]));
+  const lines = (product.bom || []).map(line => {
+    const part = byId.get(line.partId);
+    const stock = part ? calculateStock(part) : 0;
+    return { line, part, stock, buildable: Math.max(0, Math.floor(stock / line.quantity)) };
+  });
+  if (lines.length === 0) return { quantity: 0, bottleneck: null, lines };
+
+  const bottleneck = lines.reduce((min, l) => l.buildable < min.buildable ? l : min);
+  return { quantity: bottleneck.buildable, bottleneck, lines };
+};
@@ -0,0 +1,341 @@
+import type { Item, Location, Transaction } from '../types';
+import { NO_LOT, UNASSIGNED_LOCATION, generateId, isActive, stockBalance, stockChange } from './inventory';
+import { serialBalances } from './serials';
+import { excelSerialToDate } from './spreadsheet';
+import { REASON_CODES, TRANSACTION_TYPE_LABELS, requiresReason } from './transactionTypes';
+
+// items: 품목 목록 (기초 수량 포함), transactions: 기존 품목의 입출고 내역
+export type ImportKind = 'items' | 'transactions';
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required?: boolean;
+  aliases: string[]; // 자동 매핑에 쓰는 머리글 (공백/기호/대소문자 무시)
+}
+
+export const ITEM_IMPORT_FIELDS: ImportField[] = [
+  { key: 'type', label: '구분 (부품/제품)', aliases: ['구분', '품목구분', '유형', 'type'] },
+  { key: 'code', label: '품번', required: true, aliases: ['품번', '코드', '품목코드', '품목번호', 'code', 'itemcode', 'partno', 'partnumber'] },
+  { key: 'name', label: '품명', required: true, aliases: ['품명', '품목명', '이름', 'name', 'description'] },
+  { key: 'spec', label: '규격', aliases: ['규격', '사양', 'spec', 'specification'] },
+  { key: 'modelName', label: '기종', aliases: ['기종', '모델', 'model', 'modelname'] },
+  { key: 'drawingNumber', label: '도번', aliases: ['도번', '도면번호', 'drawing', 'drawingno', 'drawingnumber'] },
+  { key: 'application', label: '적용', aliases: ['적용', 'application'] },
+  { key: 'remarks', label: '비고', aliases: ['비고', '메모', 'remarks', 'note'] },
+  { key: 'minStock', label: '안전 재고', aliases: ['안전재고', 'minstock', 'safetystock'] },
+  { key: 'reorderPoint', label: '재주문점', aliases: ['재주문점', 'reorderpoint'] },
+  { key: 'reorderQuantity', label: '발주 단위', aliases: ['발주단위', '발주수량', 'reorderquantity'] },
+  { key: 'warrantyMonths', label: '보증 기간 (개월)', aliases: ['보증기간', '보증기간개월', 'warranty', 'warrantymonths'] },
+  { key: 'initialQuantity', label: '기초 수량', aliases: ['기초수량', '초기수량', '기초재고', '현재고', '재고', '수량', 'quantity', 'qty', 'stock'] },
+  { key: 'unitCost', label: '입고 단가', aliases: ['단가', '입고단가', 'unitcost', 'unitprice', 'price'] },
+  { key: 'location', label: '로케이션', aliases: ['로케이션', '위치', '창고', 'location'] },
+  { key: 'lotNumber', label: '로트번호', aliases: ['로트', '로트번호', 'lot', 'lotno', 'lotnumber'] },
+];
+
+export const TRANSACTION_IMPORT_FIELDS: ImportField[] = [
+  { key: 'itemCode', label: '품번', required: true, aliases: ['품번', '코드', '품목코드', 'code', 'itemcode', 'partno', 'partnumber'] },
+  { key: 'type', label: '구분 (입고/출고/조정/폐기)', required: true, aliases: ['구분', '유형', '입출고', '입출고구분', 'type'] },
+  { key: 'quantity', label: '수량', required: true, aliases: ['수량', 'quantity', 'qty'] },
+  { key: 'date', label: '일자', aliases: ['일자', '날짜', '일시', '입출고일', 'date'] },
+  { key: 'serialNumber', label: '일련번호', aliases: ['일련번호', '시리얼', 'serial', 'serialno', 'serialnumber', 'sn'] },
+  { key: 'lotNumber', label: '로트번호', aliases: ['로트', '로트번호', 'lot', 'lotno', 'lotnumber'] },
+  { key: 'location', label: '로케이션', aliases: ['로케이션', '위치', '창고', 'location'] },
+  { key: 'unitCost', label: '입고 단가', aliases: ['단가', '입고단가', 'unitcost', 'unitprice', 'price'] },
+  { key: 'reasonCode', label: '사유', aliases: ['사유', '사유코드', 'reason', 'reasoncode'] },
+  { key: 'customerName', label: '고객명', aliases: ['고객', '고객명', '거래처', 'customer', 'customername'] },
+  { key: 'phoneNumber', label: '연락처', aliases: ['연락처', '전화', '전화번호', 'phone', 'phonenumber'] },
+  { key: 'address', label: '주소', aliases: ['주소', 'address'] },
+  { key: 'modelName', label: '기종', aliases: ['기종', '모델', 'model', 'modelname'] },
+  { key: 'remarks', label: '비고', aliases: ['비고', '메모', 'remarks', 'note'] },
+];
+
+export const importFields = (kind: ImportKind) => kind === 'items' ? ITEM_IMPORT_FIELDS : TRANSACTION_IMPORT_FIELDS;
+
+// Field key -> column index in the sheet (-1 when the field is not imported)
+export type ColumnMapping = Record<string, number>;
+
+const headerKey = (text: string) => text.replace(/[\s()[\]_\-./*]/g, '').toLowerCase();
+
+// Maps each field to the first column whose header is one of its aliases
+export const guessMapping = (headers: string[], fields: ImportField[]): ColumnMapping => {
+  const keys = headers.map(headerKey);
+  const taken = new Set<number>();
+  const mapping: ColumnMapping = {};
+  fields.forEach(field => {
+    const aliases = [field.label, ...field.aliases].map(headerKey);
+    const index = keys.findIndex((key, i) => !taken.has(i) && aliases.includes(key));
+    mapping[field.key] = index;
+    if (index >= 0) taken.add(index);
+  });
+  return mapping;
+};
+
+// The first non-empty row holds the headers; blank rows after it are skipped
+export const splitSheet = (rows: string[][]): { headers: string[]; records: { row: number; cells: string[] }[] } => {
+  const isBlank = (cells: string[]) => cells.every(cell => !cell.trim());
+  const headerIndex = rows.findIndex(cells => !isBlank(cells));
+  if (headerIndex < 0) return { headers: [], records: [] };
+  return {
+    headers: rows[headerIndex].map(cell => cell.trim()),
+    records: rows.slice(headerIndex + 1)
+      .map((cells, i) => ({ row: headerIndex + i + 2, cells }))
+      .filter(record => !isBlank(record.cells)),
+  };
+};
+
+export const mappedValues = (cells: string[], mapping: ColumnMapping): Record<string, string> => {
+  const values: Record<string, string> = {};
+  Object.entries(mapping).forEach(([key, index]) => {
+    values[key] = index >= 0 ? (cells[index] || '').trim() : '';
+  });
+  return values;
+};
+
+export interface ImportRow<T> {
+  row: number; // 시트의 행 번호 (머리글 포함, 1부터)
+  values: Record<string, string>;
+  record: T | null; // 오류가 있으면 null
+  errors: string[];
+  warnings: string[];
+}
+
+// A new item with its opening stock as an initial receipt
+export interface ItemImport {
+  item: Omit<Item, 'transactions'>;
+  transactions: Transaction[];
+}
+
+export interface TransactionImport {
+  itemId: string;
+  transaction: Transaction;
+}
+
+// What the server receives: rows that passed validation, with their sheet row numbers for error messages
+export interface BulkImport {
+  items: (ItemImport & { row: number })[];
+  transactions: (TransactionImport & { row: number })[];
+}
+
+const parseNumber = (text: string) => Number(text.replace(/,/g, ''));
+
+// Whole number of zero or more, undefined when blank, NaN when invalid
+const parseCount = (text: string): number | undefined => {
+  if (!text) return undefined;
+  const value = parseNumber(text);
+  return Number.isInteger(value) && value >= 0 ? value : NaN;
+};
+
+const parseItemType = (text: string, fallback: Item['type']): Item['type'] | null => {
+  const key = headerKey(text);
+  if (!key) return fallback;
+  if (['부품', 'part', 'p'].includes(key)) return 'part';
+  if (['제품', 'product', '완제품'].includes(key)) return 'product';
+  return null;
+};
+
+const findLocation = (locations: Location[], text: string) => {
+  const key = text.toUpperCase();
+  return locations.find(l => l.code.toUpperCase() === key) || locations.find(l => l.name === text);
+};
+
+// Location column value -> location ID ('' when blank), or an error message
+const resolveLocation = (locations: Location[], text: string): { locationId?: string; error?: string } => {
+  if (!text) return { locationId: UNASSIGNED_LOCATION };
+  const location = findLocation(locations, text);
+  if (!location) return { error: `로케이션 "${text}"을(를) 찾을 수 없습니다` };
+  if (!location.active) return { error: `로케이션 ${location.code}은(는) 비활성 상태입니다` };
+  return { locationId: location.id };
+};
+
+// Accepts 2024-01-31, 2024.01.31, 2024/1/31 (optionally with HH:mm) and Excel day numbers
+const parseDate = (value: string): string | null => {
+  const text = /^\d{5}(\.\d+)?$/.test(value) ? excelSerialToDate(Number(value)) : value;
+  const match = text.match(/^(\d{4})[-./](\d{1,2})[-./](\d{1,2})\.?(?:[ T](\d{1,2}):(\d{2}))?/);
+  if (!match) return null;
+  const [, y, m, d, hh, mm] = match.map(Number);
+  const date = new Date(y, m - 1, d, hh || 0, mm || 0);
+  return date.getMonth() === m - 1 && date.getDate() === d ? date.toISOString() : null;
+};
+
+export const validateItemRows = (
+  records: { row: number; cells: string[] }[], mapping: ColumnMapping, items: Item[], locations: Location[], defaultType: Item['type']
+): ImportRow<ItemImport>[] => {
+  const existingCodes = new Set(items.filter(isActive).map(i => i.code.toUpperCase()));
+  const rows = records.map(({ row, cells }) => ({ row, values: mappedValues(cells, mapping) }));
+  const codeCounts = new Map<string, number>();
+  rows.forEach(({ values }) => {
+    const code = values.code.toUpperCase();
+    if (code) codeCounts.set(code, (codeCounts.get(code) || 0) + 1);
+  });
+
+  const registrationDate = new Date().toISOString().slice(0, 10);
+  return rows.map(({ row, values }) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const code = values.code;
+    const type = parseItemType(values.type, defaultType);
+
+    if (!code) errors.push('품번이 없습니다');
+    else if (existingCodes.has(code.toUpperCase())) errors.push(`이미 등록된 품번입니다: ${code}`);
+    else if ((codeCounts.get(code.toUpperCase()) || 0) > 1) errors.push(`파일 안에서 품번이 중복됩니다: ${code}`);
+    if (!values.name) errors.push('품명이 없습니다');
+    if (!type) errors.push(`알 수 없는 구분입니다: ${values.type} (부품 또는 제품)`);
+
+    const counts: Partial<Record<'minStock' | 'reorderPoint' | 'reorderQuantity' | 'warrantyMonths', number>> = {};
+    (['minStock', 'reorderPoint', 'reorderQuantity', 'warrantyMonths'] as const).forEach(key => {
+      const value = parseCount(values[key]);
+      if (Number.isNaN(value)) errors.push(`${ITEM_IMPORT_FIELDS.find(f => f.key === key)!.label}은(는) 0 이상의 정수여야 합니다`);
+      else if (value !== undefined) counts[key] = value;
+    });
+    if (counts.warrantyMonths !== undefined && type === 'part') {
+      warnings.push('부품에는 보증 기간이 적용되지 않습니다');
+      delete counts.warrantyMonths;
+    }
+
+    const quantity = values.initialQuantity ? parseNumber(values.initialQuantity) : 0;
+    if (!Number.isInteger(quantity)) errors.push(`기초 수량이 올바르지 않습니다: ${values.initialQuantity}`);
+    else if (quantity < 0) errors.push(`기초 수량이 음수입니다 (음수 재고): ${quantity}`);
+    const unitCost = values.unitCost ? parseNumber(values.unitCost) : undefined;
+    if (unitCost !== undefined && !(unitCost >= 0)) errors.push(`입고 단가가 올바르지 않습니다: ${values.unitCost}`);
+    const { locationId, error: locationError } = resolveLocation(locations, values.location);
+    if (locationError) errors.push(locationError);
+    if (quantity <= 0 && (values.unitCost || values.location || values.lotNumber)) warnings.push('기초 수량이 없어 단가/로케이션/로트는 무시됩니다');
+
+    if (errors.length > 0 || !type) return { row, values, record: null, errors, warnings };
+    const item: Omit<Item, 'transactions'> = {
+      id: generateId('item'), type, registrationDate, code, name: values.name,
+      spec: values.spec, modelName: values.modelName, drawingNumber: values.drawingNumber, application: values.application, remarks: values.remarks,
+      ...counts,
+    };
+    const transactions: Transaction[] = quantity > 0 ? [{
+      id: generateId('t'), type: 'purchase', quantity, date: new Date().toISOString(), remarks: '기초 재고 일괄 등록',
+      ...(unitCost !== undefined && { unitCost }),
+      ...(locationId && { locationId }),
+      ...(values.lotNumber && { lotNumber: values.lotNumber.toUpperCase() }),
+    }] : [];
+    return { row, values, record: { item, transactions }, errors, warnings };
+  });
+};
+
+const TRANSACTION_TYPE_ALIASES: Record<string, Transaction['type']> = {
+  입고: 'purchase', purchase: 'purchase', in: 'purchase', receipt: 'purchase',
+  출고: 'release', release: 'release', out: 'release',
+  조정: 'adjustment', adjustment: 'adjustment',
+  폐기: 'scrap', scrap: 'scrap',
+  반품: 'return', return: 'return',
+  이동: 'transfer', transfer: 'transfer',
+};
+
+// "조정" takes its direction from the sign of the quantity, or from a trailing + / - on the type
+const parseTransactionType = (text: string, quantityText: string) => {
+  const direction = /-$/.test(text.trim()) || /^-/.test(quantityText) ? 'decrease' : 'increase';
+  const type = TRANSACTION_TYPE_ALIASES[headerKey(text).replace(/\+$/, '')];
+  return { type, direction: direction as Transaction['adjustmentDirection'] };
+};
+
+// Reason column: a code such as LOST or its label such as 분실
+const parseReason = (type: Transaction['type'], text: string) => {
+  if (!requiresReason(type)) return undefined;
+  const key = text.trim().toUpperCase();
+  return REASON_CODES[type].find(r => r.code === key || r.label === text.trim())?.code;
+};
+
+// Checks each row against the current stock plus the valid rows above it, in file order (the order they are posted in):
+// receipts of a serial already on hand, releases of a serial the item does not hold and anything that would take the
+// item, a location or a lot below zero are rejected, so only rows the server will accept get through
+export const validateTransactionRows = (
+  records: { row: number; cells: string[] }[], mapping: ColumnMapping, items: Item[], locations: Location[]
+): ImportRow<TransactionImport>[] => {
+  const byCode = new Map(items.filter(isActive).map(i => [i.code.toUpperCase(), i]));
+  const balances = new Map<string, ReturnType<typeof stockBalance>>();
+  const itemSerials = new Map<string, Map<string, number>>();
+  const serialTotals = new Map<string, number>();
+  items.filter(isActive).forEach(item => serialBalances(item).forEach((quantity, serial) => serialTotals.set(serial, (serialTotals.get(serial) || 0) + quantity)));
+
+  return records.map(({ row, cells }) => {
+    const values = mappedValues(cells, mapping);
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const item = byCode.get(values.itemCode.toUpperCase());
+    if (!values.itemCode) errors.push('품번이 없습니다');
+    else if (!item) errors.push(`등록되지 않은 품번입니다: ${values.itemCode}`);
+
+    const { type, direction } = parseTransactionType(values.type, values.quantity);
+    if (!type) errors.push(`알 수 없는 구분입니다: ${values.type || '(없음)'}`);
+    else if (type === 'return' || type === 'transfer') errors.push(`${TRANSACTION_TYPE_LABELS[type]} 내역은 일괄 등록할 수 없습니다 (품목 상세에서 등록)`);
+
+    const quantity = Math.abs(parseNumber(values.quantity));
+    if (!values.quantity || !Number.isInteger(quantity) || quantity <= 0) errors.push(`수량이 올바르지 않습니다: ${values.quantity || '(없음)'}`);
+    else if (/^-/.test(values.quantity) && type !== 'adjustment') errors.push('음수 수량은 조정에만 쓸 수 있습니다');
+
+    const date = values.date ? parseDate(values.date) : new Date().toISOString();
+    if (!date) errors.push(`일자 형식이 올바르지 않습니다: ${values.date}`);
+
+    const serialNumber = values.serialNumber.toUpperCase() || undefined;
+    if (serialNumber && quantity !== 1) errors.push('일련번호가 있는 내역의 수량은 1이어야 합니다');
+
+    const unitCost = values.unitCost ? parseNumber(values.unitCost) : undefined;
+    if (unitCost !== undefined && !(unitCost >= 0)) errors.push(`입고 단가가 올바르지 않습니다: ${values.unitCost}`);
+    const { locationId, error: locationError } = resolveLocation(locations, values.location);
+    if (locationError) errors.push(locationError);
+
+    let reasonCode: string | undefined;
+    if (type && requiresReason(type)) {
+      reasonCode = parseReason(type, values.reasonCode);
+      if (!reasonCode) {
+        if (values.reasonCode) errors.push(`알 수 없는 사유입니다: ${values.reasonCode}`);
+        else {
+          reasonCode = 'OTHER';
+          warnings.push('사유가 없어 "기타"로 등록됩니다');
+        }
+      }
+    }
+
+    if (errors.length > 0 || !item || !type || !date) return { row, values, record: null, errors, warnings };
+
+    const lotNumber = values.lotNumber.toUpperCase() || undefined;
+    const transaction: Transaction = {
+      id: generateId('t'), type, quantity, date, remarks: values.remarks,
+      ...(type === 'adjustment' && { adjustmentDirection: direction }),
+      ...(reasonCode && { reasonCode }),
+      ...(locationId && { locationId }),
+      ...(lotNumber && { lotNumber }),
+      ...(serialNumber && { serialNumber }),
+      ...(unitCost !== undefined && type === 'purchase' && { unitCost }),
+      ...(values.modelName && { modelName: values.modelName }),
+      ...(type === 'release' && values.customerName && { customerName: values.customerName, phoneNumber: values.phoneNumber, address: values.address }),
+    };
+    const change = stockChange(transaction);
+    if (item.lotTracked && !lotNumber && change > 0) errors.push(`${item.code}은(는) 로트 관리 품목이라 입고 시 로트번호가 필요합니다`);
+
+    // Running balances, as they stand after the valid rows above
+    const balance = balances.get(item.id) || stockBalance(item);
+    const serials = itemSerials.get(item.id) || serialBalances(item);
+    const total = balance.total + change;
+    const atLocation = (balance.byLocation.get(locationId || UNASSIGNED_LOCATION) || 0) + change;
+    const lotKey = lotNumber || NO_LOT;
+    const inLot = (balance.byLot.get(lotKey) || 0) + change;
+    if (change < 0 && total < 0) errors.push(`재고가 부족합니다 (현재 ${balance.total}, 처리 후 ${total})`);
+    else if (change < 0 && locationId && atLocation < 0) errors.push(`선택한 로케이션의 재고가 부족합니다 (처리 후 ${atLocation})`);
+    else if (change < 0 && (lotNumber || item.lotTracked) && inLot < 0) errors.push(`로트 ${lotNumber || '(없음)'}의 재고가 부족합니다 (처리 후 ${inLot})`);
+    if (serialNumber) {
+      const held = serials.get(serialNumber) || 0;
+      if (change > 0 && (serialTotals.get(serialNumber) || 0) > 0) errors.push(`이미 재고에 있는 일련번호입니다: ${serialNumber}`);
+      if (change < 0 && held <= 0) errors.push(`${item.code}의 재고에 없는 일련번호입니다: ${serialNumber}`);
+    }
+    if (errors.length > 0) return { row, values, record: null, errors, warnings };
+
+    balance.total = total;
+    balance.byLocation.set(locationId || UNASSIGNED_LOCATION, atLocation);
+    balance.byLot.set(lotKey, inLot);
+    balances.set(item.id, balance);
+    if (serialNumber) {
+      serials.set(serialNumber, (serials.get(serialNumber) || 0) + change);
+      serialTotals.set(serialNumber, (serialTotals.get(serialNumber) || 0) + change);
+      itemSerials.set(item.id, serials);
+    }
+    return { row, values, record: { itemId: item.id, transaction }, errors, warnings };
+  });
+};
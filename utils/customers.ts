@@ -0,0 +1,105 @@
+import type { Customer, Item, Transaction } from '../types';
+import { activeTransactions, isActive } from './inventory';
+import { returnedQuantity } from './transactionTypes';
+
+// Transactions that can name a customer; returns carry the customer of their release
+export const carriesCustomer = (t: Pick<Transaction, 'type'>) => t.type === 'release' || t.type === 'return';
+
+// Spelling-insensitive form of a customer name: case, spaces and corporate markers such as (주) are ignored
+export const normalizeCustomerName = (name: string) =>
+  name.replace(/\(주\)|㈜|주식회사/g, '').replace(/\s+/g, '').toLowerCase();
+
+export const phoneDigits = (phone?: string) => (phone || '').replace(/\D/g, '');
+
+export const sortCustomers = (customers: Customer[]): Customer[] =>
+  [...customers].sort((a, b) => a.name.localeCompare(b.name, 'ko'));
+
+export const findCustomerByName = (customers: Customer[], name: string) => {
+  const key = normalizeCustomerName(name);
+  return key ? customers.find(c => normalizeCustomerName(c.name) === key) : undefined;
+};
+
+// Customers whose name or phone number contains the search term
+export const searchCustomers = (customers: Customer[], term: string): Customer[] => {
+  const key = normalizeCustomerName(term);
+  const digits = phoneDigits(term);
+  if (!key) return sortCustomers(customers);
+  return sortCustomers(customers.filter(c => normalizeCustomerName(c.name).includes(key) || (digits.length >= 3 && phoneDigits(c.phoneNumber).includes(digits))));
+};
+
+export interface CustomerRelease {
+  item: Item;
+  transaction: Transaction;
+  returned: number;
+}
+
+// Every live release to a customer, newest first, with what has come back since
+export const customerReleases = (items: Item[], customerId: string): CustomerRelease[] =>
+  items.filter(isActive)
+    .flatMap(item => activeTransactions(item)
+      .filter(t => t.type === 'release' && t.customerId === customerId)
+      .map(transaction => ({ item, transaction, returned: returnedQuantity(item, transaction.id) })))
+    .sort((a, b) => new Date(b.transaction.date).getTime() - new Date(a.transaction.date).getTime());
+
+// A customer name typed into releases without a registered customer behind it
+export interface UnlinkedCustomerName {
+  name: string;
+  phoneNumber: string;
+  address: string;
+  count: number; // 해당 이름으로 기록된 출고/반품 건수
+}
+
+export const unlinkedCustomerNames = (items: Item[]): UnlinkedCustomerName[] => {
+  const byName = new Map<string, UnlinkedCustomerName & { latest: number }>();
+  items.filter(isActive).forEach(item => activeTransactions(item).forEach(t => {
+    const name = t.customerName?.trim();
+    if (!name || t.customerId || !carriesCustomer(t)) return;
+    const time = new Date(t.date).getTime();
+    const entry = byName.get(name) || { name, phoneNumber: '', address: '', count: 0, latest: -Infinity };
+    entry.count++;
+    // Contact details come from the most recent entry that has them
+    if (time >= entry.latest) {
+      entry.latest = time;
+      if (t.phoneNumber) entry.phoneNumber = t.phoneNumber;
+      if (t.address) entry.address = t.address;
+    }
+    byName.set(name, entry);
+  }));
+  return Array.from(byName.values()).map(({ latest, ...entry }) => entry);
+};
+
+export interface DuplicateCustomerGroup {
+  customers: Customer[];
+  names: UnlinkedCustomerName[];
+}
+
+// Registered customers and typed names that look like the same person or company: the same normalized name, or
+// the same phone number. Groups with only one registered customer and nothing to link are left out.
+export const duplicateCustomerGroups = (customers: Customer[], items: Item[]): DuplicateCustomerGroup[] => {
+  const entries: { customer?: Customer; name?: UnlinkedCustomerName; keys: string[] }[] = [
+    ...customers.map(customer => ({ customer, keys: [customer.name, customer.phoneNumber] })),
+    ...unlinkedCustomerNames(items).map(name => ({ name, keys: [name.name, name.phoneNumber] })),
+  ].map(e => ({ ...e, keys: [`n:${normalizeCustomerName(e.keys[0])}`, ...(phoneDigits(e.keys[1]).length >= 7 ? [`p:${phoneDigits(e.keys[1])}`] : [])] }));
+
+  // Union-find over entries sharing any key
+  const parent = entries.map((_, index) => index);
+  const root = (i: number): number => parent[i] === i ? i : (parent[i] = root(parent[i]));
+  const firstByKey = new Map<string, number>();
+  entries.forEach((entry, index) => entry.keys.forEach(key => {
+    const first = firstByKey.get(key);
+    if (first === undefined) firstByKey.set(key, index);
+    else parent[root(index)] = root(first);
+  }));
+
+  const groups = new Map<number, DuplicateCustomerGroup>();
+  entries.forEach((entry, index) => {
+    const group = groups.get(root(index)) || { customers: [], names: [] };
+    if (entry.customer) group.customers.push(entry.customer);
+    if (entry.name) group.names.push(entry.name);
+    groups.set(root(index), group);
+  });
+  return Array.from(groups.values())
+    .filter(g => g.names.length > 0 || g.customers.length > 1)
+    .map(g => ({ customers: sortCustomers(g.customers), names: g.names.sort((a, b) => b.count - a.count) }))
+    .sort((a, b) => (a.customers[0]?.name || a.names[0].name).localeCompare(b.customers[0]?.name || b.names[0].name, 'ko'));
+};
@@ -0,0 +1,73 @@
+import type { Item, Location, Transaction } from '../types';
+import { UNASSIGNED_LOCATION, calculateStock, stockBalance, stockChange } from './inventory';
+import { locationLabel } from './locations';
+import type { SheetData } from './spreadsheet';
+import { reasonLabel, transactionLabel } from './transactionTypes';
+
+const TYPE_LABELS: Record<Item['type'], string> = { part: '부품', product: '제품' };
+
+// "2024-01-31" as a local date, so it lands in Excel as a date cell; anything else stays text
+const parseDay = (value: string): Date | string => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : value;
+};
+
+// One row per item with every item field, the current stock, its value and the stock at each location holding any
+export const itemsSheet = (items: Item[], allItems: Item[], locations: Location[], stockValues?: Map<string, number>): SheetData => {
+  const codes = new Map(allItems.map(i => [i.id, i.code]));
+  const balances = new Map(items.map(item => [item.id, stockBalance(item)]));
+  const locationIds = Array.from(new Set(Array.from(balances.values()).flatMap(b => Array.from(b.byLocation.entries()).filter(([, quantity]) => quantity !== 0).map(([id]) => id))))
+    .sort((a, b) => a === UNASSIGNED_LOCATION ? 1 : b === UNASSIGNED_LOCATION ? -1 : locationLabel(locations, a).localeCompare(locationLabel(locations, b)));
+
+  return {
+    name: '품목',
+    columns: [
+      { header: '구분', width: 8 }, { header: '품번', width: 18 }, { header: '품명', width: 28 }, { header: '규격', width: 20 },
+      { header: '기종', width: 14 }, { header: '도번', width: 18 }, { header: '적용', width: 14 }, { header: '비고', width: 24 },
+      { header: '등록일', format: 'date', width: 12 },
+      { header: '안전 재고', format: 'integer' }, { header: '재주문점', format: 'integer' }, { header: '발주 단위', format: 'integer' },
+      { header: '로트 관리' }, { header: '보증 기간(개월)', format: 'integer' }, { header: '구성 부품(BOM)', width: 30 },
+      { header: '현재 재고', format: 'integer' }, { header: '재고 금액', format: 'integer', width: 14 },
+      ...locationIds.map(id => ({ header: `재고: ${locationLabel(locations, id)}`, format: 'integer' as const })),
+      { header: '등록자' }, { header: '수정자' },
+    ],
+    rows: items.map(item => [
+      TYPE_LABELS[item.type], item.code, item.name, item.spec, item.modelName, item.drawingNumber, item.application, item.remarks,
+      item.registrationDate ? parseDay(item.registrationDate) : '',
+      item.minStock, item.reorderPoint, item.reorderQuantity,
+      item.type === 'part' ? !!item.lotTracked : undefined, item.type === 'product' ? item.warrantyMonths : undefined,
+      (item.bom || []).map(line => `${codes.get(line.partId) || line.partId} × ${line.quantity}`).join(', '),
+      calculateStock(item), stockValues ? Math.round(stockValues.get(item.id) || 0) : undefined,
+      ...locationIds.map(id => balances.get(item.id)?.byLocation.get(id) || 0),
+      item.createdBy, item.updatedBy,
+    ]),
+  };
+};
+
+// Transactions joined to their item; `costs` (transaction ID -> amount, from the valuation) fills the unit cost and amount
+export const transactionsSheet = (rows: { item: Item; transaction: Transaction }[], locations: Location[], costs?: Map<string, number>): SheetData => ({
+  name: '입출고 내역',
+  columns: [
+    { header: '품번', width: 18 }, { header: '품명', width: 28 }, { header: '품목 구분', width: 8 },
+    { header: '일시', format: 'datetime', width: 17 }, { header: '구분', width: 8 }, { header: '사유', width: 14 },
+    { header: '수량', format: 'integer' }, { header: '재고 증감', format: 'integer' },
+    { header: '단가', format: 'number' }, { header: '금액', format: 'integer', width: 14 },
+    { header: '로케이션', width: 14 }, { header: '도착 로케이션', width: 14 }, { header: '로트번호', width: 14 },
+    { header: '기종', width: 14 }, { header: '일련번호', width: 16 }, { header: '고객명', width: 16 }, { header: '연락처', width: 16 },
+    { header: '주소', width: 30 }, { header: '보증 기간(개월)', format: 'integer' }, { header: '아이디' }, { header: '비고', width: 24 },
+    { header: '등록자' }, { header: '수정자' },
+  ],
+  rows: rows.map(({ item, transaction: t }) => {
+    const cost = costs?.get(t.id);
+    return [
+      item.code, item.name, TYPE_LABELS[item.type],
+      new Date(t.date), transactionLabel(t), reasonLabel(t),
+      t.quantity, stockChange(t),
+      cost !== undefined ? (t.quantity ? Math.round(cost / t.quantity) : 0) : t.unitCost, cost !== undefined ? Math.round(cost) : undefined,
+      locationLabel(locations, t.locationId), t.type === 'transfer' ? locationLabel(locations, t.toLocationId) : '', t.lotNumber,
+      t.modelName, t.serialNumber, t.customerName, t.phoneNumber,
+      t.address, t.warrantyMonths, t.userId, t.remarks,
+      t.createdBy, t.updatedBy,
+    ];
+  }),
+});
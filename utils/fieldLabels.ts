@@ -0,0 +1,28 @@
+import type { Transaction } from '../types';
+import { TRANSACTION_TYPE_LABELS } from './transactionTypes';
+
+// Korean names of record fields, for change summaries (audit log, offline conflicts)
+export const FIELD_LABELS: Record<string, string> = {
+  type: '구분', quantity: '수량', date: '날짜', remarks: '비고', modelName: '기종', serialNumber: '일련번호',
+  customerName: '고객명', address: '주소', phoneNumber: '연락처', userId: '아이디',
+  code: '코드', name: '품명', spec: '규격', drawingNumber: '도번', application: '적용', registrationDate: '등록일',
+  orderNumber: '발주번호', supplier: '거래처', orderDate: '발주일', expectedDate: '납기 예정일', status: '상태', lines: '발주 품목',
+  receipts: '입고', unitPrice: '단가', unitCost: '입고 단가', valuationMethod: '재고 평가 방법', bom: '자재 명세',
+  productionNumber: '생산번호', productCode: '제품 코드', serialNumbers: '일련번호', productId: '제품',
+  locationId: '로케이션', toLocationId: '도착 로케이션', active: '사용 여부',
+  minStock: '안전 재고', reorderPoint: '재주문점', reorderQuantity: '발주 단위', warrantyMonths: '보증 기간',
+  lotNumber: '로트번호', lotTracked: '로트 관리',
+  reasonCode: '사유', adjustmentDirection: '조정 방향', returnOfTransactionId: '원 출고',
+  stockTakeNumber: '실사번호', stockTakeId: '재고 실사', itemType: '대상 구분', startedAt: '시작', lineCount: '품목 수', countedCount: '실사 품목 수',
+  approvedAt: '승인 시각', approvedBy: '승인자', adjustments: '조정 건수',
+  customerId: '고객', customer: '고객', customers: '병합된 고객', names: '병합된 고객명', linkedTransactions: '연결된 내역 수',
+  itemCount: '품목 수', transactionCount: '내역 수', revision: '리비전', trashRetentionDays: '휴지통 보관일',
+};
+
+export const formatFieldValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '-';
+  if (typeof value === 'string' && Object.prototype.hasOwnProperty.call(TRANSACTION_TYPE_LABELS, value)) return TRANSACTION_TYPE_LABELS[value as Transaction['type']];
+  if (value === 'increase') return '증가';
+  if (value === 'decrease') return '감소';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
@@ -0,0 +1,111 @@
+
+import type { InventorySettings, Item, Transaction } from '../types';
+
+export const DEFAULT_SETTINGS: InventorySettings = {
+  trashRetentionDays: 30,
+  valuationMethod: 'moving_average',
+};
+
+export const generateId = (prefix: string) => `${prefix}-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+
+// Records moved to the trash stay in the document but are ignored everywhere else
+export const isActive = (record: { deletedAt?: string }) => !record.deletedAt;
+
+export const activeTransactions = (item: Item): Transaction[] => item.transactions.filter(isActive);
+
+// Items and transactions that are not in the trash, as every list and stock figure should see them
+export const visibleItems = (items: Item[]): Item[] =>
+  items.filter(isActive).map(item => item.transactions.every(isActive) ? item : { ...item, transactions: activeTransactions(item) });
+
+// Stock recorded without a location (entries made before locations existed, or left blank)
+export const UNASSIGNED_LOCATION = '';
+
+// Effect of a transaction on the total stock; transfers only move stock between locations
+export const stockChange = (t: Transaction): number => {
+  switch (t.type) {
+    case 'purchase':
+    case 'return':
+      return t.quantity;
+    case 'release':
+    case 'scrap':
+      return -t.quantity;
+    case 'adjustment':
+      return t.adjustmentDirection === 'decrease' ? -t.quantity : t.quantity;
+    default:
+      return 0;
+  }
+};
+
+// Per-location effect of a transaction: a transfer leaves its source and arrives at its destination
+export const locationChanges = (t: Transaction): [string, number][] => {
+  const from = t.locationId || UNASSIGNED_LOCATION;
+  if (t.type === 'transfer') return [[from, -t.quantity], [t.toLocationId || UNASSIGNED_LOCATION, t.quantity]];
+  return [[from, stockChange(t)]];
+};
+
+// Stock received without a lot number; for lot-tracked items this is stock from before tracking began
+export const NO_LOT = '';
+
+export interface StockBalance {
+  total: number;
+  byLocation: Map<string, number>; // 로케이션 ID별 재고 (UNASSIGNED_LOCATION = 미지정)
+  byLot: Map<string, number>; // 로트번호별 잔량 (NO_LOT = 로트 없음), 이동은 로트 잔량에 영향 없음
+}
+
+// Transactions dated before `before` (epoch ms), or all of them; the basis of every as-of-date figure
+export const transactionsBefore = (item: Item, before?: number): Transaction[] =>
+  before === undefined ? activeTransactions(item) : activeTransactions(item).filter(t => new Date(t.date).getTime() < before);
+
+export const stockBalance = (item: Item, before?: number): StockBalance => {
+  const byLocation = new Map<string, number>();
+  const byLot = new Map<string, number>();
+  let total = 0;
+  transactionsBefore(item, before).forEach(t => {
+    total += stockChange(t);
+    locationChanges(t).forEach(([locationId, change]) => byLocation.set(locationId, (byLocation.get(locationId) || 0) + change));
+    if (t.type !== 'transfer') byLot.set(t.lotNumber || NO_LOT, (byLot.get(t.lotNumber || NO_LOT) || 0) + stockChange(t));
+  });
+  return { total, byLocation, byLot };
+};
+
+// Total stock, or the stock held at one location when `locationId` is given.
+// With `before` (epoch ms) only earlier transactions count, giving the stock as of that moment.
+export const calculateStock = (item: Item, locationId?: string, before?: number): number => {
+  if (locationId === undefined) return transactionsBefore(item, before).reduce((acc, t) => acc + stockChange(t), 0);
+  return stockBalance(item, before).byLocation.get(locationId) || 0;
+};
+
+// Every serial number recorded outside the trash, upper-cased and de-duplicated
+export const collectSerials = (items: Item[]): string[] => {
+  const serials: string[] = [];
+  items.filter(isActive).forEach(item => {
+    activeTransactions(item).forEach(t => {
+      if (t.serialNumber) serials.push(t.serialNumber.toUpperCase());
+    });
+  });
+  return Array.from(new Set(serials));
+};
+
+export const sortItemsByCode = (items: Item[]): Item[] =>
+  [...items].sort((a, b) => a.code.localeCompare(b.code, undefined, { numeric: true, sensitivity: 'base' }));
+
+// "Keep both" merge used when a bulk save hits a revision conflict: every item and transaction
+// from either side survives, and for records present on both sides the local copy wins.
+export const mergeItems = (serverItems: Item[], localItems: Item[]): Item[] => {
+  const merged = new Map(serverItems.map(item => [item.id, item]));
+  localItems.forEach(local => {
+    const server = merged.get(local.id);
+    if (!server) {
+      merged.set(local.id, local);
+      return;
+    }
+    const transactions = new Map(server.transactions.map(t => [t.id, t]));
+    local.transactions.forEach(t => transactions.set(t.id, t));
+    merged.set(local.id, { ...server, ...local, transactions: Array.from(transactions.values()) });
+  });
+  return sortItemsByCode(Array.from(merged.values()));
+};
+
+// Trash entries older than the retention period are purged automatically
+export const isTrashExpired = (deletedAt: string, retentionDays: number, now = Date.now()) =>
+  now - new Date(deletedAt).getTime() > retentionDays * 24 * 60 * 60 * 1000;
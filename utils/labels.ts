@@ -0,0 +1,124 @@
+import { barcodeSvg, canEncodeCode128 } from './barcode';
+import type { Symbology } from './barcode';
+
+// 라벨 한 장: value는 바코드에 담는 값, title은 굵게 찍는 글자, lines는 그 아래 보조 글자 (품명, 규격 등)
+export interface LabelData {
+  value: string;
+  title: string;
+  lines: string[];
+}
+
+// Label sheet or roll geometry in millimetres
+export interface LabelLayout {
+  id: string;
+  label: string;
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginTop: number;
+  marginLeft: number;
+  gapX: number;
+  gapY: number;
+}
+
+// Common A4 sheets (Formtec / Avery sizes) and single labels for roll printers
+export const LABEL_LAYOUTS: LabelLayout[] = [
+  { id: 'a4-21', label: 'A4 21칸 (3×7, 63.5×38.1mm)', pageWidth: 210, pageHeight: 297, columns: 3, rows: 7, labelWidth: 63.5, labelHeight: 38.1, marginTop: 15.15, marginLeft: 7.21, gapX: 2.54, gapY: 0 },
+  { id: 'a4-24', label: 'A4 24칸 (3×8, 63.5×33.9mm)', pageWidth: 210, pageHeight: 297, columns: 3, rows: 8, labelWidth: 63.5, labelHeight: 33.9, marginTop: 12.9, marginLeft: 7.21, gapX: 2.54, gapY: 0 },
+  { id: 'a4-65', label: 'A4 65칸 (5×13, 38.1×21.2mm)', pageWidth: 210, pageHeight: 297, columns: 5, rows: 13, labelWidth: 38.1, labelHeight: 21.2, marginTop: 10.7, marginLeft: 4.75, gapX: 2.5, gapY: 0 },
+  { id: 'a4-14', label: 'A4 14칸 (2×7, 99.1×38.1mm)', pageWidth: 210, pageHeight: 297, columns: 2, rows: 7, labelWidth: 99.1, labelHeight: 38.1, marginTop: 15.15, marginLeft: 4.65, gapX: 2.5, gapY: 0 },
+  { id: 'a4-8', label: 'A4 8칸 (2×4, 99.1×67.7mm)', pageWidth: 210, pageHeight: 297, columns: 2, rows: 4, labelWidth: 99.1, labelHeight: 67.7, marginTop: 13.1, marginLeft: 4.65, gapX: 2.5, gapY: 0 },
+  { id: 'roll-50x30', label: '롤 라벨 50×30mm', pageWidth: 50, pageHeight: 30, columns: 1, rows: 1, labelWidth: 50, labelHeight: 30, marginTop: 0, marginLeft: 0, gapX: 0, gapY: 0 },
+  { id: 'roll-100x50', label: '롤 라벨 100×50mm', pageWidth: 100, pageHeight: 50, columns: 1, rows: 1, labelWidth: 100, labelHeight: 50, marginTop: 0, marginLeft: 0, gapX: 0, gapY: 0 },
+];
+
+export const labelsPerPage = (layout: LabelLayout) => layout.columns * layout.rows;
+
+export interface LabelSheetOptions {
+  symbology: Symbology;
+  startPosition: number; // 첫 장에서 인쇄를 시작할 칸 (1부터, 이미 쓴 칸 건너뛰기)
+  copies: number; // 라벨마다 인쇄할 장 수
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Values Code128 cannot carry (e.g. Korean item codes) are printed as QR codes instead
+export const symbologyFor = (value: string, symbology: Symbology): Symbology =>
+  symbology === 'code128' && !canEncodeCode128(value) ? 'qr' : symbology;
+
+const labelHtml = (label: LabelData, symbology: Symbology, layout: LabelLayout) => {
+  const kind = symbologyFor(label.value, symbology);
+  const text = `<div class="title">${escapeHtml(label.title)}</div>${label.lines.filter(Boolean).map(line => `<div class="line">${escapeHtml(line)}</div>`).join('')}`;
+  // A QR code sits beside the text on wide labels and above it on square-ish ones; a Code128 bar always spans the width
+  if (kind === 'qr' && layout.labelWidth >= layout.labelHeight * 1.3) {
+    return `<div class="qr-row"><div class="qr">${barcodeSvg(label.value, 'qr')}</div><div class="text">${text}</div></div>`;
+  }
+  if (kind === 'qr') return `<div class="qr stacked">${barcodeSvg(label.value, 'qr')}</div><div class="text center">${text}</div>`;
+  return `<div class="text center">${text}</div><div class="bars">${barcodeSvg(label.value, 'code128')}</div><div class="human">${escapeHtml(label.value)}</div>`;
+};
+
+// A printable HTML document with the labels laid out on sheets; also used as the on-screen preview
+export const labelSheetHtml = (labels: LabelData[], layout: LabelLayout, options: LabelSheetOptions): string => {
+  const perPage = labelsPerPage(layout);
+  const skip = Math.min(Math.max(options.startPosition, 1), perPage) - 1;
+  const cells: (LabelData | null)[] = [
+    ...new Array<null>(skip).fill(null),
+    ...labels.flatMap(label => new Array<LabelData>(Math.max(1, options.copies)).fill(label)),
+  ];
+  const pages: (LabelData | null)[][] = [];
+  for (let i = 0; i < cells.length; i += perPage) pages.push(cells.slice(i, i + perPage));
+
+  const padding = Math.min(2, layout.labelHeight * 0.08);
+  const fontSize = Math.max(1.8, Math.min(4, layout.labelHeight * 0.11));
+  const body = pages.map(page => `<section class="page">${page.map((label, index) => {
+    if (!label) return '';
+    const left = layout.marginLeft + (index % layout.columns) * (layout.labelWidth + layout.gapX);
+    const top = layout.marginTop + Math.floor(index / layout.columns) * (layout.labelHeight + layout.gapY);
+    return `<div class="label" style="left:${left}mm;top:${top}mm">${labelHtml(label, options.symbology, layout)}</div>`;
+  }).join('')}</section>`).join('');
+
+  return `<!DOCTYPE html><html lang="ko"><head><meta charset="UTF-8"><title>라벨 인쇄</title><style>
+@page { size: ${layout.pageWidth}mm ${layout.pageHeight}mm; margin: 0; }
+* { box-sizing: border-box; margin: 0; padding: 0; }
+body { font-family: 'Malgun Gothic', 'Apple SD Gothic Neo', sans-serif; color: #000; }
+.page { position: relative; width: ${layout.pageWidth}mm; height: ${layout.pageHeight}mm; overflow: hidden; break-after: page; background: #fff; }
+.page:last-child { break-after: auto; }
+.label { position: absolute; width: ${layout.labelWidth}mm; height: ${layout.labelHeight}mm; padding: ${padding}mm; display: flex; flex-direction: column; justify-content: center; gap: ${padding / 2}mm; overflow: hidden; }
+.text { min-width: 0; line-height: 1.2; }
+.center { text-align: center; }
+.title { font-size: ${fontSize}mm; font-weight: 700; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+.line { font-size: ${fontSize * 0.75}mm; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+.bars { flex: 1 1 auto; min-height: 0; max-height: ${layout.labelHeight * 0.45}mm; }
+.bars svg { width: 100%; height: 100%; display: block; }
+.human { font-family: monospace; font-size: ${fontSize * 0.7}mm; text-align: center; letter-spacing: 0.05em; }
+.qr-row { display: flex; align-items: center; gap: ${padding}mm; height: 100%; }
+.qr-row .qr { height: 100%; aspect-ratio: 1; flex: none; }
+.qr.stacked { flex: 1 1 auto; min-height: 0; display: flex; justify-content: center; }
+.qr svg { height: 100%; width: auto; aspect-ratio: 1; display: block; }
+@media screen {
+  body { background: #e2e8f0; padding: 8mm; }
+  .page { margin: 0 auto 8mm; box-shadow: 0 2px 12px rgba(15, 23, 42, 0.15); }
+  .label { outline: 1px dashed #cbd5e1; }
+}
+</style></head><body>${body}</body></html>`;
+};
+
+// Prints through a hidden frame so no pop-up window is needed
+export const printLabels = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    setTimeout(() => frame.remove(), 1000);
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+};
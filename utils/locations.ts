@@ -0,0 +1,13 @@
+import type { Location } from '../types';
+import { UNASSIGNED_LOCATION } from './inventory';
+
+export const UNASSIGNED_LABEL = '미지정';
+
+// Display label for a location reference; missing ids (deleted locations) fall back to the raw id
+export const locationLabel = (locations: Location[], locationId?: string) => {
+  if (!locationId || locationId === UNASSIGNED_LOCATION) return UNASSIGNED_LABEL;
+  return locations.find(l => l.id === locationId)?.code || locationId;
+};
+
+export const sortLocations = (locations: Location[]): Location[] =>
+  [...locations].sort((a, b) => a.code.localeCompare(b.code, undefined, { numeric: true, sensitivity: 'base' }));
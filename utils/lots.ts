@@ -0,0 +1,89 @@
+import type { Item, ProductionRecord, Transaction } from '../types';
+import { NO_LOT, activeTransactions, stockChange } from './inventory';
+
+export interface LotBalance {
+  lotNumber: string; // NO_LOT = 로트 없이 입고된 재고
+  received: number; // 입고 + 반품 + 조정(+)
+  released: number; // 출고 + 폐기 + 조정(-)
+  remaining: number;
+  firstReceivedAt: string; // FIFO 기준 (최초 입고일)
+}
+
+export interface LotPick {
+  lotNumber: string;
+  quantity: number;
+}
+
+const byDate = (a: Transaction, b: Transaction) => new Date(a.date).getTime() - new Date(b.date).getTime();
+
+// Lot balances from the given entries, oldest first receipt first (the FIFO order)
+const sumLots = (transactions: Transaction[]): LotBalance[] => {
+  const lots = new Map<string, LotBalance>();
+  [...transactions].sort(byDate).forEach(t => {
+    if (t.type === 'transfer') return;
+    const lotNumber = t.lotNumber || NO_LOT;
+    const lot = lots.get(lotNumber) || { lotNumber, received: 0, released: 0, remaining: 0, firstReceivedAt: t.date };
+    const change = stockChange(t);
+    if (change > 0) {
+      if (lot.received === 0) lot.firstReceivedAt = t.date;
+      lot.received += change;
+    } else {
+      lot.released -= change;
+    }
+    lot.remaining = lot.received - lot.released;
+    lots.set(lotNumber, lot);
+  });
+  return Array.from(lots.values()).sort((a, b) => new Date(a.firstReceivedAt).getTime() - new Date(b.firstReceivedAt).getTime());
+};
+
+// Every lot the item has seen, oldest first receipt first (the FIFO order).
+// Transfers move stock between locations and leave lot balances untouched.
+export const lotBalances = (item: Item): LotBalance[] => sumLots(activeTransactions(item));
+
+// The lots holding stock at one location ('' = unassigned): only entries booked there count, capped at what each
+// lot holds overall. Transfers carry no lot and are left out, so stock moved in or out by transfer is not attributed to any lot.
+export const lotBalancesAt = (item: Item, locationId: string): LotBalance[] => {
+  const overall = new Map(lotBalances(item).map(lot => [lot.lotNumber, lot.remaining]));
+  return sumLots(activeTransactions(item).filter(t => (t.locationId || '') === locationId))
+    .map(lot => ({ ...lot, remaining: Math.min(lot.remaining, overall.get(lot.lotNumber) || 0) }));
+};
+
+// Takes `quantity` from the oldest lots that still have stock. Any part that cannot be covered is
+// returned as `shortfall` rather than drawn from an empty lot.
+export const allocateFifo = (lots: LotBalance[], quantity: number): { picks: LotPick[]; shortfall: number } => {
+  const picks: LotPick[] = [];
+  let remaining = quantity;
+  lots.forEach(lot => {
+    if (remaining <= 0 || lot.remaining <= 0) return;
+    const taken = Math.min(lot.remaining, remaining);
+    picks.push({ lotNumber: lot.lotNumber, quantity: taken });
+    remaining -= taken;
+  });
+  return { picks, shortfall: remaining };
+};
+
+export interface LotTraceRelease {
+  transaction: Transaction;
+  production?: ProductionRecord; // 생산 투입된 경우 생산 기록
+  product?: Item; // 생산된 제품
+}
+
+export interface LotTrace {
+  balance: LotBalance | undefined;
+  receipts: Transaction[];
+  releases: LotTraceRelease[];
+}
+
+// Where every unit of one lot came from and went: receipts (and returns or upward adjustments), releases,
+// scrap, downward adjustments and production runs (with the product and the serial numbers built in that run)
+export const lotTrace = (item: Item, lotNumber: string, productions: ProductionRecord[], items: Item[]): LotTrace => {
+  const transactions = activeTransactions(item).filter(t => (t.lotNumber || NO_LOT) === lotNumber && t.type !== 'transfer').sort(byDate);
+  return {
+    balance: lotBalances(item).find(l => l.lotNumber === lotNumber),
+    receipts: transactions.filter(t => stockChange(t) > 0),
+    releases: transactions.filter(t => stockChange(t) < 0).map(transaction => {
+      const production = transaction.productionId ? productions.find(p => p.id === transaction.productionId) : undefined;
+      return { transaction, production, product: production ? items.find(i => i.id === production.productId) : undefined };
+    }),
+  };
+};
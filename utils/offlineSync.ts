@@ -0,0 +1,88 @@
+import type { Item } from '../types';
+import type { QueuedOperation } from '../services/offlineQueue';
+import { FIELD_LABELS, formatFieldValue } from './fieldLabels';
+import { isActive } from './inventory';
+
+const RESOURCE_LABELS: Record<string, string> = {
+  items: '품목', transactions: '입출고', settings: '설정', locations: '로케이션', 'purchase-orders': '발주서',
+  productions: '생산', 'stock-takes': '재고 실사', customers: '고객',
+};
+// Action endpoints whose name already says what happened
+const ACTION_LABELS: Record<string, string> = { receipts: '발주 입고', approve: '재고 실사 승인', merge: '고객 병합', imports: '일괄 등록' };
+const METHOD_LABELS: Record<string, string> = { POST: '등록', PATCH: '수정', PUT: '수정', DELETE: '삭제' };
+
+const parseBody = (op: QueuedOperation): any => {
+  try {
+    return op.request.body ? JSON.parse(op.request.body) : {};
+  } catch {
+    return {};
+  }
+};
+
+// "/api/items/item-1/transactions?x=1" -> ['items', 'item-1', 'transactions']
+const pathSegments = (op: QueuedOperation) =>
+  op.request.path.split('?')[0].split('/').slice(2).map(decodeURIComponent);
+
+const sameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a === undefined || a === '' ? null : a) === JSON.stringify(b === undefined || b === '' ? null : b);
+
+// A short Korean description of a queued change, e.g. "입출고 등록 · P-001 (3건)"
+export const describeOperation = (op: QueuedOperation, items: Item[]): string => {
+  const segments = pathSegments(op);
+  const body = parseBody(op);
+  const last = [...segments].reverse().find(s => ACTION_LABELS[s] || RESOURCE_LABELS[s] || s === 'trash');
+  let label: string;
+  if (last === 'trash') label = op.request.method === 'DELETE' ? '휴지통 영구 삭제' : '휴지통 복원';
+  else if (last && ACTION_LABELS[last]) label = ACTION_LABELS[last];
+  else label = `${(last && RESOURCE_LABELS[last]) || op.request.path} ${METHOD_LABELS[op.request.method] || op.request.method}`;
+
+  const itemId = segments[0] === 'items' ? segments[1] : undefined;
+  const code = itemId ? items.find(i => i.id === itemId)?.code : segments[0] === 'items' ? body.code : undefined;
+  const count = Array.isArray(body.transactions) && body.transactions.length > 1 ? ` (${body.transactions.length}건)` : '';
+  return code ? `${label} · ${code}${count}` : `${label}${count}`;
+};
+
+export interface OperationCheck {
+  applied?: boolean; // 응답을 받지 못했지만 이미 서버에 반영된 변경
+  conflict?: string;
+}
+
+// Compares a queued change with the current server copy before it is replayed:
+// creates already on the server (found by their client-generated ids) are skipped, and an edit whose target was deleted, or whose
+// fields someone else changed since, is held back for review
+export const checkOperation = (op: QueuedOperation, serverItems: Item[]): OperationCheck => {
+  const segments = pathSegments(op);
+  const body = parseBody(op);
+  if (op.request.method === 'POST' && segments.length === 1 && segments[0] === 'items' && serverItems.some(i => i.id === body.id)) {
+    return { applied: true };
+  }
+  if (op.request.method === 'POST' && segments[0] === 'items' && segments[2] === 'transactions' && Array.isArray(body.transactions)) {
+    const existing = new Set(serverItems.find(i => i.id === segments[1])?.transactions.map(t => t.id));
+    if (body.transactions.length > 0 && body.transactions.every((t: { id?: string }) => t.id && existing.has(t.id))) return { applied: true };
+  }
+  if (op.request.method === 'POST' && segments[0] === 'purchase-orders' && segments[2] === 'receipts' && Array.isArray(body.receipts)) {
+    const existing = new Set(serverItems.flatMap(i => i.transactions.map(t => t.id)));
+    if (body.receipts.length > 0 && body.receipts.every((r: { id?: string }) => r.id && existing.has(r.id))) return { applied: true };
+  }
+  // A production is applied once any entry carries its id
+  if (op.request.method === 'POST' && segments.length === 1 && segments[0] === 'productions' && body.id
+    && serverItems.some(i => i.transactions.some(t => t.productionId === body.id))) {
+    return { applied: true };
+  }
+
+  const guard = op.guard;
+  if (!guard) return {};
+  const item = serverItems.find(i => i.id === guard.itemId && isActive(i));
+  if (!item) return { conflict: '다른 사용자가 삭제한 품목입니다.' };
+  const target = guard.transactionId ? item.transactions.find(t => t.id === guard.transactionId && isActive(t)) : item;
+  if (!target) return { conflict: '다른 사용자가 삭제한 입출고 기록입니다.' };
+  const current = target as unknown as Record<string, unknown>;
+  const changed = Object.entries(guard.before)
+    .filter(([field, before]) => !sameValue(current[field], before) && !sameValue(current[field], body[field]))
+    .map(([field]) => `${FIELD_LABELS[field] || field}: 서버 ${formatFieldValue(current[field])} / 내 변경 ${formatFieldValue(body[field])}`);
+  return changed.length > 0 ? { conflict: `다른 사용자가 먼저 수정했습니다. ${changed.join(', ')}` } : {};
+};
+
+// The current values of the fields an edit is about to change, recorded with a queued edit
+export const fieldsBefore = (record: object, changes: object): Record<string, unknown> =>
+  Object.fromEntries(Object.keys(changes).map(field => [field, (record as Record<string, unknown>)[field]]));
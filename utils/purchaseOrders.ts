@@ -0,0 +1,44 @@
+
+import type { Item, PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus } from '../types';
+import { activeTransactions, isActive } from './inventory';
+
+// Received quantity per purchase order line, summed from the live purchase transactions linked to it.
+// Deleting or restoring a receipt therefore updates the order without extra bookkeeping.
+export const receivedByLine = (items: Item[]): Map<string, number> => {
+  const received = new Map<string, number>();
+  items.filter(isActive).forEach(item => {
+    activeTransactions(item).forEach(t => {
+      if (t.type === 'purchase' && t.purchaseOrderLineId) {
+        received.set(t.purchaseOrderLineId, (received.get(t.purchaseOrderLineId) || 0) + t.quantity);
+      }
+    });
+  });
+  return received;
+};
+
+export const lineRemaining = (line: PurchaseOrderLine, received: Map<string, number>) =>
+  Math.max(0, line.quantity - (received.get(line.id) || 0));
+
+export const purchaseOrderStatus = (order: PurchaseOrder, received: Map<string, number>): PurchaseOrderStatus => {
+  if (order.status !== 'ordered') return order.status;
+  if (order.lines.length > 0 && order.lines.every(line => lineRemaining(line, received) === 0)) return 'closed';
+  if (order.lines.some(line => (received.get(line.id) || 0) > 0)) return 'partially_received';
+  return 'ordered';
+};
+
+export const purchaseOrderTotal = (order: PurchaseOrder) =>
+  order.lines.reduce((acc, line) => acc + line.quantity * line.unitPrice, 0);
+
+// Quantity still expected per item across confirmed, not yet closed purchase orders
+export const onOrderByItem = (orders: PurchaseOrder[], received: Map<string, number>): Map<string, number> => {
+  const onOrder = new Map<string, number>();
+  orders.forEach(order => {
+    const status = purchaseOrderStatus(order, received);
+    if (status !== 'ordered' && status !== 'partially_received') return;
+    order.lines.forEach(line => {
+      const remaining = lineRemaining(line, received);
+      if (remaining > 0) onOrder.set(line.itemId, (onOrder.get(line.itemId) || 0) + remaining);
+    });
+  });
+  return onOrder;
+};
@@ -0,0 +1,46 @@
+import type { Item } from '../types';
+import { calculateStock } from './inventory';
+
+export interface ReorderLine {
+  item: Item;
+  stock: number;
+  onOrder: number;
+  belowMinimum: boolean; // 안전 재고 미만
+  suggestedQuantity: number; // 발주중 수량을 감안한 권장 발주 수량 (발주 단위로 올림)
+}
+
+export const hasReorderSettings = (item: Item) =>
+  item.minStock !== undefined || item.reorderPoint !== undefined;
+
+// An item needs reordering once its stock falls to the reorder point or below the minimum.
+// The suggestion tops the projected stock (on hand + on order) back above both thresholds,
+// rounded up to whole multiples of the preferred reorder quantity when one is set.
+export const reorderLine = (item: Item, onOrder: number): ReorderLine | null => {
+  if (!hasReorderSettings(item)) return null;
+  const stock = calculateStock(item);
+  const belowMinimum = item.minStock !== undefined && stock < item.minStock;
+  const atReorderPoint = item.reorderPoint !== undefined && stock <= item.reorderPoint;
+  if (!belowMinimum && !atReorderPoint) return null;
+
+  const target = Math.max(item.minStock ?? 0, item.reorderPoint !== undefined ? item.reorderPoint + 1 : 0);
+  const needed = target - (stock + onOrder);
+  let suggestedQuantity = 0;
+  if (needed > 0) {
+    suggestedQuantity = item.reorderQuantity ? Math.ceil(needed / item.reorderQuantity) * item.reorderQuantity : needed;
+  }
+  return { item, stock, onOrder, belowMinimum, suggestedQuantity };
+};
+
+// Items below their threshold, most urgent first: below minimum, then by how far under the threshold they are
+export const shortageList = (items: Item[], onOrder: Map<string, number>): ReorderLine[] =>
+  items
+    .map(item => reorderLine(item, onOrder.get(item.id) || 0))
+    .filter((line): line is ReorderLine => line !== null)
+    .sort((a, b) =>
+      Number(b.belowMinimum) - Number(a.belowMinimum) ||
+      b.suggestedQuantity - a.suggestedQuantity ||
+      a.item.code.localeCompare(b.item.code));
+
+// Form inputs: an empty field means the setting is not used
+export const parseReorderInput = (value: string): number | undefined =>
+  value.trim() === '' ? undefined : Math.max(0, parseInt(value, 10) || 0);
@@ -0,0 +1,98 @@
+import type { Item, ProductionRecord, Transaction } from '../types';
+import { activeTransactions, stockChange } from './inventory';
+
+// Serial numbers look like AJP00001: a letter prefix followed by a zero-padded number
+export const suggestNextSerial = (usedSerials: string[]): string => {
+  if (usedSerials.length === 0) return 'AJP00001';
+  const regex = /^([a-zA-Z]+)(\d+)$/;
+  let maxNum = 0;
+  let currentPrefix = 'AJP';
+  usedSerials.forEach(s => {
+    const match = s.toUpperCase().match(regex);
+    if (match) {
+      currentPrefix = match[1];
+      const num = parseInt(match[2], 10);
+      if (num > maxNum) maxNum = num;
+    }
+  });
+  const nextNum = maxNum + 1;
+  const padLength = Math.max(5, nextNum.toString().length);
+  return `${currentPrefix}${nextNum.toString().padStart(padLength, '0')}`;
+};
+
+// "AJP00001~00005" (or "AJP00001~AJP00005") expands to every serial in the range; anything else is a single serial
+export const parseSerialRange = (input: string): string[] => {
+  const rangeMatch = input.match(/^(.+?)(\d+)\s*~\s*(.+?)?(\d+)$/);
+  if (!rangeMatch) return [input.trim()];
+  const prefix = rangeMatch[1];
+  const startNumStr = rangeMatch[2];
+  const endNumStr = rangeMatch[4];
+  const startNum = parseInt(startNumStr, 10);
+  const endNum = parseInt(endNumStr, 10);
+  if (isNaN(startNum) || isNaN(endNum) || startNum > endNum) return [input.trim()];
+  if (endNum - startNum >= 100) throw new Error('범위는 최대 100개까지 가능합니다.');
+  const results: string[] = [];
+  const padLength = startNumStr.length;
+  for (let i = startNum; i <= endNum; i++) {
+    const paddedNum = i.toString().padStart(padLength, '0');
+    results.push(`${prefix}${paddedNum}`);
+  }
+  return results;
+};
+
+// Units on hand per serial for one item: receipts add, releases take away
+export const serialBalances = (item: Item): Map<string, number> => {
+  const balances = new Map<string, number>();
+  activeTransactions(item).forEach(t => {
+    if (!t.serialNumber) return;
+    const serial = t.serialNumber.toUpperCase();
+    balances.set(serial, (balances.get(serial) || 0) + stockChange(t));
+  });
+  return balances;
+};
+
+// Serials the item currently holds, in serial order
+export const inStockSerials = (item: Item): string[] =>
+  Array.from(serialBalances(item).entries()).filter(([, quantity]) => quantity > 0).map(([serial]) => serial).sort();
+
+export interface SerialEvent {
+  item: Item;
+  transaction: Transaction;
+  production?: ProductionRecord; // 생산으로 입고된 경우
+  isReturn: boolean; // 반품, 또는 출고 이후 다시 입고된 경우
+}
+
+export interface SerialLifecycle {
+  serial: string;
+  events: SerialEvent[]; // 오래된 순
+  inStock: boolean;
+  item?: Item; // 현재 재고로 보유 중인 품목 (재고가 없으면 마지막으로 기록된 품목)
+  lastRelease?: SerialEvent;
+}
+
+// Full chronology of one serial across every item, oldest first
+export const serialLifecycle = (items: Item[], productions: ProductionRecord[], serial: string): SerialLifecycle => {
+  const target = serial.trim().toUpperCase();
+  const events: SerialEvent[] = [];
+  items.forEach(item => activeTransactions(item).forEach(transaction => {
+    if (transaction.serialNumber?.toUpperCase() !== target) return;
+    const production = transaction.productionId ? productions.find(p => p.id === transaction.productionId) : undefined;
+    events.push({ item, transaction, production, isReturn: false });
+  }));
+  events.sort((a, b) => new Date(a.transaction.date).getTime() - new Date(b.transaction.date).getTime());
+
+  let released = false;
+  events.forEach(event => {
+    const change = stockChange(event.transaction);
+    if (event.transaction.type === 'return' || (change > 0 && released)) event.isReturn = true;
+    if (change < 0) released = true;
+  });
+  const holding = events.map(e => e.item).find(item => (serialBalances(item).get(target) || 0) > 0);
+  return {
+    serial: target,
+    events,
+    inStock: !!holding,
+    item: holding || events[events.length - 1]?.item,
+    lastRelease: [...events].reverse().find(e => e.transaction.type === 'release'),
+  };
+};
@@ -0,0 +1,375 @@
+// Reading CSV and XLSX files into rows of cell text, and writing CSV files and XLSX workbooks, without a spreadsheet library
+
+// CSV / tab-separated text; quoted cells may contain the delimiter, quotes ("") and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\ufeff/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0];
+  const delimiter = firstLine.includes('\t') && !firstLine.includes(',') ? '\t' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Minimal ZIP reader: file name -> uncompressed bytes (stored or deflated entries, as written by Excel)
+const readZip = async (data: ArrayBuffer): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(data);
+  const bytes = new Uint8Array(data);
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('Not a ZIP file');
+
+  const decoder = new TextDecoder();
+  const files = new Map<string, Uint8Array>();
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('Corrupt ZIP directory');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const compressed = bytes.slice(start, start + compressedSize);
+    if (method === 0) {
+      files.set(name, compressed);
+    } else if (method === 8) {
+      const stream = new Blob([compressed]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      files.set(name, new Uint8Array(await new Response(stream).arrayBuffer()));
+    }
+  }
+  return files;
+};
+
+// Excel counts days from 1899-12-30 (including its fictitious 1900-02-29)
+const EXCEL_EPOCH_OFFSET = 25569;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Date cells are stored as day numbers; they come back as "YYYY-MM-DD" (with " HH:mm" when there is a time)
+export const excelSerialToDate = (serial: number): string => {
+  const date = new Date(Math.round((serial - EXCEL_EPOCH_OFFSET) * 86400) * 1000);
+  const day = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  return serial % 1 === 0 ? day : `${day} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}`;
+};
+
+// Built-in number formats 14-22 and 45-47 are dates or times
+const isDateFormat = (id: number, code?: string) =>
+  (id >= 14 && id <= 22) || (id >= 45 && id <= 47) || (!!code && /[dmyhs]/i.test(code.replace(/"[^"]*"|\[[^\]]*\]/g, '')));
+
+const columnIndex = (ref: string) => {
+  const letters = ref.replace(/\d+$/, '').toUpperCase();
+  return letters.split('').reduce((acc, ch) => acc * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+};
+
+const childrenByTag = (parent: Element | Document, tag: string) => Array.from(parent.getElementsByTagNameNS('*', tag));
+
+// Text of a shared or inline string, ignoring phonetic (ruby) runs
+const richText = (element: Element) =>
+  childrenByTag(element, 't').filter(t => t.parentElement?.localName !== 'rPh').map(t => t.textContent || '').join('');
+
+// Cell text of the first worksheet of an XLSX workbook
+export const readXlsx = async (data: ArrayBuffer): Promise<string[][]> => {
+  const files = await readZip(data);
+  const decoder = new TextDecoder();
+  const parse = (name: string) => {
+    const file = files.get(name);
+    return file ? new DOMParser().parseFromString(decoder.decode(file), 'application/xml') : null;
+  };
+
+  const workbook = parse('xl/workbook.xml');
+  const rels = parse('xl/_rels/workbook.xml.rels');
+  if (!workbook || !rels) throw new Error('Not an XLSX workbook');
+  const firstSheet = childrenByTag(workbook, 'sheet')[0];
+  const relId = firstSheet && Array.from(firstSheet.attributes).find(a => a.localName === 'id')?.value;
+  const target = childrenByTag(rels, 'Relationship').find(r => r.getAttribute('Id') === relId)?.getAttribute('Target');
+  if (!target) throw new Error('Workbook has no sheets');
+  const sheet = parse(target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+  if (!sheet) throw new Error('Worksheet not found');
+
+  const sharedStrings = parse('xl/sharedStrings.xml');
+  const strings = sharedStrings ? childrenByTag(sharedStrings, 'si').map(richText) : [];
+
+  const styles = parse('xl/styles.xml');
+  const customFormats = new Map(styles ? childrenByTag(styles, 'numFmt').map(f => [Number(f.getAttribute('numFmtId')), f.getAttribute('formatCode') || '']) : []);
+  const cellXfs = styles ? childrenByTag(styles, 'cellXfs')[0] : undefined;
+  const dateStyles = (cellXfs ? childrenByTag(cellXfs, 'xf') : []).map(xf => {
+    const id = Number(xf.getAttribute('numFmtId') || 0);
+    return isDateFormat(id, customFormats.get(id));
+  });
+
+  const rows: string[][] = [];
+  childrenByTag(sheet, 'row').forEach((rowElement, index) => {
+    const rowNumber = Number(rowElement.getAttribute('r')) || index + 1;
+    const row: string[] = [];
+    childrenByTag(rowElement, 'c').forEach((cell, cellIndex) => {
+      const ref = cell.getAttribute('r');
+      const column = ref ? columnIndex(ref) : cellIndex;
+      const type = cell.getAttribute('t');
+      const value = childrenByTag(cell, 'v')[0]?.textContent ?? '';
+      let text: string;
+      if (type === 's') text = strings[Number(value)] ?? '';
+      else if (type === 'inlineStr') text = richText(cell);
+      else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+      else if (value !== '' && (type === null || type === 'n') && dateStyles[Number(cell.getAttribute('s') || 0)]) text = excelSerialToDate(Number(value));
+      else text = value;
+      row[column] = text;
+    });
+    rows[rowNumber - 1] = Array.from(row, cell => cell ?? '');
+  });
+  return Array.from(rows, row => row ?? []);
+};
+
+// Rows of an uploaded .csv / .txt / .xlsx file. CSV saved by Korean Excel is often EUC-KR rather than UTF-8.
+export const readSpreadsheetFile = async (file: File): Promise<string[][]> => {
+  const data = await file.arrayBuffer();
+  if (/\.xlsx$/i.test(file.name)) return readXlsx(data);
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    text = new TextDecoder('euc-kr').decode(data);
+  }
+  return parseCsv(text);
+};
+
+export type CellValue = string | number | boolean | Date | null | undefined;
+
+// integer: #,##0, number: as entered, date: yyyy-mm-dd, datetime: yyyy-mm-dd hh:mm (dates are local time)
+export type ColumnFormat = 'text' | 'integer' | 'number' | 'date' | 'datetime';
+
+export interface SheetColumn {
+  header: string;
+  format?: ColumnFormat;
+  width?: number; // 글자 수 기준 열 너비
+}
+
+export interface SheetData {
+  name: string;
+  columns: SheetColumn[];
+  rows: CellValue[][];
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Minimal ZIP writer: every entry deflated, no ZIP64 (fine for anything a browser tab can build)
+const writeZip = async (entries: { name: string; content: string }[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = encoder.encode(entry.content);
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+    const compressed = new Uint8Array(await new Response(stream).arrayBuffer());
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, 8, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, compressed.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    parts.push(new Uint8Array(local.buffer), name, compressed);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 8, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, compressed.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    directory.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + compressed.length;
+  }
+  const directorySize = directory.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+  return new Blob([...parts, ...directory, new Uint8Array(end.buffer)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+// Characters XML 1.0 cannot carry at all are dropped
+const escapeXml = (text: string) => text
+  .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const columnName = (index: number): string =>
+  (index >= 26 ? columnName(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+// Local date and time as an Excel day number
+const dateToExcelSerial = (date: Date) =>
+  Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), date.getMinutes(), date.getSeconds()) / 86400000 + EXCEL_EPOCH_OFFSET;
+
+// Cell style indexes, in the order of cellXfs in STYLES_XML
+const STYLE_INDEX: Record<ColumnFormat | 'header', number> = { text: 0, header: 1, integer: 2, number: 0, date: 3, datetime: 4 };
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="2"><numFmt numFmtId="164" formatCode="yyyy-mm-dd"/><numFmt numFmtId="165" formatCode="yyyy-mm-dd hh:mm"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="맑은 고딕"/><family val="2"/></font><font><b/><sz val="11"/><name val="맑은 고딕"/><family val="2"/></font></fonts>
+<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill><fill><patternFill patternType="solid"><fgColor rgb="FFE2E8F0"/><bgColor indexed="64"/></patternFill></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="5"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/><xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+const cellXml = (ref: string, value: CellValue, format: ColumnFormat = 'text', header = false) => {
+  if (value === null || value === undefined || value === '') return '';
+  const style = header ? STYLE_INDEX.header : STYLE_INDEX[format];
+  const s = style ? ` s="${style}"` : '';
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return '';
+    return `<c r="${ref}" s="${STYLE_INDEX[format === 'date' ? 'date' : 'datetime']}"><v>${dateToExcelSerial(value)}</v></c>`;
+  }
+  if (typeof value === 'number') return Number.isFinite(value) ? `<c r="${ref}"${s}><v>${value}</v></c>` : '';
+  if (typeof value === 'boolean') return `<c r="${ref}" t="b"${s}><v>${value ? 1 : 0}</v></c>`;
+  return `<c r="${ref}" t="inlineStr"${s}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+// One worksheet with a bold header row that stays frozen while scrolling, and an auto-filter over the columns
+const sheetXml = (sheet: SheetData) => {
+  const lastColumn = columnName(Math.max(sheet.columns.length, 1) - 1);
+  const cols = sheet.columns.map((column, index) =>
+    `<col min="${index + 1}" max="${index + 1}" width="${column.width ?? Math.max(10, Math.min(40, column.header.length * 2 + 2))}" customWidth="1"/>`).join('');
+  const header = `<row r="1">${sheet.columns.map((column, index) => cellXml(`${columnName(index)}1`, column.header, 'text', true)).join('')}</row>`;
+  const rows = sheet.rows.map((row, rowIndex) =>
+    `<row r="${rowIndex + 2}">${row.map((value, index) => cellXml(`${columnName(index)}${rowIndex + 2}`, value, sheet.columns[index]?.format)).join('')}</row>`).join('');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<dimension ref="A1:${lastColumn}${sheet.rows.length + 1}"/>
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/><selection pane="bottomLeft" activeCell="A2" sqref="A2"/></sheetView></sheetViews>
+<sheetFormatPr defaultRowHeight="16.5"/>
+${cols ? `<cols>${cols}</cols>` : ''}
+<sheetData>${header}${rows}</sheetData>
+<autoFilter ref="A1:${lastColumn}${sheet.rows.length + 1}"/>
+</worksheet>`;
+};
+
+// Sheet names are at most 31 characters, without : \ / ? * [ ] and unique within the workbook
+const sheetNames = (sheets: SheetData[]) => {
+  const used = new Set<string>();
+  return sheets.map((sheet, index) => {
+    const base = sheet.name.replace(/[:\\/?*[\]]/g, ' ').trim().slice(0, 31) || `Sheet${index + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base.slice(0, 31 - String(n).length - 1)} ${n}`;
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+export const buildXlsx = (sheets: SheetData[]): Promise<Blob> => {
+  const names = sheetNames(sheets);
+  const contentTypes = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('\n')}
+</Types>`;
+  const rootRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+  const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>${names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>
+<definedNames>${sheets.map((sheet, i) => `<definedName name="_xlnm._FilterDatabase" localSheetId="${i}" hidden="1">'${escapeXml(names[i].replace(/'/g, "''"))}'!$A$1:$${columnName(Math.max(sheet.columns.length, 1) - 1)}$${sheet.rows.length + 1}</definedName>`).join('')}</definedNames>
+</workbook>`;
+  const workbookRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('\n')}
+<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+  return writeZip([
+    { name: '[Content_Types].xml', content: contentTypes },
+    { name: '_rels/.rels', content: rootRels },
+    { name: 'xl/workbook.xml', content: workbook },
+    { name: 'xl/_rels/workbook.xml.rels', content: workbookRels },
+    { name: 'xl/styles.xml', content: STYLES_XML },
+    ...sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, content: sheetXml(sheet) })),
+  ]);
+};
+
+// Saves a generated file through a temporary link and releases its object URL right after
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadXlsx = async (fileName: string, sheets: SheetData[]) => {
+  downloadBlob(await buildXlsx(sheets), fileName.endsWith('.xlsx') ? fileName : `${fileName}.xlsx`);
+};
+
+// Every cell quoted, with a BOM so Excel reads the Korean text as UTF-8
+export const downloadCsv = (fileName: string, rows: (string | number)[][]) => {
+  const csvContent = "\ufeff" + rows.map(row => row.map(v => `"${String(v).replace(/"/g, '""')}"`).join(',') + '\r\n').join('');
+  downloadBlob(new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }), fileName);
+};
@@ -0,0 +1,74 @@
+import type { Item, StockTake, StockTakeLine } from '../types';
+import { calculateStock, isActive, sortItemsByCode } from './inventory';
+import { inStockSerials } from './serials';
+
+export interface StockTakeScope {
+  itemType?: Item['type'];
+  locationId?: string;
+}
+
+// Freezes the book quantity of every item in scope. Serials are only compared when the whole stock is counted,
+// since serials are not tracked per location.
+export const snapshotLines = (items: Item[], scope: StockTakeScope): StockTakeLine[] =>
+  sortItemsByCode(items.filter(i => isActive(i) && (!scope.itemType || i.type === scope.itemType))).map(item => ({
+    itemId: item.id,
+    code: item.code,
+    name: item.name,
+    expected: calculateStock(item, scope.locationId),
+    ...(item.type === 'product' && scope.locationId === undefined && { expectedSerials: inStockSerials(item) }),
+  }));
+
+export interface StockTakeCount {
+  itemId: string;
+  counted?: number | null; // null clears the count
+  countedSerials?: string[];
+  lotNumber?: string;
+}
+
+// Applies one (already validated) count to its line in place
+export const applyCount = (line: StockTakeLine, count: StockTakeCount) => {
+  if (count.counted === null) {
+    delete line.counted;
+    delete line.countedSerials;
+  } else if (count.counted !== undefined) {
+    line.counted = count.counted;
+  }
+  if (count.countedSerials !== undefined) {
+    if (count.countedSerials.length > 0) line.countedSerials = count.countedSerials;
+    else delete line.countedSerials;
+  }
+  if (count.lotNumber !== undefined) {
+    if (count.lotNumber) line.lotNumber = count.lotNumber;
+    else delete line.lotNumber;
+  }
+};
+
+export const isCounted = (line: StockTakeLine) => line.counted !== undefined;
+
+// The book a counted line is compared with: the snapshot while counting, the book at approval once approved
+export const bookQuantity = (line: StockTakeLine) => line.bookAtApproval ?? line.expected;
+
+// Counted minus book quantity; lines not counted yet have no variance
+export const lineVariance = (line: StockTakeLine) => isCounted(line) ? line.counted! - bookQuantity(line) : 0;
+
+// Serials on the books that were not scanned, and scanned serials the books do not expect
+export const serialDifferences = (line: StockTakeLine) => {
+  const expected = line.bookSerialsAtApproval || line.expectedSerials || [];
+  const counted = line.countedSerials || [];
+  return {
+    missing: expected.filter(s => !counted.includes(s)),
+    extra: counted.filter(s => !expected.includes(s)),
+  };
+};
+
+export const stockTakeSummary = (take: StockTake) => {
+  const counted = take.lines.filter(isCounted);
+  const variances = counted.filter(line => lineVariance(line) !== 0);
+  return {
+    total: take.lines.length,
+    counted: counted.length,
+    variances: variances.length,
+    increase: variances.reduce((acc, line) => acc + Math.max(0, lineVariance(line)), 0),
+    decrease: variances.reduce((acc, line) => acc + Math.max(0, -lineVariance(line)), 0),
+  };
+};
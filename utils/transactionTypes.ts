@@ -0,0 +1,64 @@
+import type { Item, Transaction } from '../types';
+import { activeTransactions } from './inventory';
+
+export const TRANSACTION_TYPE_LABELS: Record<Transaction['type'], string> = {
+  purchase: '입고',
+  release: '출고',
+  transfer: '이동',
+  return: '반품',
+  adjustment: '조정',
+  scrap: '폐기',
+};
+
+// Types that must carry a reason code
+export type ReasonType = 'return' | 'adjustment' | 'scrap';
+
+export const REASON_CODES: Record<ReasonType, { code: string; label: string }[]> = {
+  return: [
+    { code: 'CUSTOMER_CHANGE', label: '고객 변심' },
+    { code: 'DEFECT', label: '제품 불량' },
+    { code: 'WRONG_SHIPMENT', label: '오배송' },
+    { code: 'WARRANTY', label: '보증 수리' },
+    { code: 'OTHER', label: '기타' },
+  ],
+  adjustment: [
+    { code: 'COUNT_CORRECTION', label: '실사 차이' },
+    { code: 'ENTRY_ERROR', label: '입력 오류 정정' },
+    { code: 'FOUND', label: '재고 발견' },
+    { code: 'LOST', label: '분실' },
+    { code: 'OTHER', label: '기타' },
+  ],
+  scrap: [
+    { code: 'DAMAGED', label: '파손' },
+    { code: 'DEFECTIVE', label: '불량' },
+    { code: 'EXPIRED', label: '유효기간 경과' },
+    { code: 'OBSOLETE', label: '단종/사용 불가' },
+    { code: 'OTHER', label: '기타' },
+  ],
+};
+
+export const requiresReason = (type: Transaction['type']): type is ReasonType => Object.prototype.hasOwnProperty.call(REASON_CODES, type);
+
+export const isValidReason = (type: Transaction['type'], code: string | undefined) =>
+  requiresReason(type) && REASON_CODES[type].some(r => r.code === code);
+
+export const reasonLabel = (t: Pick<Transaction, 'type' | 'reasonCode'>) =>
+  requiresReason(t.type) ? REASON_CODES[t.type].find(r => r.code === t.reasonCode)?.label || t.reasonCode || '' : '';
+
+// Label with the direction spelled out for adjustments, e.g. "조정 +"
+export const transactionLabel = (t: Pick<Transaction, 'type' | 'adjustmentDirection'>) =>
+  t.type === 'adjustment' ? `조정 ${t.adjustmentDirection === 'decrease' ? '-' : '+'}` : TRANSACTION_TYPE_LABELS[t.type];
+
+// Quantity of a release already taken back by live returns
+export const returnedQuantity = (item: Item, releaseId: string, exceptTransactionId?: string) =>
+  activeTransactions(item)
+    .filter(t => t.type === 'return' && t.returnOfTransactionId === releaseId && t.id !== exceptTransactionId)
+    .reduce((sum, t) => sum + t.quantity, 0);
+
+// Releases that can still be (partly) returned, newest first
+export const returnableReleases = (item: Item): { release: Transaction; remaining: number }[] =>
+  activeTransactions(item)
+    .filter(t => t.type === 'release')
+    .map(release => ({ release, remaining: release.quantity - returnedQuantity(item, release.id) }))
+    .filter(r => r.remaining > 0)
+    .sort((a, b) => new Date(b.release.date).getTime() - new Date(a.release.date).getTime());
@@ -0,0 +1,135 @@
+import type { Item, Transaction, ValuationMethod } from '../types';
+import { activeTransactions, stockChange } from './inventory';
+
+export interface ValuationMovement {
+  transaction: Transaction;
+  cost: number; // 입고성(입고/반품/조정+): 입고 금액, 출고성(출고/폐기/조정-): 출고 원가
+  balanceQuantity: number;
+  balanceValue: number;
+}
+
+export interface ItemValuation {
+  quantity: number;
+  value: number;
+  unitCost: number; // 현재 재고의 평균 단가
+  movements: ValuationMovement[];
+}
+
+interface CostLayer {
+  quantity: number;
+  unitCost: number;
+}
+
+// Amounts are kept unrounded for calculation and rounded to whole won for display
+export const formatAmount = (value: number) => Math.round(value).toLocaleString();
+
+const transactionTime = (t: Transaction) => new Date(t.date).getTime();
+
+// Replays an item's live transactions in date order (ties keep their recorded order); transfers
+// between locations do not change quantity or value and are skipped.
+// Anything that adds stock (purchases, returns, upward adjustments) without a unit cost is taken in at the
+// current unit cost so it does not distort the average. Anything that removes stock (releases, scrap,
+// downward adjustments) beyond the stock on hand is costed at the current/last unit cost.
+export const valuateItem = (item: Item, method: ValuationMethod, until?: number): ItemValuation => {
+  const transactions = activeTransactions(item)
+    .filter(t => t.type !== 'transfer' && (until === undefined || transactionTime(t) < until))
+    .map((t, index) => ({ t, index }))
+    .sort((a, b) => transactionTime(a.t) - transactionTime(b.t) || a.index - b.index)
+    .map(({ t }) => t);
+
+  const movements: ValuationMovement[] = [];
+  let quantity = 0;
+  let value = 0;
+
+  if (method === 'fifo') {
+    const layers: CostLayer[] = [];
+    let lastCost = 0;
+    let shortage = 0; // released but never received; covered by the next purchases
+
+    transactions.forEach(t => {
+      let cost = 0;
+      if (stockChange(t) > 0) {
+        const unitCost = t.unitCost ?? lastCost;
+        cost = t.quantity * unitCost;
+        lastCost = unitCost;
+        const covered = Math.min(shortage, t.quantity);
+        shortage -= covered;
+        if (t.quantity > covered) layers.push({ quantity: t.quantity - covered, unitCost });
+        quantity += t.quantity;
+      } else {
+        let remaining = t.quantity;
+        while (remaining > 0 && layers.length > 0) {
+          const layer = layers[0];
+          const taken = Math.min(layer.quantity, remaining);
+          cost += taken * layer.unitCost;
+          layer.quantity -= taken;
+          remaining -= taken;
+          if (layer.quantity === 0) layers.shift();
+        }
+        cost += remaining * lastCost;
+        shortage += remaining;
+        quantity -= t.quantity;
+      }
+      value = layers.reduce((acc, layer) => acc + layer.quantity * layer.unitCost, 0);
+      movements.push({ transaction: t, cost, balanceQuantity: quantity, balanceValue: value });
+    });
+
+    return { quantity, value, unitCost: quantity > 0 ? value / quantity : lastCost, movements };
+  }
+
+  // Moving average: value always equals quantity × average cost
+  let averageCost = 0;
+  transactions.forEach(t => {
+    let cost: number;
+    if (stockChange(t) > 0) {
+      const unitCost = t.unitCost ?? averageCost;
+      cost = t.quantity * unitCost;
+      averageCost = quantity > 0 ? (quantity * averageCost + cost) / (quantity + t.quantity) : unitCost;
+      quantity += t.quantity;
+    } else {
+      cost = t.quantity * averageCost;
+      quantity -= t.quantity;
+    }
+    value = quantity * averageCost;
+    movements.push({ transaction: t, cost, balanceQuantity: quantity, balanceValue: value });
+  });
+
+  return { quantity, value, unitCost: averageCost, movements };
+};
+
+export interface ValuationReportRow {
+  item: Item;
+  openingQuantity: number;
+  openingValue: number;
+  receiptQuantity: number;
+  receiptValue: number;
+  releaseQuantity: number;
+  releaseCost: number;
+  closingQuantity: number;
+  closingValue: number;
+}
+
+// Period roll-forward per item: opening balance at `from`, receipts and cost of releases in [from, to), closing balance at `to`
+export const valuationReport = (items: Item[], method: ValuationMethod, from: number, to: number): ValuationReportRow[] =>
+  items.map(item => {
+    const { movements } = valuateItem(item, method, to);
+    const row: ValuationReportRow = {
+      item, openingQuantity: 0, openingValue: 0, receiptQuantity: 0, receiptValue: 0,
+      releaseQuantity: 0, releaseCost: 0, closingQuantity: 0, closingValue: 0,
+    };
+    movements.forEach(m => {
+      if (transactionTime(m.transaction) < from) {
+        row.openingQuantity = m.balanceQuantity;
+        row.openingValue = m.balanceValue;
+      } else if (stockChange(m.transaction) > 0) {
+        row.receiptQuantity += m.transaction.quantity;
+        row.receiptValue += m.cost;
+      } else {
+        row.releaseQuantity += m.transaction.quantity;
+        row.releaseCost += m.cost;
+      }
+      row.closingQuantity = m.balanceQuantity;
+      row.closingValue = m.balanceValue;
+    });
+    return row;
+  });
@@ -0,0 +1,78 @@
+import type { Item, Transaction } from '../types';
+import { activeTransactions, isActive } from './inventory';
+import { returnedQuantity } from './transactionTypes';
+
+// Warranties ending within this many days are flagged as expiring
+export const EXPIRING_SOON_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// active: 보증 중, expiring: 만료 임박, expired: 만료, returned: 반품되어 보증 대상 아님
+export type WarrantyState = 'active' | 'expiring' | 'expired' | 'returned';
+
+export const WARRANTY_STATE_LABELS: Record<WarrantyState, string> = {
+  active: '보증 중',
+  expiring: '만료 임박',
+  expired: '보증 만료',
+  returned: '반품됨',
+};
+
+export interface WarrantyStatus {
+  item: Item;
+  release: Transaction;
+  months: number;
+  startDate: Date; // 출고일 (현지 시간 0시)
+  endDate: Date; // 보증 마지막 날 (현지 시간 0시)
+  daysLeft: number; // 오늘부터 마지막 날까지 남은 일수 (마지막 날이 오늘이면 0, 지났으면 음수)
+  state: WarrantyState;
+}
+
+const localDay = (value: string | number | Date) => {
+  const date = new Date(value);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+};
+
+// Last covered day of a warranty of `months` starting on `start`: the day before the same date `months` later,
+// that date being clamped to the end of shorter months
+export const warrantyEndDate = (start: Date, months: number): Date => {
+  const target = new Date(start.getFullYear(), start.getMonth() + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  return new Date(target.getFullYear(), target.getMonth(), Math.min(start.getDate(), lastDay) - 1);
+};
+
+// Releases keep the period in force when they were recorded; older releases fall back to the product's current setting
+export const releaseWarrantyMonths = (item: Item, release: Transaction) => release.warrantyMonths ?? item.warrantyMonths ?? 0;
+
+// Warranty of one release, or null when the product carries none
+export const warrantyStatus = (item: Item, release: Transaction, now: number = Date.now()): WarrantyStatus | null => {
+  const months = releaseWarrantyMonths(item, release);
+  if (release.type !== 'release' || months <= 0) return null;
+  const startDate = localDay(release.date);
+  const endDate = warrantyEndDate(startDate, months);
+  const daysLeft = Math.round((endDate.getTime() - localDay(now).getTime()) / DAY_MS);
+  const returned = returnedQuantity(item, release.id) >= release.quantity;
+  const state: WarrantyState = returned ? 'returned' : daysLeft < 0 ? 'expired' : daysLeft <= EXPIRING_SOON_DAYS ? 'expiring' : 'active';
+  return { item, release, months, startDate, endDate, daysLeft, state };
+};
+
+// Warranty of every live product release that is still (at least partly) out with the customer
+export const releaseWarranties = (items: Item[], now: number = Date.now()): WarrantyStatus[] =>
+  items.filter(i => isActive(i) && i.type === 'product').flatMap(item => activeTransactions(item)
+    .map(release => warrantyStatus(item, release, now))
+    .filter((w): w is WarrantyStatus => !!w && w.state !== 'returned'));
+
+// Warranties ending between today and `days` days from now, soonest first
+export const expiringWarranties = (items: Item[], days: number, now: number = Date.now()): WarrantyStatus[] =>
+  releaseWarranties(items, now)
+    .filter(w => w.daysLeft >= 0 && w.daysLeft <= days)
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+
+export const formatDay = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Short status text such as "보증 중 · 2025-03-14까지 (D-120)"
+export const warrantySummary = (w: WarrantyStatus) => {
+  if (w.state === 'returned') return WARRANTY_STATE_LABELS.returned;
+  const remaining = w.daysLeft >= 0 ? `D-${w.daysLeft}` : `${-w.daysLeft}일 경과`;
+  return `${WARRANTY_STATE_LABELS[w.state]} · ${formatDay(w.endDate)}까지 (${remaining})`;
+};